@@ -1,45 +1,77 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { 
-  AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
-} from 'recharts';
-import { fetchWeather, searchLocation, reverseGeocode, getWeatherDescription } from './services/weatherService';
-import { getAIInsight, fetchNearbyPlacesByCategory, generatePlaceImage } from './services/geminiService';
-import { WeatherData, GeocodingResult, SavedLocation, Place } from './types';
+import {
+  fetchWeather, reverseGeocode, findPlaceBySlug, getWeatherDescription, currentHourIndex, isBadWeatherCode,
+  FORECAST_DAY_OPTIONS, loadForecastDays, persistForecastDays, weatherCacheKey
+} from './services/weatherService';
+import { getAIInsight, fallbackInsight, fetchNearbyPlacesByCategory, generatePlaceImage, fetchMoviesNearby } from './services/geminiService';
+import { deriveWeatherAlerts, localizeAlert } from './services/weatherAlerts';
+import { resolveAlerts } from './services/alertService';
+import { loadAlertRules, persistAlertRules, evaluateAlertRules } from './services/alertRules';
+import { loadActivityProfiles, persistActivityProfiles, loadSelectedActivity, persistSelectedActivity, findActivityWindows } from './services/activityPlanner';
+import { loadDismissals, dismissAlert, isDismissed, alertKey } from './services/alertDismissals';
+import {
+  NotificationSettings, loadNotificationSettings, persistNotificationSettings, requestNotificationPermission,
+  notificationsSupported, notifyNewAlerts, showNotification, isBriefingDue, msUntilNextBriefing, markBriefingSent,
+  connectPushStub, subscribeToPush
+} from './services/notificationService';
+import { cacheReadThrough, cacheGet, cacheSet, cacheClear } from './services/cacheStore';
+import { enqueueRefresh, drainRefreshQueue, onConnectivityRestored, InstallPromptEvent } from './services/offlineService';
+import {
+  createUnitFormatter, localeFor, loadUnitPreferences, persistUnitPreferences, unitPresetFor, unitsKey, UNIT_LABELS
+} from './services/units';
+import { LANGUAGES, createTranslator, loadLanguage, persistLanguage } from './services/i18n';
+import { parseLinkState, syncLinkState, applyShareMeta } from './services/linkState';
+import { loadRecentSearches, persistRecentSearches, addRecentSearch } from './services/recentSearches';
+import { locationKey, loadSavedLocations, persistSavedLocations, addSavedLocation, removeSavedLocation, moveSavedLocation } from './services/savedLocations';
+import { WeatherData, AIInsight, GeocodingResult, SavedLocation, Place, WeatherAlert, AlertRule, UnitPreferences, Language, LinkState, ActivityProfile, Movie } from './types';
 import { WeatherIconLarge } from './components/WeatherIcons';
+import { LocationDashboard } from './components/LocationDashboard';
+import { AlertRulesEditor } from './components/AlertRulesEditor';
+import { ActivityProfilesEditor } from './components/ActivityProfilesEditor';
+import { ActivityPlanner } from './components/ActivityPlanner';
+import { ConditionDetails } from './components/ConditionDetails';
+import { InsightCard } from './components/InsightCard';
+import { CinemaPanel } from './components/CinemaPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { NewsPanel } from './components/NewsPanel';
+import { HistoryCard } from './components/HistoryCard';
+import { HistoryExplorer } from './components/HistoryExplorer';
+import { ExportMenu } from './components/ExportMenu';
+import { HourlyTimeline } from './components/HourlyTimeline';
+import { LocationSearch } from './components/LocationSearch';
 import { Analytics } from "@vercel/analytics/react";
 
 type Theme = 'light' | 'dark' | 'midnight';
-type ChartRange = 6 | 12 | 24;
-
-interface WeatherAlert {
-  type: 'danger' | 'warning';
-  title: string;
-  message: string;
-  icon: string;
-}
 
 interface ExplorerCategory {
-  id: string;
+  id: 'malls' | 'parks' | 'movies' | 'restaurants';
+  /** English name, used in the places prompt; the UI shows `explorer.<id>`. */
   label: string;
   icon: string;
   places: Place[];
   loading: boolean;
 }
 
-const CACHE_KEY_WEATHER = 'skycast_weather_cache';
-const CACHE_KEY_INSIGHT = 'skycast_insight_cache';
+const CACHE_KEY_LAST_LOCATION = 'skycast_last_location';
 const CACHE_KEY_CONSENT = 'skycast_consent_granted';
-const WEATHER_TTL = 15 * 60 * 1000;
+const CACHE_KEY_TIME_DISPLAY = 'skycast_time_display';
+const LEGACY_CACHE_PREFIXES = ['skycast_weather_cache', 'skycast_insight_cache'];
 
 const App = () => {
+  // State from the link the app was opened with; its place is loaded instead of the home location.
+  const [initialLink] = useState(() => parseLinkState(window.location));
+  const pendingLinkRef = useRef<LinkState | null>(initialLink);
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<GeocodingResult[]>([]);
-  const [aiInsight, setAiInsight] = useState<string>('');
+  const [recentSearches, setRecentSearches] = useState<GeocodingResult[]>(loadRecentSearches);
+  const [aiInsight, setAiInsight] = useState<AIInsight | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const [movies, setMovies] = useState<Movie[]>([]);
+  const [moviesLoading, setMoviesLoading] = useState(false);
+  // Index of the theater card briefly ringed after a cinema link scrolls to it.
+  const [highlightedTheater, setHighlightedTheater] = useState<number | null>(null);
   
   // Categorized Activity Explorer State
   const [explorerData, setExplorerData] = useState<Record<string, ExplorerCategory>>({
@@ -51,14 +83,25 @@ const App = () => {
 
   const [showLegal, setShowLegal] = useState(false);
   const [legalTab, setLegalTab] = useState<'terms' | 'privacy' | 'data' | 'security' | 'ip' | 'disclaimer'>('terms');
-  const [chartRange, setChartRange] = useState<ChartRange>(24);
   const [showConsent, setShowConsent] = useState(() => !localStorage.getItem(CACHE_KEY_CONSENT));
   const [showLocationExplain, setShowLocationExplain] = useState(false);
-  const [dismissedAlerts, setDismissedAlerts] = useState<string[]>([]);
+  const [dismissals, setDismissals] = useState(loadDismissals);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [showRulesEditor, setShowRulesEditor] = useState(false);
+  const [activityProfiles, setActivityProfiles] = useState<ActivityProfile[]>(loadActivityProfiles);
+  const [selectedActivityId, setSelectedActivityId] = useState<string>(loadSelectedActivity);
+  const [showProfilesEditor, setShowProfilesEditor] = useState(false);
+  const [showHistoryExplorer, setShowHistoryExplorer] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(loadNotificationSettings);
 
   const [showSettings, setShowSettings] = useState(false);
-  const [settingsSearch, setSettingsSearch] = useState('');
-  const [settingsResults, setSettingsResults] = useState<GeocodingResult[]>([]);
+  const [savedLocations, setSavedLocations] = useState<SavedLocation[]>(loadSavedLocations);
+  const [dashboardWeather, setDashboardWeather] = useState<Record<string, WeatherData>>({});
+  // Locations currently shown from their last-known forecast, keyed to when that forecast was fetched.
+  const [weatherAsOf, setWeatherAsOf] = useState<Record<string, number>>({});
+  // Official alerts (or the heuristic fallback) per location, resolved whenever its forecast is stored.
+  const [alertsByKey, setAlertsByKey] = useState<Record<string, WeatherAlert[]>>({});
+  const [installPrompt, setInstallPrompt] = useState<InstallPromptEvent | null>(null);
   const [defaultLocation, setDefaultLocation] = useState<SavedLocation | null>(() => {
     const saved = localStorage.getItem('defaultLocation');
     return saved ? JSON.parse(saved) : null;
@@ -73,69 +116,151 @@ const App = () => {
     if (saved === 'light' || saved === 'dark' || saved === 'midnight') return saved;
     return 'midnight';
   });
-  const [unit, setUnit] = useState<'C' | 'F'>(() => {
-    return (localStorage.getItem('tempUnit') as 'C' | 'F') || 'C';
-  });
+  const [forecastDays, setForecastDays] = useState<number>(loadForecastDays);
+  // Whether times are shown in the searched location's timezone or the viewer's own.
+  const [timeDisplay, setTimeDisplay] = useState<'location' | 'viewer'>(() =>
+    localStorage.getItem(CACHE_KEY_TIME_DISPLAY) === 'viewer' ? 'viewer' : 'location'
+  );
+  // A linked temperature unit applies to this visit only; it's saved if the user edits their units.
+  const [units, setUnits] = useState<UnitPreferences>(() =>
+    initialLink.unit ? { ...loadUnitPreferences(), temperature: initialLink.unit } : loadUnitPreferences()
+  );
+  const [chartRange, setChartRange] = useState<number>(initialLink.range || 24);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const t = useMemo(() => createTranslator(language), [language]);
+  const format = useMemo(() => createUnitFormatter(units, localeFor(preferredCountry, language)), [units, preferredCountry, language]);
 
   const settingsRef = useRef<HTMLDivElement>(null);
+  // Key of the location on screen, so late async results for a previous location are dropped.
+  const activeKeyRef = useRef<string | null>(null);
+
+  // Units on screen, which a linked unit may set apart from the saved ones, and the current
+  // translator; read through refs by the memoised loaders so they follow later changes.
+  const unitsRef = useRef(units);
+  unitsRef.current = units;
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  // getAIInsight reads the language from storage, so the insight key does too.
+  const insightCacheKey = (data: WeatherData, insightUnits: UnitPreferences) =>
+    `${locationKey(data.location)}|${unitsKey(insightUnits)}|${loadLanguage()}`;
+
+  // Feed (or heuristic) alerts plus triggered user rules for every loaded location, minus dismissals.
+  const visibleAlertsByKey = useMemo(() => {
+    const collect = (key: string, data: WeatherData) => [
+      ...(alertsByKey[key] || deriveWeatherAlerts(data)).map(a => localizeAlert(a, t)),
+      ...evaluateAlertRules(data, alertRules, t),
+    ].filter(a => !isDismissed(dismissals, a, key));
+
+    const result: Record<string, WeatherAlert[]> = {};
+    Object.keys(dashboardWeather).forEach(key => { result[key] = collect(key, dashboardWeather[key]); });
+    if (weather) result[locationKey(weather.location)] = collect(locationKey(weather.location), weather);
+    return result;
+  }, [weather, dashboardWeather, alertsByKey, alertRules, dismissals, t]);
+
+  const activeAlerts = weather ? visibleAlertsByKey[locationKey(weather.location)] || [] : [];
 
-  const formatTemp = (celsius: number) => {
-    const value = unit === 'F' ? (celsius * 9) / 5 + 32 : celsius;
-    return Math.round(value);
-  };
+  useEffect(() => {
+    persistAlertRules(alertRules);
+  }, [alertRules]);
 
-  const getCache = (key: string) => {
-    const item = localStorage.getItem(key);
-    if (!item) return null;
-    try { return JSON.parse(item); } catch { return null; }
-  };
+  useEffect(() => {
+    persistActivityProfiles(activityProfiles);
+  }, [activityProfiles]);
 
-  const setCache = (key: string, data: any) => {
-    localStorage.setItem(key, JSON.stringify({ data, timestamp: Date.now() }));
-  };
+  useEffect(() => {
+    persistSelectedActivity(selectedActivityId);
+  }, [selectedActivityId]);
 
-  const isCacheValid = (timestamp: number, ttl: number) => (Date.now() - timestamp) < ttl;
+  const selectedActivity = activityProfiles.find(p => p.id === selectedActivityId) || activityProfiles[0];
+  const activityWindows = useMemo(
+    () => weather && selectedActivity ? findActivityWindows(weather, selectedActivity) : [],
+    [weather, selectedActivity]
+  );
 
-  const activeAlerts = useMemo(() => {
-    if (!weather) return [];
-    const alerts: WeatherAlert[] = [];
-    
-    const immediateCodes = [weather.current.weatherCode, ...weather.hourly.weatherCode.slice(0, 12)];
-    if (immediateCodes.some(c => c >= 95)) {
-      alerts.push({
-        type: 'danger',
-        title: 'Neural Storm Warning',
-        message: 'High-intensity electrical activity detected in immediate telemetry.',
-        icon: 'fa-bolt-lightning'
-      });
-    } else if (immediateCodes.some(c => c === 82 || c === 86)) {
-      alerts.push({
-        type: 'danger',
-        title: 'Critical Precipitation',
-        message: 'Violent atmospheric discharge imminent. Seek shelter.',
-        icon: 'fa-cloud-showers-heavy'
-      });
+  const updateNotificationSettings = async (changes: Partial<NotificationSettings>) => {
+    const enabling = changes.alertsEnabled || changes.briefingEnabled;
+    if (enabling && !(await requestNotificationPermission())) {
+      setError(t('error.notificationsBlocked'));
+      return;
     }
+    setNotificationSettings(prev => {
+      const next = { ...prev, ...changes };
+      persistNotificationSettings(next);
+      return next;
+    });
+  };
 
-    if (weather.daily.weatherCode.slice(1).some(c => c === 65 || c === 75)) {
-      alerts.push({
-        type: 'warning',
-        title: 'Atmospheric Escalation',
-        message: 'Heavy rain or snow expected within the 7-day outlook.',
-        icon: 'fa-triangle-exclamation'
-      });
-    }
+  // Notify once per new alert occurrence for the current location and every saved one.
+  // A location waits until its feed lookup settles, so the heuristic stand-ins shown meanwhile
+  // don't raise notifications the official answer may not bear out.
+  useEffect(() => {
+    if (!notificationSettings.alertsEnabled) return;
+    const watched = new Set<string>(savedLocations.map(loc => locationKey(loc)));
+    if (weather) watched.add(locationKey(weather.location));
+    watched.forEach(key => {
+      if (!(key in alertsByKey)) return;
+      const data = key === (weather && locationKey(weather.location)) ? weather : dashboardWeather[key];
+      const alerts = visibleAlertsByKey[key];
+      if (data && alerts?.length) notifyNewAlerts(data.location.name, key, alerts);
+    });
+  }, [visibleAlertsByKey, notificationSettings.alertsEnabled]);
 
-    return alerts.filter(a => !dismissedAlerts.includes(a.title));
-  }, [weather, dismissedAlerts]);
+  useEffect(() => {
+    if (!notificationSettings.briefingEnabled) return;
+
+    const sendBriefing = async () => {
+      const stored = localStorage.getItem(CACHE_KEY_LAST_LOCATION);
+      const loc: SavedLocation | null = defaultLocation || (stored ? JSON.parse(stored) : null);
+      if (!loc) return;
+      try {
+        const data = await cacheReadThrough('weather', weatherCacheKey(loc), () => fetchWeather(loc.latitude, loc.longitude, loc.name, loc.country));
+        const insight = await getAIInsight(data, unitsRef.current);
+        await showNotification({ title: t('notify.briefingTitle', { location: loc.name }), body: insight.summary, tag: 'skycast-briefing' });
+        setNotificationSettings(prev => markBriefingSent(prev));
+      } catch (err) {
+        console.error('Briefing failed:', err);
+      }
+    };
+
+    if (isBriefingDue(notificationSettings)) sendBriefing();
+    const timer = setTimeout(sendBriefing, msUntilNextBriefing(notificationSettings.briefingTime));
+    return () => clearTimeout(timer);
+  }, [notificationSettings, defaultLocation, t]);
+
+  // With the push stub configured, pushes arrive over its event stream; otherwise use real Web Push if set up.
+  useEffect(() => {
+    if (!notificationSettings.alertsEnabled && !notificationSettings.briefingEnabled) return;
+    const keys = savedLocations.map(locationKey);
+    const stubUrl = import.meta.env.VITE_PUSH_STUB_URL;
+    if (stubUrl) return connectPushStub(stubUrl, keys);
+    subscribeToPush(keys);
+  }, [notificationSettings.alertsEnabled, notificationSettings.briefingEnabled, savedLocations]);
 
   useEffect(() => {
     if (weather) {
       const locationName = weather.location.name;
-      const temp = formatTemp(weather.current.temp);
-      document.title = `${locationName} Weather - ${temp}°${unit} | RZeal Weather`;
+      document.title = t('app.documentTitle', { location: locationName, temp: format.temperature(weather.current.temp) });
     }
-  }, [weather, unit]);
+  }, [weather, format, t]);
+
+  // Only once the place on screen is the active one, so a link being opened isn't overwritten by the previous place.
+  useEffect(() => {
+    if (!weather || locationKey(weather.location) !== activeKeyRef.current) return;
+    syncLinkState(weather.location, chartRange, units.temperature);
+    applyShareMeta(document.title, t('share.description', {
+      location: [weather.location.name, weather.location.country].filter(Boolean).join(', '),
+      temp: format.temperature(weather.current.temp),
+      condition: t(`condition.${getWeatherDescription(weather.current.weatherCode).key}`),
+    }));
+  }, [weather, chartRange, format, t]);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.lang = language;
+    root.dir = LANGUAGES[language].dir;
+  }, [language]);
 
   useEffect(() => {
     const root = document.documentElement;
@@ -148,41 +273,81 @@ const App = () => {
     setTheme(prev => prev === 'light' ? 'dark' : (prev === 'dark' ? 'midnight' : 'light'));
   };
 
-  const toggleUnit = () => {
-    setUnit(prev => {
-      const next = prev === 'C' ? 'F' : 'C';
-      localStorage.setItem('tempUnit', next);
+  const updateUnits = (changes: Partial<UnitPreferences>) => {
+    setUnits(prev => {
+      const next = { ...prev, ...changes };
+      persistUnitPreferences(next);
       return next;
     });
   };
 
+  const updateLanguage = (next: Language) => {
+    persistLanguage(next);
+    setLanguage(next);
+    // AI text is generated in the UI language, so regenerate it; both reads are keyed by language.
+    if (weather) {
+      updateAiInsight(weather);
+      updateActivityExplorer(weather);
+      updateCinema(weather);
+    }
+  };
+
+  const toggleTimeDisplay = () => {
+    setTimeDisplay(prev => {
+      const next = prev === 'location' ? 'viewer' : 'location';
+      localStorage.setItem(CACHE_KEY_TIME_DISPLAY, next);
+      return next;
+    });
+  };
+
+  const updateForecastDays = (days: number) => {
+    persistForecastDays(days);
+    setForecastDays(days);
+    if (weather) loadWeather(weather.location.latitude, weather.location.longitude, weather.location.name, weather.location.country, true);
+  };
+
   const updateCountryPreference = (country: string) => {
+    // Units still on the old region's preset follow the new region; units the user set are kept.
+    const customised = unitsKey(units) !== unitsKey(unitPresetFor(preferredCountry));
+    const preset = unitPresetFor(country);
+    const unitsChange = !customised && unitsKey(preset) !== unitsKey(units);
     setPreferredCountry(country);
     localStorage.setItem('preferredCountry', country);
+    if (unitsChange) {
+      persistUnitPreferences(preset);
+      setUnits(preset);
+    }
     if (weather) {
-      updateAiInsight(weather, true);
+      // A units change regenerates the insight through the effect on `units`.
+      if (!unitsChange) updateAiInsight(weather, true);
       updateActivityExplorer(weather);
     }
   };
 
   const updateAiInsight = async (data: WeatherData, forceRefresh = false) => {
-    const cached = getCache(CACHE_KEY_INSIGHT);
-    if (!forceRefresh && cached && isCacheValid(cached.timestamp, WEATHER_TTL)) {
-      setAiInsight(cached.data);
-      return;
-    }
+    const key = locationKey(data.location);
+    const isCurrent = () => activeKeyRef.current === key;
+    const insightUnits = unitsRef.current;
     setIsAiLoading(true);
-    const insight = await getAIInsight(data); 
-    setAiInsight(insight);
-    setCache(CACHE_KEY_INSIGHT, insight);
-    setIsAiLoading(false);
+    try {
+      const insight = await cacheReadThrough('insight', insightCacheKey(data, insightUnits), () => getAIInsight(data, insightUnits), {
+        forceRefresh,
+        onRevalidate: (fresh) => { if (isCurrent()) setAiInsight(fresh); }
+      });
+      if (isCurrent()) setAiInsight(insight);
+    } catch (err) {
+      console.error('AI insight failed:', err);
+      if (isCurrent()) setAiInsight(fallbackInsight(tRef.current('insight.error')));
+    } finally {
+      if (isCurrent()) setIsAiLoading(false);
+    }
   };
 
   const updateActivityExplorer = async (data: WeatherData) => {
     const desc = getWeatherDescription(data.current.weatherCode).text;
     const { latitude: lat, longitude: lon } = data.location;
 
-    const categories = Object.keys(explorerData);
+    const categories = Object.keys(explorerData) as ExplorerCategory['id'][];
     
     setExplorerData(prev => {
       const next = { ...prev };
@@ -190,9 +355,29 @@ const App = () => {
       return next;
     });
 
+    const key = locationKey(data.location);
+    const isCurrent = () => activeKeyRef.current === key;
+
     const fetchPromises = categories.map(async (catId) => {
-      const places = await fetchNearbyPlacesByCategory(lat, lon, explorerData[catId].label, desc);
-      
+      const cacheKey = `${key}|${catId}|${localStorage.getItem('preferredCountry') || ''}|${loadLanguage()}`;
+      const cached = await cacheGet<Place[]>('explorer', cacheKey);
+      if (cached && !cached.fresh && isCurrent()) {
+        // Show the stale list while the refreshed one loads.
+        setExplorerData(prev => ({ ...prev, [catId]: { ...prev[catId], places: cached.data } }));
+      }
+      let places: Place[];
+      try {
+        places = cached?.fresh
+          ? cached.data
+          : await fetchNearbyPlacesByCategory(lat, lon, explorerData[catId].label, desc);
+      } catch (err) {
+        // Nothing is cached, so the next load asks again; a stale list stays up meanwhile.
+        console.error(`Explorer fetch failed for ${catId}:`, err);
+        if (isCurrent()) setExplorerData(prev => ({ ...prev, [catId]: { ...prev[catId], places: cached?.data || [], loading: false } }));
+        return;
+      }
+      if (!isCurrent()) return;
+
       setExplorerData(prev => ({
         ...prev,
         [catId]: { ...prev[catId], places, loading: false }
@@ -200,43 +385,112 @@ const App = () => {
 
       const placesWithImages = [...places];
       for (let i = 0; i < placesWithImages.length; i++) {
+        if (placesWithImages[i].imageUrl) continue;
         const img = await generatePlaceImage(placesWithImages[i].title, desc);
         if (img) {
           placesWithImages[i] = { ...placesWithImages[i], imageUrl: img };
-          setExplorerData(prev => ({
-            ...prev,
-            [catId]: { ...prev[catId], places: [...placesWithImages] }
-          }));
+          if (isCurrent()) {
+            setExplorerData(prev => ({
+              ...prev,
+              [catId]: { ...prev[catId], places: [...placesWithImages] }
+            }));
+          }
         }
       }
+      if (!cached?.fresh || placesWithImages.some((p, i) => p !== places[i])) {
+        await cacheSet('explorer', cacheKey, placesWithImages);
+      }
     });
 
     await Promise.all(fetchPromises);
   };
 
-  const loadWeather = useCallback(async (lat: number, lon: number, name: string, country: string, forceRefresh = false) => {
-    const cachedWeather = getCache(CACHE_KEY_WEATHER);
-    if (!forceRefresh && cachedWeather && isCacheValid(cachedWeather.timestamp, WEATHER_TTL)) {
-      const data = cachedWeather.data as WeatherData;
-      if (Math.abs(data.location.latitude - lat) < 0.05 && Math.abs(data.location.longitude - lon) < 0.05) {
-        setWeather(data);
-        setLoading(false);
-        updateAiInsight(data);
-        updateActivityExplorer(data);
-        return;
-      }
+  const updateCinema = async (data: WeatherData) => {
+    const key = locationKey(data.location);
+    const isCurrent = () => activeKeyRef.current === key;
+    const { latitude: lat, longitude: lon } = data.location;
+    setMovies([]);
+    setMoviesLoading(true);
+    try {
+      const list = await cacheReadThrough('movies', `${key}|${loadLanguage()}`, () => fetchMoviesNearby(lat, lon), {
+        onRevalidate: (fresh) => { if (isCurrent()) setMovies(fresh); }
+      });
+      if (isCurrent()) setMovies(list);
+    } catch (err) {
+      // Nothing is cached on failure, so the next visit asks again.
+      console.error('Movies failed:', err);
+    } finally {
+      if (isCurrent()) setMoviesLoading(false);
     }
+  };
+
+  const showTheater = (index: number) => {
+    document.getElementById(`theater-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedTheater(index);
+    setTimeout(() => setHighlightedTheater(current => current === index ? null : current), 2500);
+  };
+
+  const storeLocationWeather = (key: string, data: WeatherData) => {
+    setDashboardWeather(prev => ({ ...prev, [key]: data }));
+    resolveAlerts(data).then(alerts => setAlertsByKey(prev => ({ ...prev, [key]: alerts })));
+  };
+
+  const clearAsOf = (key: string) => {
+    setWeatherAsOf(prev => {
+      if (!(key in prev)) return prev;
+      const { [key]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  /**
+   * Reads a forecast through the cache. If the network fails, falls back to the last successful
+   * forecast for that location regardless of age, records its "as of" time and queues a refresh.
+   */
+  const readWeather = async (loc: SavedLocation, onUpdate: (data: WeatherData) => void, forceRefresh = false): Promise<WeatherData> => {
+    const key = locationKey(loc);
+    const serveLastKnown = (timestamp: number) => {
+      setWeatherAsOf(prev => ({ ...prev, [key]: timestamp }));
+      enqueueRefresh(loc);
+    };
 
-    setLoading(true);
-    setError(null);
     try {
-      const data = await fetchWeather(lat, lon, name, country);
+      const data = await cacheReadThrough('weather', weatherCacheKey(loc), () => fetchWeather(loc.latitude, loc.longitude, loc.name, loc.country), {
+        forceRefresh,
+        onRevalidate: (fresh) => { clearAsOf(key); onUpdate(fresh); },
+        onRevalidateError: (_, stale) => serveLastKnown(stale.timestamp)
+      });
+      clearAsOf(key);
+      return data;
+    } catch (err) {
+      const lastKnown = await cacheGet<WeatherData>('weather', weatherCacheKey(loc), { allowExpired: true });
+      if (!lastKnown) throw err;
+      serveLastKnown(lastKnown.timestamp);
+      return lastKnown.data;
+    }
+  };
+
+  const loadWeather = useCallback(async (lat: number, lon: number, name: string, country: string, forceRefresh = false) => {
+    const key = locationKey({ latitude: lat, longitude: lon });
+    activeKeyRef.current = key;
+
+    const applyWeather = (data: WeatherData) => {
+      storeLocationWeather(key, data);
+      if (activeKeyRef.current !== key) return;
       setWeather(data);
-      setCache(CACHE_KEY_WEATHER, data);
-      updateAiInsight(data, true);
+      updateAiInsight(data);
       updateActivityExplorer(data);
+      updateCinema(data);
+    };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await readWeather({ name, country, latitude: lat, longitude: lon }, applyWeather, forceRefresh);
+      localStorage.setItem(CACHE_KEY_LAST_LOCATION, JSON.stringify({ ...data.location }));
+      applyWeather(data);
     } catch (err) {
-      setError('Telemetry link failed. Check connection.');
+      setError(tRef.current('error.telemetry'));
     } finally {
       setLoading(false);
     }
@@ -244,14 +498,14 @@ const App = () => {
 
   const requestGeolocation = () => {
     if (!navigator.geolocation) {
-      setError('Geolocation not supported by client.');
+      setError(t('error.geolocationUnsupported'));
       return;
     }
     setLoading(true);
     navigator.geolocation.getCurrentPosition(
       async (position) => {
         const { latitude, longitude } = position.coords;
-        const info = await reverseGeocode(latitude, longitude);
+        const info = await reverseGeocode(latitude, longitude, language);
         loadWeather(latitude, longitude, info.name, info.country);
         setShowLocationExplain(false);
       },
@@ -259,7 +513,7 @@ const App = () => {
         if (defaultLocation) {
           loadWeather(defaultLocation.latitude, defaultLocation.longitude, defaultLocation.name, defaultLocation.country);
         } else {
-          setError('Location access denied. Use search or set home anchor.');
+          setError(t('error.locationDenied'));
           setLoading(false);
         }
         setShowLocationExplain(false);
@@ -267,21 +521,162 @@ const App = () => {
     );
   };
 
-  useEffect(() => {
+  /**
+   * Shows the place and view a link describes. Links without a name are reverse geocoded, and
+   * `/w/<slug>` links without coordinates are looked up. Resolves false if no place was found.
+   */
+  const openLink = async (link: LinkState): Promise<boolean> => {
+    if (link.range) setChartRange(link.range);
+    if (link.unit) setUnits(prev => ({ ...prev, temperature: link.unit! }));
+
+    let loc: SavedLocation | null = link.location || null;
+    if (loc && !loc.name) {
+      const { name, country } = await reverseGeocode(loc.latitude, loc.longitude, language);
+      loc = { ...loc, name, country };
+    }
+    if (!loc && link.slug) {
+      const found = await findPlaceBySlug(link.slug, language);
+      loc = found && { name: found.name, country: found.country, latitude: found.latitude, longitude: found.longitude };
+    }
+    if (!loc) return false;
+    if (locationKey(loc) !== activeKeyRef.current) loadWeather(loc.latitude, loc.longitude, loc.name, loc.country);
+    return true;
+  };
+
+  const loadHome = useCallback(() => {
     if (defaultLocation) {
       loadWeather(defaultLocation.latitude, defaultLocation.longitude, defaultLocation.name, defaultLocation.country);
     } else {
-      const cached = getCache(CACHE_KEY_WEATHER);
-      if (cached && isCacheValid(cached.timestamp, WEATHER_TTL)) {
-        loadWeather(cached.data.location.latitude, cached.data.location.longitude, cached.data.location.name, cached.data.location.country);
+      const lastLocation = localStorage.getItem(CACHE_KEY_LAST_LOCATION);
+      if (lastLocation) {
+        const loc: SavedLocation = JSON.parse(lastLocation);
+        loadWeather(loc.latitude, loc.longitude, loc.name, loc.country);
       } else {
         setLoading(false); 
       }
     }
   }, [defaultLocation, loadWeather]);
 
-  const deleteUserData = () => {
+  useEffect(() => {
+    // The opening link is honoured once; later home location changes load as before.
+    const link = pendingLinkRef.current;
+    pendingLinkRef.current = null;
+    if (link?.location || link?.slug) {
+      openLink(link)
+        .then(found => { if (!found) loadHome(); })
+        .catch(() => loadHome());
+    } else {
+      loadHome();
+    }
+  }, [loadHome]);
+
+  useEffect(() => {
+    // Entries without link state (the bare app URL) go back to the home location.
+    const onPopState = () => {
+      openLink(parseLinkState(window.location))
+        .then(found => { if (!found) loadHome(); })
+        .catch(() => loadHome());
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [loadHome, language]);
+
+  useEffect(() => {
+    // Drop the single-slot localStorage caches this store replaced.
+    Object.keys(localStorage)
+      .filter(k => LEGACY_CACHE_PREFIXES.some(prefix => k.startsWith(prefix)))
+      .forEach(k => localStorage.removeItem(k));
+  }, []);
+
+  useEffect(() => {
+    if (weather) updateAiInsight(weather);
+  }, [units]);
+
+  useEffect(() => onConnectivityRestored(() => {
+    drainRefreshQueue().forEach(async (loc) => {
+      const key = locationKey(loc);
+      if (key === activeKeyRef.current) {
+        loadWeather(loc.latitude, loc.longitude, loc.name, loc.country, true);
+        return;
+      }
+      const store = (data: WeatherData) => storeLocationWeather(key, data);
+      try {
+        store(await readWeather(loc, store, true));
+      } catch (err) {
+        console.error(`Queued refresh failed for ${loc.name}:`, err);
+      }
+    });
+  }), [loadWeather]);
+
+  useEffect(() => {
+    const onPrompt = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as InstallPromptEvent);
+    };
+    const onInstalled = () => setInstallPrompt(null);
+    window.addEventListener('beforeinstallprompt', onPrompt);
+    window.addEventListener('appinstalled', onInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', onPrompt);
+      window.removeEventListener('appinstalled', onInstalled);
+    };
+  }, []);
+
+  const installApp = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    setInstallPrompt(null);
+  };
+
+  useEffect(() => {
+    persistSavedLocations(savedLocations);
+    savedLocations.forEach(async (loc) => {
+      const key = locationKey(loc);
+      const store = (data: WeatherData) => storeLocationWeather(key, data);
+      try {
+        store(await readWeather(loc, store));
+      } catch (err) {
+        console.error(`Watchlist fetch failed for ${loc.name}:`, err);
+      }
+    });
+  }, [savedLocations]);
+
+  const isCurrentSaved = weather ? savedLocations.some(l => locationKey(l) === locationKey(weather.location)) : false;
+
+  const toggleSaveCurrent = () => {
+    if (!weather) return;
+    const key = locationKey(weather.location);
+    setSavedLocations(prev => isCurrentSaved ? removeSavedLocation(prev, key) : addSavedLocation(prev, weather.location));
+  };
+
+  const shareCurrent = async () => {
+    const url = window.location.href;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: document.title, url });
+      } catch {
+        // Closing the share sheet rejects; nothing to do.
+      }
+      return;
+    }
+    await navigator.clipboard.writeText(url);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const handleSelectSaved = (loc: SavedLocation) => {
+    loadWeather(loc.latitude, loc.longitude, loc.name, loc.country);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleAddToWatchlist = (loc: GeocodingResult) => {
+    setSavedLocations(prev => addSavedLocation(prev, loc));
+  };
+
+  const deleteUserData = async () => {
     localStorage.clear();
+    await cacheClear();
     window.location.reload();
   };
 
@@ -290,40 +685,24 @@ const App = () => {
     setShowConsent(false);
   };
 
-  const handleSearchChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setSearchQuery(val);
-    if (val.length > 2) {
-      const results = await searchLocation(val);
-      setSearchResults(results);
-    } else {
-      setSearchResults([]);
-    }
-  };
-
   const handleSelectLocation = (loc: GeocodingResult) => {
-    setSearchQuery('');
-    setSearchResults([]);
-    loadWeather(loc.latitude, loc.longitude, loc.name, loc.country, true);
+    setRecentSearches(prev => {
+      const next = addRecentSearch(prev, loc);
+      persistRecentSearches(next);
+      return next;
+    });
+    loadWeather(loc.latitude, loc.longitude, loc.name, loc.country);
   };
 
-  const handleSettingsSearchChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setSettingsSearch(val);
-    if (val.length > 2) {
-      const results = await searchLocation(val);
-      setSettingsResults(results);
-    } else {
-      setSettingsResults([]);
-    }
+  const clearRecentSearches = () => {
+    setRecentSearches([]);
+    persistRecentSearches([]);
   };
 
   const handleSetDefaultLocation = (loc: GeocodingResult) => {
     const saved: SavedLocation = { ...loc };
     setDefaultLocation(saved);
     localStorage.setItem('defaultLocation', JSON.stringify(saved));
-    setSettingsSearch('');
-    setSettingsResults([]);
     loadWeather(loc.latitude, loc.longitude, loc.name, loc.country, true);
     setShowSettings(false);
   };
@@ -334,7 +713,7 @@ const App = () => {
         <div className="w-16 h-16 border-4 border-blue-500/10 rounded-full relative">
           <div className="absolute top-0 left-0 w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
         </div>
-        <p className="mt-4 font-black tracking-widest uppercase text-[10px]">Syncing Atmospheric Telemetry</p>
+        <p className="mt-4 font-black tracking-widest uppercase text-[10px]">{t('app.loading')}</p>
       </div>
     );
   }
@@ -342,15 +721,23 @@ const App = () => {
   const desc = weather ? getWeatherDescription(weather.current.weatherCode) : null;
   const isLight = theme === 'light';
   const atmosphericGradient = desc?.bg || 'from-slate-900 to-black';
-
-  const chartData = weather ? weather.hourly.time.map((time, i) => ({
-    time: new Date(time).getHours() + ":00",
-    temp: formatTemp(weather.hourly.temperature[i]),
-    precip: weather.hourly.precipitation[i],
-    code: weather.hourly.weatherCode[i],
-    displayTime: new Date(time).toLocaleTimeString('en-US', { hour: 'numeric' }),
-    rawDate: new Date(time)
-  })).slice(0, chartRange) : [];
+  const displayZone = weather && timeDisplay === 'location' ? weather.location.timezone : undefined;
+  // Rain, snow or storms now or in the next few hours put the cinema panel up top.
+  const nowIndex = weather ? currentHourIndex(weather.hourly.time) : 0;
+  const cinemaFeatured = !!weather &&
+    [weather.current.weatherCode, ...weather.hourly.weatherCode.slice(nowIndex, nowIndex + 3)].some(isBadWeatherCode);
+  const cinemaPanel = weather && (
+    <CinemaPanel
+      movies={movies}
+      isLoading={moviesLoading}
+      theaters={explorerData.movies.places}
+      locationName={weather.location.name}
+      featured={cinemaFeatured}
+      isLight={isLight}
+      t={t}
+      onShowTheater={showTheater}
+    />
+  );
 
   return (
     <div className={`min-h-screen relative overflow-hidden transition-all duration-1000 ${isLight ? 'text-slate-900' : 'text-white'} p-3 md:p-6`}>
@@ -363,45 +750,59 @@ const App = () => {
           <button 
             onClick={() => setShowLocationExplain(true)} 
             className="flex items-center gap-3 group focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-xl p-1"
-            aria-label="Refresh current location weather"
+            aria-label={t('app.refreshLocation')}
           >
             <div className={`${!isLight ? 'bg-white/10' : 'bg-blue-600'} p-2 rounded-xl shadow-xl transition-all group-hover:scale-110`}>
               <i className="fa-solid fa-wind text-xl text-white"></i>
             </div>
-            <div className="text-left">
+            <div className="text-start">
               <h1 className="text-2xl font-black leading-none tracking-tighter">SkyCast AI</h1>
-              <span className="text-[8px] font-black uppercase tracking-widest opacity-50">Neural Mapping Link</span>
+              <span className="text-[8px] font-black uppercase tracking-widest opacity-50">{t('app.tagline')}</span>
             </div>
           </button>
           
           <div className="flex items-center gap-3 w-full sm:w-auto">
             <nav className="relative flex-1 sm:w-80 group">
-              <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-white/30"></i>
-              <input
-                type="text"
-                aria-label="Search city atmosphere"
-                className={`w-full rounded-2xl py-2.5 pl-12 pr-6 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/5 border border-white/10 text-white' : 'bg-white border border-slate-200 text-slate-900 shadow-sm'}`}
-                placeholder="Query atmosphere..."
-                value={searchQuery}
-                onChange={handleSearchChange}
+              <i className="fa-solid fa-magnifying-glass absolute start-4 top-1/2 -translate-y-1/2 z-10 pointer-events-none text-white/30"></i>
+              <LocationSearch
+                language={language}
+                format={format}
+                t={t}
+                isLight={isLight}
+                ariaLabel={t('header.search')}
+                placeholder={t('header.searchPlaceholder')}
+                inputClassName={`w-full rounded-2xl py-2.5 ps-12 pe-6 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/5 border border-white/10 text-white' : 'bg-white border border-slate-200 text-slate-900 shadow-sm'}`}
+                onSelect={handleSelectLocation}
+                recent={recentSearches}
+                onClearRecent={clearRecentSearches}
               />
-              {searchResults.length > 0 && (
-                <div className={`absolute top-full left-0 right-0 mt-2 rounded-xl overflow-hidden z-50 shadow-2xl ${!isLight ? 'glass-card' : 'bg-white border border-slate-100'}`}>
-                  {searchResults.map((res, idx) => (
-                    <button key={idx} onClick={() => handleSelectLocation(res)} className="w-full text-left px-5 py-3 border-b last:border-0 flex flex-col hover:bg-blue-500/10 focus:bg-blue-500/10 focus:outline-none">
-                      <span className="font-bold text-sm">{res.name}</span>
-                      <span className="text-[8px] uppercase tracking-widest opacity-50">{res.country}</span>
-                    </button>
-                  ))}
-                </div>
-              )}
             </nav>
             
             <div className="flex items-center gap-2">
+              {installPrompt && (
+                <button
+                  onClick={installApp}
+                  className={`p-2.5 rounded-xl shadow-xl active:scale-90 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/10 text-emerald-400' : 'bg-white text-emerald-600'}`}
+                  aria-label={t('header.install')}
+                  title={t('header.install')}
+                >
+                  <i className="fa-solid fa-download text-lg"></i>
+                </button>
+              )}
+              {weather && (
+                <button
+                  onClick={() => setShowHistoryExplorer(true)}
+                  className={`p-2.5 rounded-xl shadow-xl active:scale-90 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/10 text-blue-400' : 'bg-white text-blue-600'}`}
+                  aria-label={t('header.history')}
+                  title={t('header.history')}
+                >
+                  <i className="fa-solid fa-clock-rotate-left text-lg"></i>
+                </button>
+              )}
               <button 
                 onClick={cycleTheme} 
                 className={`p-2.5 rounded-xl shadow-xl active:scale-90 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/10 text-amber-400' : 'bg-white text-indigo-600'}`}
-                aria-label="Switch interface theme"
+                aria-label={t('header.theme')}
               >
                 <i className={`fa-solid ${theme === 'light' ? 'fa-sun' : (theme === 'dark' ? 'fa-moon' : 'fa-circle-half-stroke')} text-lg`}></i>
               </button>
@@ -410,19 +811,30 @@ const App = () => {
                 <button 
                   onClick={() => setShowSettings(!showSettings)} 
                   className={`p-2.5 rounded-xl shadow-xl active:scale-90 focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/10 text-blue-400' : 'bg-white text-blue-600'}`}
-                  aria-label="System configuration"
+                  aria-label={t('header.settings')}
                 >
                   <i className="fa-solid fa-gear text-lg"></i>
                 </button>
                 {showSettings && (
-                  <div ref={settingsRef} className={`absolute top-full right-0 mt-4 w-72 md:w-80 rounded-[2rem] p-6 z-[100] shadow-2xl ${!isLight ? 'glass-card' : 'bg-white border border-slate-100'}`}>
-                    <h4 className="text-xs font-black uppercase tracking-widest opacity-50 mb-4">System Config</h4>
+                  <div ref={settingsRef} className={`absolute top-full end-0 mt-4 w-72 md:w-80 rounded-[2rem] p-6 z-[100] shadow-2xl ${!isLight ? 'glass-card' : 'bg-white border border-slate-100'}`}>
+                    <h4 className="text-xs font-black uppercase tracking-widest opacity-50 mb-4">{t('settings.title')}</h4>
                     <div className="space-y-6">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-black uppercase opacity-40">{t('settings.language')}</span>
+                        <select
+                          aria-label={t('settings.language')}
+                          className={`rounded-lg py-1 px-2 text-[10px] font-black focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                          value={language}
+                          onChange={(e) => updateLanguage(e.target.value as Language)}
+                        >
+                          {(Object.keys(LANGUAGES) as Language[]).map(code => <option key={code} value={code} lang={code}>{LANGUAGES[code].label}</option>)}
+                        </select>
+                      </div>
                       <div className="space-y-3">
-                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">Country Regional Preference</label>
+                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('settings.region')}</label>
                         <input
                           type="text"
-                          placeholder="e.g. USA, UK, France..."
+                          placeholder={t('settings.regionPlaceholder')}
                           className={`w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
                           value={preferredCountry}
                           onChange={(e) => updateCountryPreference(e.target.value)}
@@ -430,18 +842,92 @@ const App = () => {
                       </div>
 
                       <div className="space-y-3">
-                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">Home Anchor</label>
-                        <input
-                          type="text"
-                          placeholder="Set default city..."
-                          className={`w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
-                          value={settingsSearch}
-                          onChange={handleSettingsSearchChange}
+                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('settings.home')}</label>
+                        <LocationSearch
+                          variant="inline"
+                          language={language}
+                          format={format}
+                          t={t}
+                          isLight={isLight}
+                          ariaLabel={t('settings.home')}
+                          placeholder={t('settings.homePlaceholder')}
+                          inputClassName={`w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                          onSelect={handleSetDefaultLocation}
                         />
                       </div>
+                      <div className="space-y-3">
+                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('settings.watchlist')}</label>
+                        <LocationSearch
+                          variant="inline"
+                          actionIcon="fa-plus"
+                          language={language}
+                          format={format}
+                          t={t}
+                          isLight={isLight}
+                          ariaLabel={t('settings.watchlist')}
+                          placeholder={t('settings.watchlistPlaceholder')}
+                          inputClassName={`w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                          onSelect={handleAddToWatchlist}
+                        />
+                      </div>
+                      {notificationsSupported() && (
+                        <div className="space-y-3">
+                          <label className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('settings.notifications')}</label>
+                          <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-bold uppercase opacity-60">{t('settings.newAlerts')}</span>
+                            <button onClick={() => updateNotificationSettings({ alertsEnabled: !notificationSettings.alertsEnabled })} className="px-3 py-1.5 rounded-lg font-black text-[10px] uppercase bg-blue-500/10 text-blue-500">{t(notificationSettings.alertsEnabled ? 'common.on' : 'common.off')}</button>
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] font-bold uppercase opacity-60">{t('settings.briefing')}</span>
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="time"
+                                aria-label={t('settings.briefingTime')}
+                                className={`rounded-lg py-1 px-2 text-[10px] focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                                value={notificationSettings.briefingTime}
+                                onChange={(e) => updateNotificationSettings({ briefingTime: e.target.value })}
+                              />
+                              <button onClick={() => updateNotificationSettings({ briefingEnabled: !notificationSettings.briefingEnabled })} className="px-3 py-1.5 rounded-lg font-black text-[10px] uppercase bg-blue-500/10 text-blue-500">{t(notificationSettings.briefingEnabled ? 'common.on' : 'common.off')}</button>
+                            </div>
+                          </div>
+                        </div>
+                      )}
                       <div className="flex items-center justify-between">
-                        <span className="text-[10px] font-black uppercase opacity-40">Thermal Scale</span>
-                        <button onClick={toggleUnit} className="px-3 py-1.5 rounded-lg font-black text-[10px] bg-blue-500/10 text-blue-500">{unit === 'C' ? 'CELSIUS' : 'FAHRENHEIT'}</button>
+                        <span className="text-[10px] font-black uppercase opacity-40">{t('settings.alertRules')}</span>
+                        <button onClick={() => { setShowRulesEditor(true); setShowSettings(false); }} className="px-3 py-1.5 rounded-lg font-black text-[10px] uppercase bg-blue-500/10 text-blue-500">{t('settings.rulesActive', { count: alertRules.filter(r => r.enabled).length })}</button>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-black uppercase opacity-40">{t('settings.forecastLength')}</span>
+                        <select
+                          aria-label={t('settings.forecastLength')}
+                          className={`rounded-lg py-1 px-2 text-[10px] font-black focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                          value={forecastDays}
+                          onChange={(e) => updateForecastDays(Number(e.target.value))}
+                        >
+                          {FORECAST_DAY_OPTIONS.map(days => <option key={days} value={days}>{t('settings.forecastDays', { count: days })}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-black uppercase opacity-40">{t('settings.timeDisplay')}</span>
+                        <button onClick={toggleTimeDisplay} className="px-3 py-1.5 rounded-lg font-black text-[10px] uppercase bg-blue-500/10 text-blue-500">{t(timeDisplay === 'location' ? 'settings.timeLocation' : 'settings.timeViewer')}</button>
+                      </div>
+                      <div className="space-y-3">
+                        <label className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('settings.units')}</label>
+                        {(Object.keys(UNIT_LABELS) as (keyof UnitPreferences)[]).map(kind => (
+                          <div key={kind} className="flex items-center justify-between">
+                            <span className="text-[10px] font-black uppercase opacity-40">{t(`settings.unit.${kind}`)}</span>
+                            <select
+                              aria-label={t('settings.unitLabel', { kind: t(`settings.unit.${kind}`) })}
+                              className={`rounded-lg py-1 px-2 text-[10px] font-black focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`}
+                              value={units[kind]}
+                              onChange={(e) => updateUnits({ [kind]: e.target.value })}
+                            >
+                              {Object.keys(UNIT_LABELS[kind]).map(value => (
+                                <option key={value} value={value}>{(UNIT_LABELS[kind] as Record<string, string>)[value]}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -451,19 +937,68 @@ const App = () => {
           </div>
         </header>
 
+        {savedLocations.length > 0 && (
+          <LocationDashboard
+            locations={savedLocations}
+            weatherByKey={dashboardWeather}
+            alertsByKey={visibleAlertsByKey}
+            asOfByKey={weatherAsOf}
+            activeKey={weather ? locationKey(weather.location) : null}
+            isLight={isLight}
+            format={format}
+            t={t}
+            onSelect={handleSelectSaved}
+            onRemove={(key) => setSavedLocations(prev => removeSavedLocation(prev, key))}
+            onMove={(from, to) => setSavedLocations(prev => moveSavedLocation(prev, from, to))}
+          />
+        )}
+
         {weather ? (
           <main className="grid grid-cols-1 lg:grid-cols-12 gap-5">
             <section className="lg:col-span-8 space-y-8">
+              {weatherAsOf[locationKey(weather.location)] && (
+                <div className="rounded-3xl p-5 flex items-center gap-5 border bg-sky-500/10 border-sky-500/30 text-sky-400" role="status">
+                  <i className="fa-solid fa-cloud-arrow-down text-xl shrink-0"></i>
+                  <div className="flex-1">
+                    <h4 className="text-[11px] font-black uppercase tracking-[0.2em] mb-1">{t('offline.title')}</h4>
+                    <p className="text-xs font-bold leading-tight opacity-80">
+                      {t('offline.message', { time: format.dateTime(weatherAsOf[locationKey(weather.location)], { weekday: 'short', hour: 'numeric', minute: '2-digit' }) })}
+                    </p>
+                  </div>
+                  <button onClick={() => loadWeather(weather.location.latitude, weather.location.longitude, weather.location.name, weather.location.country, true)} className="p-2 hover:bg-white/10 rounded-lg" aria-label={t('offline.retry')}><i className="fa-solid fa-rotate-right"></i></button>
+                </div>
+              )}
+
               {activeAlerts.length > 0 && (
                 <div className="space-y-3">
                   {activeAlerts.map((alert, idx) => (
-                    <div key={idx} className={`relative overflow-hidden rounded-3xl p-5 flex items-center gap-5 border shadow-2xl transition-all ${alert.type === 'danger' ? 'bg-rose-500/10 border-rose-500/30 text-rose-500' : 'bg-amber-500/10 border-amber-500/30 text-amber-500'}`}>
+                    <div key={alertKey(alert)} className={`relative overflow-hidden rounded-3xl p-5 flex items-center gap-5 border shadow-2xl transition-all ${alert.type === 'danger' ? 'bg-rose-500/10 border-rose-500/30 text-rose-500' : 'bg-amber-500/10 border-amber-500/30 text-amber-500'}`}>
                       <i className={`fa-solid ${alert.icon} text-xl shrink-0`}></i>
-                      <div className="flex-1">
-                        <h4 className="text-[11px] font-black uppercase tracking-[0.2em] mb-1">{alert.title}</h4>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <h4 className="text-[11px] font-black uppercase tracking-[0.2em]">{alert.title}</h4>
+                          {alert.source === 'official' ? (
+                            <>
+                              {alert.severity && <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full bg-white/10 border border-current/30">{t(`alerts.severity.${alert.severity}`)}</span>}
+                              {alert.urgency && <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full border border-current/30 opacity-70">{t(`alerts.urgency.${alert.urgency}`)}</span>}
+                            </>
+                          ) : alert.source === 'rule' ? (
+                            <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full border border-current/30 opacity-70">{t('alerts.yourRule')}</span>
+                          ) : (
+                            <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full border border-current/30 opacity-70">{t('alerts.estimate')}</span>
+                          )}
+                        </div>
                         <p className="text-xs font-bold leading-tight opacity-80">{alert.message}</p>
+                        {alert.source === 'official' && (
+                          <p className="text-[9px] font-bold uppercase tracking-wider opacity-50 mt-2">
+                            {alert.issuer}
+                            {alert.onset && ` · ${t('alerts.from', { time: format.dateTime(alert.onset, { weekday: 'short', hour: 'numeric', minute: '2-digit' }, displayZone) })}`}
+                            {alert.expires && ` · ${t('alerts.until', { time: format.dateTime(alert.expires, { weekday: 'short', hour: 'numeric', minute: '2-digit' }, displayZone) })}`}
+                            {alert.url && <> · <a href={alert.url} target="_blank" rel="noopener noreferrer" className="underline">{t('alerts.details')}</a></>}
+                          </p>
+                        )}
                       </div>
-                      <button onClick={() => setDismissedAlerts(prev => [...prev, alert.title])} className="p-2 hover:bg-white/10 rounded-lg"><i className="fa-solid fa-xmark"></i></button>
+                      <button onClick={() => setDismissals(prev => dismissAlert(prev, alert, locationKey(weather.location)))} className="p-2 hover:bg-white/10 rounded-lg" aria-label={t('alerts.dismiss', { title: alert.title })}><i className="fa-solid fa-xmark"></i></button>
                     </div>
                   ))}
                 </div>
@@ -472,10 +1007,42 @@ const App = () => {
               <article className="glass-card rounded-[2.5rem] p-8 relative overflow-hidden">
                 <div className="flex flex-col md:flex-row justify-between items-center relative z-10 gap-8">
                   <div className="space-y-4">
-                    <h2 className="text-5xl md:text-7xl font-black tracking-tighter leading-none">{weather.location.name}</h2>
-                    <p className="text-base font-medium opacity-50 uppercase tracking-[0.3em]">{new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+                    <div className="flex items-center gap-4">
+                      <h2 className="text-5xl md:text-7xl font-black tracking-tighter leading-none">{weather.location.name}</h2>
+                      <button
+                        onClick={toggleSaveCurrent}
+                        className={`p-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 ${isCurrentSaved ? 'text-amber-400' : 'opacity-30 hover:opacity-100'}`}
+                        aria-label={t(isCurrentSaved ? 'hero.unsave' : 'hero.save')}
+                        title={t(isCurrentSaved ? 'hero.unsave' : 'hero.save')}
+                      >
+                        <i className={`${isCurrentSaved ? 'fa-solid' : 'fa-regular'} fa-star text-2xl`}></i>
+                      </button>
+                      <button
+                        onClick={shareCurrent}
+                        className={`p-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 ${linkCopied ? 'text-emerald-400' : 'opacity-30 hover:opacity-100'}`}
+                        aria-label={t(linkCopied ? 'hero.linkCopied' : 'hero.share')}
+                        title={t(linkCopied ? 'hero.linkCopied' : 'hero.share')}
+                      >
+                        <i className={`fa-solid ${linkCopied ? 'fa-check' : 'fa-share-nodes'} text-2xl`}></i>
+                      </button>
+                      <ExportMenu
+                        weather={weather}
+                        alerts={activeAlerts}
+                        language={language}
+                        region={preferredCountry}
+                        isLight={isLight}
+                        format={format}
+                        t={t}
+                        timeZone={displayZone}
+                      />
+                    </div>
+                    <p className="text-base font-medium opacity-50 uppercase tracking-[0.3em]">{format.dateTime(Date.now(), { weekday: 'long', month: 'long', day: 'numeric' }, weather.location.timezone)}</p>
+                    <button onClick={toggleTimeDisplay} className="text-[10px] font-black uppercase tracking-widest opacity-40 hover:opacity-100 transition-opacity" title={t('hero.toggleTime')}>
+                      <i className="fa-regular fa-clock me-2"></i>
+                      {format.dateTime(Date.now(), { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }, displayZone)} · {t(timeDisplay === 'location' ? 'hero.localTime' : 'hero.yourTime')}
+                    </button>
                     <div className="pt-6 flex items-center gap-6">
-                      <span className="text-8xl md:text-9xl font-black tracking-tighter leading-none">{formatTemp(weather.current.temp)}°</span>
+                      <span className="text-8xl md:text-9xl font-black tracking-tighter leading-none">{format.degrees(weather.current.temp)}</span>
                       <div className="flex flex-col gap-4">
                          <div className="flex items-center gap-4">
                            <div className={`relative w-16 h-16 rounded-full border-2 flex items-center justify-center transition-all ${!isLight ? 'bg-white/5 border-white/10' : 'bg-white border-slate-100'}`}>
@@ -486,8 +1053,11 @@ const App = () => {
                               </div>
                            </div>
                            <div className="flex flex-col">
-                              <span className="text-[12px] font-black uppercase">{weather.current.windSpeed} km/h</span>
-                              <span className="text-[10px] font-bold opacity-30 uppercase">Wind Gusts</span>
+                              <span className="text-[12px] font-black uppercase">{format.wind(weather.current.windSpeed)}</span>
+                              <span className="text-[10px] font-bold opacity-30 uppercase">{t('hero.windSpeed')}</span>
+                              {Number.isFinite(weather.hourly.windGusts[currentHourIndex(weather.hourly.time)]) && (
+                                <span className="text-[10px] font-bold opacity-50 uppercase mt-1">{t('hero.gusts', { value: format.wind(weather.hourly.windGusts[currentHourIndex(weather.hourly.time)]) })}</span>
+                              )}
                            </div>
                          </div>
                       </div>
@@ -495,45 +1065,42 @@ const App = () => {
                   </div>
                   <div className="flex flex-col items-center">
                     <WeatherIconLarge code={weather.current.weatherCode} className="text-9xl mb-6 drop-shadow-2xl animate-float" />
-                    <p className="text-4xl font-black uppercase tracking-tighter">{desc?.text}</p>
+                    <p className="text-4xl font-black uppercase tracking-tighter">{desc && t(`condition.${desc.key}`)}</p>
                   </div>
                 </div>
               </article>
 
-              <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
-                <div className="h-64 w-full">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={chartData}>
-                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={!isLight ? "rgba(255,255,255,0.03)" : "rgba(0,0,0,0.05)"} />
-                      <XAxis dataKey="time" strokeOpacity={0.4} fontSize={10} fontWeight={900} />
-                      <YAxis hide domain={['dataMin - 2', 'dataMax + 2']} />
-                      <Tooltip contentStyle={{ borderRadius: '1.5rem', border: 'none', background: 'rgba(0,0,0,0.85)', color: 'white', backdropFilter: 'blur(10px)' }} />
-                      <Area type="monotone" dataKey="temp" stroke="#3b82f6" strokeWidth={4} fillOpacity={0.3} fill="#3b82f6" />
-                    </AreaChart>
-                  </ResponsiveContainer>
-                </div>
-              </section>
+              {cinemaFeatured && cinemaPanel}
+
+              <HourlyTimeline weather={weather} isLight={isLight} format={format} t={t} timeZone={displayZone} range={chartRange} onRangeChange={setChartRange} highlights={activityWindows} />
+
+              <ActivityPlanner
+                weather={weather}
+                profiles={activityProfiles}
+                selected={selectedActivity}
+                windows={activityWindows}
+                isLight={isLight}
+                format={format}
+                t={t}
+                timeZone={displayZone}
+                onSelect={setSelectedActivityId}
+                onEdit={() => setShowProfilesEditor(true)}
+              />
 
-              <div className="ai-glow backdrop-blur-3xl rounded-[2rem] p-8 shadow-xl">
-                 <h3 className="text-xs font-black uppercase tracking-widest mb-6 flex items-center gap-3">
-                    <i className="fa-solid fa-sparkles text-blue-500 animate-pulse"></i> Neural Atmospheric Insight
-                 </h3>
-                 {isAiLoading ? (
-                   <div className="space-y-3">
-                     <div className="h-3 w-full bg-blue-500/10 rounded animate-pulse"></div>
-                     <div className="h-3 w-2/3 bg-blue-500/10 rounded animate-pulse"></div>
-                   </div>
-                 ) : (
-                   <p className="text-lg font-medium leading-relaxed italic opacity-90">{aiInsight}</p>
-                 )}
-              </div>
+              <ConditionDetails weather={weather} isLight={isLight} format={format} t={t} timeZone={displayZone} />
+
+              <HistoryCard weather={weather} isLight={isLight} format={format} t={t} />
+
+              <InsightCard insight={aiInsight} isLoading={isAiLoading} weather={weather} isLight={isLight} format={format} t={t} timeZone={displayZone} />
+
+              <ChatPanel weather={weather} units={units} isLight={isLight} t={t} />
 
               <section className="space-y-12 pb-12">
                 <div className="flex flex-col gap-2 px-2">
                   <h3 className="text-xl font-black uppercase tracking-widest flex items-center gap-3">
-                    <i className="fa-solid fa-map-location-dot text-blue-500"></i> Local Activity Explorer
+                    <i className="fa-solid fa-map-location-dot text-blue-500"></i> {t('explorer.title')}
                   </h3>
-                  <p className="text-[10px] font-black uppercase opacity-30 tracking-[0.2em]">Live Regional Telemetry & Visual Generation (Max 10 Results Per Sector)</p>
+                  <p className="text-[10px] font-black uppercase opacity-30 tracking-[0.2em]">{t('explorer.subtitle')}</p>
                 </div>
                 
                 {Object.values(explorerData).map((category) => (
@@ -543,9 +1110,9 @@ const App = () => {
                         <div className="w-10 h-10 rounded-2xl bg-blue-500/10 flex items-center justify-center text-blue-500">
                           <i className={`fa-solid ${category.icon} text-lg`}></i>
                         </div>
-                        <h4 className="text-sm font-black uppercase tracking-widest">{category.label}</h4>
+                        <h4 className="text-sm font-black uppercase tracking-widest">{t(`explorer.${category.id}`)}</h4>
                       </div>
-                      <span className="text-[9px] font-black uppercase opacity-40 px-3 py-1 rounded-full bg-white/5">Sector Link Stable</span>
+                      <span className="text-[9px] font-black uppercase opacity-40 px-3 py-1 rounded-full bg-white/5">{t('explorer.stable')}</span>
                     </div>
 
                     {category.loading && category.places.length === 0 ? (
@@ -557,10 +1124,11 @@ const App = () => {
                         {category.places.map((place, idx) => (
                           <a 
                             key={idx} 
+                            id={category === explorerData.movies ? `theater-${idx}` : undefined}
                             href={place.uri} 
                             target="_blank" 
                             rel="noopener noreferrer"
-                            className={`group relative overflow-hidden rounded-[2rem] border transition-all hover:-translate-y-2 flex flex-col h-full shadow-lg ${!isLight ? 'bg-white/5 border-white/5 hover:bg-white/10' : 'bg-white border-slate-200 hover:shadow-2xl'}`}
+                            className={`group relative overflow-hidden rounded-[2rem] border transition-all hover:-translate-y-2 flex flex-col h-full shadow-lg ${!isLight ? 'bg-white/5 border-white/5 hover:bg-white/10' : 'bg-white border-slate-200 hover:shadow-2xl'} ${category === explorerData.movies && highlightedTheater === idx ? 'ring-4 ring-blue-500' : ''}`}
                           >
                             <div className="relative h-44 w-full overflow-hidden bg-slate-800">
                               {place.imageUrl ? (
@@ -574,7 +1142,7 @@ const App = () => {
                                 <div className="w-full h-full flex items-center justify-center bg-blue-500/5">
                                   <div className="flex flex-col items-center gap-2">
                                     <div className="w-6 h-6 border-2 border-blue-500/20 border-t-blue-500 rounded-full animate-spin"></div>
-                                    <span className="text-[8px] font-black uppercase opacity-20">Generating Visual...</span>
+                                    <span className="text-[8px] font-black uppercase opacity-20">{t('explorer.generating')}</span>
                                   </div>
                                 </div>
                               )}
@@ -584,8 +1152,8 @@ const App = () => {
                             <div className="p-6 space-y-3 flex-1 flex flex-col justify-between">
                               <h5 className="text-sm font-black leading-tight group-hover:text-blue-500 transition-colors line-clamp-2">{place.title}</h5>
                               <div className="flex items-center justify-between pt-4 border-t border-white/5">
-                                <span className="text-[9px] font-black uppercase text-blue-500">Explore Venue</span>
-                                <i className="fa-solid fa-arrow-right text-[10px] opacity-0 group-hover:opacity-100 group-hover:translate-x-2 transition-all"></i>
+                                <span className="text-[9px] font-black uppercase text-blue-500">{t('explorer.venue')}</span>
+                                <i className="fa-solid fa-arrow-right text-[10px] opacity-0 group-hover:opacity-100 group-hover:translate-x-2 rtl:rotate-180 rtl:group-hover:-translate-x-2 transition-all"></i>
                               </div>
                             </div>
                           </a>
@@ -593,37 +1161,54 @@ const App = () => {
                       </div>
                     ) : (
                       <div className="py-12 text-center glass-card rounded-[2rem] border-dashed border-white/10 opacity-30">
-                        <p className="text-[10px] font-black uppercase tracking-widest">No local {category.label.toLowerCase()} found in range.</p>
+                        <p className="text-[10px] font-black uppercase tracking-widest">{t('explorer.empty', { category: t(`explorer.${category.id}`) })}</p>
                       </div>
                     )}
                   </div>
                 ))}
               </section>
+
+              {!cinemaFeatured && cinemaPanel}
+
+              <NewsPanel weather={weather} isLight={isLight} format={format} t={t} />
             </section>
 
             <aside className="lg:col-span-4 h-full">
               <section className="glass-card rounded-[2.5rem] p-8 sticky top-6 shadow-2xl">
                 <div className="flex items-center justify-between mb-10">
-                  <h3 className="text-sm font-black uppercase tracking-[0.3em] opacity-40">7-Day Outlook</h3>
+                  <h3 className="text-sm font-black uppercase tracking-[0.3em] opacity-40">{t('outlook.title', { count: weather.daily.time.length })}</h3>
                   <i className="fa-solid fa-satellite text-[10px] text-blue-500 animate-pulse"></i>
                 </div>
                 <div className="space-y-4">
                   {weather.daily.time.map((day, idx) => {
                     const dayDesc = getWeatherDescription(weather.daily.weatherCode[idx]);
                     return (
-                      <div key={idx} className="flex items-center justify-between p-4 rounded-3xl hover:bg-white/5 transition-all group cursor-default">
-                        <div className="w-24">
-                          <p className="text-sm font-black">{idx === 0 ? 'Today' : new Date(day).toLocaleDateString('en-US', { weekday: 'short' })}</p>
-                          <div className="flex items-center gap-2 opacity-40 mt-1">
-                             <span className="text-[9px] font-bold uppercase truncate tracking-tight">{dayDesc.text}</span>
+                      <div key={idx} className="p-4 rounded-3xl hover:bg-white/5 transition-all group cursor-default">
+                        <div className="flex items-center justify-between">
+                          <div className="w-24">
+                            <p className="text-sm font-black">{idx === 0 ? t('outlook.today') : format.day(day, { weekday: 'short' })}</p>
+                            <div className="flex items-center gap-2 opacity-40 mt-1">
+                               <span className="text-[9px] font-bold uppercase truncate tracking-tight">{t(`condition.${dayDesc.key}`)}</span>
+                            </div>
+                          </div>
+                          <div className="flex-1 flex justify-center">
+                            <i className={`fa-solid ${dayDesc.icon} text-2xl text-blue-500 group-hover:scale-125 transition-transform duration-500`}></i>
+                          </div>
+                          <div className="flex gap-4 min-w-[80px] justify-end">
+                            <span className="text-base font-black">{format.degrees(weather.daily.tempMax[idx])}</span>
+                            <span className="text-base font-black opacity-30">{format.degrees(weather.daily.tempMin[idx])}</span>
                           </div>
                         </div>
-                        <div className="flex-1 flex justify-center">
-                          <i className={`fa-solid ${dayDesc.icon} text-2xl text-blue-500 group-hover:scale-125 transition-transform duration-500`}></i>
-                        </div>
-                        <div className="flex gap-4 min-w-[80px] justify-end">
-                          <span className="text-base font-black">{formatTemp(weather.daily.tempMax[idx])}°</span>
-                          <span className="text-base font-black opacity-30">{formatTemp(weather.daily.tempMin[idx])}°</span>
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[9px] font-bold uppercase tracking-wider opacity-40">
+                          <span><i className="fa-solid fa-umbrella me-1"></i>{format.precipitation(weather.daily.precipitationSum[idx] ?? 0)}</span>
+                          <span><i className="fa-solid fa-sun me-1"></i>{t('outlook.uv', { value: format.number(weather.daily.uvIndexMax[idx] ?? 0) })}</span>
+                          <span><i className="fa-solid fa-wind me-1"></i>{format.wind(weather.daily.windSpeedMax[idx] ?? 0)}</span>
+                          {weather.daily.sunrise[idx] && (
+                            <span>
+                              <i className="fa-solid fa-arrow-up me-1"></i>{format.dateTime(weather.daily.sunrise[idx], { hour: 'numeric', minute: '2-digit' }, displayZone)}
+                              <i className="fa-solid fa-arrow-down mx-1"></i>{format.dateTime(weather.daily.sunset[idx], { hour: 'numeric', minute: '2-digit' }, displayZone)}
+                            </span>
+                          )}
                         </div>
                       </div>
                     );
@@ -633,31 +1218,31 @@ const App = () => {
             </aside>
           </main>
         ) : (
-          <div className="text-center py-40 opacity-20"><p className="text-xl font-black uppercase tracking-[0.5em]">Establishing Connection...</p></div>
+          <div className="text-center py-40 opacity-20"><p className="text-xl font-black uppercase tracking-[0.5em]">{t('app.connecting')}</p></div>
         )}
       </div>
 
       <footer className="max-w-7xl mx-auto mt-24 mb-12 text-center border-t border-white/5 pt-12">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-12 mb-12 text-left px-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-12 mb-12 text-start px-8">
           <div className="space-y-4">
-            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">RZeal Neural Core</h5>
+            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">{t('footer.core')}</h5>
             <p className="text-[11px] leading-relaxed opacity-40 font-bold uppercase">
-              Atmospheric data by <a href="https://open-meteo.com/" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 underline">Open-Meteo</a>. 
-              Service by <span className="text-blue-400">RZeal Solutions LLC</span>.
+              {t('footer.dataBy')} <a href="https://open-meteo.com/" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 underline">Open-Meteo</a>. 
+              {t('footer.serviceBy')} <span className="text-blue-400">RZeal Solutions LLC</span>.
             </p>
           </div>
           <div className="space-y-4">
-            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Intelligence Layers</h5>
+            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">{t('footer.layers')}</h5>
             <p className="text-[11px] leading-relaxed opacity-40 font-bold uppercase">
-              Venue grounding via Google Maps. Logic rendered via Gemini 2.5 Multi-modal Engines.
+              {t('footer.layersText')}
             </p>
           </div>
           <div className="space-y-4">
-            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Legal Architecture</h5>
+            <h5 className="text-[10px] font-black uppercase tracking-widest text-blue-500">{t('footer.legal')}</h5>
             <nav className="flex flex-col gap-2">
-              <button onClick={() => { setLegalTab('privacy'); setShowLegal(true); }} className="text-[10px] text-left opacity-40 hover:opacity-100 font-bold uppercase">Privacy Policy</button>
-              <button onClick={() => { setLegalTab('terms'); setShowLegal(true); }} className="text-[10px] text-left opacity-40 hover:opacity-100 font-bold uppercase">Terms of Service</button>
-              <button onClick={() => { setLegalTab('disclaimer'); setShowLegal(true); }} className="text-[10px] text-left opacity-40 hover:opacity-100 font-bold uppercase text-blue-500">Disclaimer</button>
+              <button onClick={() => { setLegalTab('privacy'); setShowLegal(true); }} className="text-[10px] text-start opacity-40 hover:opacity-100 font-bold uppercase">{t('legal.privacy')}</button>
+              <button onClick={() => { setLegalTab('terms'); setShowLegal(true); }} className="text-[10px] text-start opacity-40 hover:opacity-100 font-bold uppercase">{t('legal.terms')}</button>
+              <button onClick={() => { setLegalTab('disclaimer'); setShowLegal(true); }} className="text-[10px] text-start opacity-40 hover:opacity-100 font-bold uppercase text-blue-500">{t('legal.disclaimer')}</button>
             </nav>
           </div>
         </div>
@@ -665,7 +1250,7 @@ const App = () => {
         <div className="inline-flex items-center gap-6 py-3 px-8 rounded-full text-[9px] font-black uppercase tracking-widest bg-black/40 border border-white/5 text-white/40">
           <span>RZeal Solutions LLC v1.5.0</span>
           <div className="w-[1px] h-3 bg-white/10"></div>
-          <span>Engineering Atmospheric Certainty</span>
+          <span>{t('footer.tagline')}</span>
         </div>
       </footer>
 
@@ -673,23 +1258,24 @@ const App = () => {
         <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={() => setShowLegal(false)}></div>
           <div className={`relative w-full max-w-4xl glass-card rounded-[3rem] shadow-2xl h-[80vh] flex flex-col md:flex-row overflow-hidden border border-white/10 ${theme === 'midnight' ? 'bg-black' : 'bg-slate-900'}`}>
-            <div className="w-full md:w-64 border-b md:border-b-0 md:border-r border-white/10 p-8 flex flex-col gap-3 shrink-0">
+            <div className="w-full md:w-64 border-b md:border-b-0 md:border-e border-white/10 p-8 flex flex-col gap-3 shrink-0">
               <h2 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-500 mb-8 flex items-center gap-3">
-                <i className="fa-solid fa-shield-check"></i> Compliance Hub
+                <i className="fa-solid fa-shield-check"></i> {t('legal.hub')}
               </h2>
-              {['privacy', 'terms', 'disclaimer', 'security', 'ip', 'data'].map((tab) => (
+              {(['privacy', 'terms', 'disclaimer', 'security', 'ip', 'data'] as const).map((tab) => (
                 <button 
                   key={tab} 
-                  onClick={() => setLegalTab(tab as any)}
-                  className={`text-[10px] font-black uppercase tracking-widest text-left px-5 py-4 rounded-2xl transition-all ${legalTab === tab ? 'bg-blue-600 text-white shadow-xl shadow-blue-600/20' : 'opacity-40 hover:bg-white/5 hover:opacity-100'}`}
+                  onClick={() => setLegalTab(tab)}
+                  className={`text-[10px] font-black uppercase tracking-widest text-start px-5 py-4 rounded-2xl transition-all ${legalTab === tab ? 'bg-blue-600 text-white shadow-xl shadow-blue-600/20' : 'opacity-40 hover:bg-white/5 hover:opacity-100'}`}
                 >
-                  {tab === 'ip' ? 'Intellectual Property' : tab.charAt(0).toUpperCase() + tab.slice(1)}
+                  {t(`legal.${tab}`)}
                 </button>
               ))}
+              {language !== 'en' && <p className="mt-auto text-[9px] font-bold uppercase tracking-wider opacity-40">{t('legal.englishOnly')}</p>}
             </div>
 
             <div className="flex-1 flex flex-col min-w-0">
-               <div className="flex-1 overflow-y-auto p-12 pr-16 no-scrollbar text-sm opacity-80 leading-relaxed space-y-8">
+               <div className="flex-1 overflow-y-auto p-12 pe-16 no-scrollbar text-sm opacity-80 leading-relaxed space-y-8">
                 {legalTab === 'privacy' && (
                   <div className="space-y-6">
                     <h3 className="text-lg font-black text-blue-500 uppercase">📜 Privacy Policy</h3>
@@ -700,11 +1286,11 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">Information We Collect</h4>
                       <h5 className="font-bold text-[11px] opacity-70">1) Information you provide directly</h5>
-                      <ul className="list-disc pl-5 mb-3 opacity-80">
+                      <ul className="list-disc ps-5 mb-3 opacity-80">
                         <li>Location data you choose to share (to provide localized forecasts)</li>
                       </ul>
                       <h5 className="font-bold text-[11px] opacity-70">2) Automatic & technical data</h5>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>IP address</li>
                         <li>Device/browser type</li>
                         <li>Usage analytics (pages viewed, interaction timing)</li>
@@ -714,7 +1300,7 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">How We Use Information</h4>
                       <p className="mb-2">We use the information to:</p>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>Provide accurate weather forecasts and alerts</li>
                         <li>Improve and personalize the Service</li>
                         <li>Communicate important updates or changes</li>
@@ -730,7 +1316,7 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">Cookies & Tracking</h4>
                       <p className="mb-2">We may use cookies or similar technologies to:</p>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>Remember preferences</li>
                         <li>Analyze site traffic</li>
                         <li>Optimize performance</li>
@@ -751,7 +1337,7 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">Your Rights</h4>
                       <p className="mb-2">Depending on your jurisdiction, you may have rights to:</p>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>Access your data</li>
                         <li>Correct or delete your information</li>
                         <li>Restrict or object to processing</li>
@@ -777,7 +1363,7 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">Use of the Service</h4>
                       <p className="mb-2 font-bold opacity-70">You agree to:</p>
-                      <ul className="list-disc pl-5 mb-3 opacity-80">
+                      <ul className="list-disc ps-5 mb-3 opacity-80">
                         <li>Use the Service for lawful purposes</li>
                         <li>Provide accurate information when requested</li>
                         <li>Respect intellectual property rights</li>
@@ -797,7 +1383,7 @@ const App = () => {
                     <section>
                       <h4 className="font-black text-xs uppercase mb-2">Liability Limitation</h4>
                       <p className="mb-2">To the fullest extent permitted by law, RZeal Solutions LLC is not liable for:</p>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>Direct, indirect, incidental, or consequential damages</li>
                         <li>Losses arising from use or inability to use the Service</li>
                         <li>Weather-related damages or decisions based on forecasts</li>
@@ -832,7 +1418,7 @@ const App = () => {
                       <p className="mb-4">All weather forecasts, alerts, conditions, and related content provided on RZeal Solutions LLC (the “Service”) are for general informational purposes only.</p>
                       <p className="mb-4">While we strive for accuracy, weather data is inherently uncertain and may change rapidly. You should not rely solely on the information provided for making life, health, safety, or emergency decisions.</p>
                       <p className="mb-2 font-bold opacity-70">RZeal Solutions LLC and its partners do not guarantee:</p>
-                      <ul className="list-disc pl-5 opacity-80">
+                      <ul className="list-disc ps-5 opacity-80">
                         <li>Complete accuracy of forecasts or alerts</li>
                         <li>Timeliness or reliability of weather information</li>
                         <li>That use of the Service will prevent injury or property loss</li>
@@ -852,7 +1438,7 @@ const App = () => {
                     <section className="p-6 rounded-3xl bg-blue-500/5 border border-blue-500/10">
                       <h4 className="font-black text-xs uppercase mb-2">AI-Generated Content Disclaimer</h4>
                       <p className="mb-4">Some features of this website use artificial intelligence (AI) to generate insights, recommendations, or summaries based on user-provided information.</p>
-                      <ul className="space-y-2 list-disc pl-5 text-[11px] font-bold uppercase opacity-70">
+                      <ul className="space-y-2 list-disc ps-5 text-[11px] font-bold uppercase opacity-70">
                         <li>AI-generated content may be inaccurate, incomplete, or outdated</li>
                         <li>Outputs are provided “as is” and should be independently verified</li>
                         <li>We do not guarantee the accuracy, reliability, or suitability of AI-generated results</li>
@@ -884,31 +1470,65 @@ const App = () => {
                 
                 {legalTab === 'data' && (
                   <div className="space-y-6">
-                    <h3 className="text-xs font-black text-blue-500 uppercase">Data Sovereignty</h3>
-                    <p>Manage your local footprint. Purging data will reset your preferred country, default location, and thermal units.</p>
-                    <button onClick={deleteUserData} className="w-full py-6 rounded-[1.5rem] bg-rose-600 text-white font-black uppercase text-[11px] hover:bg-rose-500 transition-all shadow-xl shadow-rose-600/20">Purge Device Profile & Local Data</button>
+                    <h3 className="text-xs font-black text-blue-500 uppercase">{t('legal.dataTitle')}</h3>
+                    <p>{t('legal.dataText')}</p>
+                    <button onClick={deleteUserData} className="w-full py-6 rounded-[1.5rem] bg-rose-600 text-white font-black uppercase text-[11px] hover:bg-rose-500 transition-all shadow-xl shadow-rose-600/20">{t('legal.purge')}</button>
                   </div>
                 )}
               </div>
               <div className="p-8 border-t border-white/10 shrink-0">
-                <button onClick={() => setShowLegal(false)} className="w-full py-5 rounded-[1.5rem] bg-blue-600 text-white font-black uppercase text-[11px] shadow-2xl">Return to Forecast</button>
+                <button onClick={() => setShowLegal(false)} className="w-full py-5 rounded-[1.5rem] bg-blue-600 text-white font-black uppercase text-[11px] shadow-2xl">{t('legal.return')}</button>
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {showRulesEditor && (
+        <AlertRulesEditor
+          rules={alertRules}
+          units={units}
+          isLight={isLight}
+          t={t}
+          onChange={setAlertRules}
+          onClose={() => setShowRulesEditor(false)}
+        />
+      )}
+
+      {showProfilesEditor && (
+        <ActivityProfilesEditor
+          profiles={activityProfiles}
+          units={units}
+          isLight={isLight}
+          t={t}
+          onChange={setActivityProfiles}
+          onClose={() => setShowProfilesEditor(false)}
+        />
+      )}
+
+      {showHistoryExplorer && weather && (
+        <HistoryExplorer
+          initialPlace={weather.location}
+          language={language}
+          isLight={isLight}
+          format={format}
+          t={t}
+          locationTime={timeDisplay === 'location'}
+          onClose={() => setShowHistoryExplorer(false)}
+        />
+      )}
+
       {showConsent && (
         <div className="fixed bottom-8 left-8 right-8 z-[300] sm:max-w-md">
           <div className="glass-card p-8 rounded-[2rem] border-blue-500/30 shadow-2xl bg-slate-950 flex flex-col gap-5 border">
              <div className="flex items-center gap-4">
                <i className="fa-solid fa-cookie-bite text-3xl text-amber-500"></i>
-               <h4 className="text-[11px] font-black uppercase tracking-widest">Atmospheric Consent</h4>
+               <h4 className="text-[11px] font-black uppercase tracking-widest">{t('consent.title')}</h4>
              </div>
-             <p className="text-[12px] opacity-70 leading-relaxed">RZeal Solutions LLC uses local persistence to sync preferences. By continuing, you acknowledge our <button onClick={() => { setLegalTab('disclaimer'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">Disclaimer</button>, <button onClick={() => { setLegalTab('privacy'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">Privacy Policy</button>, and <button onClick={() => { setLegalTab('terms'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">Terms of Service</button>. Intended for use only within the USA.</p>
+             <p className="text-[12px] opacity-70 leading-relaxed">{t('consent.intro')} <button onClick={() => { setLegalTab('disclaimer'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">{t('legal.disclaimer')}</button>, <button onClick={() => { setLegalTab('privacy'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">{t('legal.privacy')}</button>, {t('consent.and')} <button onClick={() => { setLegalTab('terms'); setShowLegal(true); }} className="text-blue-400 underline decoration-dotted">{t('legal.terms')}</button>. {t('consent.usaOnly')}</p>
              <div className="flex gap-3">
-               <button onClick={acceptConsent} className="flex-1 py-4 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] shadow-xl shadow-blue-600/20">Acknowledge</button>
-               <button onClick={() => setShowConsent(false)} className="px-6 py-4 rounded-2xl bg-white/5 font-black uppercase text-[10px]">Later</button>
+               <button onClick={acceptConsent} className="flex-1 py-4 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] shadow-xl shadow-blue-600/20">{t('consent.accept')}</button>
+               <button onClick={() => setShowConsent(false)} className="px-6 py-4 rounded-2xl bg-white/5 font-black uppercase text-[10px]">{t('consent.later')}</button>
              </div>
           </div>
         </div>
@@ -919,11 +1539,11 @@ const App = () => {
           <div className="absolute inset-0 bg-black/80" onClick={() => setShowLocationExplain(false)}></div>
           <div className="relative w-full max-w-sm glass-card p-8 rounded-[2.5rem] bg-slate-900 shadow-2xl text-center border border-white/5">
             <i className="fa-solid fa-location-dot text-4xl text-blue-500 mb-6 drop-shadow-lg"></i>
-            <h4 className="text-sm font-black uppercase tracking-widest mb-4">Precision Telemetry</h4>
-            <p className="text-xs opacity-60 leading-relaxed mb-8">Accessing your GPS allows us to provide micro-climate data. Your coordinates are transmitted securely and never stored. Service operated by RZeal Solutions LLC and restricted to USA territories.</p>
+            <h4 className="text-sm font-black uppercase tracking-widest mb-4">{t('geo.title')}</h4>
+            <p className="text-xs opacity-60 leading-relaxed mb-8">{t('geo.text')}</p>
             <div className="flex flex-col gap-3">
-              <button onClick={requestGeolocation} className="w-full py-4 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] shadow-lg shadow-blue-600/20">Allow Precision Sync</button>
-              <button onClick={() => setShowLocationExplain(false)} className="w-full py-4 rounded-2xl bg-white/5 font-black uppercase text-[10px]">Manual Search</button>
+              <button onClick={requestGeolocation} className="w-full py-4 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] shadow-lg shadow-blue-600/20">{t('geo.allow')}</button>
+              <button onClick={() => setShowLocationExplain(false)} className="w-full py-4 rounded-2xl bg-white/5 font-black uppercase text-[10px]">{t('geo.manual')}</button>
             </div>
           </div>
         </div>
@@ -0,0 +1,114 @@
+/**
+ * In-memory response cache shared by the proxy routes.
+ * Lives for as long as the server instance; CDN caching via `Cache-Control` covers the rest.
+ */
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface LruCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T, ttlSeconds: number) => void;
+}
+
+/** Least-recently-used cache: reads move an entry to the back, and the front is evicted past `maxEntries`. */
+export const createLruCache = <T>(maxEntries: number): LruCache<T> => {
+  const entries = new Map<string, Entry<T>>();
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key, value, ttlSeconds) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+};
+
+/** Weak validator from a 32-bit FNV-1a hash of the body. */
+const etagFor = (body: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < body.length; i++) {
+    hash ^= body.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `W/"${(hash >>> 0).toString(16)}-${body.length.toString(16)}"`;
+};
+
+export interface CachedBody {
+  value: unknown;
+  body: string;
+  etag: string;
+}
+
+const responses = createLruCache<CachedBody>(500);
+// Concurrent misses for the same key wait on one upstream call.
+const inflight = new Map<string, Promise<CachedBody>>();
+
+/**
+ * Returns the cached entry for `key`, calling `load()` on a miss. Errors thrown by `load`
+ * propagate and nothing is cached. Large values (images) can be kept in a smaller `store`.
+ */
+export const readThrough = async (
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<unknown>,
+  store: LruCache<CachedBody> = responses
+): Promise<{ entry: CachedBody; hit: boolean }> => {
+  const cached = store.get(key);
+  if (cached) return { entry: cached, hit: true };
+
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load()
+      .then(value => {
+        const body = JSON.stringify(value);
+        const entry = { value, body, etag: etagFor(body) };
+        store.set(key, entry, ttlSeconds);
+        return entry;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return { entry: await pending, hit: false };
+};
+
+/**
+ * Serves `load()` as JSON through `readThrough`. Answers 304 when the client's `If-None-Match`
+ * still matches, and sets `Cache-Control` so browsers and the CDN reuse the body for `ttlSeconds`.
+ */
+export const serveCached = async (
+  req: Request,
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<unknown>,
+  headers: Record<string, string> = {},
+  store?: LruCache<CachedBody>
+): Promise<Response> => {
+  const { entry, hit } = await readThrough(key, ttlSeconds, load, store);
+
+  const responseHeaders = {
+    ...headers,
+    'Cache-Control': `public, max-age=${ttlSeconds}, s-maxage=${ttlSeconds}, stale-while-revalidate=${ttlSeconds}`,
+    'ETag': entry.etag,
+    'X-Cache': hit ? 'HIT' : 'MISS',
+  };
+
+  const ifNoneMatch = req.headers.get('if-none-match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === entry.etag)) {
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+  return new Response(entry.body, {
+    status: 200,
+    headers: { ...responseHeaders, 'Content-Type': 'application/json' }
+  });
+};
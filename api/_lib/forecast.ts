@@ -0,0 +1,31 @@
+import { ProviderForecast, WeatherData } from '../../types';
+import { approximateTimeZone } from '../../services/timeZones';
+import { fetchWithFailover, openMeteoProvider, metNorwayProvider } from '../../services/providers';
+import { readThrough } from './cache';
+
+/** How long a forecast is shared between clients. */
+export const FORECAST_TTL_SECONDS = 600;
+
+export const forecastCacheKey = (latitude: number, longitude: number, days: number) =>
+  `weather|${latitude},${longitude}|${days}`;
+
+/**
+ * Runs the upstream provider failover for already-rounded coordinates. Used by `/api/weather`
+ * and by the AI routes that prompt from the forecast, so both share one cache entry.
+ */
+export const fetchForecast = async (latitude: number, longitude: number, days: number) => {
+  const { forecast, provider } = await fetchWithFailover([openMeteoProvider, metNorwayProvider], latitude, longitude, days);
+  return { forecast: { ...forecast, source: provider.id } };
+};
+
+export const loadForecast = async (latitude: number, longitude: number, days: number): Promise<ProviderForecast> => {
+  const { entry } = await readThrough(forecastCacheKey(latitude, longitude, days), FORECAST_TTL_SECONDS, () => fetchForecast(latitude, longitude, days));
+  return (entry.value as { forecast: ProviderForecast }).forecast;
+};
+
+/** The cached forecast with a location attached, as the client's `fetchWeather` builds it. */
+export const loadWeatherData = async (latitude: number, longitude: number, days: number, name: string, country: string): Promise<WeatherData> => {
+  const { timezone, utcOffsetSeconds, source, ...forecast } = await loadForecast(latitude, longitude, days);
+  const zone = timezone && utcOffsetSeconds !== undefined ? { timezone, utcOffsetSeconds } : approximateTimeZone(longitude);
+  return { ...forecast, location: { name, country, latitude, longitude, ...zone }, source: source || 'open-meteo' };
+};
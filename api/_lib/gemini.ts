@@ -0,0 +1,521 @@
+import { GoogleGenAI, Type, GenerateContentResponse, FunctionDeclaration, Part } from "@google/genai";
+import { WeatherData, AIInsight, ChatMessage, ChatEvent, Place, Movie, NewsItem, HistoryEvent, UnitPreferences, Language } from "../../types";
+import { createUnitFormatter, UNIT_LABELS } from "../../services/units";
+import { currentHourIndex, geocodePlaces, DEFAULT_FORECAST_DAYS } from "../../services/weatherService";
+import { localHour } from "../../services/timeZones";
+import { createTranslator, languageInstruction } from "../../services/i18n";
+import { loadWeatherData } from "./forecast";
+import { roundCoordinate } from "./http";
+
+/**
+ * Gemini prompts behind the AI routes. The key is read from the server environment and never
+ * reaches the browser. Errors propagate so routes can answer with a structured error instead
+ * of caching a fallback.
+ */
+
+/** The user's region and UI language, which every prompt is tailored to. */
+export interface PromptContext {
+  region: string;
+  language: Language;
+}
+
+const client = () => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error('GEMINI_API_KEY not configured');
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Utility to retry an async function with exponential backoff.
+ */
+async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+  try {
+    return await fn();
+  } catch (error: any) {
+    const status = error?.status || error?.error?.status;
+    const isTransient = status === 503 || status === 504 || status === 429;
+
+    if (retries > 0 && isTransient) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return withRetry(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+}
+
+/** Google Maps grounding chunks as places, de-duplicated by link. */
+const groundedPlaces = (response: GenerateContentResponse, limit: number, language: Language): Place[] => {
+  const t = createTranslator(language);
+  const places: Place[] = [];
+  const uniqueUris = new Set<string>();
+
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  if (chunks) {
+    chunks.forEach((chunk: any) => {
+      if (chunk.maps?.uri && places.length < limit) {
+        if (!uniqueUris.has(chunk.maps.uri)) {
+          uniqueUris.add(chunk.maps.uri);
+          places.push({
+            title: chunk.maps.title || t('places.venue'),
+            uri: chunk.maps.uri
+          });
+        }
+      }
+    });
+  }
+  return places;
+};
+
+const mapsConfig = (lat: number, lon: number) => ({
+  tools: [{ googleMaps: {} }],
+  toolConfig: {
+    retrievalConfig: {
+      latLng: {
+        latitude: lat,
+        longitude: lon
+      }
+    }
+  }
+});
+
+const INSIGHT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: '2-3 sentences on how the day will feel and change.' },
+    clothing: { type: Type.STRING, description: 'One sentence on what to wear.' },
+    bestWindow: {
+      type: Type.OBJECT,
+      nullable: true,
+      description: 'Best stretch for outdoor plans in the next 24 hours, as local hours; null if there is none.',
+      properties: {
+        startHour: { type: Type.INTEGER },
+        endHour: { type: Type.INTEGER }
+      },
+      required: ['startHour', 'endHour']
+    },
+    umbrella: { type: Type.BOOLEAN },
+    sunscreen: { type: Type.BOOLEAN },
+    risks: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short hazard notes (ice, gusts, heat, storms); empty if none.' }
+  },
+  required: ['summary', 'clothing', 'bestWindow', 'umbrella', 'sunscreen', 'risks']
+};
+
+const hourOfDay = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 24 ? (value as number) % 24 : null;
+
+/** Validates the model's JSON; throws when it isn't an insight so nothing bad gets cached. */
+const parseInsight = (text: string): AIInsight => {
+  const raw = JSON.parse(text);
+  if (typeof raw?.summary !== 'string' || !raw.summary.trim()) throw new Error('Insight response has no summary');
+  const start = hourOfDay(raw.bestWindow?.startHour);
+  const end = hourOfDay(raw.bestWindow?.endHour);
+  return {
+    summary: raw.summary.trim(),
+    clothing: typeof raw.clothing === 'string' ? raw.clothing.trim() : '',
+    bestWindow: start !== null && end !== null && start !== end ? { startHour: start, endHour: end } : null,
+    umbrella: raw.umbrella === true,
+    sunscreen: raw.sunscreen === true,
+    risks: Array.isArray(raw.risks) ? raw.risks.filter((r: unknown) => typeof r === 'string' && r.trim()).slice(0, 4) : [],
+  };
+};
+
+export const generateInsight = async (weather: WeatherData, units: UnitPreferences, { region, language }: PromptContext): Promise<AIInsight> => {
+  const format = createUnitFormatter(units, 'en-US');
+  const { hourly, daily, current, location } = weather;
+  const hour = Math.min(currentHourIndex(hourly.time), hourly.time.length - 1);
+  const reading = (values: number[], i: number, render: (v: number) => string) =>
+    Number.isFinite(values[i]) ? render(values[i]) : 'n/a';
+
+  // The next 24 hours, labelled in the location's local time so the window comes back in it too.
+  const hours = hourly.time.slice(hour, hour + 24).map((time, offset) => {
+    const i = hour + offset;
+    return `${String(localHour(time, location.timezone)).padStart(2, '0')}:00 | ${reading(hourly.temperature, i, format.temperature)} | code ${hourly.weatherCode[i]} | ${reading(hourly.precipitation, i, v => `${v}%`)} | ${reading(hourly.precipitationAmount, i, format.precipitation)} | ${reading(hourly.windSpeed, i, format.wind)} gusting ${reading(hourly.windGusts, i, format.wind)} | UV ${reading(hourly.uvIndex, i, String)} | cloud ${reading(hourly.cloudCover, i, v => `${v}%`)}`;
+  });
+  const days = daily.time.map((day, i) =>
+    `${day} | ${reading(daily.tempMin, i, format.temperature)} to ${reading(daily.tempMax, i, format.temperature)} | code ${daily.weatherCode[i]} | ${reading(daily.precipitationSum, i, format.precipitation)} | UV max ${reading(daily.uvIndexMax, i, String)} | wind max ${reading(daily.windSpeedMax, i, format.wind)}`
+  );
+
+  const prompt = `
+    Context: Weather data for ${location.name}, ${location.country} (timezone ${location.timezone}).
+    User Preferred Units: temperature ${UNIT_LABELS.temperature[units.temperature]}, wind ${UNIT_LABELS.wind[units.wind]}, precipitation ${UNIT_LABELS.precipitation[units.precipitation]}, pressure ${UNIT_LABELS.pressure[units.pressure]}, distance ${UNIT_LABELS.distance[units.distance]}
+    ${region ? `User Preferred Region: ${region}` : ''}
+    Current Temperature: ${format.temperature(current.temp)}
+    Feels Like: ${format.temperature(current.apparentTemp)}
+    Wind: ${format.wind(current.windSpeed)}, gusts ${reading(hourly.windGusts, hour, format.wind)}
+    Humidity: ${current.humidity}%
+    Pressure: ${reading(hourly.pressure, hour, format.pressure)}
+    Visibility: ${reading(hourly.visibility, hour, format.distance)}
+    Condition Code: ${current.weatherCode} (WMO)
+
+    Next 24 hours (local hour | temperature | WMO code | precipitation chance | precipitation | wind | UV | cloud cover):
+    ${hours.join('\n    ')}
+
+    Daily outlook (date | low to high | WMO code | precipitation | UV | wind):
+    ${days.join('\n    ')}
+
+    Task: Give a helpful weather briefing for the rest of today as JSON.
+    summary: 2-3 sentences on how the day will feel and change.
+    clothing: one sentence on what to wear.
+    bestWindow: the best stretch of at least two hours for outdoor plans, using the local hours above (endHour exclusive); null if no hour is pleasant.
+    umbrella: true if rain or snow is likely while people are out. sunscreen: true if UV reaches 3 or more in daylight.
+    risks: up to 3 short notes on hazards worth planning around; empty if none.
+    Quote any figures in the user's preferred units listed above. Keep it professional but warm. Use emoji sparingly.
+    ${languageInstruction(language)}
+  `;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: prompt,
+    config: {
+      temperature: 0.7,
+      responseMimeType: 'application/json',
+      responseSchema: INSIGHT_SCHEMA
+    }
+  }));
+  return parseInsight(response.text || '');
+};
+
+/**
+ * Generates an atmospheric image for a specific place using gemini-2.5-flash-image.
+ */
+export const generatePlaceImage = async (placeTitle: string, weatherDesc: string): Promise<string | null> => {
+  const prompt = `A high-quality, realistic photography shot of the exterior or interior of "${placeTitle}". The mood should be influenced by ${weatherDesc} weather. Professional architectural or travel photography style. 4k resolution.`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [{ text: prompt }]
+    },
+    config: {
+      imageConfig: {
+        aspectRatio: "16:9"
+      }
+    }
+  }));
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Nearby places for an explorer category, grounded with Google Maps. Up to 10.
+ */
+export const findPlacesByCategory = async (
+  lat: number,
+  lon: number,
+  category: string,
+  weatherDesc: string,
+  { region, language }: PromptContext
+): Promise<Place[]> => {
+  const prompt = `Find up to 10 best rated and popular ${category} near coordinates (${lat}, ${lon})${region ? ` in ${region}` : ''}. The current weather is ${weatherDesc}. Only provide real, existing places with valid Google Maps links. ${languageInstruction(language)}`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: mapsConfig(lat, lon),
+  }));
+  return groundedPlaces(response, 10, language);
+};
+
+/**
+ * Four places suited to the weather, with a one-sentence reason.
+ */
+export const suggestPlaces = async (
+  lat: number,
+  lon: number,
+  weatherDesc: string,
+  { region, language }: PromptContext
+): Promise<{ suggestion: string, places: Place[] }> => {
+  const prompt = `The current weather is "${weatherDesc}". Based on this, suggest 4 nearby venues or places that would be great to visit right now near (${lat}, ${lon})${region ? ` in ${region}` : ''}. Provide a very short 1-sentence reason for these suggestions. ${languageInstruction(language)}`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: mapsConfig(lat, lon),
+  }));
+  return {
+    suggestion: response.text || createTranslator(language)('places.suggestion'),
+    places: groundedPlaces(response, 4, language),
+  };
+};
+
+/** Validates the model's JSON; throws when it isn't a list so a bad reply isn't cached as "no films". */
+const parseMovies = (text: string): Movie[] => {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw)) throw new Error('Movies response is not a list');
+  return raw.filter((movie: any) => typeof movie?.title === 'string' && Array.isArray(movie.theaters));
+};
+
+export const findMovies = async (lat: number, lon: number, { language }: PromptContext): Promise<Movie[]> => {
+  const prompt = `List 5 movies currently playing in cinemas near coordinates ${lat}, ${lon}. Return the results as a JSON array. Keep titles as billed locally. ${languageInstruction(language)}`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            theaters: { type: Type.ARRAY, items: { type: Type.STRING } },
+            description: { type: Type.STRING }
+          },
+          required: ['title', 'theaters']
+        }
+      }
+    }
+  }));
+
+  return parseMovies(response.text || '');
+};
+
+/**
+ * Recent local news, grounded with Google Search. Up to 6 stories.
+ */
+const NEWS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING, description: 'Headline as published.' },
+      summary: { type: Type.STRING, description: 'One or two sentences on what this particular article reports.' },
+      url: { type: Type.STRING, description: 'Link to the article itself.' },
+      source: { type: Type.STRING, description: 'Name of the publisher.' },
+      publishedAt: { type: Type.STRING, description: 'Publish date as YYYY-MM-DD, or an empty string if unknown.' }
+    },
+    required: ['title', 'summary', 'url', 'source', 'publishedAt']
+  }
+};
+
+const MAX_NEWS_ITEMS = 6;
+
+/** Keeps the model's articles that have a headline, summary and web link; drops the rest. */
+const parseNews = (text: string): NewsItem[] => {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw)) throw new Error('News response is not a list');
+  const items = raw.flatMap((article: any): NewsItem[] => {
+    const title = typeof article?.title === 'string' ? article.title.trim() : '';
+    const snippet = typeof article?.summary === 'string' ? article.summary.trim() : '';
+    let url: URL;
+    try {
+      url = new URL(article?.url);
+    } catch {
+      return [];
+    }
+    if (!title || !snippet || !/^https?:$/.test(url.protocol)) return [];
+    const published = typeof article.publishedAt === 'string' ? new Date(article.publishedAt) : null;
+    return [{
+      title,
+      snippet,
+      url: url.href,
+      source: typeof article.source === 'string' && article.source.trim() ? article.source.trim() : url.hostname.replace(/^www\./, ''),
+      date: published && !isNaN(published.getTime()) ? published.toISOString() : '',
+    }];
+  });
+  return Array.from(new Map(items.map(item => [item.url, item])).values()).slice(0, MAX_NEWS_ITEMS);
+};
+
+export const findLocalNews = async (locationName: string, { region, language }: PromptContext): Promise<NewsItem[]> => {
+  const today = new Date().toISOString().slice(0, 10);
+  const prompt = `Today is ${today}. Search for the most recent news stories about ${locationName}${region ? `, ${region}` : ''}. List up to ${MAX_NEWS_ITEMS} separate articles, newest first, each with a summary of that article alone and the date it was published. Only include articles you found in search results. ${languageInstruction(language)}`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: "gemini-3-flash-preview",
+    contents: prompt,
+    config: {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+      responseSchema: NEWS_SCHEMA,
+    },
+  }));
+
+  return parseNews(response.text || '[]');
+};
+
+const HISTORY_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      year: { type: Type.STRING, description: 'Year the event happened, e.g. "1987".' },
+      title: { type: Type.STRING, description: 'Short name of the event.' },
+      description: { type: Type.STRING, description: 'One or two sentences on what happened and its impact.' }
+    },
+    required: ['year', 'title', 'description']
+  }
+};
+
+const MAX_HISTORY_EVENTS = 5;
+
+/** Keeps events with a plausible year, a title and a description, oldest first. */
+const parseHistory = (text: string): HistoryEvent[] => {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw)) throw new Error('History response is not a list');
+  const thisYear = new Date().getUTCFullYear();
+  return raw
+    .map((event: any) => ({
+      year: String(event?.year ?? '').trim(),
+      title: typeof event?.title === 'string' ? event.title.trim() : '',
+      description: typeof event?.description === 'string' ? event.description.trim() : '',
+    }))
+    .filter(event => /^\d{3,4}$/.test(event.year) && Number(event.year) <= thisYear && event.title && event.description)
+    .sort((a, b) => Number(a.year) - Number(b.year))
+    .slice(0, MAX_HISTORY_EVENTS);
+};
+
+/** Notable weather that happened in or near a place on the month and day of `date` ("YYYY-MM-DD"), in past years. */
+export const findWeatherHistory = async (locationName: string, date: string, { region, language }: PromptContext): Promise<HistoryEvent[]> => {
+  const day = new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  const prompt = `Search for notable weather events that happened in or near ${locationName}${region ? ` (user region: ${region})` : ''} on ${day} in past years: storms, floods, heat or cold records, snowfalls, droughts. List up to ${MAX_HISTORY_EVENTS} that really happened on ${day}, with the year. Return an empty list rather than guessing. ${languageInstruction(language)}`;
+
+  const response: GenerateContentResponse = await withRetry(() => client().models.generateContent({
+    model: "gemini-3-flash-preview",
+    contents: prompt,
+    config: {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+      responseSchema: HISTORY_SCHEMA,
+    },
+  }));
+
+  return parseHistory(response.text || '[]');
+};
+
+const CHAT_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'search_location',
+    description: 'Finds places matching a name or postal code. Use it to get coordinates before calling get_weather.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Place name, optionally with region or country.' } },
+      required: ['query']
+    }
+  },
+  {
+    name: 'get_weather',
+    description: 'Current conditions and the daily forecast for coordinates, in the user\'s units.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        latitude: { type: 'number' },
+        longitude: { type: 'number' },
+        name: { type: 'string', description: 'Display name of the place.' }
+      },
+      required: ['latitude', 'longitude', 'name']
+    }
+  }
+];
+
+// Tool rounds per message, so a confused model can't loop on lookups.
+const MAX_TOOL_ROUNDS = 4;
+
+/** Runs one tool call; failures are reported to the model rather than ending the chat. */
+const runChatTool = async (name: string, args: Record<string, unknown>, units: UnitPreferences, language: Language) => {
+  try {
+    if (name === 'search_location') {
+      const places = await geocodePlaces(String(args.query || ''), language);
+      return {
+        places: places.slice(0, 5).map(p => ({
+          name: p.name, region: p.admin1, country: p.country, latitude: p.latitude, longitude: p.longitude
+        }))
+      };
+    }
+    if (name === 'get_weather') {
+      const lat = Number(args.latitude);
+      const lon = Number(args.longitude);
+      if (!(Math.abs(lat) <= 90 && Math.abs(lon) <= 180)) return { error: 'Invalid coordinates' };
+      const weather = await loadWeatherData(roundCoordinate(lat, 2), roundCoordinate(lon, 2), DEFAULT_FORECAST_DAYS, String(args.name || ''), '');
+      const format = createUnitFormatter(units, 'en-US');
+      const { current, daily, location } = weather;
+      return {
+        timezone: location.timezone,
+        current: {
+          temperature: format.temperature(current.temp),
+          feelsLike: format.temperature(current.apparentTemp),
+          wind: format.wind(current.windSpeed),
+          humidity: `${current.humidity}%`,
+          weatherCode: current.weatherCode
+        },
+        daily: daily.time.map((date, i) => ({
+          date,
+          low: format.temperature(daily.tempMin[i]),
+          high: format.temperature(daily.tempMax[i]),
+          weatherCode: daily.weatherCode[i],
+          precipitation: format.precipitation(daily.precipitationSum[i] ?? 0),
+          uvIndexMax: daily.uvIndexMax[i],
+          windMax: format.wind(daily.windSpeedMax[i])
+        }))
+      };
+    }
+    return { error: `Unknown tool ${name}` };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Lookup failed' };
+  }
+};
+
+const chatInstruction = (weather: WeatherData, units: UnitPreferences, { region, language }: PromptContext) => `
+  You are SkyCast's weather assistant. Answer follow-up questions about the weather for ${weather.location.name}, ${weather.location.country}.
+  It is now ${new Date().toISOString()}; the location's timezone is ${weather.location.timezone}. Read times the user mentions as local to the location.
+  The full forecast is below as JSON. Hourly times and sunrise/sunset are UTC instants; daily dates are local.
+  Raw units: °C, km/h, mm (snowfall in cm), hPa, metres, %. Weather codes are WMO codes.
+  Quote figures in the user's preferred units: temperature ${UNIT_LABELS.temperature[units.temperature]}, wind ${UNIT_LABELS.wind[units.wind]}, precipitation ${UNIT_LABELS.precipitation[units.precipitation]}, pressure ${UNIT_LABELS.pressure[units.pressure]}, distance ${UNIT_LABELS.distance[units.distance]}.
+  ${region ? `User Preferred Region: ${region}` : ''}
+  For other places, call search_location and then get_weather; never guess another place's weather.
+  Keep answers short and practical: a few sentences or a brief list. Plain text, no markdown headings.
+  ${languageInstruction(language)}
+
+  Forecast: ${JSON.stringify(weather)}
+`;
+
+/**
+ * One assistant reply in a multi-turn chat seeded with the location's forecast. Text is yielded
+ * as it streams; tool calls are run here and their results fed back until the model answers.
+ */
+export async function* streamChatReply(
+  weather: WeatherData,
+  units: UnitPreferences,
+  history: ChatMessage[],
+  message: string,
+  context: PromptContext
+): AsyncGenerator<ChatEvent> {
+  const chat = client().chats.create({
+    model: 'gemini-3-flash-preview',
+    config: {
+      systemInstruction: chatInstruction(weather, units, context),
+      tools: [{ functionDeclarations: CHAT_TOOLS }],
+      temperature: 0.6,
+    },
+    history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+  });
+
+  let next: string | Part[] = message;
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const stream = await withRetry(() => chat.sendMessageStream({ message: next }));
+    const calls: { id?: string; name: string; args: Record<string, unknown> }[] = [];
+
+    for await (const chunk of stream) {
+      // Read text parts directly; `chunk.text` warns on chunks that also carry function calls.
+      const text = (chunk.candidates?.[0]?.content?.parts || []).map(p => (p.thought ? '' : p.text || '')).join('');
+      if (text) yield { type: 'text', text };
+      chunk.functionCalls?.forEach(call => {
+        if (call.name) calls.push({ id: call.id, name: call.name, args: call.args || {} });
+      });
+    }
+    if (!calls.length || round === MAX_TOOL_ROUNDS) return;
+
+    const responses: Part[] = [];
+    for (const call of calls) {
+      yield { type: 'tool', name: call.name, query: String(call.args.query || call.args.name || '') };
+      const response = await runChatTool(call.name, call.args, units, context.language);
+      responses.push({ functionResponse: { id: call.id, name: call.name, response } });
+    }
+    next = responses;
+  }
+}
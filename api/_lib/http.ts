@@ -0,0 +1,99 @@
+import { Language, UnitPreferences } from '../../types';
+import { LANGUAGES } from '../../services/i18n';
+import { UNIT_LABELS, unitPresetFor } from '../../services/units';
+
+/**
+ * Request helpers shared by the API routes: structured errors, parameter parsing and
+ * per-IP rate limiting.
+ */
+
+/** Error body for every route: `{ error: { code, message } }`. */
+export const jsonError = (status: number, code: string, message: string, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: { code, message } }), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' }
+  });
+
+/** A number within [min, max], or null when missing or out of range. */
+export const numberParam = (params: URLSearchParams, name: string, min: number, max: number): number | null => {
+  const raw = params.get(name);
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= min && value <= max ? value : null;
+};
+
+/** Single-line text of 1 to `maxLength` characters with control characters removed, or null. */
+export const textParam = (params: URLSearchParams, name: string, maxLength: number): string | null => {
+  const value = (params.get(name) || '').replace(/[\u0000-\u001f\u007f]/g, ' ').replace(/\s+/g, ' ').trim();
+  return value && value.length <= maxLength ? value : null;
+};
+
+/** The `language` param (or another named one) when the app supports it, else English. */
+export const languageParam = (params: URLSearchParams, name = 'language'): Language => {
+  const value = params.get(name);
+  return value && Object.hasOwn(LANGUAGES, value) ? value as Language : 'en';
+};
+
+/** The user's `region` (optional) and `language`, which the AI prompts are tailored to. */
+export const promptContextParams = (params: URLSearchParams) => ({
+  region: textParam(params, 'region', 60) || '',
+  language: languageParam(params),
+});
+
+/** Each unit param (`temperature`, `wind`, …) over the region's preset, or null if one is unknown. */
+export const unitsParam = (params: URLSearchParams, region: string): UnitPreferences | null => {
+  const units = unitPresetFor(region);
+  for (const kind of Object.keys(units) as (keyof UnitPreferences)[]) {
+    const value = params.get(kind);
+    if (value === null) continue;
+    if (!Object.hasOwn(UNIT_LABELS[kind], value)) return null;
+    (units as Record<keyof UnitPreferences, string>)[kind] = value;
+  }
+  return units;
+};
+
+/** Rounds a coordinate so nearby requests share cache entries; 2 decimals is ~1 km. */
+export const roundCoordinate = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/** First hop of `x-forwarded-for`, as set by the platform's proxy. */
+export const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window limiter keyed by client IP, kept in memory per server instance. Returns null
+ * when the request may proceed, or the 429 response to send. `headers` receives the
+ * `X-RateLimit-*` headers either way.
+ */
+export const createRateLimiter = (name: string, limit: number, windowSeconds: number) => {
+  const windows = new Map<string, RateWindow>();
+  return (req: Request, headers: Record<string, string>): Response | null => {
+    const now = Date.now();
+    // Drop expired windows now and then so the map doesn't grow with every IP ever seen.
+    if (windows.size > 10000) {
+      windows.forEach((window, ip) => { if (window.resetAt <= now) windows.delete(ip); });
+    }
+
+    const ip = clientIp(req);
+    let window = windows.get(ip);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowSeconds * 1000 };
+      windows.set(ip, window);
+    }
+    window.count++;
+
+    const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+    headers['X-RateLimit-Limit'] = String(limit);
+    headers['X-RateLimit-Remaining'] = String(Math.max(limit - window.count, 0));
+    headers['X-RateLimit-Reset'] = String(retryAfter);
+
+    if (window.count <= limit) return null;
+    return jsonError(429, 'rate_limited', `Too many ${name} requests. Try again in ${retryAfter}s.`, {
+      ...headers,
+      'Retry-After': String(retryAfter),
+    });
+  };
+};
@@ -0,0 +1,44 @@
+import { readThrough } from './_lib/cache';
+import { jsonError, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side relay for MeteoAlarm's per-country Atom feeds, which browsers can't fetch
+ * cross-origin. The XML is passed through untouched; the client parses and matches it.
+ */
+const FEED_URL = 'https://feeds.meteoalarm.org/feeds/meteoalarm-legacy-atom-';
+// Warnings are updated through the day; keep the relay close to the source.
+const TTL_SECONDS = 5 * 60;
+const quota = createRateLimiter('alert feed', 120, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  // Feed slugs, e.g. "united-kingdom"; the client maps country names onto them.
+  const country = (searchParams.get('country') || '').toLowerCase();
+  if (!/^[a-z]+(-[a-z]+)*$/.test(country) || country.length > 40) {
+    return jsonError(400, 'invalid_country', '"country" must be a MeteoAlarm feed name, e.g. "united-kingdom".', headers);
+  }
+
+  try {
+    const { entry, hit } = await readThrough(`alert-feed|${country}`, TTL_SECONDS, async () => {
+      const response = await fetch(`${FEED_URL}${country}`, { headers: { Accept: 'application/atom+xml, application/xml' } });
+      if (!response.ok) throw new Error(`MeteoAlarm feed error: ${response.status}`);
+      return response.text();
+    });
+    return new Response(entry.value as string, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${TTL_SECONDS}, s-maxage=${TTL_SECONDS}`,
+        'X-Cache': hit ? 'HIT' : 'MISS',
+      }
+    });
+  } catch (error) {
+    console.error("Alert Feed Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'The alert feed is unavailable. Try again shortly.', headers);
+  }
+}
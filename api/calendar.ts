@@ -0,0 +1,63 @@
+import { DEFAULT_FORECAST_DAYS } from '../services/weatherService';
+import { deriveWeatherAlerts, localizeAlert } from '../services/weatherAlerts';
+import { buildForecastCalendar } from '../services/exportService';
+import { createUnitFormatter, localeFor } from '../services/units';
+import { createTranslator } from '../services/i18n';
+import { placeSlug } from '../services/linkState';
+import { FORECAST_TTL_SECONDS, loadWeatherData } from './_lib/forecast';
+import { jsonError, numberParam, textParam, unitsParam, promptContextParams, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route behind `/api/calendar.ics`, for calendar apps to subscribe to.
+ * Serves the forecast as an iCalendar feed (a day event per forecast day, plus alert events)
+ * built from the shared weather cache, so refreshes from many subscribers cost one upstream call.
+ */
+const quota = createRateLimiter('calendar', 60, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const days = searchParams.has('days') ? numberParam(searchParams, 'days', 1, 16) : DEFAULT_FORECAST_DAYS;
+  if (days === null) {
+    return jsonError(400, 'invalid_days', '"days" must be between 1 and 16.', headers);
+  }
+  const context = promptContextParams(searchParams);
+  const units = unitsParam(searchParams, context.region);
+  if (!units) {
+    return jsonError(400, 'invalid_units', 'Unknown unit; see UNIT_LABELS for the accepted values.', headers);
+  }
+
+  const latitude = roundCoordinate(lat, 2);
+  const longitude = roundCoordinate(lon, 2);
+  // Subscription links made by hand often carry only coordinates.
+  const name = textParam(searchParams, 'name', 100) || `${latitude}, ${longitude}`;
+  const country = textParam(searchParams, 'country', 100) || '';
+
+  try {
+    const weather = await loadWeatherData(latitude, longitude, Math.round(days), name, country);
+    const t = createTranslator(context.language);
+    // Official feeds are parsed in the browser; the feed carries the forecast heuristics.
+    const alerts = deriveWeatherAlerts(weather).map(alert => localizeAlert(alert, t));
+    const format = createUnitFormatter(units, localeFor(context.region, context.language));
+    return new Response(buildForecastCalendar(weather, alerts, format, t), {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${placeSlug(weather.location)}.ics"`,
+        'Cache-Control': `public, max-age=${FORECAST_TTL_SECONDS}, s-maxage=${FORECAST_TTL_SECONDS}`,
+      },
+    });
+  } catch (error) {
+    console.error("Calendar Feed Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'Forecast providers are unavailable. Try again shortly.', headers);
+  }
+}
@@ -0,0 +1,91 @@
+import { ChatMessage } from '../types';
+import { DEFAULT_FORECAST_DAYS } from '../services/weatherService';
+import { loadWeatherData } from './_lib/forecast';
+import { streamChatReply } from './_lib/gemini';
+import { jsonError, numberParam, textParam, unitsParam, promptContextParams, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for the weather assistant. The location, units, region and language come
+ * as query params like the other AI routes; the POST body carries `{ history, message }`.
+ * The reply streams back as newline-delimited JSON `ChatEvent`s, ending with an `error` event
+ * if the model fails part-way.
+ */
+const MAX_HISTORY = 40;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_HISTORY_TEXT_LENGTH = 4000;
+const quota = createRateLimiter('chat', 60, 60 * 60);
+
+const isChatMessage = (value: any): value is ChatMessage =>
+  (value?.role === 'user' || value?.role === 'model') && typeof value.text === 'string';
+
+/** Long turns (usually detailed replies) are cut rather than rejected, so a conversation never gets stuck. */
+const clipTurn = ({ role, text }: ChatMessage): ChatMessage => ({ role, text: text.slice(0, MAX_HISTORY_TEXT_LENGTH) });
+
+export default async function handler(req: Request) {
+  if (req.method !== 'POST') {
+    return jsonError(405, 'method_not_allowed', 'Send chat messages with POST.', { 'Allow': 'POST' });
+  }
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const name = textParam(searchParams, 'name', 100);
+  if (!name) {
+    return jsonError(400, 'invalid_name', '"name" must be 1 to 100 characters.', headers);
+  }
+  const country = textParam(searchParams, 'country', 100) || '';
+  const context = promptContextParams(searchParams);
+  const units = unitsParam(searchParams, context.region);
+  if (!units) {
+    return jsonError(400, 'invalid_units', 'Unknown unit; see UNIT_LABELS for the accepted values.', headers);
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonError(400, 'invalid_body', 'The body must be JSON.', headers);
+  }
+  const message = typeof body?.message === 'string' ? body.message.trim() : '';
+  if (!message || message.length > MAX_MESSAGE_LENGTH) {
+    return jsonError(400, 'invalid_message', `"message" must be 1 to ${MAX_MESSAGE_LENGTH} characters.`, headers);
+  }
+  const turns = body.history ?? [];
+  if (!Array.isArray(turns) || turns.length > MAX_HISTORY || !turns.every(isChatMessage)) {
+    return jsonError(400, 'invalid_history', `"history" must be up to ${MAX_HISTORY} { role, text } turns.`, headers);
+  }
+  const history = turns.map(clipTurn);
+
+  let weather;
+  try {
+    weather = await loadWeatherData(roundCoordinate(lat, 2), roundCoordinate(lon, 2), DEFAULT_FORECAST_DAYS, name, country);
+  } catch (error) {
+    console.error("Chat Forecast Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'The forecast is unavailable. Try again shortly.', headers);
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        for await (const event of streamChatReply(weather, units, history, message, context)) send(event);
+      } catch (error) {
+        console.error("Chat Error:", error);
+        send({ type: 'error', message: 'The assistant is unavailable. Try again shortly.' });
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' }
+  });
+}
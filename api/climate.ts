@@ -0,0 +1,45 @@
+import { DailyArchive, RECORDS_SINCE, fetchDailyArchive, climateForDay } from '../services/historyService';
+import { createLruCache, CachedBody, readThrough, serveCached } from './_lib/cache';
+import { jsonError, numberParam, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for record highs and lows and 1991–2020 normals on a date.
+ * The archive behind them (every day since 1940, several hundred KB) only grows once a year,
+ * so it is fetched once per rounded coordinate and year and kept in its own small cache.
+ */
+const TTL_SECONDS = 24 * 60 * 60;
+const ARCHIVE_TTL_SECONDS = 30 * 24 * 60 * 60;
+const archives = createLruCache<CachedBody>(20);
+const quota = createRateLimiter('climate', 60, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const date = searchParams.get('date') || '';
+  const year = Number(date.slice(0, 4));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)) || year <= RECORDS_SINCE || year > new Date().getUTCFullYear() + 1) {
+    return jsonError(400, 'invalid_date', `"date" must be a YYYY-MM-DD date after ${RECORDS_SINCE}.`, headers);
+  }
+  // The archive grid is ~25 km, so 0.1° still lands on the same cell.
+  const latitude = roundCoordinate(lat, 1);
+  const longitude = roundCoordinate(lon, 1);
+
+  try {
+    return await serveCached(req, `climate|${latitude},${longitude}|${date}`, TTL_SECONDS, async () => {
+      const { entry } = await readThrough(`archive|${latitude},${longitude}|${year - 1}`, ARCHIVE_TTL_SECONDS, () =>
+        fetchDailyArchive(latitude, longitude, `${RECORDS_SINCE}-01-01`, `${year - 1}-12-31`), archives);
+      return { climate: climateForDay(entry.value as DailyArchive, date) };
+    }, headers);
+  } catch (error) {
+    console.error("Climate Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'Climate records are unavailable. Try again shortly.', headers);
+  }
+}
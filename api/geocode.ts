@@ -0,0 +1,37 @@
+import { geocodePlaces } from '../services/weatherService';
+import { serveCached } from './_lib/cache';
+import { jsonError, languageParam, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for place search by name or postal code.
+ * Results are cached for a day per query, language and country filter.
+ */
+const TTL_SECONDS = 24 * 60 * 60;
+const MAX_QUERY_LENGTH = 100;
+const rateLimit = createRateLimiter('search', 120, 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = rateLimit(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const query = (searchParams.get('q') || '').trim().replace(/\s+/g, ' ');
+  if (query.length < 2 || query.length > MAX_QUERY_LENGTH) {
+    return jsonError(400, 'invalid_query', `"q" must be 2 to ${MAX_QUERY_LENGTH} characters.`, headers);
+  }
+  const language = languageParam(searchParams);
+  const countryCode = searchParams.get('countryCode')?.toUpperCase();
+  if (countryCode && !/^[A-Z]{2}$/.test(countryCode)) {
+    return jsonError(400, 'invalid_country_code', '"countryCode" must be an ISO 3166-1 alpha-2 code.', headers);
+  }
+
+  try {
+    return await serveCached(req, `geocode|${language}|${countryCode || ''}|${query.toLowerCase()}`, TTL_SECONDS, async () => ({
+      results: await geocodePlaces(query, language, countryCode),
+    }), headers);
+  } catch (error) {
+    console.error("Geocode Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'Place search is unavailable. Try again shortly.', headers);
+  }
+}
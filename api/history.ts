@@ -0,0 +1,36 @@
+import { serveCached } from './_lib/cache';
+import { findWeatherHistory } from './_lib/gemini';
+import { jsonError, textParam, promptContextParams, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for notable past weather on a calendar day at a place.
+ * Only the month and day matter, so every year's request for the date shares an entry.
+ */
+const TTL_SECONDS = 7 * 24 * 60 * 60;
+const quota = createRateLimiter('history', 30, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const location = textParam(searchParams, 'location', 100);
+  if (!location) {
+    return jsonError(400, 'invalid_location', '"location" must be 1 to 100 characters.', headers);
+  }
+  const date = searchParams.get('date') || '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return jsonError(400, 'invalid_date', '"date" must be a YYYY-MM-DD date.', headers);
+  }
+  const context = promptContextParams(searchParams);
+
+  try {
+    return await serveCached(req, `history|${location.toLowerCase()}|${date.slice(5)}|${context.region}|${context.language}`, TTL_SECONDS, async () => ({
+      events: await findWeatherHistory(location, date, context),
+    }), headers);
+  } catch (error) {
+    console.error("Weather History Error:", error);
+    return jsonError(502, 'ai_unavailable', 'Weather history is unavailable. Try again shortly.', headers);
+  }
+}
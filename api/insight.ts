@@ -0,0 +1,51 @@
+import { DEFAULT_FORECAST_DAYS } from '../services/weatherService';
+import { unitsKey } from '../services/units';
+import { serveCached } from './_lib/cache';
+import { loadWeatherData } from './_lib/forecast';
+import { generateInsight } from './_lib/gemini';
+import { jsonError, numberParam, textParam, unitsParam, promptContextParams, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for the AI weather insight.
+ * The forecast is read from the shared weather cache rather than trusted from the client;
+ * insights are shared for half an hour per place, units, region and language.
+ */
+const TTL_SECONDS = 30 * 60;
+const quota = createRateLimiter('insight', 60, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const name = textParam(searchParams, 'name', 100);
+  if (!name) {
+    return jsonError(400, 'invalid_name', '"name" must be 1 to 100 characters.', headers);
+  }
+  const country = textParam(searchParams, 'country', 100) || '';
+  const context = promptContextParams(searchParams);
+  const units = unitsParam(searchParams, context.region);
+  if (!units) {
+    return jsonError(400, 'invalid_units', 'Unknown unit; see UNIT_LABELS for the accepted values.', headers);
+  }
+
+  const latitude = roundCoordinate(lat, 2);
+  const longitude = roundCoordinate(lon, 2);
+  const key = `insight|${latitude},${longitude}|${name}|${country}|${unitsKey(units)}|${context.region}|${context.language}`;
+
+  try {
+    return await serveCached(req, key, TTL_SECONDS, async () => {
+      const weather = await loadWeatherData(latitude, longitude, DEFAULT_FORECAST_DAYS, name, country);
+      return { insight: await generateInsight(weather, units, context) };
+    }, headers);
+  } catch (error) {
+    console.error("Gemini Insight Error:", error);
+    return jsonError(502, 'ai_unavailable', 'The AI insight is unavailable. Try again shortly.', headers);
+  }
+}
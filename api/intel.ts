@@ -0,0 +1,31 @@
+import { serveCached } from './_lib/cache';
+import { findLocalNews } from './_lib/gemini';
+import { jsonError, textParam, promptContextParams, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for Search-grounded local news, the fallback when NewsAPI has nothing.
+ */
+const TTL_SECONDS = 60 * 60;
+const quota = createRateLimiter('news', 30, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const location = textParam(searchParams, 'location', 100);
+  if (!location) {
+    return jsonError(400, 'invalid_location', '"location" must be 1 to 100 characters.', headers);
+  }
+  const context = promptContextParams(searchParams);
+
+  try {
+    return await serveCached(req, `intel|${location.toLowerCase()}|${context.region}|${context.language}`, TTL_SECONDS, async () => ({
+      items: await findLocalNews(location, context),
+    }), headers);
+  } catch (error) {
+    console.error("AI Intelligence Error:", error);
+    return jsonError(502, 'ai_unavailable', 'Local news is unavailable. Try again shortly.', headers);
+  }
+}
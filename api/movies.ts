@@ -0,0 +1,35 @@
+import { serveCached } from './_lib/cache';
+import { findMovies } from './_lib/gemini';
+import { jsonError, numberParam, promptContextParams, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for films showing near a coordinate.
+ * Coordinates are rounded to ~10 km, since cinema listings cover a whole town.
+ */
+const TTL_SECONDS = 6 * 60 * 60;
+const quota = createRateLimiter('movie', 30, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const context = promptContextParams(searchParams);
+  const latitude = roundCoordinate(lat, 1);
+  const longitude = roundCoordinate(lon, 1);
+
+  try {
+    return await serveCached(req, `movies|${latitude},${longitude}|${context.language}`, TTL_SECONDS, async () => ({
+      movies: await findMovies(latitude, longitude, context),
+    }), headers);
+  } catch (error) {
+    console.error("Movies Fetch Error:", error);
+    return jsonError(502, 'ai_unavailable', 'Movie listings are unavailable. Try again shortly.', headers);
+  }
+}
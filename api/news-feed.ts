@@ -0,0 +1,43 @@
+import { readThrough } from './_lib/cache';
+import { jsonError, textParam, languageParam, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side relay for the Google News RSS search feed, which browsers can't fetch cross-origin.
+ * The XML is passed through untouched; the client parses it.
+ */
+const FEED_URL = 'https://news.google.com/rss/search';
+const TTL_SECONDS = 30 * 60;
+const quota = createRateLimiter('news feed', 120, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const location = textParam(searchParams, 'location', 100);
+  if (!location) {
+    return jsonError(400, 'invalid_location', '"location" must be 1 to 100 characters.', headers);
+  }
+  const language = languageParam(searchParams);
+
+  try {
+    const { entry, hit } = await readThrough(`news-feed|${location.toLowerCase()}|${language}`, TTL_SECONDS, async () => {
+      const response = await fetch(`${FEED_URL}?q=${encodeURIComponent(location)}&hl=${language}`);
+      if (!response.ok) throw new Error(`News feed error: ${response.status}`);
+      return response.text();
+    });
+    return new Response(entry.value as string, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': `public, max-age=${TTL_SECONDS}, s-maxage=${TTL_SECONDS}, stale-while-revalidate=${TTL_SECONDS}`,
+        'X-Cache': hit ? 'HIT' : 'MISS',
+      }
+    });
+  } catch (error) {
+    console.error("News Feed Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'The news feed is unavailable. Try again shortly.', headers);
+  }
+}
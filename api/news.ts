@@ -1,59 +1,166 @@
+import { NewsItem, NewsPage } from '../types';
+import { serveCached } from './_lib/cache';
+import { jsonError, numberParam, textParam, languageParam, createRateLimiter } from './_lib/http';
+
 /**
- * Server-side route for fetching news via newsapi.org.
- * Handles API key concealment and data mapping.
+ * Server-side route for local news via newsapi.org, which keeps the API key off the client.
+ * Searches for the place name, narrowed by its region and country when given, and answers
+ * with one de-duplicated page: `{ items, page, total, source }`.
  */
+const NEWS_URL = 'https://newsapi.org/v2';
+const TTL_SECONDS = 15 * 60;
+const DEFAULT_PAGE_SIZE = 6;
+const MAX_PAGE_SIZE = 20;
+// The free plan stops at the 100th result; asking past it is an upstream error.
+const MAX_RESULTS = 100;
+// NewsAPI counts quota per day and rarely says when it resets.
+const DEFAULT_RETRY_AFTER_SECONDS = 60 * 60;
+const CATEGORIES = ['business', 'entertainment', 'general', 'health', 'science', 'sports', 'technology'];
+const quota = createRateLimiter('news', 120, 60 * 60);
+
+interface NewsQuery {
+  location: string;
+  /** Region and country, any of which an article must mention. */
+  qualifiers: string[];
+  language: string;
+  page: number;
+  pageSize: number;
+  from: string;
+  category: string;
+}
+
+/** Quoted phrase for NewsAPI's search syntax. */
+const phrase = (text: string) => `"${text.replace(/"/g, '')}"`;
+
+const searchUrl = (query: NewsQuery, qualified: boolean, apiKey: string) => {
+  const params = new URLSearchParams({ pageSize: String(query.pageSize), page: String(query.page), apiKey });
+  // Categories only exist on top headlines, which take plain keywords and no language or date.
+  if (query.category) {
+    params.set('category', query.category);
+    params.set('q', query.location);
+    return `${NEWS_URL}/top-headlines?${params}`;
+  }
+  const q = qualified && query.qualifiers.length
+    ? `${phrase(query.location)} AND (${query.qualifiers.map(phrase).join(' OR ')})`
+    : phrase(query.location);
+  params.set('q', q);
+  params.set('searchIn', 'title,description');
+  params.set('sortBy', 'publishedAt');
+  params.set('language', query.language);
+  if (query.from) params.set('from', query.from);
+  return `${NEWS_URL}/everything?${params}`;
+};
+
+/** Compares links without tracking parameters, and headlines without case or punctuation. */
+const urlKey = (url: string) => url.replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+const titleKey = (title: string) => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Maps NewsAPI articles onto news items, dropping removed entries and repeats. */
+const toItems = (articles: any[]): NewsItem[] => {
+  const seen = new Set<string>();
+  return articles.flatMap((art): NewsItem[] => {
+    const title = typeof art?.title === 'string' ? art.title.trim() : '';
+    const url = typeof art?.url === 'string' ? art.url : '';
+    // Articles pulled by their publisher stay listed with "[Removed]" in every field.
+    if (!title || title === '[Removed]' || !/^https?:\/\//.test(url) || url.includes('removed.com')) return [];
+    const keys = [urlKey(url), titleKey(title)];
+    if (keys.some(key => seen.has(key))) return [];
+    keys.forEach(key => seen.add(key));
+    const snippet = art.description || art.content || '';
+    return [{
+      title,
+      snippet: snippet === '[Removed]' ? '' : snippet,
+      url,
+      source: art.source?.name && art.source.name !== '[Removed]' ? art.source.name : url.replace(/^https?:\/\/(www\.)?/, '').split('/')[0],
+      date: art.publishedAt || '',
+    }];
+  });
+};
+
+const fetchPage = async (query: NewsQuery, qualified: boolean, apiKey: string): Promise<NewsPage> => {
+  const response = await fetch(searchUrl(query, qualified, apiKey));
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw Object.assign(new Error('NewsAPI rate limit reached'), {
+      status: 429,
+      retryAfter: retryAfter > 0 ? Math.ceil(retryAfter) : DEFAULT_RETRY_AFTER_SECONDS,
+    });
+  }
+  if (!response.ok) {
+    throw new Error(`NewsAPI error: ${response.status}`);
+  }
+  const data = await response.json();
+  return {
+    items: toItems(data.articles || []),
+    page: query.page,
+    total: Number(data.totalResults) || 0,
+    source: 'newsapi',
+  };
+};
+
 export default async function handler(req: Request) {
-  const { searchParams } = new URL(req.url);
-  const location = searchParams.get('location');
-  const apiKey = process.env.NEWS_API_KEY;
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
 
+  const apiKey = process.env.NEWS_API_KEY;
   if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'NEWS_API_KEY not configured' }), { 
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return jsonError(500, 'not_configured', 'NEWS_API_KEY is not configured.', headers);
   }
 
+  const { searchParams } = new URL(req.url);
+  const location = textParam(searchParams, 'location', 100);
   if (!location) {
-    return new Response(JSON.stringify({ error: 'Location required' }), { 
-      status: 400,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return jsonError(400, 'invalid_location', '"location" must be 1 to 100 characters.', headers);
+  }
+  const page = searchParams.has('page') ? numberParam(searchParams, 'page', 1, MAX_RESULTS) : 1;
+  const pageSize = searchParams.has('pageSize') ? numberParam(searchParams, 'pageSize', 1, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  if (page === null || pageSize === null || !Number.isInteger(page) || !Number.isInteger(pageSize)) {
+    return jsonError(400, 'invalid_page', `"page" must be a whole number from 1 and "pageSize" from 1 to ${MAX_PAGE_SIZE}.`, headers);
+  }
+  if (page * pageSize > MAX_RESULTS) {
+    return jsonError(400, 'invalid_page', `Only the first ${MAX_RESULTS} results can be paged through.`, headers);
+  }
+  const category = (searchParams.get('category') || '').toLowerCase();
+  if (category && !CATEGORIES.includes(category)) {
+    return jsonError(400, 'invalid_category', `"category" must be one of ${CATEGORIES.join(', ')}.`, headers);
+  }
+  const fromParam = searchParams.get('from');
+  const from = fromParam ? new Date(fromParam) : null;
+  if (from && (isNaN(from.getTime()) || from.getTime() > Date.now())) {
+    return jsonError(400, 'invalid_from', '"from" must be a past date, e.g. 2024-05-01.', headers);
   }
 
-  // Construct query for the location
-  const query = encodeURIComponent(`${location} news`);
-  const url = `https://newsapi.org/v2/everything?q=${query}&sortBy=publishedAt&pageSize=6&language=en&apiKey=${apiKey}`;
+  const admin = textParam(searchParams, 'admin', 60) || '';
+  const country = textParam(searchParams, 'country', 60) || '';
+  const query: NewsQuery = {
+    location,
+    qualifiers: [admin, country].filter(q => q && q.toLowerCase() !== location.toLowerCase()),
+    // `language` is still accepted from older clients.
+    language: languageParam(searchParams, searchParams.has('lang') ? 'lang' : 'language'),
+    page,
+    pageSize,
+    from: from ? from.toISOString().slice(0, 10) : '',
+    category,
+  };
+  // Keyed on the normalized query, so casing and spacing differences share an entry.
+  const cacheKey = ['news', location, admin, country].map(part => part.toLowerCase())
+    .concat(query.language, category, query.from, String(page), String(pageSize)).join('|');
 
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`NewsAPI error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    // Map external API results to our internal NewsItem type
-    const articles = (data.articles || []).map((art: any) => ({
-      title: art.title,
-      snippet: art.description || art.content || "Click to read full intelligence report.",
-      url: art.url,
-      source: art.source.name || "NewsAPI",
-      date: art.publishedAt
-    }));
-
-    return new Response(JSON.stringify(articles), {
-      status: 200,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Cache-Control': 's-maxage=900, stale-while-revalidate'
-      }
-    });
-  } catch (error) {
+    return await serveCached(req, cacheKey, TTL_SECONDS, async () => {
+      const result = await fetchPage(query, true, apiKey);
+      // Articles often name the town alone; search for it unqualified before giving up.
+      return result.total === 0 && query.qualifiers.length && !category ? fetchPage(query, false, apiKey) : result;
+    }, headers);
+  } catch (error: any) {
     console.error("NewsAPI Proxy Error:", error);
-    return new Response(JSON.stringify({ error: 'Failed to fetch from NewsAPI' }), { 
-      status: 502,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    if (error?.status === 429) {
+      return jsonError(429, 'upstream_rate_limited', 'The news provider is over its quota. Try again later.', {
+        ...headers,
+        'Retry-After': String(error.retryAfter),
+      });
+    }
+    return jsonError(502, 'upstream_unavailable', 'The news provider is unavailable. Try again shortly.', headers);
   }
-}
\ No newline at end of file
+}
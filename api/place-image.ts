@@ -0,0 +1,36 @@
+import { createLruCache, CachedBody, serveCached } from './_lib/cache';
+import { generatePlaceImage } from './_lib/gemini';
+import { jsonError, textParam, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for generated venue images.
+ * Images are data URLs of several hundred KB, so they get their own small cache.
+ */
+const TTL_SECONDS = 24 * 60 * 60;
+const images = createLruCache<CachedBody>(50);
+const quota = createRateLimiter('image', 200, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const title = textParam(searchParams, 'title', 120);
+  if (!title) {
+    return jsonError(400, 'invalid_title', '"title" must be 1 to 120 characters.', headers);
+  }
+  const weather = textParam(searchParams, 'weather', 60);
+  if (!weather) {
+    return jsonError(400, 'invalid_weather', '"weather" must describe the current conditions in 1 to 60 characters.', headers);
+  }
+
+  try {
+    return await serveCached(req, `image|${title}|${weather}`, TTL_SECONDS, async () => ({
+      image: await generatePlaceImage(title, weather),
+    }), headers, images);
+  } catch (error) {
+    console.error("Place Image Generation Error:", error);
+    return jsonError(502, 'ai_unavailable', 'Image generation is unavailable. Try again shortly.', headers);
+  }
+}
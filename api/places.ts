@@ -0,0 +1,48 @@
+import { serveCached } from './_lib/cache';
+import { findPlacesByCategory, suggestPlaces } from './_lib/gemini';
+import { jsonError, numberParam, textParam, promptContextParams, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for Maps-grounded places near a coordinate.
+ * With `category`, returns up to 10 places of that kind; without, 4 weather-appropriate
+ * suggestions and a one-line reason.
+ */
+const TTL_SECONDS = 6 * 60 * 60;
+const SUGGESTION_TTL_SECONDS = 60 * 60;
+const quota = createRateLimiter('places', 120, 60 * 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = quota(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const weather = textParam(searchParams, 'weather', 60);
+  if (!weather) {
+    return jsonError(400, 'invalid_weather', '"weather" must describe the current conditions in 1 to 60 characters.', headers);
+  }
+  const category = searchParams.has('category') ? textParam(searchParams, 'category', 40) : undefined;
+  if (category === null) {
+    return jsonError(400, 'invalid_category', '"category" must be 1 to 40 characters.', headers);
+  }
+  const context = promptContextParams(searchParams);
+  const latitude = roundCoordinate(lat, 2);
+  const longitude = roundCoordinate(lon, 2);
+  const key = `places|${latitude},${longitude}|${category || ''}|${weather}|${context.region}|${context.language}`;
+
+  try {
+    return category
+      ? await serveCached(req, key, TTL_SECONDS, async () => ({
+          places: await findPlacesByCategory(latitude, longitude, category, weather, context),
+        }), headers)
+      : await serveCached(req, key, SUGGESTION_TTL_SECONDS, () => suggestPlaces(latitude, longitude, weather, context), headers);
+  } catch (error) {
+    console.error(`Places Error (${category || 'suggestions'}):`, error);
+    return jsonError(502, 'ai_unavailable', 'Place lookup is unavailable. Try again shortly.', headers);
+  }
+}
@@ -0,0 +1,35 @@
+import { lookupPlace } from '../services/weatherService';
+import { serveCached } from './_lib/cache';
+import { jsonError, numberParam, languageParam, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route naming the place at a coordinate.
+ * Coordinates are rounded to ~100 m and results cached for a day.
+ */
+const TTL_SECONDS = 24 * 60 * 60;
+const rateLimit = createRateLimiter('reverse geocoding', 30, 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = rateLimit(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const language = languageParam(searchParams);
+  const latitude = roundCoordinate(lat, 3);
+  const longitude = roundCoordinate(lon, 3);
+
+  try {
+    return await serveCached(req, `reverse|${language}|${latitude},${longitude}`, TTL_SECONDS, async () => ({
+      place: await lookupPlace(latitude, longitude, language),
+    }), headers);
+  } catch (error) {
+    console.error("Reverse Geocode Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'Reverse geocoding is unavailable. Try again shortly.', headers);
+  }
+}
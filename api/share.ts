@@ -0,0 +1,88 @@
+import { LINK_PATH, parseLinkState } from '../services/linkState';
+
+/**
+ * Server-side route behind `/w/<slug>` links.
+ * Serves the app shell with Open Graph and Twitter tags for the linked place,
+ * so link previews show its name and current temperature.
+ */
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const titleCase = (slug: string) =>
+  slug.split('-').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+const currentTemperature = async (lat: number, lon: number, unit: 'C' | 'F' | 'K') => {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m&daily=temperature_2m_max,temperature_2m_min&forecast_days=1&timezone=auto${unit === 'F' ? '&temperature_unit=fahrenheit' : ''}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Open-Meteo error: ${response.status}`);
+  }
+  const data = await response.json();
+  const show = (value: number) => unit === 'K' ? `${Math.round(value + 273.15)} K` : `${Math.round(value)}°${unit}`;
+  return {
+    now: show(data.current.temperature_2m),
+    high: show(data.daily.temperature_2m_max[0]),
+    low: show(data.daily.temperature_2m_min[0]),
+  };
+};
+
+export default async function handler(req: Request) {
+  const url = new URL(req.url);
+  // The rewrite passes the slug as a query param; put it back in the path for the shared URL.
+  const slug = url.searchParams.get('slug');
+  url.searchParams.delete('slug');
+  const pathname = slug ? `${LINK_PATH}${slug}` : url.pathname;
+  const link = parseLinkState({ pathname, search: url.search });
+  const shareUrl = `${url.origin}${pathname}${url.search}`;
+
+  const place = link.location?.name
+    ? [link.location.name, link.location.country].filter(Boolean).join(', ')
+    : link.slug ? titleCase(link.slug) : null;
+
+  let temperature: Awaited<ReturnType<typeof currentTemperature>> | null = null;
+  if (link.location) {
+    try {
+      // Fahrenheit unless the link says otherwise, matching the app's default US region.
+      temperature = await currentTemperature(link.location.latitude, link.location.longitude, link.unit || 'F');
+    } catch (error) {
+      console.error("Share Preview Weather Error:", error);
+    }
+  }
+
+  try {
+    const shell = await fetch(`${url.origin}/index.html`);
+    if (!shell.ok) {
+      throw new Error(`App shell error: ${shell.status}`);
+    }
+    let html = await shell.text();
+
+    if (place) {
+      const title = `${place} Weather${temperature ? ` - ${temperature.now}` : ''} | RZeal Weather`;
+      const description = temperature
+        ? `${temperature.now} now, high ${temperature.high} / low ${temperature.low}. Hourly timeline, outlook and alerts for ${place}.`
+        : `Live forecast, hourly timeline, outlook and alerts for ${place}.`;
+      const setTag = (pattern: RegExp, value: string) => {
+        html = html.replace(pattern, (_, open: string, close: string) => `${open}${escapeHtml(value)}${close}`);
+      };
+      setTag(/(<title>)[^<]*(<\/title>)/, title);
+      setTag(/(<link rel="canonical" href=")[^"]*(")/, shareUrl);
+      ['og', 'twitter'].forEach(prefix => {
+        setTag(new RegExp(`(<meta property="${prefix}:title" content=")[^"]*(")`), title);
+        setTag(new RegExp(`(<meta property="${prefix}:description" content=")[^"]*(")`), description);
+        setTag(new RegExp(`(<meta property="${prefix}:url" content=")[^"]*(")`), shareUrl);
+      });
+    }
+
+    return new Response(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 's-maxage=600, stale-while-revalidate'
+      }
+    });
+  } catch (error) {
+    console.error("Share Page Error:", error);
+    // The app reads the same query from any path, so the plain shell still opens the place.
+    return Response.redirect(`${url.origin}/${url.search}`, 302);
+  }
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_FORECAST_DAYS } from '../services/weatherService';
+import { serveCached } from './_lib/cache';
+import { FORECAST_TTL_SECONDS, forecastCacheKey, fetchForecast } from './_lib/forecast';
+import { jsonError, numberParam, roundCoordinate, createRateLimiter } from './_lib/http';
+
+/**
+ * Server-side route for forecasts.
+ * Runs the upstream provider failover once per rounded coordinate and forecast length,
+ * and shares the result with every client for ten minutes.
+ */
+const rateLimit = createRateLimiter('forecast', 60, 60);
+
+export default async function handler(req: Request) {
+  const headers: Record<string, string> = {};
+  const limited = rateLimit(req, headers);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const lat = numberParam(searchParams, 'lat', -90, 90);
+  const lon = numberParam(searchParams, 'lon', -180, 180);
+  if (lat === null || lon === null) {
+    return jsonError(400, 'invalid_coordinates', '"lat" and "lon" must be decimal degrees.', headers);
+  }
+  const days = searchParams.has('days') ? numberParam(searchParams, 'days', 1, 16) : DEFAULT_FORECAST_DAYS;
+  if (days === null) {
+    return jsonError(400, 'invalid_days', '"days" must be between 1 and 16.', headers);
+  }
+
+  const latitude = roundCoordinate(lat, 2);
+  const longitude = roundCoordinate(lon, 2);
+  const forecastDays = Math.round(days);
+
+  try {
+    return await serveCached(req, forecastCacheKey(latitude, longitude, forecastDays), FORECAST_TTL_SECONDS, () =>
+      fetchForecast(latitude, longitude, forecastDays), headers);
+  } catch (error) {
+    console.error("Weather Proxy Error:", error);
+    return jsonError(502, 'upstream_unavailable', 'Forecast providers are unavailable. Try again shortly.', headers);
+  }
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityProfile, ActivityWindow, Place, WeatherData } from '../types';
+import { fetchNearbyPlacesByCategory } from '../services/geminiService';
+import { cacheReadThrough } from '../services/cacheStore';
+import { getWeatherDescription } from '../services/weatherService';
+import { locationKey } from '../services/savedLocations';
+import { UnitFormatter } from '../services/units';
+import { Translator, loadLanguage } from '../services/i18n';
+
+interface ActivityPlannerProps {
+  weather: WeatherData;
+  profiles: ActivityProfile[];
+  selected: ActivityProfile | undefined;
+  /** Best windows for the selected activity, best first. */
+  windows: ActivityWindow[];
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Timezone window times are shown in; the viewer's when undefined. */
+  timeZone?: string;
+  onSelect: (id: string) => void;
+  onEdit: () => void;
+}
+
+// A window starting this soon counts as "go now" for the place suggestions.
+const SOON_HOURS = 12;
+const MAX_PLACES = 4;
+
+/**
+ * Best upcoming windows for an activity, plus places to go: outdoor spots when a good window
+ * is coming up soon, indoor ones when it isn't.
+ */
+export const ActivityPlanner: React.FC<ActivityPlannerProps> = ({ weather, profiles, selected, windows, isLight, format, t, timeZone, onSelect, onEdit }) => {
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [placesLoading, setPlacesLoading] = useState(false);
+
+  const best = windows[0];
+  const outdoors = !!best && new Date(best.start).getTime() - Date.now() < SOON_HOURS * 60 * 60 * 1000;
+  const category = outdoors ? 'Parks & Nature' : 'Shopping Malls';
+  const desc = getWeatherDescription(best ? weather.hourly.weatherCode[best.startIndex] : weather.current.weatherCode).text;
+  const key = locationKey(weather.location);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    const { latitude: lat, longitude: lon } = weather.location;
+    const cacheKey = `${key}|planner|${category}|${desc}|${localStorage.getItem('preferredCountry') || ''}|${loadLanguage()}`;
+    setPlacesLoading(true);
+    cacheReadThrough('explorer', cacheKey, () => fetchNearbyPlacesByCategory(lat, lon, category, desc))
+      .then(result => { if (!cancelled) setPlaces(result.slice(0, MAX_PLACES)); })
+      .catch(error => {
+        console.error('Planner places failed:', error);
+        if (!cancelled) setPlaces([]);
+      })
+      .finally(() => { if (!cancelled) setPlacesLoading(false); });
+    return () => { cancelled = true; };
+  }, [key, category, desc, !!selected]);
+
+  const span = (w: ActivityWindow) =>
+    `${format.dateTime(w.start, { weekday: 'short', hour: 'numeric' }, timeZone)} – ${format.dateTime(w.end, { hour: 'numeric' }, timeZone)}`;
+  const tile = `rounded-2xl p-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`;
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-xs font-black uppercase tracking-widest flex items-center gap-3">
+          <i className="fa-solid fa-calendar-check text-blue-500"></i> {t('planner.title')}
+        </h3>
+        <button onClick={onEdit} className="text-[10px] font-black uppercase tracking-widest opacity-40 hover:opacity-100 transition-opacity flex items-center gap-2">
+          <i className="fa-solid fa-sliders"></i> {t('planner.edit')}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6" role="group" aria-label={t('planner.activity')}>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            aria-pressed={selected?.id === profile.id}
+            className={`px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-wider flex items-center gap-2 transition-all ${selected?.id === profile.id ? 'bg-blue-600 text-white' : 'bg-blue-500/10 text-blue-500 hover:bg-blue-500/20'}`}
+          >
+            <i className={`fa-solid ${profile.icon}`}></i>{profile.name}
+          </button>
+        ))}
+      </div>
+
+      {!selected ? (
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-30">{t('planner.noProfiles')}</p>
+      ) : (
+        <div className="space-y-6">
+          {windows.length > 0 ? (
+            <ol className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {windows.map((w, rank) => (
+                <li key={w.start} className={`${tile} ${rank === 0 ? 'border-emerald-500/40' : ''}`}>
+                  <p className="text-[9px] font-black uppercase tracking-widest opacity-40">
+                    {rank === 0 ? t('planner.best') : t('planner.alternative')}
+                  </p>
+                  <p className="text-sm font-black mt-2">{span(w)}</p>
+                  <p className={`text-[10px] font-black uppercase tracking-wider mt-1 ${w.score >= 85 ? 'text-emerald-500' : 'text-blue-500'}`}>
+                    {t('planner.score', { score: w.score })}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm font-medium opacity-60">{t('planner.noWindows', { activity: selected.name })}</p>
+          )}
+
+          <div>
+            <h4 className="text-[9px] font-black uppercase tracking-widest opacity-40 mb-3 flex items-center gap-2">
+              <i className={`fa-solid ${outdoors ? 'fa-tree' : 'fa-bag-shopping'} text-blue-500`}></i>
+              {t(outdoors ? 'planner.placesOutdoor' : 'planner.placesIndoor')}
+            </h4>
+            {placesLoading && places.length === 0 ? (
+              <div className="h-10 bg-blue-500/10 rounded-xl animate-pulse"></div>
+            ) : places.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {places.map(place => (
+                  <a
+                    key={place.uri}
+                    href={place.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`px-3 py-2 rounded-xl text-xs font-bold border flex items-center gap-2 transition-colors ${!isLight ? 'border-white/10 hover:bg-white/10' : 'border-slate-200 hover:bg-slate-100'}`}
+                  >
+                    <i className="fa-solid fa-location-dot text-blue-500"></i>{place.title}
+                  </a>
+                ))}
+              </div>
+            ) : (
+              <p className="text-[10px] font-black uppercase tracking-widest opacity-30">{t('planner.noPlaces')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ActivityProfile, UnitPreferences } from '../types';
+import { ACTIVITY_ICONS, DEFAULT_ACTIVITY_PROFILES, createProfileId } from '../services/activityPlanner';
+import { UNIT_LABELS, convertTemperature, temperatureToCelsius, convertWind, windToKmh } from '../services/units';
+import { Translator } from '../services/i18n';
+
+interface ActivityProfilesEditorProps {
+  profiles: ActivityProfile[];
+  units: UnitPreferences;
+  isLight: boolean;
+  t: Translator;
+  onChange: (profiles: ActivityProfile[]) => void;
+  onClose: () => void;
+}
+
+const blankProfile = (): ActivityProfile => ({
+  ...DEFAULT_ACTIVITY_PROFILES[0],
+  id: createProfileId(),
+  name: '',
+});
+
+/**
+ * Modal for creating, editing and deleting activity profiles.
+ * Temperature and wind limits are edited in the user's units and stored in °C and km/h.
+ */
+export const ActivityProfilesEditor: React.FC<ActivityProfilesEditorProps> = ({ profiles, units, isLight, t, onChange, onClose }) => {
+  const [draft, setDraft] = useState<ActivityProfile | null>(null);
+
+  const temp = (celsius: number) => Math.round(convertTemperature(celsius, units.temperature));
+  const wind = (kmh: number) => Math.round(convertWind(kmh, units.wind));
+  const fromTemp = (value: number) => Math.round(temperatureToCelsius(value, units.temperature) * 10) / 10;
+  const fromWind = (value: number) => Math.round(windToKmh(value, units.wind) * 10) / 10;
+  const tempUnit = UNIT_LABELS.temperature[units.temperature];
+  const windUnit = UNIT_LABELS.wind[units.wind];
+
+  const describe = (p: ActivityProfile) => [
+    `${temp(p.minTemp)}–${temp(p.maxTemp)} ${tempUnit}`,
+    t('planner.describeWind', { value: `${wind(p.maxWind)} ${windUnit}` }),
+    t('planner.describePrecip', { value: p.maxPrecipProbability }),
+    t('planner.describeUv', { value: p.maxUv }),
+    ...(p.daylightOnly ? [t('planner.daylightOnly')] : []),
+  ].join(' · ');
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const saved = { ...draft, name: draft.name.trim() };
+    const exists = profiles.some(p => p.id === saved.id);
+    onChange(exists ? profiles.map(p => p.id === saved.id ? saved : p) : [...profiles, saved]);
+    setDraft(null);
+  };
+
+  const fieldClass = `w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`;
+  const labelClass = 'text-[10px] font-black uppercase tracking-widest opacity-40';
+
+  const numberField = (label: string, value: number, onValue: (value: number) => void, min?: number, max?: number) => (
+    <div className="space-y-2">
+      <label className={labelClass}>{label}</label>
+      <input type="number" className={fieldClass} value={value} min={min} max={max} onChange={(e) => onValue(Number(e.target.value))} />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose}></div>
+      <div className={`relative w-full max-w-2xl glass-card rounded-[3rem] shadow-2xl max-h-[85vh] flex flex-col overflow-hidden border border-white/10 ${isLight ? 'bg-white' : 'bg-slate-900'}`}>
+        <div className="p-8 pb-4 flex items-center justify-between">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-500 flex items-center gap-3">
+            <i className="fa-solid fa-sliders"></i> {t('planner.editorTitle')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10" aria-label={t('planner.close')}><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-3 no-scrollbar">
+          {profiles.length === 0 && !draft && (
+            <p className="py-8 text-center text-[10px] font-black uppercase tracking-widest opacity-30">{t('planner.noProfiles')}</p>
+          )}
+
+          {profiles.map(profile => (
+            <div key={profile.id} className={`rounded-2xl p-4 flex items-center gap-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`}>
+              <i className={`fa-solid ${profile.icon} text-blue-500`}></i>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-black truncate">{profile.name}</p>
+                <p className="text-[9px] font-bold uppercase tracking-wider opacity-50 truncate">{describe(profile)}</p>
+              </div>
+              <button onClick={() => setDraft({ ...profile })} className="p-2 rounded-lg hover:bg-white/10" aria-label={t('planner.editProfile', { name: profile.name })}><i className="fa-solid fa-pen text-xs"></i></button>
+              <button onClick={() => onChange(profiles.filter(p => p.id !== profile.id))} className="p-2 rounded-lg hover:bg-rose-500/20 text-rose-500" aria-label={t('planner.deleteProfile', { name: profile.name })}><i className="fa-solid fa-trash text-xs"></i></button>
+            </div>
+          ))}
+
+          {draft ? (
+            <div className="rounded-[2rem] p-6 border border-blue-500/30 space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>{t('planner.name')}</label>
+                <input className={fieldClass} value={draft.name} maxLength={24} placeholder={t('planner.namePlaceholder')} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>{t('planner.icon')}</label>
+                <div className="flex flex-wrap gap-2">
+                  {ACTIVITY_ICONS.map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => setDraft({ ...draft, icon })}
+                      aria-pressed={draft.icon === icon}
+                      className={`w-9 h-9 rounded-xl border ${draft.icon === icon ? 'bg-blue-600 border-blue-600 text-white' : 'border-white/10 opacity-60'}`}
+                    >
+                      <i className={`fa-solid ${icon}`}></i>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {numberField(t('planner.minTemp', { unit: tempUnit }), temp(draft.minTemp), v => setDraft({ ...draft, minTemp: fromTemp(v) }))}
+                {numberField(t('planner.maxTemp', { unit: tempUnit }), temp(draft.maxTemp), v => setDraft({ ...draft, maxTemp: fromTemp(v) }))}
+                {numberField(t('planner.maxWind', { unit: windUnit }), wind(draft.maxWind), v => setDraft({ ...draft, maxWind: fromWind(v) }), 0)}
+                {numberField(t('planner.maxPrecip'), draft.maxPrecipProbability, v => setDraft({ ...draft, maxPrecipProbability: v }), 0, 100)}
+                {numberField(t('planner.maxUv'), draft.maxUv, v => setDraft({ ...draft, maxUv: v }), 0, 15)}
+                {numberField(t('planner.maxAqi'), draft.maxAqi, v => setDraft({ ...draft, maxAqi: v }), 0, 500)}
+              </div>
+              <label className="flex items-center gap-3 text-xs font-bold cursor-pointer">
+                <input type="checkbox" className="accent-blue-500" checked={draft.daylightOnly} onChange={(e) => setDraft({ ...draft, daylightOnly: e.target.checked })} />
+                {t('planner.daylightOnly')}
+              </label>
+              <div className="flex gap-3 pt-2">
+                <button onClick={saveDraft} disabled={!draft.name.trim()} className="flex-1 py-3 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] disabled:opacity-30">{t('planner.save')}</button>
+                <button onClick={() => setDraft(null)} className="px-6 py-3 rounded-2xl bg-white/5 font-black uppercase text-[10px]">{t('rules.cancel')}</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <button onClick={() => setDraft(blankProfile())} className="flex-1 py-4 rounded-2xl border border-dashed border-blue-500/40 text-blue-500 font-black uppercase text-[10px] hover:bg-blue-500/10">
+                <i className="fa-solid fa-plus me-2"></i>{t('planner.new')}
+              </button>
+              <button onClick={() => onChange(DEFAULT_ACTIVITY_PROFILES)} className="px-6 py-4 rounded-2xl bg-white/5 font-black uppercase text-[10px] opacity-60 hover:opacity-100">
+                {t('planner.reset')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
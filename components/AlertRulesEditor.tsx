@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { AlertRule, RuleMetric, RuleOperator, RuleWindow, UnitPreferences } from '../types';
+import { RULE_METRICS, RULE_WINDOWS, RULE_OPERATORS, createRuleId, describeRule } from '../services/alertRules';
+import { UNIT_LABELS, convertTemperature, temperatureToCelsius, convertWind, windToKmh } from '../services/units';
+import { Translator } from '../services/i18n';
+
+interface AlertRulesEditorProps {
+  rules: AlertRule[];
+  units: UnitPreferences;
+  isLight: boolean;
+  t: Translator;
+  onChange: (rules: AlertRule[]) => void;
+  onClose: () => void;
+}
+
+const blankRule = (): AlertRule => ({
+  id: createRuleId(),
+  name: '',
+  metric: 'windSpeed',
+  operator: '>',
+  threshold: 40,
+  window: 'next12h',
+  severity: 'warning',
+  message: '',
+  enabled: true,
+});
+
+/**
+ * Modal for creating, editing, toggling and deleting threshold alert rules.
+ * Temperature and wind thresholds are edited in the user's units and stored in °C and km/h.
+ */
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ rules, units, isLight, t, onChange, onClose }) => {
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+
+  const toDisplay = (rule: AlertRule) => {
+    switch (RULE_METRICS[rule.metric].unit) {
+      case 'temp': return Math.round(convertTemperature(rule.threshold, units.temperature));
+      case 'speed': return Math.round(convertWind(rule.threshold, units.wind));
+      default: return rule.threshold;
+    }
+  };
+  const fromDisplay = (metric: RuleMetric, value: number) => {
+    switch (RULE_METRICS[metric].unit) {
+      case 'temp': return Math.round(temperatureToCelsius(value, units.temperature) * 10) / 10;
+      case 'speed': return Math.round(windToKmh(value, units.wind) * 10) / 10;
+      default: return value;
+    }
+  };
+  const suffix = (metric: RuleMetric) => {
+    switch (RULE_METRICS[metric].unit) {
+      case 'temp': return UNIT_LABELS.temperature[units.temperature];
+      case 'speed': return UNIT_LABELS.wind[units.wind];
+      case 'percent': return '%';
+      default: return '';
+    }
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const exists = rules.some(r => r.id === draft.id);
+    onChange(exists ? rules.map(r => r.id === draft.id ? draft : r) : [...rules, draft]);
+    setDraft(null);
+  };
+
+  const fieldClass = `w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`;
+  const labelClass = 'text-[10px] font-black uppercase tracking-widest opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose}></div>
+      <div className={`relative w-full max-w-2xl glass-card rounded-[3rem] shadow-2xl max-h-[85vh] flex flex-col overflow-hidden border border-white/10 ${isLight ? 'bg-white' : 'bg-slate-900'}`}>
+        <div className="p-8 pb-4 flex items-center justify-between">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-500 flex items-center gap-3">
+            <i className="fa-solid fa-sliders"></i> {t('rules.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10" aria-label={t('rules.close')}><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-3 no-scrollbar">
+          {rules.length === 0 && !draft && (
+            <p className="py-8 text-center text-[10px] font-black uppercase tracking-widest opacity-30">{t('rules.empty')}</p>
+          )}
+
+          {rules.map(rule => (
+            <div key={rule.id} className={`rounded-2xl p-4 flex items-center gap-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'} ${rule.enabled ? '' : 'opacity-40'}`}>
+              <i className={`fa-solid ${RULE_METRICS[rule.metric].icon} ${rule.severity === 'danger' ? 'text-rose-500' : 'text-amber-500'}`}></i>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-black truncate">{rule.name}</p>
+                <p className="text-[9px] font-bold uppercase tracking-wider opacity-50 truncate">
+                  {describeRule({ ...rule, threshold: toDisplay(rule) }, t)}{suffix(rule.metric) && ` (${suffix(rule.metric)})`}
+                </p>
+              </div>
+              <button onClick={() => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} className="px-3 py-1.5 rounded-lg font-black text-[9px] uppercase bg-blue-500/10 text-blue-500" aria-label={t(rule.enabled ? 'rules.disable' : 'rules.enable', { name: rule.name })}>
+                {t(rule.enabled ? 'common.on' : 'common.off')}
+              </button>
+              <button onClick={() => setDraft({ ...rule })} className="p-2 rounded-lg hover:bg-white/10" aria-label={t('rules.edit', { name: rule.name })}><i className="fa-solid fa-pen text-xs"></i></button>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-2 rounded-lg hover:bg-rose-500/20 text-rose-500" aria-label={t('rules.delete', { name: rule.name })}><i className="fa-solid fa-trash text-xs"></i></button>
+            </div>
+          ))}
+
+          {draft ? (
+            <div className="rounded-[2rem] p-6 border border-blue-500/30 space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>{t('rules.name')}</label>
+                <input className={fieldClass} value={draft.name} placeholder={t('rules.namePlaceholder')} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <label className={labelClass}>{t('rules.metric')}</label>
+                  <select className={fieldClass} value={draft.metric} onChange={(e) => setDraft({ ...draft, metric: e.target.value as RuleMetric })}>
+                    {(Object.keys(RULE_METRICS) as RuleMetric[]).map(m => <option key={m} value={m}>{t(`rules.metric.${m}`)}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>{t('rules.condition')}</label>
+                  <div className="flex gap-2">
+                    <select className={`${fieldClass} w-20`} value={draft.operator} onChange={(e) => setDraft({ ...draft, operator: e.target.value as RuleOperator })}>
+                      {RULE_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      className={fieldClass}
+                      value={toDisplay(draft)}
+                      onChange={(e) => setDraft({ ...draft, threshold: fromDisplay(draft.metric, Number(e.target.value)) })}
+                      aria-label={t('rules.threshold', { unit: suffix(draft.metric) || t('rules.indexPoints') })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>{t('rules.window')}</label>
+                  <select className={fieldClass} value={draft.window} onChange={(e) => setDraft({ ...draft, window: e.target.value as RuleWindow })}>
+                    {(Object.keys(RULE_WINDOWS) as RuleWindow[]).map(w => <option key={w} value={w}>{t(`rules.window.${w}`)}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>{t('rules.severity')}</label>
+                <div className="flex gap-2">
+                  {(['warning', 'danger'] as const).map(sev => (
+                    <button
+                      key={sev}
+                      onClick={() => setDraft({ ...draft, severity: sev })}
+                      className={`flex-1 py-2 rounded-xl font-black uppercase text-[10px] border ${draft.severity === sev ? (sev === 'danger' ? 'bg-rose-500/20 border-rose-500/40 text-rose-500' : 'bg-amber-500/20 border-amber-500/40 text-amber-500') : 'border-white/10 opacity-50'}`}
+                    >
+                      {t(sev === 'danger' ? 'rules.danger' : 'rules.warning')}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>{t('rules.message')}</label>
+                <textarea className={`${fieldClass} resize-none`} rows={2} value={draft.message} placeholder={t('rules.messagePlaceholder')} onChange={(e) => setDraft({ ...draft, message: e.target.value })} />
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button onClick={saveDraft} disabled={!draft.name.trim()} className="flex-1 py-3 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] disabled:opacity-30">{t('rules.save')}</button>
+                <button onClick={() => setDraft(null)} className="px-6 py-3 rounded-2xl bg-white/5 font-black uppercase text-[10px]">{t('rules.cancel')}</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setDraft(blankRule())} className="w-full py-4 rounded-2xl border border-dashed border-blue-500/40 text-blue-500 font-black uppercase text-[10px] hover:bg-blue-500/10">
+              <i className="fa-solid fa-plus me-2"></i>{t('rules.new')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, ChatEvent, UnitPreferences, WeatherData } from '../types';
+import { streamChat } from '../services/geminiService';
+import { loadChatHistory, persistChatHistory, recentTurns } from '../services/chatHistory';
+import { locationKey } from '../services/savedLocations';
+import { Translator } from '../services/i18n';
+
+interface ChatPanelProps {
+  weather: WeatherData;
+  /** Units on screen, which the assistant answers in. */
+  units: UnitPreferences;
+  isLight: boolean;
+  t: Translator;
+}
+
+const SUGGESTIONS = ['chat.suggestRun', 'chat.suggestPicnic', 'chat.suggestCompare'] as const;
+
+/**
+ * Follow-up questions about the forecast on screen. Replies stream in as they're written;
+ * each location keeps its own conversation, restored when the location is shown again.
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({ weather, units, isLight, t }) => {
+  const key = locationKey(weather.location);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => loadChatHistory(key));
+  const [draft, setDraft] = useState('');
+  const [reply, setReply] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Switching location swaps in that location's conversation and drops any reply in flight.
+  useEffect(() => {
+    setMessages(loadChatHistory(key));
+    setReply(null);
+    setStatus('');
+    setError('');
+    return () => abortRef.current?.abort();
+  }, [key]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, reply, status]);
+
+  const onEvent = (event: ChatEvent) => {
+    if (event.type === 'text') {
+      setStatus('');
+      setReply(prev => (prev || '') + event.text);
+    } else if (event.type === 'tool') {
+      setStatus(t(event.name === 'search_location' ? 'chat.searching' : 'chat.checking', { place: event.query }));
+    }
+  };
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || reply !== null) return;
+    const history = messages;
+    const withQuestion: ChatMessage[] = [...history, { role: 'user', text: message }];
+    setMessages(withQuestion);
+    persistChatHistory(key, withQuestion);
+    setDraft('');
+    setError('');
+    setReply('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const answer = await streamChat(weather, units, recentTurns(history), message, onEvent, controller.signal);
+      const withAnswer: ChatMessage[] = [...withQuestion, { role: 'model', text: answer || t('chat.empty') }];
+      setMessages(withAnswer);
+      persistChatHistory(key, withAnswer);
+    } catch (err) {
+      // Take back the unanswered question, unless the conversation was cleared meanwhile.
+      const stored = loadChatHistory(key);
+      if (stored[stored.length - 1]?.text === message) persistChatHistory(key, history);
+      if (controller.signal.aborted) return;
+      console.error('Chat failed:', err);
+      setMessages(history);
+      setDraft(message);
+      setError(t('chat.error'));
+    } finally {
+      if (!controller.signal.aborted) {
+        setReply(null);
+        setStatus('');
+      }
+    }
+  };
+
+  const clear = () => {
+    abortRef.current?.abort();
+    setMessages([]);
+    setReply(null);
+    setStatus('');
+    setError('');
+    persistChatHistory(key, []);
+  };
+
+  const bubble = (role: ChatMessage['role'], text: string, index: number | string) => (
+    <div key={index} className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <p className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm font-medium leading-relaxed whitespace-pre-wrap ${
+        role === 'user'
+          ? 'bg-blue-600 text-white rounded-ee-md'
+          : `${!isLight ? 'bg-white/5 border border-white/10' : 'bg-slate-100 border border-slate-200'} rounded-es-md`
+      }`}>
+        {text}
+      </p>
+    </div>
+  );
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xs font-black uppercase tracking-widest flex items-center gap-3">
+          <i className="fa-solid fa-comments text-blue-500"></i> {t('chat.title')}
+        </h3>
+        {messages.length > 0 && (
+          <button onClick={clear} className="text-[10px] font-black uppercase tracking-widest opacity-40 hover:opacity-100 transition-opacity">
+            {t('chat.clear')}
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="space-y-3 max-h-96 overflow-y-auto pe-1" aria-live="polite">
+        {messages.length === 0 && reply === null && (
+          <div className="space-y-4">
+            <p className="text-sm opacity-50">{t('chat.intro', { location: weather.location.name })}</p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => send(t(suggestion))}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${!isLight ? 'border-white/10 hover:bg-white/10' : 'border-slate-200 hover:bg-slate-100'}`}
+                >
+                  {t(suggestion)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {messages.map((m, i) => bubble(m.role, m.text, i))}
+        {reply && bubble('model', reply, 'streaming')}
+        {reply !== null && !reply && (
+          <p className="text-xs font-bold opacity-50 flex items-center gap-2">
+            <i className="fa-solid fa-circle-notch fa-spin text-blue-500"></i> {status || t('chat.thinking')}
+          </p>
+        )}
+        {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); send(draft); }}
+        className="mt-6 flex gap-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={1000}
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.placeholder')}
+          className={`flex-1 rounded-2xl py-3 px-5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${!isLight ? 'bg-white/5 border border-white/10 text-white' : 'bg-white border border-slate-200 text-slate-900'}`}
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || reply !== null}
+          aria-label={t('chat.send')}
+          className="px-5 rounded-2xl bg-blue-600 text-white shadow-xl active:scale-95 disabled:opacity-40 transition-all"
+        >
+          <i className="fa-solid fa-paper-plane rtl:-scale-x-100"></i>
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Movie, Place } from '../types';
+import { Translator } from '../services/i18n';
+
+interface CinemaPanelProps {
+  movies: Movie[];
+  isLoading: boolean;
+  /** Venues from the explorer's movie theater category, for linking theaters to their cards. */
+  theaters: Place[];
+  locationName: string;
+  /** Shown first with a call-out when rain, snow or storms are about. */
+  featured: boolean;
+  isLight: boolean;
+  t: Translator;
+  onShowTheater: (index: number) => void;
+}
+
+// Words every venue name shares, which say nothing about which venue it is.
+const GENERIC_WORDS = new Set(['cinema', 'cinemas', 'cine', 'theater', 'theatre', 'theaters', 'theatres', 'movies', 'movie', 'imax', 'the', 'and']);
+
+const nameWords = (name: string) =>
+  name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !GENERIC_WORDS.has(word));
+
+/** Index of the explorer venue a listed theater most likely is, or -1. */
+const matchTheater = (theater: string, venues: Place[]): number => {
+  const words = nameWords(theater);
+  if (!words.length) return -1;
+  let best = -1;
+  let bestShared = 0;
+  venues.forEach((venue, index) => {
+    const venueWords = new Set(nameWords(venue.title));
+    const shared = words.filter(word => venueWords.has(word)).length;
+    if (shared > bestShared) {
+      best = index;
+      bestShared = shared;
+    }
+  });
+  return best;
+};
+
+/**
+ * Films showing nearby with their theaters. Theaters that match a venue in the explorer link
+ * to its card; the rest open a Maps search.
+ */
+export const CinemaPanel: React.FC<CinemaPanelProps> = ({ movies, isLoading, theaters, locationName, featured, isLight, t, onShowTheater }) => {
+  const chip = `px-3 py-1.5 rounded-full text-[10px] font-bold border flex items-center gap-2 transition-colors ${!isLight ? 'border-white/10 hover:bg-white/10' : 'border-slate-200 hover:bg-slate-100'}`;
+
+  return (
+    <section className={`glass-card rounded-[2.5rem] p-8 shadow-xl ${featured ? 'border border-blue-500/40' : ''}`}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-xs font-black uppercase tracking-widest flex items-center gap-3">
+          <i className="fa-solid fa-film text-blue-500"></i> {t('cinema.title')}
+        </h3>
+        {featured && (
+          <span className="text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-blue-500/15 text-blue-500 flex items-center gap-2">
+            <i className="fa-solid fa-cloud-rain"></i> {t('cinema.badWeather')}
+          </span>
+        )}
+      </div>
+
+      {isLoading && movies.length === 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[1, 2, 3, 4].map(i => <div key={i} className="h-32 rounded-2xl bg-white/5 animate-pulse"></div>)}
+        </div>
+      ) : movies.length > 0 ? (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {movies.map(movie => (
+            <li key={movie.title} className={`rounded-2xl p-5 border space-y-3 ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`}>
+              <h4 className="text-sm font-black leading-tight">{movie.title}</h4>
+              {movie.description && <p className="text-xs font-medium opacity-60 leading-relaxed line-clamp-3">{movie.description}</p>}
+              {movie.theaters.length > 0 && (
+                <div className="flex flex-wrap gap-2" aria-label={t('cinema.showingAt')}>
+                  {movie.theaters.map(theater => {
+                    const venue = matchTheater(theater, theaters);
+                    return venue === -1 ? (
+                      <a
+                        key={theater}
+                        href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(`${theater} ${locationName}`)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={chip}
+                      >
+                        <i className="fa-solid fa-location-dot opacity-50"></i>{theater}
+                      </a>
+                    ) : (
+                      <button key={theater} onClick={() => onShowTheater(venue)} className={`${chip} text-blue-500`} title={t('cinema.showVenue')}>
+                        <i className="fa-solid fa-ticket"></i>{theater}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="py-12 text-center rounded-[2rem] border border-dashed border-white/10 opacity-30">
+          <p className="text-[10px] font-black uppercase tracking-widest">{t('cinema.empty')}</p>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { WeatherData } from '../types';
+import { currentHourIndex } from '../services/weatherService';
+import { UnitFormatter } from '../services/units';
+import { Translator } from '../services/i18n';
+
+interface ConditionDetailsProps {
+  weather: WeatherData;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Timezone sunrise and sunset are shown in; the viewer's when undefined. */
+  timeZone?: string;
+}
+
+const orDash = (value: number, format: (v: number) => string) => Number.isFinite(value) ? format(value) : '—';
+
+/**
+ * Grid of secondary readings for the current hour, plus today's sunrise and sunset.
+ * Hourly-only fields are read from the entry covering the current hour.
+ */
+export const ConditionDetails: React.FC<ConditionDetailsProps> = ({ weather, isLight, format, t, timeZone }) => {
+  const { hourly, daily, current } = weather;
+  const i = Math.min(currentHourIndex(hourly.time), hourly.time.length - 1);
+  const snow = hourly.snowfall[i];
+  const clock = (iso: string) => iso ? format.dateTime(iso, { hour: 'numeric', minute: '2-digit' }, timeZone) : '—';
+
+  const tiles: { label: string; value: string; icon: string; hint?: string }[] = [
+    { label: t('conditions.feelsLike'), value: format.temperature(current.apparentTemp), icon: 'fa-person-rays' },
+    { label: t('conditions.gusts'), value: orDash(hourly.windGusts[i], format.wind), icon: 'fa-wind', hint: t('conditions.sustained', { value: format.wind(current.windSpeed) }) },
+    { label: t('conditions.humidity'), value: `${format.number(current.humidity)}%`, icon: 'fa-droplet', hint: orDash(hourly.dewPoint[i], v => t('conditions.dewPoint', { value: format.temperature(v) })) },
+    { label: t('conditions.pressure'), value: orDash(hourly.pressure[i], format.pressure), icon: 'fa-gauge' },
+    { label: t('conditions.visibility'), value: orDash(hourly.visibility[i], format.distance), icon: 'fa-eye' },
+    { label: t('conditions.cloudCover'), value: orDash(hourly.cloudCover[i], v => `${format.number(v)}%`), icon: 'fa-cloud' },
+    {
+      label: t('conditions.precipitation'),
+      value: orDash(hourly.precipitationAmount[i], format.precipitation),
+      icon: snow > 0 ? 'fa-snowflake' : 'fa-umbrella',
+      // Snowfall is reported in cm, i.e. ten times the precipitation unit's mm.
+      hint: snow > 0
+        ? t('conditions.snowHour', { value: format.precipitation(snow * 10) })
+        : t('conditions.chanceHour', { value: format.number(hourly.precipitation[i] ?? 0) }),
+    },
+    { label: t('conditions.uvIndex'), value: format.number(current.uvIndex), icon: 'fa-sun', hint: t('conditions.uvPeak', { value: format.number(daily.uvIndexMax[0] ?? 0) }) },
+    { label: t('conditions.sunrise'), value: clock(daily.sunrise[0]), icon: 'fa-arrow-up', hint: t('conditions.sunset', { time: clock(daily.sunset[0]) }) },
+  ];
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <h3 className="text-xs font-black uppercase tracking-widest mb-6 flex items-center gap-3">
+        <i className="fa-solid fa-gauge-high text-blue-500"></i> {t('conditions.title')}
+      </h3>
+      <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className={`rounded-2xl p-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`}>
+            <dt className="text-[9px] font-black uppercase tracking-widest opacity-40 flex items-center gap-2">
+              <i className={`fa-solid ${tile.icon} text-blue-500`}></i>{tile.label}
+            </dt>
+            <dd className="text-xl font-black mt-2">{tile.value}</dd>
+            {tile.hint && <dd className="text-[9px] font-bold uppercase tracking-wider opacity-40 mt-1">{tile.hint}</dd>}
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+};
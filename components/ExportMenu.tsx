@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Language, WeatherAlert, WeatherData } from '../types';
+import { ForecastSeries, buildForecastCalendar, downloadFile, exportFileName, forecastToCsv, forecastToJson } from '../services/exportService';
+import { UnitFormatter } from '../services/units';
+import { Translator } from '../services/i18n';
+
+interface ExportMenuProps {
+  weather: WeatherData;
+  /** Alerts on screen for the location, added to the calendar file. */
+  alerts: WeatherAlert[];
+  language: Language;
+  /** Region preference, passed on so the subscribed feed uses the same units. */
+  region: string;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Zone hourly times are written in; the viewer's when undefined. */
+  timeZone?: string;
+}
+
+/** Address of the server feed for the location, with the current units and language. */
+const calendarFeedUrl = (weather: WeatherData, format: UnitFormatter, language: Language, region: string) => {
+  const { latitude, longitude, name, country } = weather.location;
+  const params = new URLSearchParams({
+    lat: latitude.toFixed(2),
+    lon: longitude.toFixed(2),
+    name,
+    country,
+    ...(region ? { region } : {}),
+    language,
+    ...format.units,
+  });
+  return `${window.location.origin}/api/calendar.ics?${params}`;
+};
+
+/** Downloads of the forecast as CSV, JSON or an .ics calendar, and a calendar subscription link. */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ weather, alerts, language, region, isLight, format, t, timeZone }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const feedUrl = calendarFeedUrl(weather, format, language, region);
+
+  const save = (fileName: string, content: string, type: string) => {
+    downloadFile(fileName, content, type);
+    setIsOpen(false);
+  };
+  const saveCsv = (series: ForecastSeries) =>
+    save(exportFileName(weather, series, 'csv'), forecastToCsv(weather, series, format, t, timeZone), 'text/csv;charset=utf-8');
+
+  const copyFeed = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const item = `w-full flex items-center gap-3 px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-start ${!isLight ? 'hover:bg-white/10' : 'hover:bg-slate-100'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-xl opacity-30 hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={t('export.title')}
+        aria-expanded={isOpen}
+        title={t('export.title')}
+      >
+        <i className="fa-solid fa-file-export text-2xl"></i>
+      </button>
+      {isOpen && (
+        <div role="menu" className={`absolute top-full start-0 mt-2 w-64 rounded-[1.5rem] p-2 z-[100] shadow-2xl ${!isLight ? 'glass-card bg-slate-900' : 'bg-white border border-slate-100'}`}>
+          <button role="menuitem" className={item} onClick={() => saveCsv('hourly')}>
+            <i className="fa-solid fa-file-csv text-blue-500 w-4"></i> {t('export.hourlyCsv')}
+          </button>
+          <button role="menuitem" className={item} onClick={() => saveCsv('daily')}>
+            <i className="fa-solid fa-file-csv text-blue-500 w-4"></i> {t('export.dailyCsv')}
+          </button>
+          <button role="menuitem" className={item} onClick={() => save(exportFileName(weather, 'forecast', 'json'), forecastToJson(weather, format, t, timeZone), 'application/json')}>
+            <i className="fa-solid fa-file-code text-blue-500 w-4"></i> {t('export.json')}
+          </button>
+          <button role="menuitem" className={item} onClick={() => save(exportFileName(weather, 'forecast', 'ics'), buildForecastCalendar(weather, alerts, format, t), 'text/calendar;charset=utf-8')}>
+            <i className="fa-regular fa-calendar text-blue-500 w-4"></i> {t('export.calendar')}
+          </button>
+          <div className={`my-2 border-t ${!isLight ? 'border-white/10' : 'border-slate-100'}`}></div>
+          <a role="menuitem" className={item} href={feedUrl.replace(/^https?:/, 'webcal:')} onClick={() => setIsOpen(false)}>
+            <i className="fa-solid fa-calendar-plus text-blue-500 w-4"></i> {t('export.subscribe')}
+          </a>
+          <button role="menuitem" className={item} onClick={copyFeed}>
+            <i className={`fa-solid ${linkCopied ? 'fa-check text-emerald-400' : 'fa-link text-blue-500'} w-4`}></i> {t(linkCopied ? 'export.linkCopied' : 'export.copyLink')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
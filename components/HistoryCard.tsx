@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { ClimateDay, HistoryEvent, WeatherData } from '../types';
+import { loadClimateDay } from '../services/historyService';
+import { getWeatherHistory } from '../services/geminiService';
+import { cacheReadThrough } from '../services/cacheStore';
+import { locationKey } from '../services/savedLocations';
+import { UnitFormatter } from '../services/units';
+import { Translator, loadLanguage } from '../services/i18n';
+
+interface HistoryCardProps {
+  weather: WeatherData;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+}
+
+// Forecast highs within this many degrees of the normal count as "near normal".
+const NEAR_NORMAL = 1;
+
+/**
+ * "On this day": today's forecast high against the 1991–2020 normal, the record high and low
+ * for the date, and notable weather that happened on it in past years.
+ */
+export const HistoryCard: React.FC<HistoryCardProps> = ({ weather, isLight, format, t }) => {
+  const [climate, setClimate] = useState<ClimateDay | null>(null);
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const key = locationKey(weather.location);
+  const { latitude: lat, longitude: lon, name, country } = weather.location;
+  // Daily series are in location-local dates, so the first one is today there.
+  const date = weather.daily.time[0];
+  const language = loadLanguage();
+
+  useEffect(() => {
+    if (!date) return;
+    const controller = new AbortController();
+    const isCurrent = () => !controller.signal.aborted;
+    setClimate(null);
+    setEvents([]);
+    setIsLoading(true);
+    const climateLoad = cacheReadThrough('history', `climate|${key}|${date}`, () => loadClimateDay(lat, lon, date, controller.signal))
+      .then(result => { if (isCurrent()) setClimate(result); })
+      .catch(error => { if (isCurrent()) console.error('Climate records failed:', error); });
+    const eventsLoad = cacheReadThrough('history', `events|${key}|${date}|${language}`, () => getWeatherHistory(`${name}, ${country}`, date))
+      .then(result => { if (isCurrent()) setEvents(result); })
+      .catch(error => { if (isCurrent()) console.error('Weather events failed:', error); });
+    Promise.all([climateLoad, eventsLoad]).finally(() => { if (isCurrent()) setIsLoading(false); });
+    return () => controller.abort();
+  }, [key, date, language]);
+
+  const delta = (celsius: number) => {
+    const value = format.number(Math.abs(celsius));
+    return format.units.temperature === 'K' ? `${value} K` : `${value}°`;
+  };
+  const forecastHigh = weather.daily.tempMax[0];
+  const anomaly = climate?.normalHigh != null && Number.isFinite(forecastHigh)
+    ? format.temp(forecastHigh) - format.temp(climate.normalHigh)
+    : null;
+  const anomalyText = anomaly === null ? null
+    : Math.abs(anomaly) < NEAR_NORMAL ? t('history.nearNormal')
+    : t(anomaly > 0 ? 'history.aboveNormal' : 'history.belowNormal', { value: delta(anomaly) });
+
+  const tile = `rounded-2xl p-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`;
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-xs font-black uppercase tracking-widest flex items-center gap-3">
+          <i className="fa-solid fa-clock-rotate-left text-blue-500"></i> {t('history.title')}
+        </h3>
+        {date && <span className="text-[10px] font-black uppercase tracking-widest opacity-40">{format.day(date, { month: 'long', day: 'numeric' })}</span>}
+      </div>
+
+      {isLoading && !climate ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {[1, 2, 3].map(i => <div key={i} className="h-24 rounded-2xl bg-white/5 animate-pulse"></div>)}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {climate ? (
+            <>
+              {anomalyText && (
+                <p className={`text-2xl font-black ${anomaly! >= NEAR_NORMAL ? 'text-orange-500' : anomaly! <= -NEAR_NORMAL ? 'text-sky-500' : ''}`}>
+                  {anomalyText}
+                </p>
+              )}
+              <dl className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className={tile}>
+                  <dt className="text-[9px] font-black uppercase tracking-widest opacity-40">{t('history.normal')}</dt>
+                  <dd className="text-xl font-black mt-2">
+                    {climate.normalHigh != null && climate.normalLow != null
+                      ? `${format.degrees(climate.normalHigh)} / ${format.degrees(climate.normalLow)}`
+                      : '—'}
+                  </dd>
+                </div>
+                <div className={tile}>
+                  <dt className="text-[9px] font-black uppercase tracking-widest opacity-40 flex items-center gap-2">
+                    <i className="fa-solid fa-temperature-arrow-up text-orange-500"></i>{t('history.recordHigh')}
+                  </dt>
+                  <dd className="text-xl font-black mt-2">
+                    {climate.recordHigh ? format.degrees(climate.recordHigh.value) : '—'}
+                    {climate.recordHigh && <span className="text-[10px] font-bold opacity-50 ms-2">{t('history.inYear', { year: climate.recordHigh.year })}</span>}
+                  </dd>
+                </div>
+                <div className={tile}>
+                  <dt className="text-[9px] font-black uppercase tracking-widest opacity-40 flex items-center gap-2">
+                    <i className="fa-solid fa-temperature-arrow-down text-sky-500"></i>{t('history.recordLow')}
+                  </dt>
+                  <dd className="text-xl font-black mt-2">
+                    {climate.recordLow ? format.degrees(climate.recordLow.value) : '—'}
+                    {climate.recordLow && <span className="text-[10px] font-bold opacity-50 ms-2">{t('history.inYear', { year: climate.recordLow.year })}</span>}
+                  </dd>
+                </div>
+              </dl>
+              <p className="text-[9px] font-black uppercase tracking-widest opacity-30">{t('history.since', { year: climate.since })}</p>
+            </>
+          ) : (
+            <p className="text-[10px] font-black uppercase tracking-widest opacity-30">{t('history.unavailable')}</p>
+          )}
+
+          <div>
+            <h4 className="text-[9px] font-black uppercase tracking-widest opacity-40 mb-3">{t('history.events')}</h4>
+            {events.length > 0 ? (
+              <ol className="space-y-3">
+                {events.map(event => (
+                  <li key={`${event.year}-${event.title}`} className="flex gap-4">
+                    <span className="text-sm font-black text-blue-500 w-12 shrink-0">{event.year}</span>
+                    <div>
+                      <p className="text-sm font-black leading-tight">{event.title}</p>
+                      <p className="text-xs font-medium opacity-60 leading-relaxed mt-1">{event.description}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-[10px] font-black uppercase tracking-widest opacity-30">
+                {isLoading ? t('history.searching') : t('history.noEvents')}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
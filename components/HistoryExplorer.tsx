@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart, Area, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { GeocodingResult, Language, WeatherData } from '../types';
+import { fetchHistoricalWeather, summarizeHistory, MAX_HISTORY_DAYS, RECORDS_SINCE } from '../services/historyService';
+import { cacheGet, cacheSet } from '../services/cacheStore';
+import { locationKey } from '../services/savedLocations';
+import { UnitFormatter, UNIT_LABELS, convertPrecipitation, convertWind } from '../services/units';
+import { Translator } from '../services/i18n';
+import { HourlyTimeline } from './HourlyTimeline';
+import { LocationSearch } from './LocationSearch';
+
+type Place = Pick<WeatherData['location'], 'name' | 'country' | 'latitude' | 'longitude'>;
+
+interface HistoryExplorerProps {
+  /** Place the explorer opens on, usually the one on screen. */
+  initialPlace: Place;
+  language: Language;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Show times in the place's timezone rather than the viewer's. */
+  locationTime: boolean;
+  onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+// The archive trails real time by a few days; a week ending two days ago is usually complete.
+const defaultEnd = () => isoDay(Date.now() - 2 * DAY);
+const defaultStart = () => isoDay(Date.now() - 8 * DAY);
+
+/**
+ * What the weather was at a place over a past date range: summary statistics, a daily chart of
+ * the temperature band, precipitation and wind, and the hourly timeline over the archived hours.
+ */
+export const HistoryExplorer: React.FC<HistoryExplorerProps> = ({ initialPlace, language, isLight, format, t, locationTime, onClose }) => {
+  const [place, setPlace] = useState<Place>(initialPlace);
+  const [start, setStart] = useState(defaultStart);
+  const [end, setEnd] = useState(defaultEnd);
+  const [data, setData] = useState<WeatherData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [range, setRange] = useState(72);
+
+  const summary = useMemo(() => data && summarizeHistory(data), [data]);
+  const timeZone = data && locationTime ? data.location.timezone : undefined;
+
+  const load = async () => {
+    const days = (Date.parse(end) - Date.parse(start)) / DAY + 1;
+    if (!start || !end || days < 1 || days > MAX_HISTORY_DAYS || end > isoDay(Date.now()) || start < `${RECORDS_SINCE}-01-01`) {
+      setError(t('archive.invalidRange', { days: MAX_HISTORY_DAYS }));
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      // A range reaching days not yet archived comes back short; only complete ranges are kept.
+      // Archived days don't change, so a complete copy is good however old it is.
+      const cacheKey = `archive|${locationKey(place)}|${start}|${end}`;
+      const isComplete = (archived: WeatherData) => archived.daily.time.length >= days;
+      const cached = await cacheGet<WeatherData>('history', cacheKey);
+      const result = cached && isComplete(cached.data) ? cached.data : await fetchHistoricalWeather(place, start, end);
+      if (result !== cached?.data && isComplete(result)) await cacheSet('history', cacheKey, result);
+      setData(result);
+    } catch (err) {
+      console.error('Historical weather failed:', err);
+      setData(null);
+      setError(t('archive.error'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const choosePlace = (result: GeocodingResult) => {
+    setPlace({ name: result.name, country: result.country, latitude: result.latitude, longitude: result.longitude });
+    setData(null);
+  };
+
+  const dailyPoints = useMemo(() => data ? data.daily.time.map((day, i) => ({
+    day,
+    band: [format.temp(data.daily.tempMin[i]), format.temp(data.daily.tempMax[i])],
+    precip: convertPrecipitation(data.daily.precipitationSum[i], format.units.precipitation),
+    wind: convertWind(data.daily.windSpeedMax[i], format.units.wind),
+  })) : [], [data, format]);
+
+  const degreeDays = (value: number) => format.number(format.units.temperature === 'F' ? value * 1.8 : value);
+  const when = (time: string) => format.dateTime(time, { month: 'short', day: 'numeric', hour: 'numeric' }, timeZone);
+  const fieldClass = `w-full rounded-xl py-2.5 px-4 text-xs focus:outline-none border ${!isLight ? 'bg-white/5 border-white/10 text-white' : 'bg-slate-50 border-slate-200 text-slate-900'}`;
+  const labelClass = 'text-[10px] font-black uppercase tracking-widest opacity-40';
+  const tile = `rounded-2xl p-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`;
+  const bandName = t('archive.band');
+  const precipName = t('timeline.precipitation');
+
+  const stat = (label: string, value: string, detail?: string) => (
+    <div className={tile}>
+      <dt className="text-[9px] font-black uppercase tracking-widest opacity-40">{label}</dt>
+      <dd className="text-xl font-black mt-2">{value}</dd>
+      {detail && <dd className="text-[10px] font-bold opacity-50 mt-1">{detail}</dd>}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose}></div>
+      <div className={`relative w-full max-w-5xl glass-card rounded-[3rem] shadow-2xl max-h-[90vh] flex flex-col overflow-hidden border border-white/10 ${isLight ? 'bg-white' : 'bg-slate-900'}`}>
+        <div className="p-8 pb-4 flex items-center justify-between">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-500 flex items-center gap-3">
+            <i className="fa-solid fa-clock-rotate-left"></i> {t('archive.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10" aria-label={t('archive.close')}><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-6 no-scrollbar">
+          <form onSubmit={(e) => { e.preventDefault(); load(); }} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <label className={labelClass}>{t('archive.location')}: <span className="opacity-100 normal-case">{place.name}{place.country ? `, ${place.country}` : ''}</span></label>
+              <LocationSearch
+                variant="inline"
+                language={language}
+                format={format}
+                t={t}
+                isLight={isLight}
+                ariaLabel={t('archive.location')}
+                placeholder={t('header.searchPlaceholder')}
+                inputClassName={fieldClass}
+                onSelect={choosePlace}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass} htmlFor="archive-from">{t('archive.from')}</label>
+              <input id="archive-from" type="date" className={fieldClass} value={start} min={`${RECORDS_SINCE}-01-01`} max={end} onChange={(e) => setStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass} htmlFor="archive-to">{t('archive.to')}</label>
+              <input id="archive-to" type="date" className={fieldClass} value={end} min={start} max={isoDay(Date.now())} onChange={(e) => setEnd(e.target.value)} />
+            </div>
+            <button type="submit" disabled={isLoading} className="px-6 py-3 rounded-2xl bg-blue-600 text-white font-black uppercase text-[10px] disabled:opacity-30">
+              {isLoading ? <i className="fa-solid fa-circle-notch fa-spin"></i> : t('archive.load')}
+            </button>
+          </form>
+
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+          {data && summary ? (
+            <>
+              <p className="text-[10px] font-black uppercase tracking-widest opacity-40">
+                {data.location.name} · {format.day(data.daily.time[0], { month: 'short', day: 'numeric', year: 'numeric' })} – {format.day(data.daily.time[data.daily.time.length - 1], { month: 'short', day: 'numeric', year: 'numeric' })} · {t('archive.days', { count: summary.days })}
+              </p>
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {stat(t('archive.mean'), format.temperature(summary.meanTemp))}
+                {stat(t('archive.high'), format.temperature(summary.maxTemp.value), when(summary.maxTemp.time))}
+                {stat(t('archive.low'), format.temperature(summary.minTemp.value), when(summary.minTemp.time))}
+                {stat(t('archive.precip'), format.precipitation(summary.totalPrecipitation))}
+                {stat(t('archive.gust'), format.wind(summary.maxGust))}
+                {stat(t('archive.heating'), degreeDays(summary.heatingDegreeDays))}
+                {stat(t('archive.cooling'), degreeDays(summary.coolingDegreeDays))}
+              </dl>
+
+              <section className={`${tile} p-6`}>
+                <h3 className="text-xs font-black uppercase tracking-widest mb-4 flex items-center gap-3">
+                  <i className="fa-solid fa-chart-column text-blue-500"></i> {t('archive.daily')}
+                </h3>
+                {/* Time runs left to right in every language, so the chart keeps LTR layout under RTL. */}
+                <div className="h-64 w-full" dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={dailyPoints}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={!isLight ? "rgba(255,255,255,0.03)" : "rgba(0,0,0,0.05)"} />
+                      <XAxis dataKey="day" tickFormatter={(day: string) => format.day(day, { month: 'short', day: 'numeric' })} strokeOpacity={0.4} fontSize={10} fontWeight={900} minTickGap={24} />
+                      <YAxis yAxisId="temp" hide domain={['dataMin - 2', 'dataMax + 2']} />
+                      <YAxis yAxisId="precip" hide orientation="right" domain={[0, (max: number) => Math.max(max * 3, 3)]} />
+                      <YAxis yAxisId="wind" hide domain={[0, (max: number) => Math.max(max * 1.5, 1)]} />
+                      <Tooltip
+                        contentStyle={{ borderRadius: '1.5rem', border: 'none', background: 'rgba(0,0,0,0.85)', color: 'white', backdropFilter: 'blur(10px)' }}
+                        labelFormatter={(day: string) => format.day(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        formatter={(value: number | number[], name: string) => name === bandName && Array.isArray(value)
+                          ? [`${format.number(value[1])} / ${format.number(value[0])} ${UNIT_LABELS.temperature[format.units.temperature]}`, name]
+                          : name === precipName
+                            ? [`${format.number(value as number, format.units.precipitation === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[format.units.precipitation]}`, name]
+                            : [`${format.number(value as number, format.units.wind === 'ms' ? 1 : 0)} ${UNIT_LABELS.wind[format.units.wind]}`, name]}
+                      />
+                      <Bar yAxisId="precip" dataKey="precip" name={precipName} fill="#38bdf8" fillOpacity={0.5} radius={[4, 4, 0, 0]} />
+                      <Area yAxisId="temp" type="monotone" dataKey="band" name={bandName} stroke="#3b82f6" strokeWidth={2} fill="#3b82f6" fillOpacity={0.3} dot={false} />
+                      <Line yAxisId="wind" type="monotone" dataKey="wind" name={t('archive.wind')} stroke="#a78bfa" strokeWidth={2} dot={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </section>
+
+              <HourlyTimeline weather={data} isLight={isLight} format={format} t={t} timeZone={timeZone} range={range} onRangeChange={setRange} live={false} />
+            </>
+          ) : !error && (
+            <p className="py-12 text-center text-[10px] font-black uppercase tracking-widest opacity-30">
+              {isLoading ? t('archive.loading') : t('archive.empty')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
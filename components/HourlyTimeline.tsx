@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ComposedChart, Area, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer
+} from 'recharts';
+import { ActivityWindow, WeatherData } from '../types';
+import { currentHourIndex } from '../services/weatherService';
+import { localHour } from '../services/timeZones';
+import { UnitFormatter, UNIT_LABELS, convertPrecipitation } from '../services/units';
+import { Translator } from '../services/i18n';
+
+export type ChartRange = 6 | 12 | 24 | 48 | 72 | 168;
+
+const RANGES: ChartRange[] = [6, 12, 24, 48, 72, 168];
+const MIN_WINDOW = 6;
+const NO_HIGHLIGHTS: ActivityWindow[] = [];
+
+interface HourlyTimelineProps {
+  weather: WeatherData;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Timezone labels are rendered in; the viewer's when undefined. */
+  timeZone?: string;
+  /** Window width in hours. Held by the app so it can be carried in shared links. */
+  range: number;
+  onRangeChange: (hours: number) => void;
+  /** Activity windows to shade behind the chart, best first; the best is drawn strongest. */
+  highlights?: ActivityWindow[];
+  /** Starts at the current hour; false for archived weather, which starts at its first hour. */
+  live?: boolean;
+}
+
+/**
+ * Hourly temperature and precipitation from the current hour to the end of the forecast
+ * (or over the whole series, for archived weather).
+ * The range buttons set the window width; the slider (or a horizontal scroll) pans it, and
+ * ctrl/⌘ + wheel or a trackpad pinch zooms around the window's centre.
+ */
+export const HourlyTimeline: React.FC<HourlyTimelineProps> = ({ weather, isLight, format, t, timeZone, range, onRangeChange, highlights = NO_HIGHLIGHTS, live = true }) => {
+  // Window offset from the current hour.
+  const [offset, setOffset] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const points = useMemo(() => {
+    const { hourly } = weather;
+    const start = live ? currentHourIndex(hourly.time) : 0;
+    // Rank of the activity window an hour falls in: 0 for the best, -1 outside all of them.
+    const windowRank = (i: number) => highlights.findIndex(w => i >= w.startIndex && i < w.endIndex);
+    return hourly.time.slice(start).map((time, n) => {
+      const i = start + n;
+      const rank = windowRank(i);
+      return {
+        time,
+        hour: format.dateTime(time, { hour: 'numeric' }, timeZone),
+        day: format.dateTime(time, { weekday: 'short' }, timeZone),
+        isMidnight: localHour(time, timeZone) === 0,
+        temp: format.temp(hourly.temperature[i]),
+        precip: hourly.precipitation[i],
+        precipAmount: convertPrecipitation(hourly.precipitationAmount[i], format.units.precipitation),
+        snowfall: hourly.snowfall[i],
+        gusts: hourly.windGusts[i],
+        bestWindow: rank === 0 ? 1 : null,
+        goodWindow: rank > 0 ? 1 : null,
+      };
+    });
+  }, [weather, format, timeZone, highlights, live]);
+
+  const size = Math.min(range, points.length);
+  const maxOffset = Math.max(points.length - size, 0);
+  const start = Math.min(offset, maxOffset);
+  const visible = points.slice(start, start + size);
+  const multiDay = size > 24;
+  // Recharts thins ticks to fit and passes an index into the ticks it draws, so labels are
+  // looked up by the tick's time rather than by position.
+  const tickLabels = new Map(visible.map(p => [p.time, multiDay ? `${p.day} ${p.hour}` : p.hour]));
+
+  // A new location starts again at the current hour; a new archived range at its first hour.
+  useEffect(() => setOffset(0), [weather.location.latitude, weather.location.longitude, live ? null : weather.hourly.time[0]]);
+
+  // Native listener so the page doesn't scroll or zoom while the chart handles the gesture.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (event: WheelEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault();
+        const factor = event.deltaY > 0 ? 1.25 : 0.8;
+        const next = Math.round(Math.min(Math.max(size * factor, MIN_WINDOW), points.length));
+        onRangeChange(next);
+        setOffset(prev => Math.max(0, Math.round(prev + (size - next) / 2)));
+      } else if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        event.preventDefault();
+        const step = Math.sign(event.deltaX) * Math.max(1, Math.round(size / 12));
+        setOffset(prev => Math.min(Math.max(prev + step, 0), maxOffset));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [points.length, size, maxOffset, onRangeChange]);
+
+  if (points.length === 0) return null;
+
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  const rangeLabel = (hours: ChartRange) =>
+    hours > 72 ? t('timeline.days', { count: hours / 24 }) : t('timeline.hours', { count: hours });
+  const temperatureName = t('timeline.temperature');
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-xs font-black uppercase tracking-widest flex items-center gap-3">
+          <i className="fa-solid fa-chart-area text-blue-500"></i> {t('timeline.title')}
+        </h3>
+        <div className="flex gap-1" role="group" aria-label={t('timeline.range')}>
+          {RANGES.filter(r => r <= points.length || r === 6).map(r => (
+            <button
+              key={r}
+              onClick={() => onRangeChange(r)}
+              aria-pressed={range === r}
+              className={`px-3 py-1.5 rounded-lg font-black text-[9px] uppercase transition-all ${range === r ? 'bg-blue-600 text-white' : 'bg-blue-500/10 text-blue-500 hover:bg-blue-500/20'}`}
+            >
+              {rangeLabel(r)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Time runs left to right in every language, so the chart keeps LTR layout under RTL. */}
+      <div ref={containerRef} className="h-64 w-full" dir="ltr">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={visible}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={!isLight ? "rgba(255,255,255,0.03)" : "rgba(0,0,0,0.05)"} />
+            <XAxis
+              dataKey="time"
+              tickFormatter={(time: string) => tickLabels.get(time) ?? ''}
+              strokeOpacity={0.4}
+              fontSize={10}
+              fontWeight={900}
+              minTickGap={24}
+            />
+            <YAxis yAxisId="temp" hide domain={['dataMin - 2', 'dataMax + 2']} />
+            <YAxis yAxisId="precip" hide orientation="right" domain={[0, (max: number) => Math.max(max * 3, 3)]} />
+            <Tooltip
+              contentStyle={{ borderRadius: '1.5rem', border: 'none', background: 'rgba(0,0,0,0.85)', color: 'white', backdropFilter: 'blur(10px)' }}
+              labelFormatter={(time: string) => format.dateTime(time, { weekday: 'short', hour: 'numeric' }, timeZone)}
+              formatter={(value: number, name: string) => name === temperatureName
+                ? [`${format.number(value)} ${UNIT_LABELS.temperature[format.units.temperature]}`, name]
+                : [`${format.number(value, format.units.precipitation === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[format.units.precipitation]}`, name]}
+            />
+            {visible.filter(p => p.isMidnight).map(p => (
+              <ReferenceLine key={p.time} yAxisId="temp" x={p.time} stroke="#3b82f6" strokeOpacity={0.3} strokeDasharray="4 4" label={{ value: p.day, position: 'insideTopLeft', fontSize: 9, fontWeight: 900, fill: '#3b82f6' }} />
+            ))}
+            <YAxis yAxisId="window" hide domain={[0, 1]} />
+            <Area yAxisId="window" type="step" dataKey="bestWindow" fill="#10b981" fillOpacity={0.18} stroke="none" tooltipType="none" isAnimationActive={false} />
+            <Area yAxisId="window" type="step" dataKey="goodWindow" fill="#10b981" fillOpacity={0.08} stroke="none" tooltipType="none" isAnimationActive={false} />
+            <Bar yAxisId="precip" dataKey="precipAmount" name={t('timeline.precipitation')} fill="#38bdf8" fillOpacity={0.5} radius={[4, 4, 0, 0]} />
+            <Area yAxisId="temp" type="monotone" dataKey="temp" name={temperatureName} stroke="#3b82f6" strokeWidth={multiDay ? 2 : 4} fillOpacity={0.3} fill="#3b82f6" dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {maxOffset > 0 && (
+        <div className="mt-4 flex items-center gap-4" dir="ltr">
+          <input
+            type="range"
+            min={0}
+            max={maxOffset}
+            value={start}
+            onChange={(e) => setOffset(Number(e.target.value))}
+            className="flex-1 accent-blue-500"
+            aria-label={t('timeline.scroll')}
+          />
+          <span className="text-[9px] font-black uppercase tracking-widest opacity-40 whitespace-nowrap">
+            {format.dateTime(first.time, { weekday: 'short', hour: 'numeric' }, timeZone)} – {format.dateTime(last.time, { weekday: 'short', hour: 'numeric' }, timeZone)}
+          </span>
+        </div>
+      )}
+    </section>
+  );
+};
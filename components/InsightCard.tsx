@@ -0,0 +1,105 @@
+import React from 'react';
+import { AIInsight, WeatherData } from '../types';
+import { currentHourIndex } from '../services/weatherService';
+import { localHour } from '../services/timeZones';
+import { UnitFormatter } from '../services/units';
+import { Translator } from '../services/i18n';
+
+interface InsightCardProps {
+  insight: AIInsight | null;
+  isLoading: boolean;
+  weather: WeatherData;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  /** Timezone the outdoor window is shown in; the viewer's when undefined. */
+  timeZone?: string;
+}
+
+/**
+ * The AI briefing: summary, what to wear, the best outdoor window, umbrella and sunscreen
+ * flags, and risk notes, each as its own element.
+ */
+export const InsightCard: React.FC<InsightCardProps> = ({ insight, isLoading, weather, isLight, format, t, timeZone }) => {
+  // The window comes back in location-local hours; find that hour in the next day of the forecast.
+  const hourLabel = (hour: number) => {
+    const { time } = weather.hourly;
+    const start = currentHourIndex(time);
+    const match = time.slice(start, start + 25).find(iso => localHour(iso, weather.location.timezone) === hour);
+    return match
+      ? format.dateTime(match, { hour: 'numeric' }, timeZone)
+      : format.dateTime(Date.UTC(2000, 0, 1, hour), { hour: 'numeric' }, 'UTC');
+  };
+
+  const flag = (on: boolean, icon: string, label: string) => (
+    <span className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-wider border ${
+      on
+        ? 'border-blue-500/40 bg-blue-500/15 text-blue-500'
+        : `${!isLight ? 'border-white/10' : 'border-slate-200'} opacity-40`
+    }`}>
+      <i className={`fa-solid ${icon}`}></i>{label}
+    </span>
+  );
+
+  const tile = `rounded-2xl p-4 border ${!isLight ? 'border-white/5 bg-white/5' : 'border-slate-200 bg-slate-50'}`;
+
+  return (
+    <div className="ai-glow backdrop-blur-3xl rounded-[2rem] p-8 shadow-xl">
+      <h3 className="text-xs font-black uppercase tracking-widest mb-6 flex items-center gap-3">
+        <i className="fa-solid fa-sparkles text-blue-500 animate-pulse"></i> {t('insight.title')}
+      </h3>
+      {isLoading || !insight ? (
+        <div className="space-y-3">
+          <div className="h-3 w-full bg-blue-500/10 rounded animate-pulse"></div>
+          <div className="h-3 w-2/3 bg-blue-500/10 rounded animate-pulse"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-lg font-medium leading-relaxed opacity-90">{insight.summary}</p>
+
+          {/* Fallback insights (AI unavailable) carry only a summary. */}
+          {insight.clothing && (
+            <>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className={tile}>
+                  <dt className="text-[9px] font-black uppercase tracking-widest opacity-40 flex items-center gap-2">
+                    <i className="fa-solid fa-shirt text-blue-500"></i>{t('insight.clothing')}
+                  </dt>
+                  <dd className="text-sm font-bold mt-2">{insight.clothing}</dd>
+                </div>
+                <div className={tile}>
+                  <dt className="text-[9px] font-black uppercase tracking-widest opacity-40 flex items-center gap-2">
+                    <i className="fa-solid fa-person-hiking text-blue-500"></i>{t('insight.bestWindow')}
+                  </dt>
+                  <dd className="text-xl font-black mt-2">
+                    {insight.bestWindow
+                      ? `${hourLabel(insight.bestWindow.startHour)} – ${hourLabel(insight.bestWindow.endHour)}`
+                      : t('insight.noWindow')}
+                  </dd>
+                </div>
+              </dl>
+
+              <div className="flex flex-wrap gap-2">
+                {flag(insight.umbrella, 'fa-umbrella', insight.umbrella ? t('insight.umbrella') : t('insight.noUmbrella'))}
+                {flag(insight.sunscreen, 'fa-sun', insight.sunscreen ? t('insight.sunscreen') : t('insight.noSunscreen'))}
+              </div>
+
+              {insight.risks.length > 0 && (
+                <div>
+                  <h4 className="text-[9px] font-black uppercase tracking-widest opacity-40 mb-2">{t('insight.risks')}</h4>
+                  <ul className="space-y-2">
+                    {insight.risks.map(risk => (
+                      <li key={risk} className="flex items-start gap-3 text-sm font-medium">
+                        <i className="fa-solid fa-triangle-exclamation text-amber-500 mt-0.5"></i>{risk}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { SavedLocation, WeatherData, WeatherAlert } from '../types';
+import { getWeatherDescription } from '../services/weatherService';
+import { locationKey } from '../services/savedLocations';
+import { UnitFormatter } from '../services/units';
+import { Translator } from '../services/i18n';
+import { WeatherIconLarge } from './WeatherIcons';
+
+interface LocationDashboardProps {
+  locations: SavedLocation[];
+  weatherByKey: Record<string, WeatherData>;
+  /** Alerts to badge on each card, already merged and filtered for dismissals. */
+  alertsByKey: Record<string, WeatherAlert[]>;
+  /** Locations shown from an offline snapshot, with the time that snapshot was fetched. */
+  asOfByKey: Record<string, number>;
+  activeKey: string | null;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+  onSelect: (loc: SavedLocation) => void;
+  onRemove: (key: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+/**
+ * Compact card grid summarising every saved location at a glance.
+ */
+export const LocationDashboard: React.FC<LocationDashboardProps> = ({
+  locations, weatherByKey, alertsByKey, asOfByKey, activeKey, isLight, format, t, onSelect, onRemove, onMove
+}) => {
+  return (
+    <section className="mb-6" aria-label={t('dashboard.label')}>
+      <div className="flex items-center justify-between px-2 mb-3">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40">{t('dashboard.title')}</h3>
+        <span className="text-[9px] font-black uppercase opacity-30">{t('dashboard.sites', { count: locations.length })}</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
+        {locations.map((loc, idx) => {
+          const key = locationKey(loc);
+          const data = weatherByKey[key];
+          const alerts = alertsByKey[key] || [];
+          const isActive = key === activeKey;
+          return (
+            <div
+              key={key}
+              className={`group relative rounded-3xl p-4 border transition-all ${isActive ? 'border-blue-500/60 ring-2 ring-blue-500/30' : (!isLight ? 'border-white/5' : 'border-slate-200')} ${!isLight ? 'glass-card hover:bg-white/10' : 'bg-white hover:shadow-xl'}`}
+            >
+              <button
+                onClick={() => onSelect(loc)}
+                className="w-full text-start focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-2xl"
+                aria-label={t('dashboard.show', { name: loc.name })}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-black truncate">{loc.name}</p>
+                    <p className="text-[8px] uppercase tracking-widest opacity-40 truncate">{loc.country}</p>
+                  </div>
+                  {data && <WeatherIconLarge code={data.current.weatherCode} className="text-2xl" />}
+                </div>
+                {data ? (
+                  <div className="mt-3 flex items-end justify-between">
+                    <span className="text-3xl font-black tracking-tighter">{format.degrees(data.current.temp)}</span>
+                    <div className="text-end text-[10px] font-black">
+                      <span>{format.degrees(data.daily.tempMax[0])}</span>
+                      <span className="opacity-30 ms-2">{format.degrees(data.daily.tempMin[0])}</span>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-3 h-8 rounded-xl bg-blue-500/10 animate-pulse"></div>
+                )}
+                {data && (
+                  <p className="mt-1 text-[9px] font-bold uppercase opacity-40 truncate">{t(`condition.${getWeatherDescription(data.current.weatherCode).key}`)}</p>
+                )}
+                {asOfByKey[key] && (
+                  <p className="mt-1 text-[8px] font-black uppercase text-sky-400 truncate">
+                    <i className="fa-solid fa-cloud-arrow-down me-1"></i>{t('dashboard.asOf', { time: format.dateTime(asOfByKey[key], { hour: 'numeric', minute: '2-digit' }) })}
+                  </p>
+                )}
+                {alerts.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {alerts.map(alert => (
+                      <span
+                        key={alert.id || alert.title}
+                        title={alert.source === 'official' ? alert.message : t('alerts.estimateHint', { message: alert.message })}
+                        className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${alert.type === 'danger' ? 'bg-rose-500/15 text-rose-500' : 'bg-amber-500/15 text-amber-500'}`}
+                      >
+                        <i className={`fa-solid ${alert.icon} me-1`}></i>{alert.title}{alert.source === 'heuristic' && <span className="opacity-60 ms-1">{t('alerts.estimateShort')}</span>}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </button>
+              <div className="mt-3 pt-2 border-t border-white/5 flex justify-end gap-1 opacity-40 group-hover:opacity-100 focus-within:opacity-100">
+                <button onClick={() => onMove(idx, idx - 1)} disabled={idx === 0} className="p-1 text-[9px] rounded-lg hover:bg-white/10 disabled:opacity-20" aria-label={t('dashboard.moveEarlier', { name: loc.name })}><i className="fa-solid fa-chevron-left rtl:rotate-180"></i></button>
+                <button onClick={() => onMove(idx, idx + 1)} disabled={idx === locations.length - 1} className="p-1 text-[9px] rounded-lg hover:bg-white/10 disabled:opacity-20" aria-label={t('dashboard.moveLater', { name: loc.name })}><i className="fa-solid fa-chevron-right rtl:rotate-180"></i></button>
+                <button onClick={() => onRemove(key)} className="p-1 text-[9px] rounded-lg hover:bg-rose-500/20 text-rose-500" aria-label={t('dashboard.remove', { name: loc.name })}><i className="fa-solid fa-xmark"></i></button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
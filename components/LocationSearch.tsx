@@ -0,0 +1,189 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { GeocodingResult, Language } from '../types';
+import { searchLocation } from '../services/weatherService';
+import { UnitFormatter } from '../services/units';
+import { Translator } from '../services/i18n';
+
+const DEBOUNCE_MS = 250;
+
+interface LocationSearchProps {
+  language: Language;
+  format: UnitFormatter;
+  t: Translator;
+  isLight: boolean;
+  placeholder: string;
+  ariaLabel: string;
+  inputClassName: string;
+  onSelect: (loc: GeocodingResult) => void;
+  /** Header search floats its results over the page; settings fields list them inline. */
+  variant?: 'overlay' | 'inline';
+  /** Icon shown at the end of each result, e.g. "fa-plus" for add-to-list fields. */
+  actionIcon?: string;
+  /** Earlier picks, offered while the box is focused and empty. Omit to hide history. */
+  recent?: GeocodingResult[];
+  onClearRecent?: () => void;
+}
+
+/**
+ * Place search box with a debounced, cancellable lookup and a combobox dropdown:
+ * ↑/↓ move through the results, Enter picks, Escape closes (and clears on a second press).
+ */
+export const LocationSearch: React.FC<LocationSearchProps> = ({
+  language, format, t, isLight, placeholder, ariaLabel, inputClassName, onSelect,
+  variant = 'overlay', actionIcon, recent, onClearRecent
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodingResult[]>([]);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'done'>('idle');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listId = useId();
+
+  const showingRecent = query.trim().length === 0 && !!recent?.length;
+  const options = showingRecent ? recent! : results;
+  const population = useMemo(() => new Intl.NumberFormat(format.locale, { notation: 'compact' }), [format.locale]);
+
+  // Each keystroke restarts the timer and aborts the request in flight, so a slow
+  // response for an earlier query can never replace the results for a later one.
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      setStatus('idle');
+      return;
+    }
+    const controller = new AbortController();
+    setStatus('loading');
+    const timer = setTimeout(() => {
+      searchLocation(trimmed, language, controller.signal)
+        .then(found => {
+          if (controller.signal.aborted) return;
+          setResults(found);
+          setActiveIndex(found.length ? 0 : -1);
+          setStatus('done');
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          console.error('Location search failed:', err);
+          setResults([]);
+          setStatus('done');
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, language]);
+
+  const select = (loc: GeocodingResult) => {
+    onSelect(loc);
+    setQuery('');
+    setResults([]);
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (!options.length) return;
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setOpen(true);
+        setActiveIndex(prev => prev === -1 ? (step > 0 ? 0 : options.length - 1) : (prev + step + options.length) % options.length);
+        break;
+      }
+      case 'Enter': {
+        const pick = options[activeIndex] || (showingRecent ? undefined : options[0]);
+        if (!pick) return;
+        e.preventDefault();
+        select(pick);
+        break;
+      }
+      case 'Escape':
+        e.preventDefault();
+        if (open) setOpen(false);
+        else setQuery('');
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const subtitle = (res: GeocodingResult) =>
+    [res.admin2, res.admin1, res.country].filter(Boolean).join(' · ')
+    || `${format.number(res.latitude, 2)}, ${format.number(res.longitude, 2)}`;
+
+  const expanded = open && (options.length > 0 || status !== 'idle');
+  const panelClass = variant === 'overlay'
+    ? `absolute top-full start-0 end-0 mt-2 rounded-xl overflow-hidden z-50 shadow-2xl ${!isLight ? 'glass-card' : 'bg-white border border-slate-100'}`
+    : 'mt-2 rounded-xl overflow-hidden border border-white/5';
+  const noteClass = 'px-5 py-3 text-[9px] font-black uppercase tracking-widest opacity-40';
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        role="combobox"
+        aria-label={ariaLabel}
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={expanded && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        className={inputClassName}
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setOpen(true); setActiveIndex(-1); }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {expanded && (
+        <div className={panelClass}>
+          {showingRecent && (
+            <div className="flex items-center justify-between px-5 pt-3 pb-1">
+              <span className="text-[8px] font-black uppercase tracking-widest opacity-40">{t('search.recent')}</span>
+              {onClearRecent && (
+                <button onMouseDown={(e) => e.preventDefault()} onClick={onClearRecent} className="text-[8px] font-black uppercase tracking-widest text-blue-500">{t('search.clearRecent')}</button>
+              )}
+            </div>
+          )}
+          {!showingRecent && status === 'loading' && results.length === 0 && <p className={noteClass}>{t('search.searching')}</p>}
+          {!showingRecent && status === 'done' && results.length === 0 && <p className={noteClass}>{t('search.noResults')}</p>}
+          <ul id={listId} role="listbox" aria-label={ariaLabel}>
+            {options.map((res, idx) => (
+              <li
+                key={`${res.latitude},${res.longitude}`}
+                id={`${listId}-${idx}`}
+                role="option"
+                aria-selected={idx === activeIndex}
+                // Keep focus in the input so the dropdown isn't closed by its blur before the click lands.
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(res)}
+                onMouseEnter={() => setActiveIndex(idx)}
+                className={`w-full text-start px-5 py-3 border-b last:border-0 border-white/5 flex items-center justify-between gap-3 cursor-pointer ${idx === activeIndex ? 'bg-blue-500/10' : ''}`}
+              >
+                <div className="min-w-0 flex flex-col">
+                  <span className="font-bold text-sm truncate">
+                    {showingRecent && <i className="fa-solid fa-clock-rotate-left text-[10px] opacity-40 me-2"></i>}
+                    {res.name}
+                    {res.postcode && <span className="text-[10px] font-black opacity-50 ms-2">{res.postcode}</span>}
+                  </span>
+                  <span className="text-[8px] uppercase tracking-widest opacity-50 truncate">{subtitle(res)}</span>
+                </div>
+                <div className="shrink-0 flex items-center gap-3">
+                  <div className="flex flex-col items-end text-[8px] font-black uppercase tracking-wider opacity-40">
+                    {!!res.population && <span>{t('search.population', { value: population.format(res.population) })}</span>}
+                    {res.timezone && <span>{format.dateTime(Date.now(), { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }, res.timezone)}</span>}
+                  </div>
+                  {actionIcon && <i className={`fa-solid ${actionIcon} text-[10px] text-blue-500`}></i>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
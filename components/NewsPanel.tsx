@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { NewsItem, WeatherData } from '../types';
+import { fetchLocationNews } from '../services/newsService';
+import { cacheReadThrough } from '../services/cacheStore';
+import { locationKey } from '../services/savedLocations';
+import { UnitFormatter } from '../services/units';
+import { Translator, loadLanguage } from '../services/i18n';
+
+interface NewsPanelProps {
+  weather: WeatherData;
+  isLight: boolean;
+  format: UnitFormatter;
+  t: Translator;
+}
+
+// Weather stories, or a single publisher; null shows everything.
+type NewsFilter = { weather: true } | { source: string } | null;
+
+/**
+ * Recent stories about the location on screen, from the first news provider that has any.
+ * Stories can be narrowed to weather-related ones or to a single publisher.
+ */
+export const NewsPanel: React.FC<NewsPanelProps> = ({ weather, isLight, format, t }) => {
+  const [items, setItems] = useState<NewsItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filter, setFilter] = useState<NewsFilter>(null);
+  const key = locationKey(weather.location);
+  const { name, country } = weather.location;
+  const language = loadLanguage();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const isCurrent = () => !controller.signal.aborted;
+    setItems([]);
+    setFilter(null);
+    setIsLoading(true);
+    cacheReadThrough('news', `${key}|${language}`, () => fetchLocationNews({ name, country }, controller.signal), {
+      onRevalidate: (fresh) => { if (isCurrent()) setItems(fresh); }
+    })
+      .then(list => { if (isCurrent()) setItems(list); })
+      .catch(error => { if (isCurrent()) console.error('News fetch failed:', error); })
+      .finally(() => { if (isCurrent()) setIsLoading(false); });
+    return () => controller.abort();
+  }, [key, name, country, language]);
+
+  const sources = Array.from(new Set(items.map(item => item.source))).sort();
+  const weatherCount = items.filter(item => item.weatherRelated).length;
+  const shown = items.filter(item =>
+    !filter || ('weather' in filter ? item.weatherRelated : item.source === filter.source)
+  );
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-[10px] font-bold border flex items-center gap-2 transition-colors ${
+      active
+        ? 'bg-blue-600 border-blue-600 text-white'
+        : !isLight ? 'border-white/10 hover:bg-white/10' : 'border-slate-200 hover:bg-slate-100'
+    }`;
+
+  return (
+    <section className="glass-card rounded-[2.5rem] p-8 shadow-xl">
+      <h3 className="text-xs font-black uppercase tracking-widest mb-6 flex items-center gap-3">
+        <i className="fa-solid fa-newspaper text-blue-500"></i> {t('news.title', { location: name })}
+      </h3>
+
+      {isLoading && items.length === 0 ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => <div key={i} className="h-20 rounded-2xl bg-white/5 animate-pulse"></div>)}
+        </div>
+      ) : items.length > 0 ? (
+        <div className="space-y-6">
+          {(sources.length > 1 || weatherCount > 0) && (
+            <div className="flex flex-wrap gap-2" role="group" aria-label={t('news.filter')}>
+              <button onClick={() => setFilter(null)} aria-pressed={!filter} className={chip(!filter)}>{t('news.all')}</button>
+              {weatherCount > 0 && (
+                <button
+                  onClick={() => setFilter({ weather: true })}
+                  aria-pressed={!!filter && 'weather' in filter}
+                  className={chip(!!filter && 'weather' in filter)}
+                >
+                  <i className="fa-solid fa-cloud-bolt"></i>{t('news.weatherOnly', { count: weatherCount })}
+                </button>
+              )}
+              {sources.length > 1 && sources.map(source => {
+                const active = !!filter && 'source' in filter && filter.source === source;
+                return (
+                  <button key={source} onClick={() => setFilter({ source })} aria-pressed={active} className={chip(active)}>
+                    {source}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <ul className="space-y-3">
+            {shown.map(item => (
+              <li key={item.url}>
+                <a
+                  href={item.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`block rounded-2xl p-5 border transition-colors ${!isLight ? 'border-white/5 bg-white/5 hover:bg-white/10' : 'border-slate-200 bg-slate-50 hover:bg-slate-100'}`}
+                >
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[9px] font-black uppercase tracking-widest opacity-50 mb-2">
+                    <span>{item.source}</span>
+                    {item.date && <span>{format.dateTime(item.date, { month: 'short', day: 'numeric' })}</span>}
+                    {item.weatherRelated && (
+                      <span className="px-2 py-0.5 rounded-full bg-blue-500/15 text-blue-500">
+                        <i className="fa-solid fa-cloud-bolt me-1"></i>{t('news.weatherTag')}
+                      </span>
+                    )}
+                  </div>
+                  <h4 className="text-sm font-black leading-snug">{item.title}</h4>
+                  {item.snippet && <p className="text-xs font-medium opacity-60 leading-relaxed mt-2 line-clamp-3">{item.snippet}</p>}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="py-12 text-center rounded-[2rem] border border-dashed border-white/10 opacity-30">
+          <p className="text-[10px] font-black uppercase tracking-widest">{t('news.empty')}</p>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,187 @@
+/**
+ * SkyCast service worker.
+ * Precaches the app shell and keeps static assets available offline.
+ * Forecast data is not cached here: the app keeps the last successful
+ * WeatherData per location in IndexedDB and labels it with its "as of" time.
+ */
+// Bumped when a release must drop what earlier workers cached.
+const VERSION = 'v2';
+const SHELL_CACHE = `skycast-shell-${VERSION}`;
+const RUNTIME_CACHE = `skycast-runtime-${VERSION}`;
+const REFRESH_SYNC_TAG = 'skycast-refresh-weather';
+
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/icon-maskable.svg',
+];
+
+// The build's content-hashed bundles, written in by the precache plugin in vite.config.ts.
+// Precaching them means the first offline load after an install or update still has the app.
+// The list also changes this file on every build, which is what makes browsers update the worker.
+const BUILD_ASSETS = [];
+
+// Third-party hosts the shell depends on (styles, fonts, import-mapped modules).
+const STATIC_HOSTS = [
+  'cdn.tailwindcss.com',
+  'cdnjs.cloudflare.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'esm.sh',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...APP_SHELL, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Bundles from earlier builds are never requested again; drop them once this build is active.
+const pruneOldAssets = async () => {
+  if (BUILD_ASSETS.length === 0) return;
+  const current = new Set(BUILD_ASSETS);
+  await Promise.all([SHELL_CACHE, RUNTIME_CACHE].map(async (name) => {
+    const cache = await caches.open(name);
+    const requests = await cache.keys();
+    await Promise.all(requests
+      .filter((request) => {
+        const { origin, pathname } = new URL(request.url);
+        return origin === self.location.origin && pathname.startsWith('/assets/') && !current.has(pathname);
+      })
+      .map((request) => cache.delete(request)));
+  }));
+};
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(pruneOldAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    // Only an HTML page may stand in for the app shell.
+    const isPage = (response.headers.get('content-type') || '').includes('text/html');
+    if (response.ok && (!fallbackUrl || isPage)) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // API routes always go to the network, even when opened directly (a calendar feed, a news
+  // link); the app handles their failures.
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Vite emits content-hashed filenames, so these never change once cached.
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(cacheFirst(request));
+      return;
+    }
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  if (STATIC_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Background Sync (where supported) wakes the app to flush refreshes queued while offline.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== REFRESH_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'flush-refresh-queue' }));
+    })
+  );
+});
+
+const showPushNotification = (payload) => self.registration.showNotification(payload.title || 'SkyCast', {
+  body: payload.body,
+  tag: payload.tag,
+  icon: '/icon.svg',
+  badge: '/icon.svg',
+  data: { url: payload.url || '/' },
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+  event.waitUntil(showPushNotification(payload));
+});
+
+self.addEventListener('message', (event) => {
+  // Payloads relayed from the local push stub take the same path as real pushes.
+  if (event.data?.type === 'simulated-push') {
+    event.waitUntil(showPushNotification(event.data.payload || {}));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        existing.navigate(target);
+        return existing.focus();
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
@@ -0,0 +1,125 @@
+/**
+ * Local push-server stub for testing notifications without a real push service.
+ *
+ *   npm run push-stub                 # listens on http://localhost:8787
+ *   VITE_PUSH_STUB_URL=http://localhost:8787 npm run dev
+ *
+ * Endpoints:
+ *   POST /subscribe          { subscription, locations }  register a client
+ *   GET  /stream/:id         server-sent events delivering pushes to client :id
+ *   POST /push/:id           { title, body, tag?, url? }  push to one client (the subscription endpoint)
+ *   POST /send               { title, body, tag?, url? }  push to every connected client
+ *   GET  /subscriptions      list registered clients
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.PUSH_STUB_PORT || 8787);
+
+/** @type {Map<string, { subscription: unknown, locations: string[], streams: Set<http.ServerResponse> }>} */
+const clients = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+});
+
+const clientFor = (id) => {
+  if (!clients.has(id)) clients.set(id, { subscription: null, locations: [], streams: new Set() });
+  return clients.get(id);
+};
+
+const deliver = (id, payload) => {
+  const client = clients.get(id);
+  if (!client || client.streams.size === 0) return false;
+  client.streams.forEach((stream) => stream.write(`data: ${JSON.stringify(payload)}\n\n`));
+  return true;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const [, route, id] = url.pathname.split('/');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && route === 'subscribe') {
+      const { subscription, locations } = await readJson(req);
+      const endpoint = subscription?.endpoint || '';
+      const clientId = endpoint.split('/').pop() || Math.random().toString(36).slice(2, 10);
+      const client = clientFor(clientId);
+      client.subscription = subscription;
+      client.locations = Array.isArray(locations) ? locations : [];
+      console.log(`[push-stub] subscribed ${clientId} (${client.locations.length} locations)`);
+      send(res, 201, { id: clientId });
+      return;
+    }
+
+    if (req.method === 'GET' && route === 'stream' && id) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.write(': connected\n\n');
+      const client = clientFor(id);
+      client.streams.add(res);
+      req.on('close', () => client.streams.delete(res));
+      return;
+    }
+
+    if (req.method === 'POST' && route === 'push' && id) {
+      const payload = await readJson(req);
+      const delivered = deliver(id, payload);
+      send(res, delivered ? 201 : 410, { delivered });
+      return;
+    }
+
+    if (req.method === 'POST' && route === 'send') {
+      const payload = await readJson(req);
+      const delivered = [...clients.keys()].filter((clientId) => deliver(clientId, payload));
+      send(res, 200, { delivered });
+      return;
+    }
+
+    if (req.method === 'GET' && route === 'subscriptions') {
+      send(res, 200, [...clients.entries()].map(([clientId, c]) => ({
+        id: clientId,
+        locations: c.locations,
+        connected: c.streams.size > 0,
+      })));
+      return;
+    }
+
+    send(res, 404, { error: 'Not found' });
+  } catch (error) {
+    send(res, 400, { error: 'Invalid JSON body' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[push-stub] listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,140 @@
+import { ActivityProfile, ActivityWindow, WeatherData } from '../types';
+import { currentHourIndex } from './weatherService';
+import { localDateKey, localHour } from './timeZones';
+
+const STORAGE_KEY = 'skycast_activity_profiles';
+const SELECTED_KEY = 'skycast_activity_selected';
+const HOUR = 60 * 60 * 1000;
+
+/** Hours scoring at least this are suitable, and can join a window. */
+export const SUITABLE_SCORE = 60;
+// Current AQI is the only air-quality reading, so it is trusted this far ahead.
+const AQI_HORIZON_HOURS = 6;
+// How far ahead windows are looked for, and the longest window suggested.
+const PLANNING_HORIZON_HOURS = 72;
+const MAX_WINDOW_HOURS = 4;
+
+export const DEFAULT_ACTIVITY_PROFILES: ActivityProfile[] = [
+  { id: 'default-run', name: 'Running', icon: 'fa-person-running', minTemp: 5, maxTemp: 22, maxWind: 25, maxPrecipProbability: 30, maxUv: 6, maxAqi: 100, daylightOnly: false },
+  { id: 'default-cycle', name: 'Cycling', icon: 'fa-person-biking', minTemp: 8, maxTemp: 28, maxWind: 20, maxPrecipProbability: 20, maxUv: 7, maxAqi: 100, daylightOnly: true },
+  { id: 'default-hike', name: 'Hiking', icon: 'fa-person-hiking', minTemp: 5, maxTemp: 25, maxWind: 30, maxPrecipProbability: 30, maxUv: 7, maxAqi: 100, daylightOnly: true },
+  { id: 'default-work', name: 'Outdoor Work', icon: 'fa-person-digging', minTemp: 3, maxTemp: 30, maxWind: 35, maxPrecipProbability: 40, maxUv: 8, maxAqi: 150, daylightOnly: true },
+];
+
+export const ACTIVITY_ICONS = [
+  'fa-person-running', 'fa-person-biking', 'fa-person-hiking', 'fa-person-digging', 'fa-person-swimming',
+  'fa-golf-ball-tee', 'fa-dog', 'fa-seedling', 'fa-camera', 'fa-futbol',
+];
+
+export const loadActivityProfiles = (): ActivityProfile[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_ACTIVITY_PROFILES;
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : DEFAULT_ACTIVITY_PROFILES;
+  } catch {
+    return DEFAULT_ACTIVITY_PROFILES;
+  }
+};
+
+export const persistActivityProfiles = (profiles: ActivityProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const loadSelectedActivity = (): string => localStorage.getItem(SELECTED_KEY) || DEFAULT_ACTIVITY_PROFILES[0].id;
+
+export const persistSelectedActivity = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+export const createProfileId = () => `activity-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Whether an hour falls between its day's sunrise and sunset. Polar days and nights report
+ * no sunrise; those fall back to 7 am – 7 pm local time.
+ */
+const isDaylight = (w: WeatherData, time: string): boolean => {
+  const { timezone } = w.location;
+  const day = w.daily.time.indexOf(localDateKey(time, timezone));
+  const sunrise = w.daily.sunrise[day];
+  const sunset = w.daily.sunset[day];
+  if (day === -1 || !sunrise || !sunset) {
+    const hour = localHour(time, timezone);
+    return hour >= 7 && hour < 19;
+  }
+  const at = new Date(time).getTime();
+  return at >= new Date(sunrise).getTime() && at < new Date(sunset).getTime();
+};
+
+/** How far a value lies outside [min, max]; 0 inside it, and for readings the provider lacks. */
+const overshoot = (value: number, min: number, max: number) =>
+  !Number.isFinite(value) ? 0 : value < min ? min - value : value > max ? value - max : 0;
+
+/**
+ * Scores every forecast hour 0–100 for an activity. Each limit a reading exceeds costs points
+ * in proportion to how far it's out; thunderstorms and (for daylight-only activities) night
+ * hours score 0.
+ */
+export const scoreHours = (w: WeatherData, profile: ActivityProfile): number[] => {
+  const { hourly } = w;
+  const aqiUntil = Date.now() + AQI_HORIZON_HOURS * HOUR;
+  return hourly.time.map((time, i) => {
+    if (hourly.weatherCode[i] >= 95) return 0;
+    if (profile.daylightOnly && !isDaylight(w, time)) return 0;
+    const penalty =
+      overshoot(hourly.temperature[i], profile.minTemp, profile.maxTemp) * 8 +
+      overshoot(hourly.windSpeed[i], 0, profile.maxWind) * 4 +
+      overshoot(hourly.precipitation[i], 0, profile.maxPrecipProbability) * 2 +
+      overshoot(hourly.uvIndex[i], 0, profile.maxUv) * 15 +
+      (new Date(time).getTime() < aqiUntil && w.current.aqi > 0 ? overshoot(w.current.aqi, 0, profile.maxAqi) : 0);
+    return Math.max(0, Math.round(100 - penalty));
+  });
+};
+
+/** Best-scoring stretch of at most `MAX_WINDOW_HOURS` within a run of suitable hours. */
+const bestStretch = (scores: number[], start: number, end: number) => {
+  const length = Math.min(end - start, MAX_WINDOW_HOURS);
+  let best = { start, total: -1 };
+  for (let i = start; i + length <= end; i++) {
+    const total = scores.slice(i, i + length).reduce((sum, s) => sum + s, 0);
+    if (total > best.total) best = { start: i, total };
+  }
+  return { startIndex: best.start, endIndex: best.start + length, total: best.total };
+};
+
+/**
+ * The best windows of suitable hours over the next three days, best first. Runs are split at
+ * local midnight and trimmed to their best few hours, so each day offers its own window; windows
+ * are ranked by summed score, so a long good stretch beats a single perfect hour.
+ */
+export const findActivityWindows = (w: WeatherData, profile: ActivityProfile, limit = 3): ActivityWindow[] => {
+  const scores = scoreHours(w, profile);
+  const { time } = w.hourly;
+  const first = currentHourIndex(time);
+  const last = Math.min(first + PLANNING_HORIZON_HOURS, scores.length);
+  const day = (i: number) => localDateKey(time[i], w.location.timezone);
+  const windows: (ActivityWindow & { total: number })[] = [];
+
+  let runStart = -1;
+  for (let i = first; i <= last; i++) {
+    const suitable = i < last && scores[i] >= SUITABLE_SCORE;
+    if (runStart !== -1 && (!suitable || day(i) !== day(runStart))) {
+      const { startIndex, endIndex, total } = bestStretch(scores, runStart, i);
+      windows.push({
+        startIndex,
+        endIndex,
+        start: time[startIndex],
+        end: new Date(new Date(time[endIndex - 1]).getTime() + HOUR).toISOString(),
+        score: Math.round(total / (endIndex - startIndex)),
+        total,
+      });
+      runStart = -1;
+    }
+    if (suitable && runStart === -1) runStart = i;
+  }
+
+  return windows
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit)
+    .map(({ total, ...window }) => window);
+};
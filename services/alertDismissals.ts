@@ -0,0 +1,52 @@
+import { WeatherAlert } from '../types';
+
+const STORAGE_KEY = 'skycast_alert_dismissals';
+// Alerts without a known end (heuristics) stay dismissed for this long.
+const DEFAULT_DISMISS_SPAN = 6 * 60 * 60 * 1000;
+
+export interface AlertDismissal {
+  key: string;
+  location: string;
+  until: number;
+}
+
+export const alertKey = (alert: WeatherAlert) => alert.id || alert.title;
+
+const alertStart = (alert: WeatherAlert): number =>
+  alert.windowStart ?? (alert.onset ? new Date(alert.onset).getTime() : Date.now());
+
+const alertEnd = (alert: WeatherAlert): number =>
+  alert.windowEnd ?? (alert.expires ? new Date(alert.expires).getTime() : Date.now() + DEFAULT_DISMISS_SPAN);
+
+/** Stored dismissals, with those whose window has passed dropped. */
+export const loadDismissals = (): AlertDismissal[] => {
+  try {
+    const parsed: AlertDismissal[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return parsed.filter(d => d.until > Date.now());
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Records a dismissal for one alert at one location, lasting until the end of the
+ * condition's window. Returns the updated list, which is also persisted.
+ */
+export const dismissAlert = (dismissals: AlertDismissal[], alert: WeatherAlert, location: string): AlertDismissal[] => {
+  const key = alertKey(alert);
+  const next = [
+    ...dismissals.filter(d => !(d.key === key && d.location === location)),
+    { key, location, until: Math.max(alertEnd(alert), Date.now()) },
+  ];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+/**
+ * An alert stays hidden while it belongs to the dismissed window; a condition that
+ * starts after that window ended is a recurrence and shows again.
+ */
+export const isDismissed = (dismissals: AlertDismissal[], alert: WeatherAlert, location: string): boolean => {
+  const key = alertKey(alert);
+  return dismissals.some(d => d.key === key && d.location === location && alertStart(alert) <= d.until);
+};
@@ -0,0 +1,188 @@
+import { AlertRule, RuleMetric, RuleOperator, RuleWindow, WeatherAlert, WeatherData } from '../types';
+import { currentHourIndex } from './weatherService';
+import { dayStart, localDateKey, localHour } from './timeZones';
+import { Translator } from './i18n';
+
+const STORAGE_KEY = 'skycast_alert_rules';
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+interface MetricDefinition {
+  label: string;
+  unit: 'temp' | 'speed' | 'percent' | 'index';
+  icon: string;
+  current?: (w: WeatherData) => number;
+  hourly?: (w: WeatherData) => number[] | undefined;
+  /** Daily series; rules watching for highs read the max, rules watching for lows the min. */
+  daily?: (w: WeatherData, rising: boolean) => number[] | undefined;
+}
+
+export const RULE_METRICS: Record<RuleMetric, MetricDefinition> = {
+  temp: {
+    label: 'Temperature',
+    unit: 'temp',
+    icon: 'fa-temperature-half',
+    current: w => w.current.temp,
+    hourly: w => w.hourly.temperature,
+    daily: (w, rising) => rising ? w.daily.tempMax : w.daily.tempMin,
+  },
+  apparentTemp: { label: 'Feels Like', unit: 'temp', icon: 'fa-person-rays', current: w => w.current.apparentTemp },
+  windSpeed: { label: 'Wind Speed', unit: 'speed', icon: 'fa-wind', current: w => w.current.windSpeed, hourly: w => w.hourly.windSpeed },
+  precipProbability: { label: 'Precipitation Chance', unit: 'percent', icon: 'fa-umbrella', hourly: w => w.hourly.precipitation },
+  uvIndex: { label: 'UV Index', unit: 'index', icon: 'fa-sun', current: w => w.current.uvIndex, hourly: w => w.hourly.uvIndex },
+  aqi: { label: 'Air Quality (US AQI)', unit: 'index', icon: 'fa-lungs', current: w => w.current.aqi },
+  humidity: { label: 'Humidity', unit: 'percent', icon: 'fa-droplet', current: w => w.current.humidity },
+};
+
+export const RULE_WINDOWS: Record<RuleWindow, string> = {
+  now: 'Right now',
+  next6h: 'Next 6 hours',
+  next12h: 'Next 12 hours',
+  next24h: 'Next 24 hours',
+  today: 'Today',
+  overnight: 'Overnight (8 pm – 8 am)',
+  week: 'This week',
+};
+
+export const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<='];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-wind', name: 'High Wind', metric: 'windSpeed', operator: '>', threshold: 40, window: 'next12h', severity: 'warning', message: 'Sustained wind above 40 km/h expected in the next 12 hours.', enabled: true },
+  { id: 'default-uv', name: 'Extreme UV', metric: 'uvIndex', operator: '>=', threshold: 8, window: 'today', severity: 'warning', message: 'UV index of 8 or higher today. Limit midday sun exposure.', enabled: true },
+  { id: 'default-aqi', name: 'Unhealthy Air', metric: 'aqi', operator: '>', threshold: 150, window: 'now', severity: 'danger', message: 'Air quality is unhealthy. Reduce prolonged outdoor exertion.', enabled: true },
+  { id: 'default-frost', name: 'Frost Overnight', metric: 'temp', operator: '<=', threshold: 0, window: 'overnight', severity: 'warning', message: 'Freezing temperatures expected overnight. Protect plants and pipes.', enabled: true },
+];
+
+export const loadAlertRules = (): AlertRule[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_ALERT_RULES;
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+};
+
+export const persistAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const compare = (value: number, operator: RuleOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+interface SeriesPoint {
+  time: number;
+  value: number;
+  /** Length of the period the point stands for. */
+  span: number;
+}
+
+const hourlyPoints = (w: WeatherData, metric: MetricDefinition): SeriesPoint[] => {
+  const values = metric.hourly?.(w);
+  if (!values) return [];
+  return w.hourly.time
+    .map((t, i) => ({ time: new Date(t).getTime(), value: values[i], span: HOUR }))
+    .filter(p => Number.isFinite(p.value));
+};
+
+const dailyPoints = (w: WeatherData, metric: MetricDefinition, rising: boolean): SeriesPoint[] => {
+  const values = metric.daily?.(w, rising);
+  if (!values) return [];
+  return w.daily.time.map((t, i) => ({ time: dayStart(t, w.location), value: values[i], span: DAY }));
+};
+
+/**
+ * Collects the data points a rule's window covers, preferring hourly resolution and
+ * falling back to current conditions or daily values where a metric has no hourly series.
+ */
+const pointsForWindow = (w: WeatherData, rule: AlertRule): SeriesPoint[] => {
+  const metric = RULE_METRICS[rule.metric];
+  const rising = rule.operator === '>' || rule.operator === '>=';
+  const hours = hourlyPoints(w, metric);
+  const start = currentHourIndex(w.hourly.time);
+  const now = Date.now();
+  const currentPoint = (): SeriesPoint[] => metric.current ? [{ time: now, value: metric.current(w), span: HOUR }] : hours.slice(start, start + 1);
+
+  switch (rule.window) {
+    case 'now':
+      return currentPoint();
+    case 'next6h':
+    case 'next12h':
+    case 'next24h': {
+      const count = rule.window === 'next6h' ? 6 : rule.window === 'next12h' ? 12 : 24;
+      return hours.length ? hours.slice(start, start + count) : currentPoint();
+    }
+    case 'today': {
+      const today = w.daily.time[0];
+      const todayHours = hours.filter(p => localDateKey(p.time, w.location.timezone) === today);
+      if (todayHours.length) return todayHours;
+      const days = dailyPoints(w, metric, rising);
+      return days.length ? days.slice(0, 1) : currentPoint();
+    }
+    case 'overnight': {
+      const night = hours.slice(start).filter(p => {
+        const hour = localHour(p.time, w.location.timezone);
+        return p.time < now + DAY && (hour >= 20 || hour < 8);
+      });
+      if (night.length) return night;
+      // Without hourly coverage, tomorrow's low is the best proxy for tonight.
+      return dailyPoints(w, metric, rising).slice(1, 2);
+    }
+    case 'week': {
+      const days = dailyPoints(w, metric, rising);
+      return days.length ? days : hours.slice(start);
+    }
+  }
+};
+
+const formatOperator = (op: RuleOperator) => op === '>=' ? '≥' : op === '<=' ? '≤' : op;
+
+/** One-line summary of a rule; metric and window names are translated when a translator is given. */
+export const describeRule = (rule: AlertRule, t?: Translator): string => {
+  const metric = t ? t(`rules.metric.${rule.metric}`) : RULE_METRICS[rule.metric].label;
+  const window = t ? t(`rules.window.${rule.window}`) : RULE_WINDOWS[rule.window];
+  return `${metric} ${formatOperator(rule.operator)} ${rule.threshold} · ${window}`;
+};
+
+/**
+ * Evaluates enabled rules against a forecast and returns one alert per triggered rule.
+ * Each alert carries the span of the first contiguous run of matching points, so a dismissal
+ * covers that episode only and the alert returns when the condition clears and recurs.
+ */
+export const evaluateAlertRules = (weather: WeatherData, rules: AlertRule[], t?: Translator): WeatherAlert[] => {
+  const alerts: WeatherAlert[] = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const points = pointsForWindow(weather, rule);
+    const first = points.findIndex(p => compare(p.value, rule.operator, rule.threshold));
+    if (first === -1) return;
+
+    let last = first;
+    while (last + 1 < points.length && compare(points[last + 1].value, rule.operator, rule.threshold)) last++;
+
+    const metric = RULE_METRICS[rule.metric];
+    alerts.push({
+      type: rule.severity,
+      title: rule.name,
+      message: rule.message || describeRule(rule, t),
+      icon: metric.icon,
+      source: 'rule',
+      id: `rule:${rule.id}`,
+      ruleId: rule.id,
+      onset: new Date(points[first].time).toISOString(),
+      windowStart: points[first].time,
+      windowEnd: points[last].time + points[last].span,
+    });
+  });
+
+  return alerts;
+};
@@ -0,0 +1,192 @@
+import { CapAlert, WeatherAlert, WeatherData } from '../types';
+import { parseCapFeed, pointInPolygon } from './capParser';
+import { deriveWeatherAlerts } from './weatherAlerts';
+import { cacheReadThrough } from './cacheStore';
+import { locationKey } from './savedLocations';
+
+interface AlertFeedSource {
+  id: string;
+  label: string;
+  covers: (country: string) => boolean;
+  feedUrl: (lat: number, lon: number, country: string) => string;
+  /** Resolves the issuing agency's area codes (zones, counties) for a point, for geocode matching. */
+  areaCodes?: (lat: number, lon: number) => Promise<string[]>;
+}
+
+const US_NAMES = ['united states', 'united states of america', 'usa', 'us'];
+
+// Country names as returned by the geocoders, mapped to MeteoAlarm feed slugs.
+const METEOALARM_SLUGS: Record<string, string> = {
+  'austria': 'austria',
+  'belgium': 'belgium',
+  'bosnia and herzegovina': 'bosnia-herzegovina',
+  'bulgaria': 'bulgaria',
+  'croatia': 'croatia',
+  'cyprus': 'cyprus',
+  'czechia': 'czechia',
+  'czech republic': 'czechia',
+  'denmark': 'denmark',
+  'estonia': 'estonia',
+  'finland': 'finland',
+  'france': 'france',
+  'germany': 'germany',
+  'greece': 'greece',
+  'hungary': 'hungary',
+  'iceland': 'iceland',
+  'ireland': 'ireland',
+  'israel': 'israel',
+  'italy': 'italy',
+  'latvia': 'latvia',
+  'lithuania': 'lithuania',
+  'luxembourg': 'luxembourg',
+  'malta': 'malta',
+  'moldova': 'moldova',
+  'montenegro': 'montenegro',
+  'netherlands': 'netherlands',
+  'north macedonia': 'republic-of-north-macedonia',
+  'norway': 'norway',
+  'poland': 'poland',
+  'portugal': 'portugal',
+  'romania': 'romania',
+  'serbia': 'serbia',
+  'slovakia': 'slovakia',
+  'slovenia': 'slovenia',
+  'spain': 'spain',
+  'sweden': 'sweden',
+  'switzerland': 'switzerland',
+  'ukraine': 'ukraine',
+  'united kingdom': 'united-kingdom',
+};
+
+const nwsSource: AlertFeedSource = {
+  id: 'nws',
+  label: 'National Weather Service',
+  covers: country => US_NAMES.includes(country.toLowerCase()),
+  feedUrl: (lat, lon) => `https://api.weather.gov/alerts/active.atom?point=${lat.toFixed(4)},${lon.toFixed(4)}`,
+  areaCodes: async (lat, lon) => {
+    const response = await fetch(`https://api.weather.gov/points/${lat.toFixed(4)},${lon.toFixed(4)}`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    const props = data.properties || {};
+    // Zone and county links end in their UGC code, e.g. ".../zones/county/VAC059".
+    return [props.forecastZone, props.county, props.fireWeatherZone]
+      .filter(Boolean)
+      .map((url: string) => url.split('/').pop() as string);
+  },
+};
+
+const meteoAlarmSource: AlertFeedSource = {
+  id: 'meteoalarm',
+  label: 'MeteoAlarm',
+  covers: country => country.toLowerCase() in METEOALARM_SLUGS,
+  // MeteoAlarm sends no CORS headers, so its feeds come through the app's relay.
+  feedUrl: (_lat, _lon, country) => `/api/alert-feed?country=${METEOALARM_SLUGS[country.toLowerCase()]}`,
+};
+
+const ALERT_SOURCES: AlertFeedSource[] = [nwsSource, meteoAlarmSource];
+
+const SEVERITY_RANK: Record<string, number> = { Extreme: 4, Severe: 3, Moderate: 2, Minor: 1, Unknown: 0 };
+
+const iconForEvent = (event: string): string => {
+  const e = event.toLowerCase();
+  if (/thunder|tornado|lightning/.test(e)) return 'fa-bolt-lightning';
+  if (/flood|rain|storm surge/.test(e)) return 'fa-cloud-showers-heavy';
+  if (/snow|winter|ice|blizzard|sleet/.test(e)) return 'fa-snowflake';
+  if (/hurricane|typhoon|cyclone|tropical/.test(e)) return 'fa-hurricane';
+  if (/wind|gale/.test(e)) return 'fa-wind';
+  if (/heat|high temp/.test(e)) return 'fa-temperature-high';
+  if (/cold|frost|freeze|low temp/.test(e)) return 'fa-temperature-low';
+  if (/fire|red flag/.test(e)) return 'fa-fire';
+  if (/fog/.test(e)) return 'fa-smog';
+  if (/air quality|smoke|dust/.test(e)) return 'fa-lungs';
+  return 'fa-triangle-exclamation';
+};
+
+/**
+ * An alert applies to the location if any of its areas contains the point, shares an area code
+ * with it, or (for feeds with neither geometry nor codes) names the place in its area description.
+ */
+const matchesLocation = (alert: CapAlert, lat: number, lon: number, name: string, codes: string[]): boolean =>
+  alert.areas.some(area => {
+    if (area.polygons.some(polygon => pointInPolygon(lat, lon, polygon))) return true;
+    if (area.geocodes.some(g => codes.includes(g.value))) return true;
+    if (area.polygons.length === 0 && codes.length === 0) {
+      return !!name && area.areaDesc.toLowerCase().includes(name.toLowerCase());
+    }
+    return false;
+  });
+
+const toWeatherAlert = (alert: CapAlert, source: AlertFeedSource): WeatherAlert => ({
+  type: alert.severity === 'Extreme' || alert.severity === 'Severe' ? 'danger' : 'warning',
+  title: alert.event || alert.headline,
+  message: alert.headline && alert.headline !== alert.event ? alert.headline : alert.description.slice(0, 240),
+  icon: iconForEvent(alert.event || alert.headline),
+  source: 'official',
+  id: alert.id,
+  severity: alert.severity,
+  urgency: alert.urgency,
+  onset: alert.onset || undefined,
+  expires: alert.expires || undefined,
+  issuer: alert.sender || source.label,
+  areaDesc: alert.areas.map(a => a.areaDesc).filter(Boolean).join('; ') || undefined,
+  url: alert.web || undefined,
+});
+
+/**
+ * Fetches issued warnings for a location from the feed covering its country.
+ * Resolves to `null` when no configured feed covers the country, or when one that can only
+ * match by place name has nothing for it.
+ */
+export const fetchOfficialAlerts = async (
+  lat: number,
+  lon: number,
+  name: string,
+  country: string,
+  language = 'en'
+): Promise<WeatherAlert[] | null> => {
+  const source = ALERT_SOURCES.find(s => s.covers(country));
+  if (!source) return null;
+
+  const [feedRes, codes] = await Promise.all([
+    fetch(source.feedUrl(lat, lon, country), { headers: { Accept: 'application/atom+xml, application/xml' } }),
+    source.areaCodes ? source.areaCodes(lat, lon).catch(() => []) : Promise.resolve([]),
+  ]);
+  if (!feedRes.ok) throw new Error(`${source.label} alert feed error: ${feedRes.status}`);
+
+  const alerts = parseCapFeed(await feedRes.text(), language)
+    .filter(alert => matchesLocation(alert, lat, lon, name, codes));
+  // Without area codes, matching is by place name, and feeds that name regions rather than
+  // towns (MeteoAlarm) can miss warnings that do apply; so no match isn't taken as "none in force".
+  if (!alerts.length && !source.areaCodes) return null;
+
+  const seen = new Set<string>();
+  return alerts
+    .filter(alert => {
+      // Updates re-issue the same event; keep the first per id.
+      if (!alert.id) return true;
+      if (seen.has(alert.id)) return false;
+      seen.add(alert.id);
+      return true;
+    })
+    .map(alert => toWeatherAlert(alert, source))
+    .sort((a, b) => (SEVERITY_RANK[b.severity || 'Unknown'] || 0) - (SEVERITY_RANK[a.severity || 'Unknown'] || 0));
+};
+
+/**
+ * Official alerts for the forecast's location, which may be none when nothing is in force.
+ * Where no feed covers the country or can place the location, or the feed fails, the code-based
+ * heuristic alerts stand in.
+ */
+export const resolveAlerts = async (weather: WeatherData): Promise<WeatherAlert[]> => {
+  const { latitude, longitude, name, country } = weather.location;
+  try {
+    const official = await cacheReadThrough('alerts', locationKey(weather.location), () =>
+      fetchOfficialAlerts(latitude, longitude, name, country)
+    );
+    // An empty list is the issuing agency saying there are no warnings for this location.
+    if (official) return official;
+  } catch (error) {
+    console.warn('Official alert feed unavailable, using forecast heuristics.', error);
+  }
+  return deriveWeatherAlerts(weather);
+};
@@ -0,0 +1,220 @@
+/**
+ * Keyed, multi-entry cache backed by IndexedDB.
+ * Entries are grouped by kind, each with its own freshness window and a longer
+ * stale window during which the old value is served while a refresh runs.
+ * Least-recently-used entries are evicted once the store exceeds its entry or size cap.
+ * Falls back to an in-memory map where IndexedDB is unavailable (private mode, SSR).
+ */
+
+export type CacheKind = 'weather' | 'insight' | 'explorer' | 'movies' | 'news' | 'history' | 'alerts';
+
+interface CachePolicy {
+  /** Age under which an entry is served without revalidation. */
+  ttl: number;
+  /** Age under which an expired entry may still be served while revalidating. */
+  staleTtl: number;
+  /** Shape version of the cached data; entries written under another version are ignored. */
+  version?: number;
+}
+
+interface CacheRecord<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  data: T;
+  timestamp: number;
+  lastAccess: number;
+  size: number;
+  version?: number;
+}
+
+export interface CacheHit<T> {
+  data: T;
+  timestamp: number;
+  fresh: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const CACHE_POLICIES: Record<CacheKind, CachePolicy> = {
+  weather: { ttl: 15 * MINUTE, staleTtl: 24 * HOUR, version: 3 },
+  insight: { ttl: 30 * MINUTE, staleTtl: 6 * HOUR, version: 2 },
+  explorer: { ttl: 6 * HOUR, staleTtl: 48 * HOUR },
+  movies: { ttl: 6 * HOUR, staleTtl: 24 * HOUR },
+  news: { ttl: 30 * MINUTE, staleTtl: 12 * HOUR },
+  history: { ttl: 24 * HOUR, staleTtl: 7 * 24 * HOUR },
+  alerts: { ttl: 5 * MINUTE, staleTtl: 1 * HOUR },
+};
+
+const DB_NAME = 'skycast';
+const STORE_NAME = 'cache';
+const MAX_ENTRIES = 200;
+// Explorer entries carry generated images as data URLs, so the byte cap matters more than the count.
+const MAX_BYTES = 25 * 1024 * 1024;
+
+const memoryStore = new Map<string, CacheRecord>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const recordId = (kind: CacheKind, key: string) => `${kind}:${key}`;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('lastAccess', 'lastAccess');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('IndexedDB unavailable, using in-memory cache.', request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readRecord = async (id: string): Promise<CacheRecord | undefined> => {
+  const db = await openDb();
+  if (!db) return memoryStore.get(id);
+  return promisify(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id));
+};
+
+const writeRecord = async (record: CacheRecord) => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(record.key, record);
+    return;
+  }
+  await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record));
+};
+
+const listRecords = async (): Promise<CacheRecord[]> => {
+  const db = await openDb();
+  if (!db) return Array.from(memoryStore.values());
+  return promisify(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll());
+};
+
+const deleteRecord = async (id: string) => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(id);
+    return;
+  }
+  await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+};
+
+const evictIfNeeded = async () => {
+  const records = await listRecords();
+  let totalBytes = records.reduce((sum, r) => sum + r.size, 0);
+  let count = records.length;
+  if (count <= MAX_ENTRIES && totalBytes <= MAX_BYTES) return;
+
+  const byAge = records.sort((a, b) => a.lastAccess - b.lastAccess);
+  for (const record of byAge) {
+    if (count <= MAX_ENTRIES && totalBytes <= MAX_BYTES) break;
+    await deleteRecord(record.key);
+    count--;
+    totalBytes -= record.size;
+  }
+};
+
+/**
+ * Returns the cached value if it is still within its stale window, flagging whether it is fresh.
+ * With `allowExpired`, entries past the stale window are returned as well; this is how the
+ * last-known forecast is served while offline. Expired entries are otherwise left for LRU eviction.
+ */
+export const cacheGet = async <T>(
+  kind: CacheKind,
+  key: string,
+  options: { allowExpired?: boolean } = {}
+): Promise<CacheHit<T> | null> => {
+  try {
+    const record = await readRecord(recordId(kind, key));
+    const policy = CACHE_POLICIES[kind];
+    if (!record || record.version !== policy.version) return null;
+
+    const age = Date.now() - record.timestamp;
+    if (age >= policy.staleTtl && !options.allowExpired) return null;
+
+    // Touch for LRU bookkeeping; failure here shouldn't lose the hit.
+    writeRecord({ ...record, lastAccess: Date.now() }).catch(() => {});
+    return { data: record.data as T, timestamp: record.timestamp, fresh: age < policy.ttl };
+  } catch (error) {
+    console.warn('Cache read failed:', error);
+    return null;
+  }
+};
+
+export const cacheSet = async <T>(kind: CacheKind, key: string, data: T) => {
+  try {
+    const now = Date.now();
+    await writeRecord({
+      key: recordId(kind, key),
+      kind,
+      data,
+      timestamp: now,
+      lastAccess: now,
+      size: JSON.stringify(data).length,
+      version: CACHE_POLICIES[kind].version,
+    });
+    await evictIfNeeded();
+  } catch (error) {
+    console.warn('Cache write failed:', error);
+  }
+};
+
+export const cacheDelete = async (kind: CacheKind, key: string) => {
+  await deleteRecord(recordId(kind, key));
+};
+
+export const cacheClear = async () => {
+  memoryStore.clear();
+  const db = await openDb();
+  if (db) await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+};
+
+/**
+ * Stale-while-revalidate read-through.
+ * Fresh hits resolve immediately. Stale hits resolve immediately too, and the loader runs in the
+ * background with its result handed to `onRevalidate`. Misses (or `forceRefresh`) await the loader.
+ */
+export const cacheReadThrough = async <T>(
+  kind: CacheKind,
+  key: string,
+  loader: () => Promise<T>,
+  options: {
+    forceRefresh?: boolean;
+    onRevalidate?: (data: T) => void;
+    onRevalidateError?: (error: unknown, stale: CacheHit<T>) => void;
+  } = {}
+): Promise<T> => {
+  const hit = options.forceRefresh ? null : await cacheGet<T>(kind, key);
+
+  if (hit && !hit.fresh) {
+    loader()
+      .then(async data => {
+        await cacheSet(kind, key, data);
+        options.onRevalidate?.(data);
+      })
+      .catch(error => {
+        console.warn(`Background revalidation failed for ${kind}:${key}`, error);
+        options.onRevalidateError?.(error, hit);
+      });
+  }
+  if (hit) return hit.data;
+
+  const data = await loader();
+  await cacheSet(kind, key, data);
+  return data;
+};
@@ -0,0 +1,140 @@
+import { CapAlert, CapArea } from '../types';
+
+/**
+ * Parser for CAP 1.2 alert documents and the Atom feeds that carry them
+ * (NWS `alerts/active.atom`, MeteoAlarm, and most national CAP aggregators).
+ * Namespace prefixes differ between publishers, so elements are matched by local name only.
+ */
+
+const byName = (el: Element | Document, name: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', name));
+
+const text = (el: Element | Document, name: string): string =>
+  byName(el, name)[0]?.textContent?.trim() || '';
+
+/** CAP polygons are whitespace-separated "lat,lon" pairs. */
+const parsePolygon = (raw: string): [number, number][] =>
+  raw.trim().split(/\s+/)
+    .map(pair => pair.split(',').map(Number) as [number, number])
+    .filter(([lat, lon]) => Number.isFinite(lat) && Number.isFinite(lon));
+
+/**
+ * Each `<value>` belongs to the `<valueName>` before it. CAP documents carry one pair per
+ * `<geocode>`, but Atom entries (NWS) list several pairs in one, e.g. FIPS6 codes then UGC zones.
+ */
+const parseGeocodes = (el: Element): CapArea['geocodes'] =>
+  byName(el, 'geocode').flatMap(geocode => {
+    let valueName = '';
+    return Array.from(geocode.children).flatMap(child => {
+      const content = child.textContent?.trim() || '';
+      if (child.localName === 'valueName') {
+        valueName = content;
+        return [];
+      }
+      if (child.localName !== 'value') return [];
+      // Some feeds pack several codes into one value, separated by spaces.
+      return content.split(/\s+/).filter(Boolean).map(value => ({ valueName, value }));
+    });
+  });
+
+const parseArea = (el: Element): CapArea => ({
+  areaDesc: text(el, 'areaDesc'),
+  polygons: byName(el, 'polygon').map(p => parsePolygon(p.textContent || '')).filter(p => p.length >= 3),
+  geocodes: parseGeocodes(el),
+});
+
+const pickInfo = (alert: Element, language?: string): Element | undefined => {
+  const infos = byName(alert, 'info');
+  if (language) {
+    const match = infos.find(info => text(info, 'language').toLowerCase().startsWith(language.toLowerCase()));
+    if (match) return match;
+  }
+  return infos[0];
+};
+
+/**
+ * Parses a single CAP 1.2 `<alert>` element.
+ */
+export const parseCapAlert = (alert: Element, language?: string): CapAlert | null => {
+  const info = pickInfo(alert, language);
+  if (!info) return null;
+  const status = text(alert, 'status');
+  // Exercises, tests and drafts are never shown to users.
+  if (status && status !== 'Actual') return null;
+
+  return {
+    id: text(alert, 'identifier'),
+    sender: text(info, 'senderName') || text(alert, 'sender'),
+    event: text(info, 'event'),
+    headline: text(info, 'headline') || text(info, 'event'),
+    description: text(info, 'description'),
+    instruction: text(info, 'instruction'),
+    severity: (text(info, 'severity') || 'Unknown') as CapAlert['severity'],
+    urgency: (text(info, 'urgency') || 'Unknown') as CapAlert['urgency'],
+    certainty: text(info, 'certainty') || 'Unknown',
+    onset: text(info, 'onset') || text(info, 'effective') || text(alert, 'sent'),
+    expires: text(info, 'expires'),
+    web: text(info, 'web'),
+    areas: byName(info, 'area').map(parseArea),
+  };
+};
+
+/**
+ * Parses an Atom entry whose alert fields are inlined as `cap:*` elements.
+ */
+const parseAtomEntry = (entry: Element): CapAlert => {
+  const link = byName(entry, 'link').find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate');
+  const polygons = byName(entry, 'polygon').map(p => parsePolygon(p.textContent || '')).filter(p => p.length >= 3);
+
+  return {
+    id: text(entry, 'id') || text(entry, 'identifier'),
+    sender: text(entry, 'name') || text(entry, 'sender'),
+    event: text(entry, 'event') || text(entry, 'title'),
+    headline: text(entry, 'title'),
+    description: text(entry, 'summary'),
+    instruction: text(entry, 'instruction'),
+    severity: (text(entry, 'severity') || 'Unknown') as CapAlert['severity'],
+    urgency: (text(entry, 'urgency') || 'Unknown') as CapAlert['urgency'],
+    certainty: text(entry, 'certainty') || 'Unknown',
+    onset: text(entry, 'onset') || text(entry, 'effective') || text(entry, 'updated'),
+    expires: text(entry, 'expires'),
+    web: link?.getAttribute('href') || '',
+    areas: [{ areaDesc: text(entry, 'areaDesc'), polygons, geocodes: parseGeocodes(entry) }],
+  };
+};
+
+/**
+ * Parses either a CAP 1.2 document (one `<alert>`) or an Atom feed of CAP entries.
+ * Throws when the payload is not well-formed XML.
+ */
+export const parseCapFeed = (xml: string, language?: string): CapAlert[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Alert feed is not valid XML');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName === 'alert') {
+    const alert = parseCapAlert(root, language);
+    return alert ? [alert] : [];
+  }
+
+  return byName(doc, 'entry').map(entry => {
+    // Some feeds embed the full CAP document inside the entry content.
+    const embedded = byName(entry, 'alert')[0];
+    return embedded ? parseCapAlert(embedded, language) : parseAtomEntry(entry);
+  }).filter((a): a is CapAlert => a !== null && (!a.expires || new Date(a.expires).getTime() > Date.now()));
+};
+
+/** Ray-casting point-in-polygon test over [lat, lon] vertices. */
+export const pointInPolygon = (lat: number, lon: number, polygon: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
@@ -0,0 +1,44 @@
+import { ChatMessage } from '../types';
+
+const STORAGE_KEY = 'skycast_chat_history';
+// Turns kept per location, matching what /api/chat accepts as history.
+const MAX_MESSAGES = 40;
+// Longest turn /api/chat reads; longer replies are cut to this when sent back as history.
+const MAX_TURN_LENGTH = 4000;
+const MAX_LOCATIONS = 20;
+
+type ChatHistories = Record<string, ChatMessage[]>;
+
+const loadAll = (): ChatHistories => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/** The latest turns of a conversation, as many and as long as `/api/chat` accepts as history. */
+export const recentTurns = (messages: ChatMessage[]) =>
+  messages.slice(-MAX_MESSAGES).map(m => m.text.length > MAX_TURN_LENGTH ? { ...m, text: m.text.slice(0, MAX_TURN_LENGTH) } : m);
+
+/** The conversation for a location, keyed by `locationKey`. */
+export const loadChatHistory = (key: string): ChatMessage[] => {
+  const history = loadAll()[key];
+  return Array.isArray(history) ? history : [];
+};
+
+/**
+ * Stores a location's conversation, keeping its latest turns. The most recently updated
+ * location moves to the end, and the oldest conversations are dropped past the limit.
+ */
+export const persistChatHistory = (key: string, messages: ChatMessage[]) => {
+  const all = loadAll();
+  delete all[key];
+  if (messages.length) all[key] = messages.slice(-MAX_MESSAGES);
+  const keys = Object.keys(all);
+  keys.slice(0, Math.max(keys.length - MAX_LOCATIONS, 0)).forEach(k => delete all[k]);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
@@ -0,0 +1,260 @@
+import { WeatherAlert, WeatherData } from '../types';
+import { getWeatherDescription } from './weatherService';
+import { UnitFormatter, UNIT_LABELS, convertTemperature, convertWind, convertPrecipitation, convertPressure, convertDistance } from './units';
+import { Translator } from './i18n';
+import { localDateTime } from './timeZones';
+import { placeSlug } from './linkState';
+
+export type ForecastSeries = 'hourly' | 'daily';
+
+interface Column {
+  key: string;
+  /** Unit label, appended to the CSV header. */
+  unit?: string;
+  value: (i: number) => string | number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 1) =>
+  Number.isFinite(value) ? Math.round(value * 10 ** digits) / 10 ** digits : NaN;
+
+/** IANA name of the zone times are written in; the viewer's when none is given. */
+const zoneName = (timeZone?: string) => timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Export columns for a series, converted to the selected units. Keys are stable English
+ * identifiers so spreadsheets and scripts keep working whatever the UI language.
+ */
+const columnsFor = (weather: WeatherData, series: ForecastSeries, format: UnitFormatter, t: Translator, timeZone?: string): Column[] => {
+  const { units } = format;
+  const temperature = (celsius: number) => round(convertTemperature(celsius, units.temperature));
+  const wind = (kmh: number) => round(convertWind(kmh, units.wind));
+  const precipitation = (mm: number) => round(convertPrecipitation(mm, units.precipitation), units.precipitation === 'in' ? 2 : 1);
+  const condition = (code: number) => t(`condition.${getWeatherDescription(code).key}`);
+  const time = (iso: string) => iso ? localDateTime(iso, timeZone) : '';
+
+  if (series === 'daily') {
+    const { daily } = weather;
+    return [
+      { key: 'date', value: i => daily.time[i] },
+      { key: 'condition', value: i => condition(daily.weatherCode[i]) },
+      { key: 'weatherCode', value: i => daily.weatherCode[i] },
+      { key: 'tempMax', unit: UNIT_LABELS.temperature[units.temperature], value: i => temperature(daily.tempMax[i]) },
+      { key: 'tempMin', unit: UNIT_LABELS.temperature[units.temperature], value: i => temperature(daily.tempMin[i]) },
+      { key: 'precipitationSum', unit: UNIT_LABELS.precipitation[units.precipitation], value: i => precipitation(daily.precipitationSum[i]) },
+      { key: 'windSpeedMax', unit: UNIT_LABELS.wind[units.wind], value: i => wind(daily.windSpeedMax[i]) },
+      { key: 'uvIndexMax', value: i => round(daily.uvIndexMax[i]) },
+      { key: 'sunrise', value: i => time(daily.sunrise[i]) },
+      { key: 'sunset', value: i => time(daily.sunset[i]) },
+    ];
+  }
+
+  const { hourly } = weather;
+  // Snowfall is reported in cm; inches go with the imperial precipitation unit.
+  const snowInches = units.precipitation === 'in';
+  return [
+    { key: 'time', value: i => time(hourly.time[i]) },
+    { key: 'condition', value: i => condition(hourly.weatherCode[i]) },
+    { key: 'weatherCode', value: i => hourly.weatherCode[i] },
+    { key: 'temperature', unit: UNIT_LABELS.temperature[units.temperature], value: i => temperature(hourly.temperature[i]) },
+    { key: 'dewPoint', unit: UNIT_LABELS.temperature[units.temperature], value: i => temperature(hourly.dewPoint[i]) },
+    { key: 'precipitationProbability', unit: '%', value: i => round(hourly.precipitation[i], 0) },
+    { key: 'precipitation', unit: UNIT_LABELS.precipitation[units.precipitation], value: i => precipitation(hourly.precipitationAmount[i]) },
+    { key: 'snowfall', unit: snowInches ? 'in' : 'cm', value: i => round(snowInches ? hourly.snowfall[i] / 2.54 : hourly.snowfall[i], snowInches ? 2 : 1) },
+    { key: 'windSpeed', unit: UNIT_LABELS.wind[units.wind], value: i => wind(hourly.windSpeed[i]) },
+    { key: 'windGusts', unit: UNIT_LABELS.wind[units.wind], value: i => wind(hourly.windGusts[i]) },
+    { key: 'uvIndex', value: i => round(hourly.uvIndex[i]) },
+    { key: 'pressure', unit: UNIT_LABELS.pressure[units.pressure], value: i => round(convertPressure(hourly.pressure[i], units.pressure), units.pressure === 'inHg' ? 2 : 0) },
+    { key: 'visibility', unit: UNIT_LABELS.distance[units.distance], value: i => round(convertDistance(hourly.visibility[i], units.distance)) },
+    { key: 'cloudCover', unit: '%', value: i => round(hourly.cloudCover[i], 0) },
+  ];
+};
+
+const rowCount = (weather: WeatherData, series: ForecastSeries) =>
+  series === 'daily' ? weather.daily.time.length : weather.hourly.time.length;
+
+const csvField = (value: string | number) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * One forecast series as RFC 4180 CSV. Hourly times are wall-clock times in `timeZone`
+ * (the viewer's when undefined), named in the header; daily dates are local to the location.
+ */
+export const forecastToCsv = (weather: WeatherData, series: ForecastSeries, format: UnitFormatter, t: Translator, timeZone?: string): string => {
+  const columns = columnsFor(weather, series, format, t, timeZone);
+  const header = columns.map(c => {
+    const label = c.key === 'time' || c.key === 'sunrise' || c.key === 'sunset' ? `${c.key} (${zoneName(timeZone)})` : c.unit ? `${c.key} (${c.unit})` : c.key;
+    return csvField(label);
+  });
+  const rows = Array.from({ length: rowCount(weather, series) }, (_, i) => columns.map(c => csvField(c.value(i))).join(','));
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/** Both series as JSON, with the location, units and timezone the values are in. Gaps are null. */
+export const forecastToJson = (weather: WeatherData, format: UnitFormatter, t: Translator, timeZone?: string): string => {
+  const series = (name: ForecastSeries) => {
+    const columns = columnsFor(weather, name, format, t, timeZone);
+    return Array.from({ length: rowCount(weather, name) }, (_, i) => Object.fromEntries(columns.map(c => {
+      const value = c.value(i);
+      return [c.key, typeof value === 'number' && !Number.isFinite(value) ? null : value];
+    })));
+  };
+  const { name, country, latitude, longitude, timezone } = weather.location;
+  return JSON.stringify({
+    location: { name, country, latitude, longitude, timezone },
+    source: weather.source,
+    generatedAt: new Date().toISOString(),
+    timeZone: zoneName(timeZone),
+    units: { ...format.units, labels: {
+      temperature: UNIT_LABELS.temperature[format.units.temperature],
+      wind: UNIT_LABELS.wind[format.units.wind],
+      precipitation: UNIT_LABELS.precipitation[format.units.precipitation],
+      pressure: UNIT_LABELS.pressure[format.units.pressure],
+      distance: UNIT_LABELS.distance[format.units.distance],
+    } },
+    hourly: series('hourly'),
+    daily: series('daily'),
+  }, null, 2);
+};
+
+/** Text value escaping from RFC 5545 §3.3.11. */
+const icsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+/** Folds a content line at 75 octets without splitting a character, as RFC 5545 §3.1 requires. */
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75.
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (day: string) => day.replace(/-/g, '');
+const icsInstant = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const nextDay = (day: string) => new Date(Date.parse(`${day}T00:00:00Z`) + DAY).toISOString().slice(0, 10);
+
+const alertTime = (epoch: number | undefined, iso: string | undefined) => {
+  if (epoch !== undefined) return epoch;
+  const parsed = iso ? Date.parse(iso) : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * iCalendar feed for a forecast: an all-day event per day with the conditions and high/low,
+ * and an event per alert over its window. Alerts without one (heuristics) fall on the first day.
+ */
+export const buildForecastCalendar = (
+  weather: WeatherData,
+  alerts: WeatherAlert[],
+  format: UnitFormatter,
+  t: Translator,
+  now = Date.now()
+): string => {
+  const { daily, location } = weather;
+  const place = [location.name, location.country].filter(Boolean).join(', ');
+  const uidBase = `${location.latitude.toFixed(2)}_${location.longitude.toFixed(2)}@skycast`;
+  const stamp = icsInstant(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SkyCast//Forecast Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(t('export.calendarName', { place }))}`,
+    `X-WR-TIMEZONE:${location.timezone}`,
+    // Hints for subscribing apps; forecasts change every hour or so.
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  daily.time.forEach((day, i) => {
+    if (!Number.isFinite(daily.tempMax[i]) || !Number.isFinite(daily.tempMin[i])) return;
+    const condition = t(`condition.${getWeatherDescription(daily.weatherCode[i]).key}`);
+    const high = format.degrees(daily.tempMax[i]);
+    const low = format.degrees(daily.tempMin[i]);
+    const details = [
+      condition,
+      t('export.highLow', { high: format.temperature(daily.tempMax[i]), low: format.temperature(daily.tempMin[i]) }),
+      t('export.precipitation', { value: format.precipitation(daily.precipitationSum[i]) }),
+      t('export.wind', { value: format.wind(daily.windSpeedMax[i]) }),
+      Number.isFinite(daily.uvIndexMax[i]) ? t('export.uv', { value: format.number(daily.uvIndexMax[i]) }) : '',
+    ].filter(Boolean);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:day-${day}-${uidBase}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(day)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(day))}`,
+      `SUMMARY:${icsText(t('export.daySummary', { condition, high, low }))}`,
+      `DESCRIPTION:${icsText(details.join('\n'))}`,
+      `LOCATION:${icsText(place)}`,
+      `GEO:${location.latitude};${location.longitude}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  alerts.forEach(alert => {
+    const start = alertTime(alert.windowStart, alert.onset);
+    const end = alertTime(alert.windowEnd, alert.expires);
+    const details = [
+      alert.message,
+      alert.source === 'heuristic' ? t('alerts.estimate') : '',
+      alert.issuer || '',
+      alert.areaDesc || '',
+    ].filter(Boolean);
+    const id = (alert.id || alert.ruleId || alert.title).replace(/[^\w.-]+/g, '-');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:alert-${id}-${start ?? daily.time[0]}-${uidBase}`,
+      `DTSTAMP:${stamp}`,
+      ...(start !== undefined
+        ? [`DTSTART:${icsInstant(start)}`, `DTEND:${icsInstant(end !== undefined && end > start ? end : start + DAY)}`]
+        : [`DTSTART;VALUE=DATE:${icsDate(daily.time[0])}`, `DTEND;VALUE=DATE:${icsDate(nextDay(daily.time[0]))}`]),
+      `SUMMARY:${icsText(t('export.alertSummary', { title: alert.title }))}`,
+      `DESCRIPTION:${icsText(details.join('\n'))}`,
+      `LOCATION:${icsText(alert.areaDesc || place)}`,
+      ...(alert.url ? [`URL:${alert.url}`] : []),
+      'CATEGORIES:ALERT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+/** File name for an export: "paris-fr-2024-05-01-hourly.csv". */
+export const exportFileName = (weather: WeatherData, suffix: string, extension: string) =>
+  `${placeSlug(weather.location)}-${weather.daily.time[0] || 'forecast'}-${suffix}.${extension}`;
+
+/** Saves text as a file through a temporary object URL. */
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  // The byte-order mark lets spreadsheet apps detect UTF-8 (unit symbols, place names).
+  const blob = new Blob(type.startsWith('text/csv') ? ['\uFEFF', content] : [content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,81 @@
+import { NewsItem } from '../types';
+
+/**
+ * Parser for RSS 2.0 and Atom news feeds, e.g. Google News searches or a local paper's feed.
+ * Elements are matched by local name so namespaced variants (`dc:date`, `atom:link`) work too.
+ */
+
+const byName = (el: Element | Document, name: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', name));
+
+const text = (el: Element | Document, name: string): string =>
+  byName(el, name)[0]?.textContent?.trim() || '';
+
+/** Descriptions are often HTML; keep the words only. */
+const plainText = (html: string): string => {
+  if (!html.includes('<')) return html.replace(/\s+/g, ' ').trim();
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+const isoDate = (raw: string): string => {
+  const date = new Date(raw);
+  return raw && !isNaN(date.getTime()) ? date.toISOString() : '';
+};
+
+const hostName = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const toItem = (title: string, summary: string, url: string, source: string, date: string): NewsItem => {
+  // Aggregators append the publisher to the headline ("Storm hits coast - The Herald").
+  const suffix = source ? ` - ${source}` : '';
+  const headline = suffix && title.endsWith(suffix) ? title.slice(0, -suffix.length) : title;
+  const snippet = plainText(summary);
+  return {
+    title: headline,
+    // Some feeds repeat the headline as the description; that's no summary.
+    snippet: snippet.startsWith(headline) ? '' : snippet,
+    url,
+    source: source || hostName(url),
+    date: isoDate(date),
+  };
+};
+
+const parseRssItem = (item: Element): NewsItem =>
+  toItem(text(item, 'title'), text(item, 'description'), text(item, 'link'), text(item, 'source'), text(item, 'pubDate') || text(item, 'date'));
+
+const parseAtomEntry = (entry: Element, feedTitle: string): NewsItem => {
+  const link = byName(entry, 'link').find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate');
+  return toItem(
+    text(entry, 'title'),
+    text(entry, 'summary') || text(entry, 'content'),
+    link?.getAttribute('href') || '',
+    text(entry, 'name') || feedTitle,
+    text(entry, 'published') || text(entry, 'updated')
+  );
+};
+
+/**
+ * Parses an RSS or Atom document into news items, newest first, skipping entries without a headline or link.
+ * Throws when the payload is not well-formed XML.
+ */
+export const parseNewsFeed = (xml: string): NewsItem[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('News feed is not valid XML');
+  }
+
+  const root = doc.documentElement;
+  const items = root.localName === 'feed'
+    ? byName(doc, 'entry').map(entry => parseAtomEntry(entry, text(root, 'title')))
+    : byName(doc, 'item').map(parseRssItem);
+
+  return items
+    .filter(item => item.title && /^https?:\/\//.test(item.url))
+    .sort((a, b) => (b.date ? Date.parse(b.date) : 0) - (a.date ? Date.parse(a.date) : 0));
+};
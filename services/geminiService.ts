@@ -1,89 +1,60 @@
-
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { WeatherData, Place, Movie, NewsItem } from "../types";
+import { WeatherData, AIInsight, ChatMessage, ChatEvent, Place, Movie, NewsItem, HistoryEvent, UnitPreferences } from "../types";
+import { loadLanguage } from "./i18n";
 
 /**
- * Utility to retry an async function with exponential backoff.
+ * Thin client for the `/api/*` AI routes. The Gemini key lives on the server only; prompts
+ * are tailored there from the region, language and units sent with each request.
  */
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    const status = error?.status || error?.error?.status;
-    const isTransient = status === 503 || status === 504 || status === 429;
-    
-    if (retries > 0 && isTransient) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(fn, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-}
-
-export const getAIInsight = async (weather: WeatherData): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const unit = localStorage.getItem('tempUnit') || 'C';
-  const preferredCountry = localStorage.getItem('preferredCountry') || '';
-  const convert = (c: number) => unit === 'F' ? Math.round((c * 9) / 5 + 32) : Math.round(c);
 
-  const prompt = `
-    Context: Weather data for ${weather.location.name}, ${weather.location.country}.
-    User Preferred Unit: °${unit}
-    ${preferredCountry ? `User Preferred Region: ${preferredCountry}` : ''}
-    Current Temperature: ${convert(weather.current.temp)}°${unit}
-    Feels Like: ${convert(weather.current.apparentTemp)}°${unit}
-    Condition Code: ${weather.current.weatherCode}
-    
-    Task: Provide a concise (2-3 sentences), helpful weather insight. 
-    Mention temperatures in °${unit}. 
-    Mention what to wear or plan for the day based on this weather. 
-    Keep it professional but warm. Use emoji sparingly.
-  `;
+/** Region and language query params shared by every AI route. */
+const contextParams = (params: Record<string, string>) => {
+  const region = localStorage.getItem('preferredCountry') || '';
+  return new URLSearchParams({ ...params, ...(region ? { region } : {}), language: loadLanguage() });
+};
 
-  try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-      }
-    }));
-    
-    return response.text || "No AI insight available at the moment.";
-  } catch (error) {
-    console.error("Gemini Insight Error:", error);
-    return "The AI weather specialist is currently taking a coffee break. Dress comfortably!";
+const getJson = async <T>(path: string, params: URLSearchParams): Promise<T> => {
+  const response = await fetch(`${path}?${params.toString()}`);
+  // Without the routes (e.g. under the `vite` dev server) the app shell comes back instead.
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    throw new Error(`${path} unavailable`);
   }
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error?.message || `${path} error: ${response.status}`);
+  return body as T;
+};
+
+/** A summary-only insight, shown (not cached) when the AI can't give one. */
+export const fallbackInsight = (summary: string): AIInsight =>
+  ({ summary, clothing: '', bestWindow: null, umbrella: false, sunscreen: false, risks: [] });
+
+/**
+ * The AI insight for a forecast, written in the units on screen. Throws when the route is unavailable
+ * or fails, so callers caching the result never keep a failure; they show `fallbackInsight` instead.
+ */
+export const getAIInsight = async (weather: WeatherData, units: UnitPreferences): Promise<AIInsight> => {
+  const { latitude, longitude, name, country } = weather.location;
+
+  const { insight } = await getJson<{ insight: AIInsight }>('/api/insight', contextParams({
+    lat: latitude.toFixed(2),
+    lon: longitude.toFixed(2),
+    name,
+    country,
+    ...units,
+  }));
+  if (!insight?.summary) throw new Error('/api/insight returned no insight');
+  return insight;
 };
 
 /**
  * Generates an atmospheric image for a specific place using gemini-2.5-flash-image.
  */
 export const generatePlaceImage = async (placeTitle: string, weatherDesc: string): Promise<string | undefined> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const prompt = `A high-quality, realistic photography shot of the exterior or interior of "${placeTitle}". The mood should be influenced by ${weatherDesc} weather. Professional architectural or travel photography style. 4k resolution.`;
-
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9"
-        }
-      }
+    const { image } = await getJson<{ image: string | null }>('/api/place-image', new URLSearchParams({
+      title: placeTitle,
+      weather: weatherDesc,
     }));
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-    return undefined;
+    return image || undefined;
   } catch (error) {
     console.error("Place Image Generation Error:", error);
     return undefined;
@@ -92,8 +63,7 @@ export const generatePlaceImage = async (placeTitle: string, weatherDesc: string
 
 /**
  * Fetches nearby places based on coordinates and category.
- * Uses gemini-2.5-flash with Google Maps tools.
- * Limits to 10 items per category.
+ * Limits to 10 items per category. Throws when the route is unavailable or fails.
  */
 export const fetchNearbyPlacesByCategory = async (
   lat: number, 
@@ -101,177 +71,100 @@ export const fetchNearbyPlacesByCategory = async (
   category: string,
   weatherDesc: string
 ): Promise<Place[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const preferredCountry = localStorage.getItem('preferredCountry') || '';
-  
-  const prompt = `Find up to 10 best rated and popular ${category} near coordinates (${lat}, ${lon})${preferredCountry ? ` in ${preferredCountry}` : ''}. The current weather is ${weatherDesc}. Only provide real, existing places with valid Google Maps links.`;
-
-  try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: {
-              latitude: lat,
-              longitude: lon
-            }
-          }
-        }
-      },
-    }));
-
-    const places: Place[] = [];
-    const uniqueUris = new Set<string>();
-    
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.maps?.uri && places.length < 10) {
-          if (!uniqueUris.has(chunk.maps.uri)) {
-            uniqueUris.add(chunk.maps.uri);
-            places.push({
-              title: chunk.maps.title || "Local Venue",
-              uri: chunk.maps.uri
-            });
-          }
-        }
-      });
-    }
-
-    return places;
-  } catch (error) {
-    console.error(`Error fetching ${category}:`, error);
-    return [];
-  }
+  const { places } = await getJson<{ places: Place[] }>('/api/places', contextParams({
+    lat: lat.toFixed(2),
+    lon: lon.toFixed(2),
+    category,
+    weather: weatherDesc,
+  }));
+  return places;
 };
 
 /**
- * Legacy support / Combined suggested activities
+ * Legacy support / Combined suggested activities. Throws when the route is unavailable or fails.
  */
-export const fetchNearbyPlaces = async (lat: number, lon: number, weatherDesc: string): Promise<{ suggestion: string, places: Place[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const preferredCountry = localStorage.getItem('preferredCountry') || '';
-  
-  const prompt = `The current weather is "${weatherDesc}". Based on this, suggest 4 nearby venues or places that would be great to visit right now near (${lat}, ${lon})${preferredCountry ? ` in ${preferredCountry}` : ''}. Provide a very short 1-sentence reason for these suggestions.`;
-
-  try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: {
-              latitude: lat,
-              longitude: lon
-            }
-          }
-        }
-      },
-    }));
-
-    const suggestion = response.text || `Great places to visit in this weather:`;
-    const places: Place[] = [];
-    const uniqueUris = new Set<string>();
-    
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.maps?.uri && places.length < 4) {
-          if (!uniqueUris.has(chunk.maps.uri)) {
-            uniqueUris.add(chunk.maps.uri);
-            places.push({
-              title: chunk.maps.title || "Local Venue",
-              uri: chunk.maps.uri
-            });
-          }
-        }
-      });
-    }
-
-    return { suggestion, places };
-  } catch (error) {
-    console.error("Places Fetch Error:", error);
-    return { suggestion: "Exploring local highlights...", places: [] };
-  }
-};
+export const fetchNearbyPlaces = async (lat: number, lon: number, weatherDesc: string): Promise<{ suggestion: string, places: Place[] }> =>
+  getJson<{ suggestion: string, places: Place[] }>('/api/places', contextParams({
+    lat: lat.toFixed(2),
+    lon: lon.toFixed(2),
+    weather: weatherDesc,
+  }));
 
 export const fetchMoviesNearby = async (lat: number, lon: number): Promise<Movie[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `List 5 movies currently playing in cinemas near coordinates ${lat}, ${lon}. Return the results as a JSON array.`;
+  const { movies } = await getJson<{ movies: Movie[] }>('/api/movies', contextParams({
+    lat: lat.toFixed(1),
+    lon: lon.toFixed(1),
+  }));
+  return movies;
+};
 
+export const getAIIntelligence = async (locationName: string): Promise<NewsItem[]> => {
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              theaters: { type: Type.ARRAY, items: { type: Type.STRING } },
-              description: { type: Type.STRING }
-            },
-            required: ['title', 'theaters']
-          }
-        }
-      }
-    }));
-
-    try {
-      return JSON.parse(response.text || '[]');
-    } catch (e) {
-      return [];
-    }
+    const { items } = await getJson<{ items: NewsItem[] }>('/api/intel', contextParams({ location: locationName }));
+    return items;
   } catch (error) {
-    console.error("Movies Fetch Error:", error);
+    console.error("AI Intelligence Error:", error);
     return [];
   }
 };
 
-export const getAIIntelligence = async (locationName: string): Promise<NewsItem[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const preferredCountry = localStorage.getItem('preferredCountry') || '';
-  const prompt = `What are the most recent news stories and events happening in ${locationName}${preferredCountry ? `, ${preferredCountry}` : ''}? Provide a summary of the top news.`;
-
-  try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    }));
-
-    const newsItems: NewsItem[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+/** Notable past weather on this calendar day near a place, oldest first. Throws when the route is unavailable or fails. */
+export const getWeatherHistory = async (locationName: string, date: string): Promise<HistoryEvent[]> => {
+  const { events } = await getJson<{ events: HistoryEvent[] }>('/api/history', contextParams({ location: locationName, date }));
+  return events;
+};
 
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri) {
-          newsItems.push({
-            title: chunk.web.title || "News Update",
-            snippet: "Direct intelligence report from web telemetry. Click to view full coverage.",
-            url: chunk.web.uri,
-            source: "Verified Web Source",
-            date: new Date().toISOString()
-          });
-        }
-      });
-    }
+/**
+ * Sends a chat message about the location on screen and streams the reply. `onEvent` receives
+ * text as it arrives and any lookups the assistant runs; resolves with the full reply text.
+ * Throws when the route is unavailable or the reply fails.
+ */
+export const streamChat = async (
+  weather: WeatherData,
+  units: UnitPreferences,
+  history: ChatMessage[],
+  message: string,
+  onEvent: (event: ChatEvent) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const { latitude, longitude, name, country } = weather.location;
+  const params = contextParams({ lat: latitude.toFixed(2), lon: longitude.toFixed(2), name, country, ...units });
+
+  const response = await fetch(`/api/chat?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ history, message }),
+    signal,
+  });
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json')) {
+    const body = await response.json();
+    throw new Error(body.error?.message || `/api/chat error: ${response.status}`);
+  }
+  if (!response.ok || !contentType.includes('application/x-ndjson') || !response.body) {
+    throw new Error('/api/chat unavailable');
+  }
 
-    const uniqueNews = Array.from(new Map(newsItems.map(item => [item.url, item])).values());
-    
-    return uniqueNews.slice(0, 6);
-  } catch (error) {
-    console.error("AI Intelligence Error:", error);
-    return [];
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let reply = '';
+  const handle = (line: string) => {
+    if (!line.trim()) return;
+    const event: ChatEvent = JSON.parse(line);
+    if (event.type === 'error') throw new Error(event.message);
+    if (event.type === 'text') reply += event.text;
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(handle);
   }
+  handle(buffered + decoder.decode());
+  return reply;
 };
@@ -0,0 +1,236 @@
+import { ClimateDay, ClimateRecord, HistorySummary, WeatherData } from '../types';
+import { viaApi } from './weatherService';
+import { localDateKey } from './timeZones';
+
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+/** First year of the reanalysis archive. */
+export const RECORDS_SINCE = 1940;
+const NORMALS_FROM = 1991;
+const NORMALS_TO = 2020;
+// Normals average this many days either side of the date, which smooths out single odd years.
+const NORMAL_WINDOW_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Daily highs and lows from the archive, in °C; gaps are null. */
+export interface DailyArchive {
+  time: string[];
+  tempMax: (number | null)[];
+  tempMin: (number | null)[];
+}
+
+/**
+ * Daily highs and lows between two dates ("YYYY-MM-DD", inclusive) from the Open-Meteo archive.
+ * Runs behind `/api/climate`, and in the browser where that route isn't deployed.
+ */
+export const fetchDailyArchive = async (lat: number, lon: number, start: string, end: string, signal?: AbortSignal): Promise<DailyArchive> => {
+  const params = new URLSearchParams({
+    latitude: lat.toString(),
+    longitude: lon.toString(),
+    start_date: start,
+    end_date: end,
+    daily: 'temperature_2m_max,temperature_2m_min',
+    timezone: 'auto',
+  });
+  const response = await fetch(`${ARCHIVE_URL}?${params}`, { signal });
+  if (!response.ok) throw new Error(`Open-Meteo archive error: ${response.status}`);
+  const data = await response.json();
+  return {
+    time: data.daily?.time || [],
+    tempMax: data.daily?.temperature_2m_max || [],
+    tempMin: data.daily?.temperature_2m_min || [],
+  };
+};
+
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const mean = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 10) / 10 : null;
+
+/**
+ * Records and 1991–2020 normals for the month and day of `date`, from an archive covering
+ * earlier years. Leap days only have records from leap years.
+ */
+export const climateForDay = (archive: DailyArchive, date: string): ClimateDay => {
+  const index = new Map(archive.time.map((day, i) => [day, i]));
+  const monthDay = date.slice(5, 10);
+  const [month, day] = monthDay.split('-').map(Number);
+  let recordHigh: ClimateRecord | null = null;
+  let recordLow: ClimateRecord | null = null;
+  const highs: number[] = [];
+  const lows: number[] = [];
+  const firstYear = archive.time.length ? Number(archive.time[0].slice(0, 4)) : RECORDS_SINCE;
+  const lastYear = archive.time.length ? Number(archive.time[archive.time.length - 1].slice(0, 4)) : RECORDS_SINCE - 1;
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const i = index.get(`${year}-${monthDay}`);
+    const max = i === undefined ? null : archive.tempMax[i];
+    const min = i === undefined ? null : archive.tempMin[i];
+    if (max !== null && (!recordHigh || max > recordHigh.value)) recordHigh = { value: max, year };
+    if (min !== null && (!recordLow || min < recordLow.value)) recordLow = { value: min, year };
+
+    if (year < NORMALS_FROM || year > NORMALS_TO) continue;
+    const center = Date.UTC(year, month - 1, day);
+    for (let offset = -NORMAL_WINDOW_DAYS; offset <= NORMAL_WINDOW_DAYS; offset++) {
+      const j = index.get(isoDay(center + offset * DAY));
+      if (j === undefined) continue;
+      if (archive.tempMax[j] !== null) highs.push(archive.tempMax[j] as number);
+      if (archive.tempMin[j] !== null) lows.push(archive.tempMin[j] as number);
+    }
+  }
+
+  return { date, recordHigh, recordLow, normalHigh: mean(highs), normalLow: mean(lows), since: firstYear };
+};
+
+/** Records and normals for a location-local date, searched over every complete year before it. */
+export const fetchClimateDay = async (lat: number, lon: number, date: string, signal?: AbortSignal): Promise<ClimateDay> => {
+  const archive = await fetchDailyArchive(lat, lon, `${RECORDS_SINCE}-01-01`, `${Number(date.slice(0, 4)) - 1}-12-31`, signal);
+  return climateForDay(archive, date);
+};
+
+/** Climate for a date through `/api/climate`, which shares the archive between clients. */
+export const loadClimateDay = async (lat: number, lon: number, date: string, signal?: AbortSignal): Promise<ClimateDay> => {
+  const params = new URLSearchParams({ lat: lat.toFixed(2), lon: lon.toFixed(2), date });
+  const { climate } = await viaApi<{ climate: ClimateDay }>(
+    `/api/climate?${params}`,
+    async () => ({ climate: await fetchClimateDay(lat, lon, date, signal) }),
+    signal
+  );
+  return climate;
+};
+
+/** Longest range the historical explorer asks the archive for at once. */
+export const MAX_HISTORY_DAYS = 366;
+// Degree-day base, 65 °F, the usual reference in both unit systems.
+const DEGREE_DAY_BASE = 18.3;
+
+/** Length of a series up to and including its last value, ignoring trailing nulls. */
+const filledLength = (values: (number | null)[]) => {
+  let length = values.length;
+  while (length > 0 && values[length - 1] === null) length--;
+  return length;
+};
+
+/**
+ * Archived weather between two location-local dates ("YYYY-MM-DD", inclusive), in the same
+ * shape as a forecast so the forecast charts can draw it. The archive has no precipitation
+ * probability or UV: hours with precipitation count as 100 % and UV is NaN. The most recent
+ * days may not be in the archive yet; they are left out.
+ */
+export const fetchHistoricalWeather = async (
+  location: Pick<WeatherData['location'], 'name' | 'country' | 'latitude' | 'longitude'>,
+  start: string,
+  end: string,
+  signal?: AbortSignal
+): Promise<WeatherData> => {
+  const params = new URLSearchParams({
+    latitude: location.latitude.toString(),
+    longitude: location.longitude.toString(),
+    start_date: start,
+    end_date: end,
+    hourly: 'temperature_2m,weather_code,wind_speed_10m,precipitation,snowfall,wind_gusts_10m,pressure_msl,dew_point_2m,cloud_cover,relative_humidity_2m,apparent_temperature,wind_direction_10m,is_day',
+    daily: 'weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,wind_speed_10m_max',
+    timezone: 'auto',
+    timeformat: 'unixtime',
+  });
+  const response = await fetch(`${ARCHIVE_URL}?${params}`, { signal });
+  if (!response.ok) throw new Error(`Open-Meteo archive error: ${response.status}`);
+  const data = await response.json();
+  const { hourly, daily } = data;
+  const timezone: string = data.timezone;
+  const toIso = (seconds: number) => seconds ? new Date(seconds * 1000).toISOString() : '';
+
+  // Days not yet in the archive come back as nulls at the end; gaps earlier on stay as NaN.
+  const hours = filledLength(hourly.temperature_2m);
+  const days = filledLength(daily.temperature_2m_max);
+  if (hours === 0) throw new Error('No archived data for this range yet');
+  const h = (values: (number | null)[]) => values.slice(0, hours).map(v => v ?? NaN);
+  const d = (values: (number | null)[]) => values.slice(0, days).map(v => v ?? NaN);
+  const last = hours - 1;
+
+  return {
+    current: {
+      temp: hourly.temperature_2m[last],
+      weatherCode: hourly.weather_code[last],
+      isDay: hourly.is_day[last] === 1,
+      windSpeed: hourly.wind_speed_10m[last],
+      windDirection: hourly.wind_direction_10m[last],
+      humidity: hourly.relative_humidity_2m[last],
+      uvIndex: NaN,
+      apparentTemp: hourly.apparent_temperature[last],
+      aqi: 0,
+    },
+    hourly: {
+      time: (hourly.time as number[]).slice(0, hours).map(toIso),
+      temperature: h(hourly.temperature_2m),
+      precipitation: h(hourly.precipitation).map(mm => mm > 0 ? 100 : 0),
+      weatherCode: h(hourly.weather_code),
+      windSpeed: h(hourly.wind_speed_10m),
+      uvIndex: Array(hours).fill(NaN),
+      precipitationAmount: h(hourly.precipitation),
+      snowfall: h(hourly.snowfall),
+      windGusts: h(hourly.wind_gusts_10m),
+      pressure: h(hourly.pressure_msl),
+      visibility: Array(hours).fill(NaN),
+      dewPoint: h(hourly.dew_point_2m),
+      cloudCover: h(hourly.cloud_cover),
+    },
+    daily: {
+      time: (daily.time as number[]).slice(0, days).map(t => localDateKey(t * 1000, timezone)),
+      tempMax: d(daily.temperature_2m_max),
+      tempMin: d(daily.temperature_2m_min),
+      weatherCode: d(daily.weather_code),
+      sunrise: (daily.sunrise as number[]).slice(0, days).map(toIso),
+      sunset: (daily.sunset as number[]).slice(0, days).map(toIso),
+      precipitationSum: d(daily.precipitation_sum),
+      uvIndexMax: Array(days).fill(NaN),
+      windSpeedMax: d(daily.wind_speed_10m_max),
+    },
+    location: {
+      name: location.name,
+      country: location.country,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timezone,
+      utcOffsetSeconds: data.utc_offset_seconds,
+    },
+    source: 'open-meteo-archive',
+  };
+};
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Mean, extremes, precipitation total, strongest gust and degree-days over archived weather. */
+export const summarizeHistory = ({ hourly, daily }: WeatherData): HistorySummary => {
+  let maxIndex = -1;
+  let minIndex = -1;
+  let sum = 0;
+  let count = 0;
+  hourly.temperature.forEach((temp, i) => {
+    if (!Number.isFinite(temp)) return;
+    sum += temp;
+    count++;
+    if (maxIndex === -1 || temp > hourly.temperature[maxIndex]) maxIndex = i;
+    if (minIndex === -1 || temp < hourly.temperature[minIndex]) minIndex = i;
+  });
+
+  let heating = 0;
+  let cooling = 0;
+  daily.time.forEach((_, i) => {
+    const mean = (daily.tempMax[i] + daily.tempMin[i]) / 2;
+    if (!Number.isFinite(mean)) return;
+    heating += Math.max(0, DEGREE_DAY_BASE - mean);
+    cooling += Math.max(0, mean - DEGREE_DAY_BASE);
+  });
+
+  const finite = (values: number[]) => values.filter(Number.isFinite);
+  return {
+    days: daily.time.length,
+    meanTemp: count ? round(sum / count) : NaN,
+    maxTemp: { value: hourly.temperature[maxIndex] ?? NaN, time: hourly.time[maxIndex] ?? '' },
+    minTemp: { value: hourly.temperature[minIndex] ?? NaN, time: hourly.time[minIndex] ?? '' },
+    totalPrecipitation: round(finite(daily.precipitationSum).reduce((total, mm) => total + mm, 0)),
+    maxGust: Math.max(0, ...finite(hourly.windGusts)),
+    heatingDegreeDays: round(heating),
+    coolingDegreeDays: round(cooling),
+  };
+};
@@ -0,0 +1,56 @@
+import { Language } from '../types';
+import { en, Messages } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { de } from './locales/de';
+import { ar } from './locales/ar';
+
+const STORAGE_KEY = 'skycast_language';
+
+export type MessageKey = keyof typeof en;
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+interface LanguageInfo {
+  /** Name in the language itself, for the language picker. */
+  label: string;
+  /** English name, used when instructing the model which language to answer in. */
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { label: 'English', englishName: 'English', dir: 'ltr' },
+  es: { label: 'Español', englishName: 'Spanish', dir: 'ltr' },
+  fr: { label: 'Français', englishName: 'French', dir: 'ltr' },
+  de: { label: 'Deutsch', englishName: 'German', dir: 'ltr' },
+  ar: { label: 'العربية', englishName: 'Arabic', dir: 'rtl' },
+};
+
+const CATALOGS: Record<Language, Messages> = { en, es, fr, de, ar };
+
+const isLanguage = (value: string | null): value is Language => !!value && Object.hasOwn(LANGUAGES, value);
+
+/** Saved language, else the browser's when we have a catalog for it, else English. */
+export const loadLanguage = (): Language => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2).toLowerCase() : '';
+  return isLanguage(browser) ? browser : 'en';
+};
+
+export const persistLanguage = (language: Language) => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
+
+/** Looks messages up in the language's catalog, falling back to English, and fills `{name}` placeholders. */
+export const createTranslator = (language: Language): Translator => {
+  const catalog = CATALOGS[language];
+  return (key, params) => {
+    const message = catalog[key] || en[key];
+    return params ? message.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : message;
+  };
+};
+
+/** Closing line for Gemini prompts so free text comes back in the UI language. */
+export const languageInstruction = (language: Language = loadLanguage()): string =>
+  `Write all text in ${LANGUAGES[language].englishName}, regardless of the language of this prompt or any sources.`;
@@ -0,0 +1,89 @@
+import { LinkState, SavedLocation, TemperatureUnit } from '../types';
+import { locationKey } from './savedLocations';
+
+/** Path prefix of shareable location links: `/w/<slug>?lat=..&lon=..`. */
+export const LINK_PATH = '/w/';
+
+const TEMPERATURE_UNITS: TemperatureUnit[] = ['C', 'F', 'K'];
+const MIN_RANGE_HOURS = 6;
+const MAX_RANGE_HOURS = 16 * 24;
+
+/** Lowercase ASCII words joined by dashes: "São Paulo, Brazil" → "sao-paulo-brazil". */
+export const slugify = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** Readable path segment for a place; names without Latin letters fall back to "location". */
+export const placeSlug = (loc: { name: string; country: string }) =>
+  slugify(`${loc.name} ${loc.country}`) || 'location';
+
+/** Reads a link's state; anything missing or out of range is left undefined. */
+export const parseLinkState = (url: { pathname: string; search: string }): LinkState => {
+  const params = new URLSearchParams(url.search);
+  const state: LinkState = {};
+
+  const lat = Number(params.get('lat'));
+  const lon = Number(params.get('lon'));
+  if (params.get('lat') && params.get('lon') && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+    state.location = { latitude: lat, longitude: lon, name: params.get('name') || '', country: params.get('country') || '' };
+  }
+
+  if (url.pathname.startsWith(LINK_PATH)) {
+    try {
+      const slug = decodeURIComponent(url.pathname.slice(LINK_PATH.length)).replace(/\/+$/, '');
+      if (slug) state.slug = slug;
+    } catch {
+      // Malformed escapes ("/w/%E0"); the link still works from its coordinates, if any.
+    }
+  }
+
+  // "72h", "72" or "3d".
+  const range = (params.get('range') || '').match(/^(\d+)\s*([hd])?$/i);
+  if (range) {
+    const hours = Number(range[1]) * (range[2]?.toLowerCase() === 'd' ? 24 : 1);
+    if (hours >= MIN_RANGE_HOURS) state.range = Math.min(hours, MAX_RANGE_HOURS);
+  }
+
+  const unit = params.get('unit')?.toUpperCase() as TemperatureUnit | undefined;
+  if (unit && TEMPERATURE_UNITS.includes(unit)) state.unit = unit;
+
+  return state;
+};
+
+/** Path and query for a location link, e.g. `/w/denver-united-states?lat=39.7392&lon=-104.9847&name=Denver&...`. */
+export const linkPath = (location: SavedLocation, range?: number, unit?: TemperatureUnit) => {
+  const params = new URLSearchParams({
+    lat: location.latitude.toFixed(4),
+    lon: location.longitude.toFixed(4),
+    name: location.name,
+  });
+  if (location.country) params.set('country', location.country);
+  if (range) params.set('range', `${range}h`);
+  if (unit) params.set('unit', unit);
+  return `${LINK_PATH}${placeSlug(location)}?${params}`;
+};
+
+/**
+ * Mirrors the view into the address bar. Moving to another place adds a history entry so
+ * Back returns to the previous one; range, unit and name changes update the entry in place.
+ */
+export const syncLinkState = (location: SavedLocation, range?: number, unit?: TemperatureUnit) => {
+  const next = linkPath(location, range, unit);
+  if (next === window.location.pathname + window.location.search) return;
+  const shown = parseLinkState(window.location).location;
+  if (shown && locationKey(shown) !== locationKey(location)) window.history.pushState(null, '', next);
+  else window.history.replaceState(null, '', next);
+};
+
+/** Keeps the page's canonical link and Open Graph / Twitter tags pointing at the place on screen. */
+export const applyShareMeta = (title: string, description: string) => {
+  const url = window.location.href;
+  const set = (property: string, content: string) =>
+    document.head.querySelector(`meta[property="${property}"]`)?.setAttribute('content', content);
+  set('og:title', title);
+  set('twitter:title', title);
+  set('og:description', description);
+  set('twitter:description', description);
+  set('og:url', url);
+  set('twitter:url', url);
+  document.head.querySelector('link[rel="canonical"]')?.setAttribute('href', url);
+};
@@ -0,0 +1,359 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  'app.tagline': 'رابط الخرائط العصبية',
+  'app.refreshLocation': 'تحديث طقس الموقع الحالي',
+  'app.loading': 'جارٍ مزامنة بيانات الغلاف الجوي',
+  'app.connecting': 'جارٍ الاتصال...',
+  'app.documentTitle': 'طقس {location} - {temp} | RZeal Weather',
+
+  'header.search': 'ابحث عن طقس مدينة',
+  'header.searchPlaceholder': 'مدينة أو رمز بريدي أو إحداثيات...',
+  'header.install': 'تثبيت التطبيق',
+  'header.theme': 'تغيير سمة الواجهة',
+  'header.settings': 'إعدادات النظام',
+  'header.history': 'سجل الطقس',
+
+  'search.recent': 'عمليات البحث الأخيرة',
+  'search.clearRecent': 'مسح',
+  'search.searching': 'جارٍ البحث...',
+  'search.noResults': 'لا توجد أماكن مطابقة.',
+  'search.population': 'السكان {value}',
+
+  'settings.title': 'الإعدادات',
+  'settings.language': 'اللغة',
+  'settings.region': 'تفضيل البلد',
+  'settings.regionPlaceholder': 'مثال: USA، UK، France...',
+  'settings.home': 'الموقع الرئيسي',
+  'settings.homePlaceholder': 'حدد المدينة الافتراضية...',
+  'settings.watchlist': 'قائمة المتابعة',
+  'settings.watchlistPlaceholder': 'أضف موقعًا للمتابعة...',
+  'settings.notifications': 'الإشعارات',
+  'settings.newAlerts': 'التنبيهات الجديدة',
+  'settings.briefing': 'الملخص الصباحي',
+  'settings.briefingTime': 'وقت الملخص',
+  'settings.alertRules': 'قواعد التنبيه',
+  'settings.rulesActive': '{count} مفعّلة · تعديل',
+  'settings.forecastLength': 'مدة التوقعات',
+  'settings.forecastDays': '{count} أيام',
+  'settings.timeDisplay': 'عرض الوقت',
+  'settings.timeLocation': 'الموقع',
+  'settings.timeViewer': 'توقيتي',
+  'settings.units': 'الوحدات',
+  'settings.unitLabel': 'وحدة {kind}',
+  'settings.unit.temperature': 'الحرارة',
+  'settings.unit.wind': 'الرياح',
+  'settings.unit.precipitation': 'الهطول',
+  'settings.unit.pressure': 'الضغط',
+  'settings.unit.distance': 'المسافة',
+
+  'common.on': 'تشغيل',
+  'common.off': 'إيقاف',
+
+  'error.notificationsBlocked': 'الإشعارات محظورة لهذا الموقع.',
+  'error.telemetry': 'فشل الاتصال بمصدر البيانات. تحقق من الاتصال.',
+  'error.geolocationUnsupported': 'المتصفح لا يدعم تحديد الموقع.',
+  'error.locationDenied': 'تم رفض الوصول إلى الموقع. استخدم البحث أو حدد موقعًا رئيسيًا.',
+
+  'notify.briefingTitle': 'الملخص الصباحي · {location}',
+
+  'offline.title': 'لقطة دون اتصال',
+  'offline.message': 'يتم عرض آخر توقعات معروفة بتاريخ {time}. سيتم التحديث عند عودة الاتصال.',
+  'offline.retry': 'أعد المحاولة الآن',
+
+  'alerts.yourRule': 'قاعدتك',
+  'alerts.estimate': 'تقدير من التوقعات · ليس تحذيرًا رسميًا',
+  'alerts.estimateShort': 'تقديري',
+  'alerts.estimateHint': '{message} (تقدير من التوقعات)',
+  'alerts.from': 'من {time}',
+  'alerts.until': 'حتى {time}',
+  'alerts.details': 'التفاصيل',
+  'alerts.dismiss': 'تجاهل {title}',
+  'alerts.severity.Extreme': 'قصوى',
+  'alerts.severity.Severe': 'شديدة',
+  'alerts.severity.Moderate': 'متوسطة',
+  'alerts.severity.Minor': 'طفيفة',
+  'alerts.severity.Unknown': 'غير معروفة',
+  'alerts.urgency.Immediate': 'فوري',
+  'alerts.urgency.Expected': 'متوقع',
+  'alerts.urgency.Future': 'لاحق',
+  'alerts.urgency.Past': 'منتهٍ',
+  'alerts.urgency.Unknown': 'غير معروف',
+  'alerts.storm.title': 'تحذير من عاصفة رعدية',
+  'alerts.storm.message': 'رُصد نشاط كهربائي شديد في التوقعات القريبة.',
+  'alerts.downpour.title': 'هطول حرج',
+  'alerts.downpour.message': 'أمطار غزيرة وشيكة. ابحث عن مأوى.',
+  'alerts.escalation.title': 'تدهور جوي',
+  'alerts.escalation.message': 'يُتوقع هطول أمطار أو ثلوج غزيرة خلال الأيام السبعة القادمة.',
+
+  'hero.save': 'أضف إلى قائمة المتابعة',
+  'hero.unsave': 'أزل من قائمة المتابعة',
+  'hero.toggleTime': 'التبديل بين التوقيت المحلي وتوقيتك',
+  'hero.localTime': 'التوقيت المحلي',
+  'hero.yourTime': 'توقيتك',
+  'hero.windSpeed': 'سرعة الرياح',
+  'hero.gusts': 'الهبات {value}',
+  'hero.share': 'مشاركة هذه التوقعات',
+  'hero.linkCopied': 'تم نسخ الرابط',
+
+  'export.title': 'تصدير التوقعات',
+  'export.hourlyCsv': 'التوقعات بالساعة (CSV)',
+  'export.dailyCsv': 'التوقعات اليومية (CSV)',
+  'export.json': 'التوقعات الكاملة (JSON)',
+  'export.calendar': 'ملف تقويم (.ics)',
+  'export.subscribe': 'الاشتراك في التقويم',
+  'export.copyLink': 'نسخ رابط التقويم',
+  'export.linkCopied': 'تم نسخ الرابط',
+  'export.calendarName': 'توقعات {place}',
+  'export.daySummary': '{condition}، {high} / {low}',
+  'export.highLow': 'العظمى {high}، الصغرى {low}',
+  'export.precipitation': 'الهطول {value}',
+  'export.wind': 'رياح حتى {value}',
+  'export.uv': 'مؤشر الأشعة فوق البنفسجية {value}',
+  'export.alertSummary': 'تنبيه: {title}',
+
+  'share.description': '{condition}، {temp} في {location} الآن. التوقعات بالساعة والتوقعات القادمة والتنبيهات على SkyCast AI.',
+
+  'condition.clear': 'سماء صافية',
+  'condition.mainlyClear': 'صافٍ غالبًا',
+  'condition.partlyCloudy': 'غائم جزئيًا',
+  'condition.overcast': 'ملبّد بالغيوم',
+  'condition.fog': 'ضباب',
+  'condition.rimeFog': 'ضباب متجمد',
+  'condition.drizzle': 'رذاذ خفيف',
+  'condition.rain': 'مطر خفيف',
+  'condition.snow': 'ثلج خفيف',
+  'condition.thunderstorm': 'عاصفة رعدية',
+  'condition.unknown': 'غير معروف',
+
+  'timeline.title': 'التوقعات بالساعة',
+  'timeline.range': 'نطاق المخطط',
+  'timeline.scroll': 'تمرير المخطط',
+  'timeline.hours': '{count} س',
+  'timeline.days': '{count} ي',
+  'timeline.temperature': 'الحرارة',
+  'timeline.precipitation': 'الهطول',
+
+  'conditions.title': 'الأحوال الجوية',
+  'conditions.feelsLike': 'الإحساس الحراري',
+  'conditions.gusts': 'هبات الرياح',
+  'conditions.sustained': 'الرياح المستمرة {value}',
+  'conditions.humidity': 'الرطوبة',
+  'conditions.dewPoint': 'نقطة الندى {value}',
+  'conditions.pressure': 'الضغط',
+  'conditions.visibility': 'مدى الرؤية',
+  'conditions.cloudCover': 'الغطاء السحابي',
+  'conditions.precipitation': 'الهطول',
+  'conditions.snowHour': '{value} ثلج هذه الساعة',
+  'conditions.chanceHour': 'احتمال {value}% هذه الساعة',
+  'conditions.uvIndex': 'مؤشر الأشعة فوق البنفسجية',
+  'conditions.uvPeak': 'الذروة {value} اليوم',
+  'conditions.sunrise': 'الشروق',
+  'conditions.sunset': 'الغروب {time}',
+
+  'insight.title': 'تحليل الطقس الذكي',
+  'insight.error': 'خبير الطقس الذكي في استراحة قهوة. ارتدِ ملابس مريحة!',
+  'insight.clothing': 'ماذا ترتدي',
+  'insight.bestWindow': 'أفضل وقت للخروج',
+  'insight.noWindow': 'الأفضل البقاء في الداخل اليوم',
+  'insight.umbrella': 'خذ مظلة',
+  'insight.noUmbrella': 'لا حاجة لمظلة',
+  'insight.sunscreen': 'استخدم واقي الشمس',
+  'insight.noSunscreen': 'أشعة فوق بنفسجية منخفضة',
+  'insight.risks': 'انتبه إلى',
+
+  'chat.title': 'اسأل عن التوقعات',
+  'chat.clear': 'مسح المحادثة',
+  'chat.intro': 'اسأل أي شيء عن الطقس في {location}، أو قارنه بمكان آخر.',
+  'chat.suggestRun': 'هل ستمطر أثناء ركضي الساعة 5 مساءً؟',
+  'chat.suggestPicnic': 'ما أفضل يوم هذا الأسبوع لنزهة؟',
+  'chat.suggestCompare': 'هل الجو أدفأ في لشبونة في عطلة نهاية الأسبوع؟',
+  'chat.searching': 'جارٍ البحث عن {place}…',
+  'chat.checking': 'جارٍ التحقق من الطقس في {place}…',
+  'chat.thinking': 'جارٍ التفكير…',
+  'chat.placeholder': 'اسأل عن التوقعات…',
+  'chat.send': 'إرسال',
+  'chat.error': 'المساعد غير متاح حاليًا. حاول مرة أخرى بعد قليل.',
+  'chat.empty': 'لم تصل أي إجابة. جرّب إعادة صياغة السؤال.',
+
+  'explorer.title': 'مستكشف الأنشطة المحلية',
+  'explorer.subtitle': 'بيانات إقليمية مباشرة وصور مولّدة (10 نتائج كحد أقصى لكل فئة)',
+  'explorer.malls': 'مراكز التسوق',
+  'explorer.parks': 'الحدائق والطبيعة',
+  'explorer.movies': 'دور السينما',
+  'explorer.restaurants': 'المطاعم',
+  'explorer.stable': 'الاتصال مستقر',
+  'explorer.generating': 'جارٍ إنشاء الصورة...',
+  'explorer.venue': 'استكشف المكان',
+  'explorer.empty': 'لم يُعثر على {category} قريبة.',
+
+  'cinema.title': 'يُعرض الآن بالقرب منك',
+  'cinema.badWeather': 'يوم مناسب لمشاهدة فيلم',
+  'cinema.showingAt': 'يُعرض في',
+  'cinema.showVenue': 'عرض هذه السينما في المستكشف',
+  'cinema.empty': 'لم يُعثر على عروض أفلام قريبة.',
+
+  'places.venue': 'مكان محلي',
+  'places.suggestion': 'أماكن رائعة للزيارة في هذا الطقس:',
+  'places.exploring': 'جارٍ استكشاف المعالم المحلية...',
+
+  'news.title': 'أخبار {location}',
+  'news.filter': 'تصفية الأخبار',
+  'news.all': 'الكل',
+  'news.weatherOnly': 'الطقس ({count})',
+  'news.weatherTag': 'طقس',
+  'news.empty': 'لا توجد أخبار حديثة لهذا الموقع.',
+
+  'history.title': 'في مثل هذا اليوم',
+  'history.aboveNormal': 'أعلى من المعدل بـ {value}',
+  'history.belowNormal': 'أدنى من المعدل بـ {value}',
+  'history.nearNormal': 'قريب من المعدل لهذا التاريخ',
+  'history.normal': 'المعدل العظمى / الصغرى',
+  'history.recordHigh': 'أعلى درجة مسجلة',
+  'history.recordLow': 'أدنى درجة مسجلة',
+  'history.inYear': 'عام {year}',
+  'history.since': 'سجلات منذ {year}',
+  'history.unavailable': 'سجلات المناخ غير متاحة لهذا الموقع.',
+  'history.events': 'أحداث طقس بارزة في هذا التاريخ',
+  'history.searching': 'جارٍ البحث في الأرشيف...',
+  'history.noEvents': 'لم يُعثر على أحداث طقس بارزة لهذا التاريخ.',
+
+  'archive.title': 'الطقس التاريخي',
+  'archive.close': 'إغلاق',
+  'archive.location': 'الموقع',
+  'archive.from': 'من',
+  'archive.to': 'إلى',
+  'archive.load': 'عرض',
+  'archive.loading': 'جارٍ جلب الأرشيف...',
+  'archive.empty': 'اختر مكانًا وتواريخ لمعرفة كيف كان الطقس.',
+  'archive.invalidRange': 'اختر بداية قبل النهاية أو تساويها، بحد أقصى {days} يومًا ومن دون تواريخ مستقبلية.',
+  'archive.error': 'لا تتوفر بيانات مؤرشفة لهذه الفترة.',
+  'archive.days': '{count} أيام',
+  'archive.mean': 'متوسط الحرارة',
+  'archive.high': 'الأعلى',
+  'archive.low': 'الأدنى',
+  'archive.precip': 'مجموع الهطول',
+  'archive.gust': 'أقوى هبة',
+  'archive.heating': 'درجات أيام التدفئة',
+  'archive.cooling': 'درجات أيام التبريد',
+  'archive.daily': 'يومي',
+  'archive.band': 'العظمى / الصغرى',
+  'archive.wind': 'أقصى رياح',
+
+  'outlook.title': 'توقعات {count} أيام',
+  'outlook.today': 'اليوم',
+  'outlook.uv': 'الأشعة فوق البنفسجية {value}',
+
+  'dashboard.label': 'المواقع المحفوظة',
+  'dashboard.title': 'قائمة المتابعة',
+  'dashboard.sites': '{count} مواقع',
+  'dashboard.show': 'عرض طقس {name}',
+  'dashboard.asOf': 'حتى {time}',
+  'dashboard.moveEarlier': 'نقل {name} إلى الأمام',
+  'dashboard.moveLater': 'نقل {name} إلى الخلف',
+  'dashboard.remove': 'إزالة {name}',
+
+  'rules.title': 'قواعد التنبيه',
+  'rules.close': 'إغلاق قواعد التنبيه',
+  'rules.empty': 'لا توجد قواعد.',
+  'rules.enable': 'تفعيل {name}',
+  'rules.disable': 'تعطيل {name}',
+  'rules.edit': 'تعديل {name}',
+  'rules.delete': 'حذف {name}',
+  'rules.name': 'اسم القاعدة',
+  'rules.namePlaceholder': 'مثال: رياح في موقع العمل',
+  'rules.metric': 'المقياس',
+  'rules.condition': 'الشرط',
+  'rules.threshold': 'الحد بوحدة {unit}',
+  'rules.indexPoints': 'نقاط المؤشر',
+  'rules.window': 'الفترة',
+  'rules.severity': 'الخطورة',
+  'rules.warning': 'تحذير',
+  'rules.danger': 'خطر',
+  'rules.message': 'الرسالة',
+  'rules.messagePlaceholder': 'تظهر عند تفعيل القاعدة',
+  'rules.save': 'حفظ القاعدة',
+  'rules.cancel': 'إلغاء',
+  'rules.new': 'قاعدة جديدة',
+  'rules.metric.temp': 'درجة الحرارة',
+  'rules.metric.apparentTemp': 'الإحساس الحراري',
+  'rules.metric.windSpeed': 'سرعة الرياح',
+  'rules.metric.precipProbability': 'احتمال الهطول',
+  'rules.metric.uvIndex': 'مؤشر الأشعة فوق البنفسجية',
+  'rules.metric.aqi': 'جودة الهواء (مؤشر AQI الأمريكي)',
+  'rules.metric.humidity': 'الرطوبة',
+  'rules.window.now': 'الآن',
+  'rules.window.next6h': 'الساعات الست القادمة',
+  'rules.window.next12h': 'الساعات الـ12 القادمة',
+  'rules.window.next24h': 'الساعات الـ24 القادمة',
+  'rules.window.today': 'اليوم',
+  'rules.window.overnight': 'خلال الليل (8 م – 8 ص)',
+  'rules.window.week': 'هذا الأسبوع',
+
+  'planner.title': 'مخطط الأنشطة',
+  'planner.edit': 'تعديل الأنشطة',
+  'planner.activity': 'النشاط',
+  'planner.noProfiles': 'لا توجد أنشطة بعد. أضف نشاطًا للتخطيط وفق التوقعات.',
+  'planner.best': 'أفضل فترة',
+  'planner.alternative': 'جيدة أيضًا',
+  'planner.score': 'التقييم {score}',
+  'planner.noWindows': 'لا توجد فترة مناسبة لـ{activity} خلال الأيام الثلاثة القادمة.',
+  'planner.placesOutdoor': 'أماكن خارجية لفترتك',
+  'planner.placesIndoor': 'بدائل داخلية',
+  'planner.noPlaces': 'لم يُعثر على أماكن قريبة.',
+  'planner.editorTitle': 'ملفات الأنشطة',
+  'planner.close': 'إغلاق ملفات الأنشطة',
+  'planner.describeWind': 'الرياح ≤ {value}',
+  'planner.describePrecip': 'احتمال المطر ≤ {value}%',
+  'planner.describeUv': 'الأشعة فوق البنفسجية ≤ {value}',
+  'planner.daylightOnly': 'في ضوء النهار فقط',
+  'planner.editProfile': 'تعديل {name}',
+  'planner.deleteProfile': 'حذف {name}',
+  'planner.name': 'اسم النشاط',
+  'planner.namePlaceholder': 'مثال: تمشية الكلب',
+  'planner.icon': 'الأيقونة',
+  'planner.minTemp': 'أدنى حرارة ({unit})',
+  'planner.maxTemp': 'أعلى حرارة ({unit})',
+  'planner.maxWind': 'أقصى رياح ({unit})',
+  'planner.maxPrecip': 'أقصى احتمال للمطر (%)',
+  'planner.maxUv': 'أقصى مؤشر للأشعة فوق البنفسجية',
+  'planner.maxAqi': 'أقصى مؤشر لجودة الهواء',
+  'planner.save': 'حفظ النشاط',
+  'planner.new': 'نشاط جديد',
+  'planner.reset': 'استعادة الإعدادات الافتراضية',
+
+  'footer.core': 'RZeal Neural Core',
+  'footer.dataBy': 'بيانات الطقس من',
+  'footer.serviceBy': 'خدمة مقدمة من',
+  'footer.layers': 'طبقات الذكاء',
+  'footer.layersText': 'الأماكن من خرائط Google. التحليل بواسطة نماذج Gemini 2.5 متعددة الوسائط.',
+  'footer.legal': 'المعلومات القانونية',
+  'footer.tagline': 'هندسة اليقين الجوي',
+
+  'legal.hub': 'مركز الامتثال',
+  'legal.privacy': 'سياسة الخصوصية',
+  'legal.terms': 'شروط الخدمة',
+  'legal.disclaimer': 'إخلاء المسؤولية',
+  'legal.security': 'الأمان',
+  'legal.ip': 'الملكية الفكرية',
+  'legal.data': 'البيانات',
+  'legal.englishOnly': 'المستندات القانونية متاحة باللغة الإنجليزية فقط.',
+  'legal.dataTitle': 'سيادة البيانات',
+  'legal.dataText': 'تحكّم في بياناتك المحلية. يؤدي الحذف إلى إعادة تعيين البلد المفضل والموقع الافتراضي واللغة والوحدات.',
+  'legal.purge': 'حذف ملف الجهاز والبيانات المحلية',
+  'legal.return': 'العودة إلى التوقعات',
+
+  'consent.title': 'الموافقة',
+  'consent.intro': 'تستخدم RZeal Solutions LLC التخزين المحلي لمزامنة التفضيلات. بالمتابعة، فإنك تقرّ بـ',
+  'consent.and': 'و',
+  'consent.usaOnly': 'مخصص للاستخدام داخل الولايات المتحدة فقط.',
+  'consent.accept': 'موافق',
+  'consent.later': 'لاحقًا',
+
+  'geo.title': 'تحديد دقيق للموقع',
+  'geo.text': 'يتيح لنا الوصول إلى GPS تقديم بيانات المناخ المحلي الدقيق. تُرسل إحداثياتك بأمان ولا تُخزَّن أبدًا. الخدمة تديرها RZeal Solutions LLC وتقتصر على أراضي الولايات المتحدة.',
+  'geo.allow': 'السماح بالموقع الدقيق',
+  'geo.manual': 'بحث يدوي',
+  'geo.unknown': 'موقع غير معروف',
+  'geo.current': 'الموقع الحالي',
+};
@@ -0,0 +1,359 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  'app.tagline': 'Neuronale Kartenverbindung',
+  'app.refreshLocation': 'Wetter am aktuellen Standort aktualisieren',
+  'app.loading': 'Atmosphärische Telemetrie wird synchronisiert',
+  'app.connecting': 'Verbindung wird hergestellt...',
+  'app.documentTitle': 'Wetter {location} - {temp} | RZeal Weather',
+
+  'header.search': 'Atmosphäre einer Stadt suchen',
+  'header.searchPlaceholder': 'Stadt, Postleitzahl oder Breite, Länge...',
+  'header.install': 'App installieren',
+  'header.theme': 'Design wechseln',
+  'header.settings': 'Systemeinstellungen',
+  'header.history': 'Wetterverlauf',
+
+  'search.recent': 'Zuletzt gesucht',
+  'search.clearRecent': 'Löschen',
+  'search.searching': 'Suche läuft...',
+  'search.noResults': 'Keine passenden Orte.',
+  'search.population': '{value} Einw.',
+
+  'settings.title': 'Einstellungen',
+  'settings.language': 'Sprache',
+  'settings.region': 'Regionale Ländereinstellung',
+  'settings.regionPlaceholder': 'z. B. Deutschland, Austria, USA...',
+  'settings.home': 'Heimatort',
+  'settings.homePlaceholder': 'Standardstadt festlegen...',
+  'settings.watchlist': 'Merkliste',
+  'settings.watchlistPlaceholder': 'Ort zur Merkliste hinzufügen...',
+  'settings.notifications': 'Benachrichtigungen',
+  'settings.newAlerts': 'Neue Warnungen',
+  'settings.briefing': 'Morgenbericht',
+  'settings.briefingTime': 'Uhrzeit des Morgenberichts',
+  'settings.alertRules': 'Warnregeln',
+  'settings.rulesActive': '{count} aktiv · Bearbeiten',
+  'settings.forecastLength': 'Vorhersagedauer',
+  'settings.forecastDays': '{count} Tage',
+  'settings.timeDisplay': 'Zeitanzeige',
+  'settings.timeLocation': 'Ortszeit',
+  'settings.timeViewer': 'Meine Zeit',
+  'settings.units': 'Einheiten',
+  'settings.unitLabel': 'Einheit für {kind}',
+  'settings.unit.temperature': 'Temperatur',
+  'settings.unit.wind': 'Wind',
+  'settings.unit.precipitation': 'Niederschlag',
+  'settings.unit.pressure': 'Luftdruck',
+  'settings.unit.distance': 'Entfernung',
+
+  'common.on': 'An',
+  'common.off': 'Aus',
+
+  'error.notificationsBlocked': 'Benachrichtigungen sind für diese Website blockiert.',
+  'error.telemetry': 'Telemetrieverbindung fehlgeschlagen. Verbindung prüfen.',
+  'error.geolocationUnsupported': 'Standortbestimmung wird vom Browser nicht unterstützt.',
+  'error.locationDenied': 'Standortzugriff verweigert. Suche verwenden oder Heimatort festlegen.',
+
+  'notify.briefingTitle': 'Morgenbericht · {location}',
+
+  'offline.title': 'Offline-Stand',
+  'offline.message': 'Letzte bekannte Vorhersage vom {time}. Sie wird aktualisiert, sobald die Verbindung zurück ist.',
+  'offline.retry': 'Jetzt erneut versuchen',
+
+  'alerts.yourRule': 'Deine Regel',
+  'alerts.estimate': 'Vorhersage-Schätzung · Keine amtliche Warnung',
+  'alerts.estimateShort': 'gesch.',
+  'alerts.estimateHint': '{message} (Vorhersage-Schätzung)',
+  'alerts.from': 'Ab {time}',
+  'alerts.until': 'Bis {time}',
+  'alerts.details': 'Details',
+  'alerts.dismiss': '{title} ausblenden',
+  'alerts.severity.Extreme': 'Extrem',
+  'alerts.severity.Severe': 'Schwer',
+  'alerts.severity.Moderate': 'Mäßig',
+  'alerts.severity.Minor': 'Gering',
+  'alerts.severity.Unknown': 'Unbekannt',
+  'alerts.urgency.Immediate': 'Sofort',
+  'alerts.urgency.Expected': 'Erwartet',
+  'alerts.urgency.Future': 'Zukünftig',
+  'alerts.urgency.Past': 'Vorbei',
+  'alerts.urgency.Unknown': 'Unbekannt',
+  'alerts.storm.title': 'Gewitterwarnung',
+  'alerts.storm.message': 'Starke elektrische Aktivität in der unmittelbaren Vorhersage erkannt.',
+  'alerts.downpour.title': 'Kritischer Niederschlag',
+  'alerts.downpour.message': 'Heftige Schauer stehen unmittelbar bevor. Schutz suchen.',
+  'alerts.escalation.title': 'Wetterverschärfung',
+  'alerts.escalation.message': 'Starker Regen oder Schneefall in den nächsten 7 Tagen erwartet.',
+
+  'hero.save': 'Zur Merkliste hinzufügen',
+  'hero.unsave': 'Von der Merkliste entfernen',
+  'hero.toggleTime': 'Zwischen Ortszeit und deiner Zeit wechseln',
+  'hero.localTime': 'Ortszeit',
+  'hero.yourTime': 'Deine Zeit',
+  'hero.windSpeed': 'Windgeschwindigkeit',
+  'hero.gusts': 'Böen {value}',
+  'hero.share': 'Diese Vorhersage teilen',
+  'hero.linkCopied': 'Link kopiert',
+
+  'export.title': 'Vorhersage exportieren',
+  'export.hourlyCsv': 'Stündliche Vorhersage (CSV)',
+  'export.dailyCsv': 'Tägliche Vorhersage (CSV)',
+  'export.json': 'Komplette Vorhersage (JSON)',
+  'export.calendar': 'Kalenderdatei (.ics)',
+  'export.subscribe': 'Im Kalender abonnieren',
+  'export.copyLink': 'Kalender-Link kopieren',
+  'export.linkCopied': 'Link kopiert',
+  'export.calendarName': 'Vorhersage für {place}',
+  'export.daySummary': '{condition}, {high} / {low}',
+  'export.highLow': 'Höchstwert {high}, Tiefstwert {low}',
+  'export.precipitation': 'Niederschlag {value}',
+  'export.wind': 'Wind bis {value}',
+  'export.uv': 'UV-Index {value}',
+  'export.alertSummary': 'Warnung: {title}',
+
+  'share.description': '{condition}, {temp} in {location} gerade jetzt. Stündlicher Verlauf, Vorhersage und Warnungen bei SkyCast AI.',
+
+  'condition.clear': 'Klarer Himmel',
+  'condition.mainlyClear': 'Überwiegend klar',
+  'condition.partlyCloudy': 'Teilweise bewölkt',
+  'condition.overcast': 'Bedeckt',
+  'condition.fog': 'Nebel',
+  'condition.rimeFog': 'Reifnebel',
+  'condition.drizzle': 'Leichter Nieselregen',
+  'condition.rain': 'Leichter Regen',
+  'condition.snow': 'Leichter Schneefall',
+  'condition.thunderstorm': 'Gewitter',
+  'condition.unknown': 'Unbekannt',
+
+  'timeline.title': 'Stündlicher Verlauf',
+  'timeline.range': 'Zeitraum des Diagramms',
+  'timeline.scroll': 'Diagramm verschieben',
+  'timeline.hours': '{count} Std.',
+  'timeline.days': '{count} T.',
+  'timeline.temperature': 'Temperatur',
+  'timeline.precipitation': 'Niederschlag',
+
+  'conditions.title': 'Bedingungen',
+  'conditions.feelsLike': 'Gefühlt',
+  'conditions.gusts': 'Windböen',
+  'conditions.sustained': 'Mittelwind {value}',
+  'conditions.humidity': 'Luftfeuchtigkeit',
+  'conditions.dewPoint': 'Taupunkt {value}',
+  'conditions.pressure': 'Luftdruck',
+  'conditions.visibility': 'Sichtweite',
+  'conditions.cloudCover': 'Bewölkung',
+  'conditions.precipitation': 'Niederschlag',
+  'conditions.snowHour': '{value} Schnee in dieser Stunde',
+  'conditions.chanceHour': '{value} % Wahrscheinlichkeit in dieser Stunde',
+  'conditions.uvIndex': 'UV-Index',
+  'conditions.uvPeak': 'Höchstwert {value} heute',
+  'conditions.sunrise': 'Sonnenaufgang',
+  'conditions.sunset': 'Sonnenuntergang {time}',
+
+  'insight.title': 'Neuronale Wetteranalyse',
+  'insight.error': 'Der KI-Wetterexperte macht gerade Kaffeepause. Zieh dich bequem an!',
+  'insight.clothing': 'Was anziehen',
+  'insight.bestWindow': 'Beste Zeit draußen',
+  'insight.noWindow': 'Heute besser drinnen',
+  'insight.umbrella': 'Schirm mitnehmen',
+  'insight.noUmbrella': 'Kein Schirm nötig',
+  'insight.sunscreen': 'Sonnenschutz auftragen',
+  'insight.noSunscreen': 'Geringe UV-Belastung',
+  'insight.risks': 'Achtung',
+
+  'chat.title': 'Frag die Vorhersage',
+  'chat.clear': 'Chat löschen',
+  'chat.intro': 'Frag alles zum Wetter in {location} oder vergleiche es mit einem anderen Ort.',
+  'chat.suggestRun': 'Regnet es bei meinem Lauf um 17 Uhr?',
+  'chat.suggestPicnic': 'Welcher Tag diese Woche eignet sich am besten für ein Picknick?',
+  'chat.suggestCompare': 'Ist es am Wochenende in Lissabon wärmer?',
+  'chat.searching': 'Suche {place}…',
+  'chat.checking': 'Prüfe das Wetter in {place}…',
+  'chat.thinking': 'Denke nach…',
+  'chat.placeholder': 'Frage zur Vorhersage…',
+  'chat.send': 'Senden',
+  'chat.error': 'Der Assistent ist gerade nicht verfügbar. Versuch es gleich noch einmal.',
+  'chat.empty': 'Keine Antwort erhalten. Formuliere die Frage anders.',
+
+  'explorer.title': 'Aktivitäten in der Nähe',
+  'explorer.subtitle': 'Regionale Live-Telemetrie und Bildgenerierung (max. 10 Ergebnisse pro Bereich)',
+  'explorer.malls': 'Einkaufszentren',
+  'explorer.parks': 'Parks und Natur',
+  'explorer.movies': 'Kinos',
+  'explorer.restaurants': 'Restaurants',
+  'explorer.stable': 'Bereichsverbindung stabil',
+  'explorer.generating': 'Bild wird erstellt...',
+  'explorer.venue': 'Ort ansehen',
+  'explorer.empty': 'Keine {category} in der Nähe gefunden.',
+
+  'cinema.title': 'Jetzt im Kino in der Nähe',
+  'cinema.badWeather': 'Gutes Wetter fürs Kino',
+  'cinema.showingAt': 'Läuft in',
+  'cinema.showVenue': 'Dieses Kino im Explorer zeigen',
+  'cinema.empty': 'Keine Filmvorführungen in der Nähe gefunden.',
+
+  'places.venue': 'Ort in der Nähe',
+  'places.suggestion': 'Gute Ausflugsziele bei diesem Wetter:',
+  'places.exploring': 'Sehenswertes in der Nähe wird gesucht...',
+
+  'news.title': 'Nachrichten aus {location}',
+  'news.filter': 'Meldungen filtern',
+  'news.all': 'Alle',
+  'news.weatherOnly': 'Wetter ({count})',
+  'news.weatherTag': 'Wetter',
+  'news.empty': 'Keine aktuellen Meldungen für diesen Ort gefunden.',
+
+  'history.title': 'An diesem Tag',
+  'history.aboveNormal': '{value} über dem Normalwert',
+  'history.belowNormal': '{value} unter dem Normalwert',
+  'history.nearNormal': 'Nahe dem Normalwert für das Datum',
+  'history.normal': 'Normale Höchst- / Tiefstwerte',
+  'history.recordHigh': 'Rekordhoch',
+  'history.recordLow': 'Rekordtief',
+  'history.inYear': 'im Jahr {year}',
+  'history.since': 'Aufzeichnungen seit {year}',
+  'history.unavailable': 'Für diesen Ort sind keine Klimadaten verfügbar.',
+  'history.events': 'Bemerkenswertes Wetter an diesem Datum',
+  'history.searching': 'Archive werden durchsucht...',
+  'history.noEvents': 'Keine bemerkenswerten Wetterereignisse für dieses Datum gefunden.',
+
+  'archive.title': 'Historisches Wetter',
+  'archive.close': 'Schließen',
+  'archive.location': 'Ort',
+  'archive.from': 'Von',
+  'archive.to': 'Bis',
+  'archive.load': 'Anzeigen',
+  'archive.loading': 'Archiv wird abgefragt...',
+  'archive.empty': 'Wähle einen Ort und Daten, um zu sehen, wie das Wetter war.',
+  'archive.invalidRange': 'Wähle einen Beginn vor oder am Ende, höchstens {days} Tage und nicht in der Zukunft.',
+  'archive.error': 'Für diesen Zeitraum sind keine Archivdaten verfügbar.',
+  'archive.days': '{count} Tage',
+  'archive.mean': 'Mitteltemperatur',
+  'archive.high': 'Höchstwert',
+  'archive.low': 'Tiefstwert',
+  'archive.precip': 'Niederschlag gesamt',
+  'archive.gust': 'Stärkste Böe',
+  'archive.heating': 'Heizgradtage',
+  'archive.cooling': 'Kühlgradtage',
+  'archive.daily': 'Täglich',
+  'archive.band': 'Max. / Min.',
+  'archive.wind': 'Max. Wind',
+
+  'outlook.title': '{count}-Tage-Vorhersage',
+  'outlook.today': 'Heute',
+  'outlook.uv': 'UV {value}',
+
+  'dashboard.label': 'Gespeicherte Orte',
+  'dashboard.title': 'Merkliste',
+  'dashboard.sites': '{count} Orte',
+  'dashboard.show': 'Wetter für {name} anzeigen',
+  'dashboard.asOf': 'Stand {time}',
+  'dashboard.moveEarlier': '{name} nach vorne verschieben',
+  'dashboard.moveLater': '{name} nach hinten verschieben',
+  'dashboard.remove': '{name} entfernen',
+
+  'rules.title': 'Warnregeln',
+  'rules.close': 'Warnregeln schließen',
+  'rules.empty': 'Keine Regeln eingerichtet.',
+  'rules.enable': '{name} aktivieren',
+  'rules.disable': '{name} deaktivieren',
+  'rules.edit': '{name} bearbeiten',
+  'rules.delete': '{name} löschen',
+  'rules.name': 'Name der Regel',
+  'rules.namePlaceholder': 'z. B. Wind auf der Baustelle',
+  'rules.metric': 'Messgröße',
+  'rules.condition': 'Bedingung',
+  'rules.threshold': 'Schwellenwert in {unit}',
+  'rules.indexPoints': 'Indexpunkten',
+  'rules.window': 'Zeitraum',
+  'rules.severity': 'Schweregrad',
+  'rules.warning': 'Warnung',
+  'rules.danger': 'Gefahr',
+  'rules.message': 'Nachricht',
+  'rules.messagePlaceholder': 'Wird angezeigt, wenn die Regel auslöst',
+  'rules.save': 'Regel speichern',
+  'rules.cancel': 'Abbrechen',
+  'rules.new': 'Neue Regel',
+  'rules.metric.temp': 'Temperatur',
+  'rules.metric.apparentTemp': 'Gefühlte Temperatur',
+  'rules.metric.windSpeed': 'Windgeschwindigkeit',
+  'rules.metric.precipProbability': 'Niederschlagswahrscheinlichkeit',
+  'rules.metric.uvIndex': 'UV-Index',
+  'rules.metric.aqi': 'Luftqualität (US-AQI)',
+  'rules.metric.humidity': 'Luftfeuchtigkeit',
+  'rules.window.now': 'Jetzt',
+  'rules.window.next6h': 'Nächste 6 Stunden',
+  'rules.window.next12h': 'Nächste 12 Stunden',
+  'rules.window.next24h': 'Nächste 24 Stunden',
+  'rules.window.today': 'Heute',
+  'rules.window.overnight': 'Über Nacht (20 – 8 Uhr)',
+  'rules.window.week': 'Diese Woche',
+
+  'planner.title': 'Aktivitätsplaner',
+  'planner.edit': 'Aktivitäten bearbeiten',
+  'planner.activity': 'Aktivität',
+  'planner.noProfiles': 'Noch keine Aktivitäten. Füge eine hinzu, um nach der Vorhersage zu planen.',
+  'planner.best': 'Bestes Zeitfenster',
+  'planner.alternative': 'Ebenfalls gut',
+  'planner.score': 'Wertung {score}',
+  'planner.noWindows': 'Kein gutes Zeitfenster für {activity} in den nächsten 3 Tagen.',
+  'planner.placesOutdoor': 'Orte im Freien für dein Zeitfenster',
+  'planner.placesIndoor': 'Alternativen drinnen',
+  'planner.noPlaces': 'Keine Orte in der Nähe gefunden.',
+  'planner.editorTitle': 'Aktivitätsprofile',
+  'planner.close': 'Aktivitätsprofile schließen',
+  'planner.describeWind': 'Wind ≤ {value}',
+  'planner.describePrecip': 'Regenrisiko ≤ {value} %',
+  'planner.describeUv': 'UV ≤ {value}',
+  'planner.daylightOnly': 'Nur bei Tageslicht',
+  'planner.editProfile': '{name} bearbeiten',
+  'planner.deleteProfile': '{name} löschen',
+  'planner.name': 'Name der Aktivität',
+  'planner.namePlaceholder': 'z. B. Gassi gehen',
+  'planner.icon': 'Symbol',
+  'planner.minTemp': 'Min. Temp. ({unit})',
+  'planner.maxTemp': 'Max. Temp. ({unit})',
+  'planner.maxWind': 'Max. Wind ({unit})',
+  'planner.maxPrecip': 'Max. Regenrisiko (%)',
+  'planner.maxUv': 'Max. UV-Index',
+  'planner.maxAqi': 'Max. AQI',
+  'planner.save': 'Aktivität speichern',
+  'planner.new': 'Neue Aktivität',
+  'planner.reset': 'Standards wiederherstellen',
+
+  'footer.core': 'RZeal Neural Core',
+  'footer.dataBy': 'Wetterdaten von',
+  'footer.serviceBy': 'Ein Dienst von',
+  'footer.layers': 'Intelligenzschichten',
+  'footer.layersText': 'Orte über Google Maps. Auswertung durch die multimodalen Gemini-2.5-Modelle.',
+  'footer.legal': 'Rechtliches',
+  'footer.tagline': 'Atmosphärische Gewissheit',
+
+  'legal.hub': 'Rechtliche Hinweise',
+  'legal.privacy': 'Datenschutzerklärung',
+  'legal.terms': 'Nutzungsbedingungen',
+  'legal.disclaimer': 'Haftungsausschluss',
+  'legal.security': 'Sicherheit',
+  'legal.ip': 'Geistiges Eigentum',
+  'legal.data': 'Daten',
+  'legal.englishOnly': 'Rechtliche Dokumente sind nur auf Englisch verfügbar.',
+  'legal.dataTitle': 'Datenhoheit',
+  'legal.dataText': 'Verwalte deine lokalen Daten. Beim Löschen werden bevorzugtes Land, Standardort, Sprache und Einheiten zurückgesetzt.',
+  'legal.purge': 'Geräteprofil und lokale Daten löschen',
+  'legal.return': 'Zurück zur Vorhersage',
+
+  'consent.title': 'Einwilligung',
+  'consent.intro': 'RZeal Solutions LLC speichert Einstellungen lokal auf deinem Gerät. Mit der weiteren Nutzung bestätigst du unseren',
+  'consent.and': 'und',
+  'consent.usaOnly': 'Nur zur Nutzung innerhalb der USA bestimmt.',
+  'consent.accept': 'Bestätigen',
+  'consent.later': 'Später',
+
+  'geo.title': 'Präzise Telemetrie',
+  'geo.text': 'Mit Zugriff auf dein GPS können wir Mikroklimadaten liefern. Deine Koordinaten werden sicher übertragen und nie gespeichert. Der Dienst wird von RZeal Solutions LLC betrieben und ist auf US-Gebiete beschränkt.',
+  'geo.allow': 'Genauen Standort erlauben',
+  'geo.manual': 'Manuelle Suche',
+  'geo.unknown': 'Unbekannter Ort',
+  'geo.current': 'Aktueller Standort',
+};
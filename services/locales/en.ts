@@ -0,0 +1,360 @@
+/** Source catalog. Every other language provides the same keys; missing ones fall back to these. */
+export const en = {
+  'app.tagline': 'Neural Mapping Link',
+  'app.refreshLocation': 'Refresh current location weather',
+  'app.loading': 'Syncing Atmospheric Telemetry',
+  'app.connecting': 'Establishing Connection...',
+  'app.documentTitle': '{location} Weather - {temp} | RZeal Weather',
+
+  'header.search': 'Search city atmosphere',
+  'header.searchPlaceholder': 'City, postal code or lat, lon...',
+  'header.install': 'Install app',
+  'header.theme': 'Switch interface theme',
+  'header.settings': 'System configuration',
+  'header.history': 'Weather history',
+
+  'search.recent': 'Recent',
+  'search.clearRecent': 'Clear',
+  'search.searching': 'Searching...',
+  'search.noResults': 'No matching places.',
+  'search.population': 'Pop. {value}',
+
+  'settings.title': 'System Config',
+  'settings.language': 'Language',
+  'settings.region': 'Country Regional Preference',
+  'settings.regionPlaceholder': 'e.g. USA, UK, France...',
+  'settings.home': 'Home Anchor',
+  'settings.homePlaceholder': 'Set default city...',
+  'settings.watchlist': 'Watchlist',
+  'settings.watchlistPlaceholder': 'Add a site to watch...',
+  'settings.notifications': 'Notifications',
+  'settings.newAlerts': 'New Alerts',
+  'settings.briefing': 'Morning Briefing',
+  'settings.briefingTime': 'Briefing time',
+  'settings.alertRules': 'Alert Rules',
+  'settings.rulesActive': '{count} Active · Edit',
+  'settings.forecastLength': 'Forecast Length',
+  'settings.forecastDays': '{count} Days',
+  'settings.timeDisplay': 'Time Display',
+  'settings.timeLocation': 'Location',
+  'settings.timeViewer': 'My Time',
+  'settings.units': 'Units',
+  'settings.unitLabel': '{kind} unit',
+  'settings.unit.temperature': 'Temperature',
+  'settings.unit.wind': 'Wind',
+  'settings.unit.precipitation': 'Precipitation',
+  'settings.unit.pressure': 'Pressure',
+  'settings.unit.distance': 'Distance',
+
+  'common.on': 'On',
+  'common.off': 'Off',
+
+  'error.notificationsBlocked': 'Notifications are blocked for this site.',
+  'error.telemetry': 'Telemetry link failed. Check connection.',
+  'error.geolocationUnsupported': 'Geolocation not supported by client.',
+  'error.locationDenied': 'Location access denied. Use search or set home anchor.',
+
+  'notify.briefingTitle': 'Morning Briefing · {location}',
+
+  'offline.title': 'Offline Snapshot',
+  'offline.message': 'Showing the last known forecast as of {time}. It will refresh when the connection returns.',
+  'offline.retry': 'Retry now',
+
+  'alerts.yourRule': 'Your Rule',
+  'alerts.estimate': 'Forecast Estimate · Not an Official Warning',
+  'alerts.estimateShort': 'est.',
+  'alerts.estimateHint': '{message} (forecast estimate)',
+  'alerts.from': 'From {time}',
+  'alerts.until': 'Until {time}',
+  'alerts.details': 'Details',
+  'alerts.dismiss': 'Dismiss {title}',
+  'alerts.severity.Extreme': 'Extreme',
+  'alerts.severity.Severe': 'Severe',
+  'alerts.severity.Moderate': 'Moderate',
+  'alerts.severity.Minor': 'Minor',
+  'alerts.severity.Unknown': 'Unknown',
+  'alerts.urgency.Immediate': 'Immediate',
+  'alerts.urgency.Expected': 'Expected',
+  'alerts.urgency.Future': 'Future',
+  'alerts.urgency.Past': 'Past',
+  'alerts.urgency.Unknown': 'Unknown',
+  'alerts.storm.title': 'Neural Storm Warning',
+  'alerts.storm.message': 'High-intensity electrical activity detected in immediate telemetry.',
+  'alerts.downpour.title': 'Critical Precipitation',
+  'alerts.downpour.message': 'Violent atmospheric discharge imminent. Seek shelter.',
+  'alerts.escalation.title': 'Atmospheric Escalation',
+  'alerts.escalation.message': 'Heavy rain or snow expected within the 7-day outlook.',
+
+  'hero.save': 'Add to watchlist',
+  'hero.unsave': 'Remove from watchlist',
+  'hero.toggleTime': 'Switch between local and your time',
+  'hero.localTime': 'Local Time',
+  'hero.yourTime': 'Your Time',
+  'hero.windSpeed': 'Wind Speed',
+  'hero.gusts': 'Gusts {value}',
+  'hero.share': 'Share this forecast',
+  'hero.linkCopied': 'Link copied',
+
+  'export.title': 'Export forecast',
+  'export.hourlyCsv': 'Hourly forecast (CSV)',
+  'export.dailyCsv': 'Daily forecast (CSV)',
+  'export.json': 'Full forecast (JSON)',
+  'export.calendar': 'Calendar file (.ics)',
+  'export.subscribe': 'Subscribe in calendar',
+  'export.copyLink': 'Copy calendar feed link',
+  'export.linkCopied': 'Feed link copied',
+  'export.calendarName': '{place} forecast',
+  'export.daySummary': '{condition}, {high} / {low}',
+  'export.highLow': 'High {high}, low {low}',
+  'export.precipitation': 'Precipitation {value}',
+  'export.wind': 'Wind up to {value}',
+  'export.uv': 'UV index {value}',
+  'export.alertSummary': 'Alert: {title}',
+
+  'share.description': '{condition}, {temp} in {location} right now. Hourly timeline, outlook and alerts on SkyCast AI.',
+
+  'condition.clear': 'Clear Sky',
+  'condition.mainlyClear': 'Mainly Clear',
+  'condition.partlyCloudy': 'Partly Cloudy',
+  'condition.overcast': 'Overcast',
+  'condition.fog': 'Fog',
+  'condition.rimeFog': 'Depositing Rime Fog',
+  'condition.drizzle': 'Light Drizzle',
+  'condition.rain': 'Slight Rain',
+  'condition.snow': 'Slight Snow',
+  'condition.thunderstorm': 'Thunderstorm',
+  'condition.unknown': 'Unknown',
+
+  'timeline.title': 'Hourly Timeline',
+  'timeline.range': 'Timeline range',
+  'timeline.scroll': 'Scroll timeline',
+  'timeline.hours': '{count}H',
+  'timeline.days': '{count}D',
+  'timeline.temperature': 'Temperature',
+  'timeline.precipitation': 'Precipitation',
+
+  'conditions.title': 'Conditions',
+  'conditions.feelsLike': 'Feels Like',
+  'conditions.gusts': 'Wind Gusts',
+  'conditions.sustained': 'Sustained {value}',
+  'conditions.humidity': 'Humidity',
+  'conditions.dewPoint': 'Dew point {value}',
+  'conditions.pressure': 'Pressure',
+  'conditions.visibility': 'Visibility',
+  'conditions.cloudCover': 'Cloud Cover',
+  'conditions.precipitation': 'Precipitation',
+  'conditions.snowHour': '{value} snow this hour',
+  'conditions.chanceHour': '{value}% chance this hour',
+  'conditions.uvIndex': 'UV Index',
+  'conditions.uvPeak': 'Peak {value} today',
+  'conditions.sunrise': 'Sunrise',
+  'conditions.sunset': 'Sunset {time}',
+
+  'insight.title': 'Neural Atmospheric Insight',
+  'insight.error': 'The AI weather specialist is currently taking a coffee break. Dress comfortably!',
+  'insight.clothing': 'What to Wear',
+  'insight.bestWindow': 'Best Time Outside',
+  'insight.noWindow': 'Best kept indoors today',
+  'insight.umbrella': 'Bring an umbrella',
+  'insight.noUmbrella': 'No umbrella needed',
+  'insight.sunscreen': 'Wear sunscreen',
+  'insight.noSunscreen': 'Low UV',
+  'insight.risks': 'Watch Out For',
+
+  'chat.title': 'Ask the Forecast',
+  'chat.clear': 'Clear chat',
+  'chat.intro': 'Ask anything about the weather in {location}, or compare it with somewhere else.',
+  'chat.suggestRun': 'Will it rain during my 5 pm run?',
+  'chat.suggestPicnic': 'Best day this week for a picnic?',
+  'chat.suggestCompare': 'Is it warmer in Lisbon this weekend?',
+  'chat.searching': 'Looking up {place}…',
+  'chat.checking': 'Checking the weather in {place}…',
+  'chat.thinking': 'Thinking…',
+  'chat.placeholder': 'Ask about the forecast…',
+  'chat.send': 'Send',
+  'chat.error': 'The assistant is unavailable right now. Try again shortly.',
+  'chat.empty': 'No answer came back. Try rephrasing the question.',
+
+  'explorer.title': 'Local Activity Explorer',
+  'explorer.subtitle': 'Live Regional Telemetry & Visual Generation (Max 10 Results Per Sector)',
+  'explorer.malls': 'Shopping Malls',
+  'explorer.parks': 'Parks & Nature',
+  'explorer.movies': 'Movie Theaters',
+  'explorer.restaurants': 'Restaurants',
+  'explorer.stable': 'Sector Link Stable',
+  'explorer.generating': 'Generating Visual...',
+  'explorer.venue': 'Explore Venue',
+  'explorer.empty': 'No local {category} found in range.',
+
+  'cinema.title': 'Now Showing Nearby',
+  'cinema.badWeather': 'Good day for a film',
+  'cinema.showingAt': 'Showing at',
+  'cinema.showVenue': 'Show this theater in the explorer',
+  'cinema.empty': 'No film listings found nearby.',
+
+  'places.venue': 'Local Venue',
+  'places.suggestion': 'Great places to visit in this weather:',
+  'places.exploring': 'Exploring local highlights...',
+
+  'news.title': 'News from {location}',
+  'news.filter': 'Filter stories',
+  'news.all': 'All',
+  'news.weatherOnly': 'Weather ({count})',
+  'news.weatherTag': 'Weather',
+  'news.empty': 'No recent stories found for this location.',
+
+  'history.title': 'On This Day',
+  'history.aboveNormal': '{value} above normal',
+  'history.belowNormal': '{value} below normal',
+  'history.nearNormal': 'Near normal for the date',
+  'history.normal': 'Normal high / low',
+  'history.recordHigh': 'Record high',
+  'history.recordLow': 'Record low',
+  'history.inYear': 'in {year}',
+  'history.since': 'Records since {year}',
+  'history.unavailable': 'Climate records are unavailable for this location.',
+  'history.events': 'Notable weather on this date',
+  'history.searching': 'Searching the archives...',
+  'history.noEvents': 'No notable weather events found for this date.',
+
+  'archive.title': 'Historical Weather',
+  'archive.close': 'Close',
+  'archive.location': 'Location',
+  'archive.from': 'From',
+  'archive.to': 'To',
+  'archive.load': 'Show',
+  'archive.loading': 'Fetching the archive...',
+  'archive.empty': 'Pick a place and dates to see what the weather was.',
+  'archive.invalidRange': 'Pick a start on or before the end, at most {days} days apart and not in the future.',
+  'archive.error': 'Archived weather is unavailable for this range.',
+  'archive.days': '{count} days',
+  'archive.mean': 'Mean temperature',
+  'archive.high': 'Highest',
+  'archive.low': 'Lowest',
+  'archive.precip': 'Total precipitation',
+  'archive.gust': 'Strongest gust',
+  'archive.heating': 'Heating degree-days',
+  'archive.cooling': 'Cooling degree-days',
+  'archive.daily': 'Daily',
+  'archive.band': 'High / low',
+  'archive.wind': 'Max wind',
+
+  'outlook.title': '{count}-Day Outlook',
+  'outlook.today': 'Today',
+  'outlook.uv': 'UV {value}',
+
+  'dashboard.label': 'Saved locations',
+  'dashboard.title': 'Watchlist',
+  'dashboard.sites': '{count} Sites',
+  'dashboard.show': 'Show weather for {name}',
+  'dashboard.asOf': 'As of {time}',
+  'dashboard.moveEarlier': 'Move {name} earlier',
+  'dashboard.moveLater': 'Move {name} later',
+  'dashboard.remove': 'Remove {name}',
+
+  'rules.title': 'Alert Rules',
+  'rules.close': 'Close alert rules',
+  'rules.empty': 'No rules configured.',
+  'rules.enable': 'Enable {name}',
+  'rules.disable': 'Disable {name}',
+  'rules.edit': 'Edit {name}',
+  'rules.delete': 'Delete {name}',
+  'rules.name': 'Rule Name',
+  'rules.namePlaceholder': 'e.g. Windy site conditions',
+  'rules.metric': 'Metric',
+  'rules.condition': 'Condition',
+  'rules.threshold': 'Threshold in {unit}',
+  'rules.indexPoints': 'index points',
+  'rules.window': 'Window',
+  'rules.severity': 'Severity',
+  'rules.warning': 'Warning',
+  'rules.danger': 'Danger',
+  'rules.message': 'Message',
+  'rules.messagePlaceholder': 'Shown when the rule triggers',
+  'rules.save': 'Save Rule',
+  'rules.cancel': 'Cancel',
+  'rules.new': 'New Rule',
+  'rules.metric.temp': 'Temperature',
+  'rules.metric.apparentTemp': 'Feels Like',
+  'rules.metric.windSpeed': 'Wind Speed',
+  'rules.metric.precipProbability': 'Precipitation Chance',
+  'rules.metric.uvIndex': 'UV Index',
+  'rules.metric.aqi': 'Air Quality (US AQI)',
+  'rules.metric.humidity': 'Humidity',
+  'rules.window.now': 'Right now',
+  'rules.window.next6h': 'Next 6 hours',
+  'rules.window.next12h': 'Next 12 hours',
+  'rules.window.next24h': 'Next 24 hours',
+  'rules.window.today': 'Today',
+  'rules.window.overnight': 'Overnight (8 pm – 8 am)',
+  'rules.window.week': 'This week',
+
+  'planner.title': 'Activity Planner',
+  'planner.edit': 'Edit activities',
+  'planner.activity': 'Activity',
+  'planner.noProfiles': 'No activities yet. Add one to plan around the forecast.',
+  'planner.best': 'Best window',
+  'planner.alternative': 'Also good',
+  'planner.score': 'Score {score}',
+  'planner.noWindows': 'No good window for {activity} in the next 3 days.',
+  'planner.placesOutdoor': 'Outdoor spots for your window',
+  'planner.placesIndoor': 'Indoor alternatives',
+  'planner.noPlaces': 'No places found nearby.',
+  'planner.editorTitle': 'Activity Profiles',
+  'planner.close': 'Close activity profiles',
+  'planner.describeWind': 'wind ≤ {value}',
+  'planner.describePrecip': 'rain chance ≤ {value}%',
+  'planner.describeUv': 'UV ≤ {value}',
+  'planner.daylightOnly': 'Daylight only',
+  'planner.editProfile': 'Edit {name}',
+  'planner.deleteProfile': 'Delete {name}',
+  'planner.name': 'Activity Name',
+  'planner.namePlaceholder': 'e.g. Dog walk',
+  'planner.icon': 'Icon',
+  'planner.minTemp': 'Min temp ({unit})',
+  'planner.maxTemp': 'Max temp ({unit})',
+  'planner.maxWind': 'Max wind ({unit})',
+  'planner.maxPrecip': 'Max rain chance (%)',
+  'planner.maxUv': 'Max UV index',
+  'planner.maxAqi': 'Max AQI',
+  'planner.save': 'Save Activity',
+  'planner.new': 'New Activity',
+  'planner.reset': 'Restore defaults',
+
+  'footer.core': 'RZeal Neural Core',
+  'footer.dataBy': 'Atmospheric data by',
+  'footer.serviceBy': 'Service by',
+  'footer.layers': 'Intelligence Layers',
+  'footer.layersText': 'Venue grounding via Google Maps. Logic rendered via Gemini 2.5 Multi-modal Engines.',
+  'footer.legal': 'Legal Architecture',
+  'footer.tagline': 'Engineering Atmospheric Certainty',
+
+  'legal.hub': 'Compliance Hub',
+  'legal.privacy': 'Privacy Policy',
+  'legal.terms': 'Terms of Service',
+  'legal.disclaimer': 'Disclaimer',
+  'legal.security': 'Security',
+  'legal.ip': 'Intellectual Property',
+  'legal.data': 'Data',
+  'legal.englishOnly': 'Legal documents are provided in English only.',
+  'legal.dataTitle': 'Data Sovereignty',
+  'legal.dataText': 'Manage your local footprint. Purging data will reset your preferred country, default location, language and units.',
+  'legal.purge': 'Purge Device Profile & Local Data',
+  'legal.return': 'Return to Forecast',
+
+  'consent.title': 'Atmospheric Consent',
+  'consent.intro': 'RZeal Solutions LLC uses local persistence to sync preferences. By continuing, you acknowledge our',
+  'consent.and': 'and',
+  'consent.usaOnly': 'Intended for use only within the USA.',
+  'consent.accept': 'Acknowledge',
+  'consent.later': 'Later',
+
+  'geo.title': 'Precision Telemetry',
+  'geo.text': 'Accessing your GPS allows us to provide micro-climate data. Your coordinates are transmitted securely and never stored. Service operated by RZeal Solutions LLC and restricted to USA territories.',
+  'geo.allow': 'Allow Precision Sync',
+  'geo.manual': 'Manual Search',
+  'geo.unknown': 'Unknown Location',
+  'geo.current': 'Current Location',
+};
+
+export type Messages = Record<keyof typeof en, string>;
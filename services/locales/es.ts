@@ -0,0 +1,359 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.tagline': 'Enlace de mapeo neuronal',
+  'app.refreshLocation': 'Actualizar el tiempo de la ubicación actual',
+  'app.loading': 'Sincronizando telemetría atmosférica',
+  'app.connecting': 'Estableciendo conexión...',
+  'app.documentTitle': 'El tiempo en {location} - {temp} | RZeal Weather',
+
+  'header.search': 'Buscar la atmósfera de una ciudad',
+  'header.searchPlaceholder': 'Ciudad, código postal o lat, lon...',
+  'header.install': 'Instalar aplicación',
+  'header.theme': 'Cambiar tema de la interfaz',
+  'header.settings': 'Configuración del sistema',
+  'header.history': 'Historial del tiempo',
+
+  'search.recent': 'Recientes',
+  'search.clearRecent': 'Borrar',
+  'search.searching': 'Buscando...',
+  'search.noResults': 'No hay lugares que coincidan.',
+  'search.population': 'Hab. {value}',
+
+  'settings.title': 'Configuración',
+  'settings.language': 'Idioma',
+  'settings.region': 'Preferencia regional de país',
+  'settings.regionPlaceholder': 'p. ej. España, México, USA...',
+  'settings.home': 'Ubicación principal',
+  'settings.homePlaceholder': 'Elegir ciudad predeterminada...',
+  'settings.watchlist': 'Seguimiento',
+  'settings.watchlistPlaceholder': 'Añadir un lugar a seguir...',
+  'settings.notifications': 'Notificaciones',
+  'settings.newAlerts': 'Nuevas alertas',
+  'settings.briefing': 'Resumen matutino',
+  'settings.briefingTime': 'Hora del resumen',
+  'settings.alertRules': 'Reglas de alerta',
+  'settings.rulesActive': '{count} activas · Editar',
+  'settings.forecastLength': 'Duración del pronóstico',
+  'settings.forecastDays': '{count} días',
+  'settings.timeDisplay': 'Hora mostrada',
+  'settings.timeLocation': 'Ubicación',
+  'settings.timeViewer': 'Mi hora',
+  'settings.units': 'Unidades',
+  'settings.unitLabel': 'Unidad de {kind}',
+  'settings.unit.temperature': 'Temperatura',
+  'settings.unit.wind': 'Viento',
+  'settings.unit.precipitation': 'Precipitación',
+  'settings.unit.pressure': 'Presión',
+  'settings.unit.distance': 'Distancia',
+
+  'common.on': 'Sí',
+  'common.off': 'No',
+
+  'error.notificationsBlocked': 'Las notificaciones están bloqueadas para este sitio.',
+  'error.telemetry': 'Falló el enlace de telemetría. Comprueba la conexión.',
+  'error.geolocationUnsupported': 'El navegador no admite geolocalización.',
+  'error.locationDenied': 'Acceso a la ubicación denegado. Usa la búsqueda o define una ubicación principal.',
+
+  'notify.briefingTitle': 'Resumen matutino · {location}',
+
+  'offline.title': 'Instantánea sin conexión',
+  'offline.message': 'Mostrando el último pronóstico conocido de {time}. Se actualizará cuando vuelva la conexión.',
+  'offline.retry': 'Reintentar ahora',
+
+  'alerts.yourRule': 'Tu regla',
+  'alerts.estimate': 'Estimación del pronóstico · No es un aviso oficial',
+  'alerts.estimateShort': 'est.',
+  'alerts.estimateHint': '{message} (estimación del pronóstico)',
+  'alerts.from': 'Desde {time}',
+  'alerts.until': 'Hasta {time}',
+  'alerts.details': 'Detalles',
+  'alerts.dismiss': 'Descartar {title}',
+  'alerts.severity.Extreme': 'Extrema',
+  'alerts.severity.Severe': 'Grave',
+  'alerts.severity.Moderate': 'Moderada',
+  'alerts.severity.Minor': 'Menor',
+  'alerts.severity.Unknown': 'Desconocida',
+  'alerts.urgency.Immediate': 'Inmediata',
+  'alerts.urgency.Expected': 'Prevista',
+  'alerts.urgency.Future': 'Futura',
+  'alerts.urgency.Past': 'Pasada',
+  'alerts.urgency.Unknown': 'Desconocida',
+  'alerts.storm.title': 'Aviso de tormenta',
+  'alerts.storm.message': 'Actividad eléctrica de alta intensidad detectada en la telemetría inmediata.',
+  'alerts.downpour.title': 'Precipitación crítica',
+  'alerts.downpour.message': 'Descarga atmosférica violenta inminente. Busca refugio.',
+  'alerts.escalation.title': 'Escalada atmosférica',
+  'alerts.escalation.message': 'Se esperan lluvias o nevadas intensas en los próximos 7 días.',
+
+  'hero.save': 'Añadir al seguimiento',
+  'hero.unsave': 'Quitar del seguimiento',
+  'hero.toggleTime': 'Alternar entre la hora local y la tuya',
+  'hero.localTime': 'Hora local',
+  'hero.yourTime': 'Tu hora',
+  'hero.windSpeed': 'Velocidad del viento',
+  'hero.gusts': 'Rachas {value}',
+  'hero.share': 'Compartir este pronóstico',
+  'hero.linkCopied': 'Enlace copiado',
+
+  'export.title': 'Exportar pronóstico',
+  'export.hourlyCsv': 'Pronóstico por horas (CSV)',
+  'export.dailyCsv': 'Pronóstico diario (CSV)',
+  'export.json': 'Pronóstico completo (JSON)',
+  'export.calendar': 'Archivo de calendario (.ics)',
+  'export.subscribe': 'Suscribirse en el calendario',
+  'export.copyLink': 'Copiar enlace del calendario',
+  'export.linkCopied': 'Enlace copiado',
+  'export.calendarName': 'Pronóstico de {place}',
+  'export.daySummary': '{condition}, {high} / {low}',
+  'export.highLow': 'Máxima {high}, mínima {low}',
+  'export.precipitation': 'Precipitación {value}',
+  'export.wind': 'Viento de hasta {value}',
+  'export.uv': 'Índice UV {value}',
+  'export.alertSummary': 'Alerta: {title}',
+
+  'share.description': '{condition}, {temp} en {location} ahora mismo. Evolución por horas, pronóstico y alertas en SkyCast AI.',
+
+  'condition.clear': 'Cielo despejado',
+  'condition.mainlyClear': 'Mayormente despejado',
+  'condition.partlyCloudy': 'Parcialmente nublado',
+  'condition.overcast': 'Cubierto',
+  'condition.fog': 'Niebla',
+  'condition.rimeFog': 'Niebla con escarcha',
+  'condition.drizzle': 'Llovizna ligera',
+  'condition.rain': 'Lluvia ligera',
+  'condition.snow': 'Nevada ligera',
+  'condition.thunderstorm': 'Tormenta eléctrica',
+  'condition.unknown': 'Desconocido',
+
+  'timeline.title': 'Evolución por horas',
+  'timeline.range': 'Intervalo de la gráfica',
+  'timeline.scroll': 'Desplazar la gráfica',
+  'timeline.hours': '{count} h',
+  'timeline.days': '{count} d',
+  'timeline.temperature': 'Temperatura',
+  'timeline.precipitation': 'Precipitación',
+
+  'conditions.title': 'Condiciones',
+  'conditions.feelsLike': 'Sensación térmica',
+  'conditions.gusts': 'Rachas de viento',
+  'conditions.sustained': 'Sostenido {value}',
+  'conditions.humidity': 'Humedad',
+  'conditions.dewPoint': 'Punto de rocío {value}',
+  'conditions.pressure': 'Presión',
+  'conditions.visibility': 'Visibilidad',
+  'conditions.cloudCover': 'Nubosidad',
+  'conditions.precipitation': 'Precipitación',
+  'conditions.snowHour': '{value} de nieve esta hora',
+  'conditions.chanceHour': '{value}% de probabilidad esta hora',
+  'conditions.uvIndex': 'Índice UV',
+  'conditions.uvPeak': 'Máximo {value} hoy',
+  'conditions.sunrise': 'Amanecer',
+  'conditions.sunset': 'Atardecer {time}',
+
+  'insight.title': 'Análisis atmosférico neuronal',
+  'insight.error': 'El especialista meteorológico de IA está tomando un café. ¡Vístete cómodo!',
+  'insight.clothing': 'Qué ponerse',
+  'insight.bestWindow': 'Mejor momento al aire libre',
+  'insight.noWindow': 'Mejor quedarse dentro hoy',
+  'insight.umbrella': 'Lleva paraguas',
+  'insight.noUmbrella': 'Sin paraguas',
+  'insight.sunscreen': 'Usa protector solar',
+  'insight.noSunscreen': 'UV bajo',
+  'insight.risks': 'Precauciones',
+
+  'chat.title': 'Pregunta al pronóstico',
+  'chat.clear': 'Borrar chat',
+  'chat.intro': 'Pregunta lo que quieras sobre el tiempo en {location}, o compáralo con otro lugar.',
+  'chat.suggestRun': '¿Lloverá durante mi carrera de las 5 de la tarde?',
+  'chat.suggestPicnic': '¿Qué día de esta semana es mejor para un pícnic?',
+  'chat.suggestCompare': '¿Hace más calor en Lisboa este fin de semana?',
+  'chat.searching': 'Buscando {place}…',
+  'chat.checking': 'Consultando el tiempo en {place}…',
+  'chat.thinking': 'Pensando…',
+  'chat.placeholder': 'Pregunta sobre el pronóstico…',
+  'chat.send': 'Enviar',
+  'chat.error': 'El asistente no está disponible ahora. Inténtalo de nuevo en breve.',
+  'chat.empty': 'No llegó ninguna respuesta. Prueba a reformular la pregunta.',
+
+  'explorer.title': 'Explorador de actividades locales',
+  'explorer.subtitle': 'Telemetría regional en vivo y generación visual (máx. 10 resultados por sector)',
+  'explorer.malls': 'Centros comerciales',
+  'explorer.parks': 'Parques y naturaleza',
+  'explorer.movies': 'Cines',
+  'explorer.restaurants': 'Restaurantes',
+  'explorer.stable': 'Enlace de sector estable',
+  'explorer.generating': 'Generando imagen...',
+  'explorer.venue': 'Ver lugar',
+  'explorer.empty': 'No se encontraron {category} cerca.',
+
+  'cinema.title': 'En cartelera cerca',
+  'cinema.badWeather': 'Buen día para ver una película',
+  'cinema.showingAt': 'En cines',
+  'cinema.showVenue': 'Ver este cine en el explorador',
+  'cinema.empty': 'No se encontró cartelera cerca.',
+
+  'places.venue': 'Lugar local',
+  'places.suggestion': 'Buenos lugares para visitar con este tiempo:',
+  'places.exploring': 'Explorando lugares destacados...',
+
+  'news.title': 'Noticias de {location}',
+  'news.filter': 'Filtrar noticias',
+  'news.all': 'Todas',
+  'news.weatherOnly': 'Tiempo ({count})',
+  'news.weatherTag': 'Tiempo',
+  'news.empty': 'No hay noticias recientes para esta ubicación.',
+
+  'history.title': 'Tal día como hoy',
+  'history.aboveNormal': '{value} por encima de lo normal',
+  'history.belowNormal': '{value} por debajo de lo normal',
+  'history.nearNormal': 'Cerca de lo normal para la fecha',
+  'history.normal': 'Máxima / mínima normal',
+  'history.recordHigh': 'Máxima récord',
+  'history.recordLow': 'Mínima récord',
+  'history.inYear': 'en {year}',
+  'history.since': 'Registros desde {year}',
+  'history.unavailable': 'No hay registros climáticos para esta ubicación.',
+  'history.events': 'Tiempo destacado en esta fecha',
+  'history.searching': 'Buscando en los archivos...',
+  'history.noEvents': 'No se encontraron fenómenos destacados para esta fecha.',
+
+  'archive.title': 'Tiempo histórico',
+  'archive.close': 'Cerrar',
+  'archive.location': 'Ubicación',
+  'archive.from': 'Desde',
+  'archive.to': 'Hasta',
+  'archive.load': 'Mostrar',
+  'archive.loading': 'Consultando el archivo...',
+  'archive.empty': 'Elige un lugar y unas fechas para ver qué tiempo hizo.',
+  'archive.invalidRange': 'Elige un inicio anterior o igual al final, con un máximo de {days} días y sin fechas futuras.',
+  'archive.error': 'No hay datos archivados para este periodo.',
+  'archive.days': '{count} días',
+  'archive.mean': 'Temperatura media',
+  'archive.high': 'Máxima',
+  'archive.low': 'Mínima',
+  'archive.precip': 'Precipitación total',
+  'archive.gust': 'Racha más fuerte',
+  'archive.heating': 'Grados-día de calefacción',
+  'archive.cooling': 'Grados-día de refrigeración',
+  'archive.daily': 'Diario',
+  'archive.band': 'Máx. / mín.',
+  'archive.wind': 'Viento máx.',
+
+  'outlook.title': 'Pronóstico de {count} días',
+  'outlook.today': 'Hoy',
+  'outlook.uv': 'UV {value}',
+
+  'dashboard.label': 'Ubicaciones guardadas',
+  'dashboard.title': 'Seguimiento',
+  'dashboard.sites': '{count} lugares',
+  'dashboard.show': 'Ver el tiempo en {name}',
+  'dashboard.asOf': 'A las {time}',
+  'dashboard.moveEarlier': 'Mover {name} antes',
+  'dashboard.moveLater': 'Mover {name} después',
+  'dashboard.remove': 'Quitar {name}',
+
+  'rules.title': 'Reglas de alerta',
+  'rules.close': 'Cerrar reglas de alerta',
+  'rules.empty': 'No hay reglas configuradas.',
+  'rules.enable': 'Activar {name}',
+  'rules.disable': 'Desactivar {name}',
+  'rules.edit': 'Editar {name}',
+  'rules.delete': 'Eliminar {name}',
+  'rules.name': 'Nombre de la regla',
+  'rules.namePlaceholder': 'p. ej. Viento en la obra',
+  'rules.metric': 'Métrica',
+  'rules.condition': 'Condición',
+  'rules.threshold': 'Umbral en {unit}',
+  'rules.indexPoints': 'puntos de índice',
+  'rules.window': 'Periodo',
+  'rules.severity': 'Gravedad',
+  'rules.warning': 'Aviso',
+  'rules.danger': 'Peligro',
+  'rules.message': 'Mensaje',
+  'rules.messagePlaceholder': 'Se muestra cuando se activa la regla',
+  'rules.save': 'Guardar regla',
+  'rules.cancel': 'Cancelar',
+  'rules.new': 'Nueva regla',
+  'rules.metric.temp': 'Temperatura',
+  'rules.metric.apparentTemp': 'Sensación térmica',
+  'rules.metric.windSpeed': 'Velocidad del viento',
+  'rules.metric.precipProbability': 'Probabilidad de precipitación',
+  'rules.metric.uvIndex': 'Índice UV',
+  'rules.metric.aqi': 'Calidad del aire (AQI EE. UU.)',
+  'rules.metric.humidity': 'Humedad',
+  'rules.window.now': 'Ahora mismo',
+  'rules.window.next6h': 'Próximas 6 horas',
+  'rules.window.next12h': 'Próximas 12 horas',
+  'rules.window.next24h': 'Próximas 24 horas',
+  'rules.window.today': 'Hoy',
+  'rules.window.overnight': 'Durante la noche (20:00 – 8:00)',
+  'rules.window.week': 'Esta semana',
+
+  'planner.title': 'Planificador de actividades',
+  'planner.edit': 'Editar actividades',
+  'planner.activity': 'Actividad',
+  'planner.noProfiles': 'Aún no hay actividades. Añade una para planificar según el pronóstico.',
+  'planner.best': 'Mejor franja',
+  'planner.alternative': 'También buena',
+  'planner.score': 'Puntuación {score}',
+  'planner.noWindows': 'No hay una buena franja para {activity} en los próximos 3 días.',
+  'planner.placesOutdoor': 'Lugares al aire libre para tu franja',
+  'planner.placesIndoor': 'Alternativas bajo techo',
+  'planner.noPlaces': 'No se encontraron lugares cercanos.',
+  'planner.editorTitle': 'Perfiles de actividad',
+  'planner.close': 'Cerrar perfiles de actividad',
+  'planner.describeWind': 'viento ≤ {value}',
+  'planner.describePrecip': 'prob. de lluvia ≤ {value}%',
+  'planner.describeUv': 'UV ≤ {value}',
+  'planner.daylightOnly': 'Solo con luz de día',
+  'planner.editProfile': 'Editar {name}',
+  'planner.deleteProfile': 'Eliminar {name}',
+  'planner.name': 'Nombre de la actividad',
+  'planner.namePlaceholder': 'p. ej. Pasear al perro',
+  'planner.icon': 'Icono',
+  'planner.minTemp': 'Temp. mínima ({unit})',
+  'planner.maxTemp': 'Temp. máxima ({unit})',
+  'planner.maxWind': 'Viento máximo ({unit})',
+  'planner.maxPrecip': 'Prob. de lluvia máx. (%)',
+  'planner.maxUv': 'Índice UV máx.',
+  'planner.maxAqi': 'AQI máx.',
+  'planner.save': 'Guardar actividad',
+  'planner.new': 'Nueva actividad',
+  'planner.reset': 'Restaurar predeterminadas',
+
+  'footer.core': 'RZeal Neural Core',
+  'footer.dataBy': 'Datos atmosféricos de',
+  'footer.serviceBy': 'Servicio de',
+  'footer.layers': 'Capas de inteligencia',
+  'footer.layersText': 'Lugares obtenidos de Google Maps. Lógica generada con los motores multimodales Gemini 2.5.',
+  'footer.legal': 'Información legal',
+  'footer.tagline': 'Ingeniería de certeza atmosférica',
+
+  'legal.hub': 'Centro de cumplimiento',
+  'legal.privacy': 'Política de privacidad',
+  'legal.terms': 'Términos del servicio',
+  'legal.disclaimer': 'Aviso legal',
+  'legal.security': 'Seguridad',
+  'legal.ip': 'Propiedad intelectual',
+  'legal.data': 'Datos',
+  'legal.englishOnly': 'Los documentos legales solo están disponibles en inglés.',
+  'legal.dataTitle': 'Soberanía de datos',
+  'legal.dataText': 'Gestiona tu huella local. Al borrar los datos se restablecerán tu país preferido, tu ubicación predeterminada, el idioma y las unidades.',
+  'legal.purge': 'Borrar perfil del dispositivo y datos locales',
+  'legal.return': 'Volver al pronóstico',
+
+  'consent.title': 'Consentimiento',
+  'consent.intro': 'RZeal Solutions LLC usa almacenamiento local para sincronizar preferencias. Al continuar, aceptas nuestro',
+  'consent.and': 'y',
+  'consent.usaOnly': 'Destinado a su uso solo dentro de EE. UU.',
+  'consent.accept': 'Aceptar',
+  'consent.later': 'Más tarde',
+
+  'geo.title': 'Telemetría de precisión',
+  'geo.text': 'El acceso a tu GPS nos permite ofrecer datos de microclima. Tus coordenadas se transmiten de forma segura y nunca se almacenan. Servicio operado por RZeal Solutions LLC y limitado a territorios de EE. UU.',
+  'geo.allow': 'Permitir sincronización precisa',
+  'geo.manual': 'Búsqueda manual',
+  'geo.unknown': 'Ubicación desconocida',
+  'geo.current': 'Ubicación actual',
+};
@@ -0,0 +1,359 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.tagline': 'Liaison de cartographie neuronale',
+  'app.refreshLocation': 'Actualiser la météo de la position actuelle',
+  'app.loading': 'Synchronisation de la télémétrie atmosphérique',
+  'app.connecting': 'Connexion en cours...',
+  'app.documentTitle': 'Météo à {location} - {temp} | RZeal Weather',
+
+  'header.search': 'Rechercher l’atmosphère d’une ville',
+  'header.searchPlaceholder': 'Ville, code postal ou lat, lon...',
+  'header.install': 'Installer l’application',
+  'header.theme': 'Changer le thème de l’interface',
+  'header.settings': 'Configuration du système',
+  'header.history': 'Historique météo',
+
+  'search.recent': 'Récents',
+  'search.clearRecent': 'Effacer',
+  'search.searching': 'Recherche...',
+  'search.noResults': 'Aucun lieu correspondant.',
+  'search.population': '{value} hab.',
+
+  'settings.title': 'Configuration',
+  'settings.language': 'Langue',
+  'settings.region': 'Préférence régionale',
+  'settings.regionPlaceholder': 'ex. France, Canada, USA...',
+  'settings.home': 'Lieu principal',
+  'settings.homePlaceholder': 'Choisir la ville par défaut...',
+  'settings.watchlist': 'Suivi',
+  'settings.watchlistPlaceholder': 'Ajouter un lieu à suivre...',
+  'settings.notifications': 'Notifications',
+  'settings.newAlerts': 'Nouvelles alertes',
+  'settings.briefing': 'Bulletin du matin',
+  'settings.briefingTime': 'Heure du bulletin',
+  'settings.alertRules': 'Règles d’alerte',
+  'settings.rulesActive': '{count} actives · Modifier',
+  'settings.forecastLength': 'Durée des prévisions',
+  'settings.forecastDays': '{count} jours',
+  'settings.timeDisplay': 'Heure affichée',
+  'settings.timeLocation': 'Du lieu',
+  'settings.timeViewer': 'Mon heure',
+  'settings.units': 'Unités',
+  'settings.unitLabel': 'Unité de {kind}',
+  'settings.unit.temperature': 'Température',
+  'settings.unit.wind': 'Vent',
+  'settings.unit.precipitation': 'Précipitations',
+  'settings.unit.pressure': 'Pression',
+  'settings.unit.distance': 'Distance',
+
+  'common.on': 'Oui',
+  'common.off': 'Non',
+
+  'error.notificationsBlocked': 'Les notifications sont bloquées pour ce site.',
+  'error.telemetry': 'Échec de la liaison de télémétrie. Vérifiez la connexion.',
+  'error.geolocationUnsupported': 'La géolocalisation n’est pas prise en charge par le navigateur.',
+  'error.locationDenied': 'Accès à la position refusé. Utilisez la recherche ou définissez un lieu principal.',
+
+  'notify.briefingTitle': 'Bulletin du matin · {location}',
+
+  'offline.title': 'Instantané hors ligne',
+  'offline.message': 'Affichage des dernières prévisions connues du {time}. Elles seront actualisées au retour de la connexion.',
+  'offline.retry': 'Réessayer',
+
+  'alerts.yourRule': 'Votre règle',
+  'alerts.estimate': 'Estimation · Pas une vigilance officielle',
+  'alerts.estimateShort': 'est.',
+  'alerts.estimateHint': '{message} (estimation)',
+  'alerts.from': 'À partir de {time}',
+  'alerts.until': 'Jusqu’à {time}',
+  'alerts.details': 'Détails',
+  'alerts.dismiss': 'Ignorer {title}',
+  'alerts.severity.Extreme': 'Extrême',
+  'alerts.severity.Severe': 'Sévère',
+  'alerts.severity.Moderate': 'Modérée',
+  'alerts.severity.Minor': 'Mineure',
+  'alerts.severity.Unknown': 'Inconnue',
+  'alerts.urgency.Immediate': 'Immédiate',
+  'alerts.urgency.Expected': 'Attendue',
+  'alerts.urgency.Future': 'Future',
+  'alerts.urgency.Past': 'Passée',
+  'alerts.urgency.Unknown': 'Inconnue',
+  'alerts.storm.title': 'Alerte orage',
+  'alerts.storm.message': 'Activité électrique de forte intensité détectée à court terme.',
+  'alerts.downpour.title': 'Précipitations critiques',
+  'alerts.downpour.message': 'Averses violentes imminentes. Mettez-vous à l’abri.',
+  'alerts.escalation.title': 'Dégradation atmosphérique',
+  'alerts.escalation.message': 'Fortes pluies ou chutes de neige attendues dans les 7 prochains jours.',
+
+  'hero.save': 'Ajouter au suivi',
+  'hero.unsave': 'Retirer du suivi',
+  'hero.toggleTime': 'Basculer entre l’heure locale et la vôtre',
+  'hero.localTime': 'Heure locale',
+  'hero.yourTime': 'Votre heure',
+  'hero.windSpeed': 'Vitesse du vent',
+  'hero.gusts': 'Rafales {value}',
+  'hero.share': 'Partager ces prévisions',
+  'hero.linkCopied': 'Lien copié',
+
+  'export.title': 'Exporter les prévisions',
+  'export.hourlyCsv': 'Prévisions horaires (CSV)',
+  'export.dailyCsv': 'Prévisions quotidiennes (CSV)',
+  'export.json': 'Prévisions complètes (JSON)',
+  'export.calendar': 'Fichier agenda (.ics)',
+  'export.subscribe': 'S’abonner dans l’agenda',
+  'export.copyLink': 'Copier le lien de l’agenda',
+  'export.linkCopied': 'Lien copié',
+  'export.calendarName': 'Prévisions pour {place}',
+  'export.daySummary': '{condition}, {high} / {low}',
+  'export.highLow': 'Max. {high}, min. {low}',
+  'export.precipitation': 'Précipitations {value}',
+  'export.wind': 'Vent jusqu’à {value}',
+  'export.uv': 'Indice UV {value}',
+  'export.alertSummary': 'Alerte : {title}',
+
+  'share.description': '{condition}, {temp} à {location} en ce moment. Évolution horaire, prévisions et alertes sur SkyCast AI.',
+
+  'condition.clear': 'Ciel dégagé',
+  'condition.mainlyClear': 'Plutôt dégagé',
+  'condition.partlyCloudy': 'Partiellement nuageux',
+  'condition.overcast': 'Couvert',
+  'condition.fog': 'Brouillard',
+  'condition.rimeFog': 'Brouillard givrant',
+  'condition.drizzle': 'Bruine légère',
+  'condition.rain': 'Pluie faible',
+  'condition.snow': 'Neige faible',
+  'condition.thunderstorm': 'Orage',
+  'condition.unknown': 'Inconnu',
+
+  'timeline.title': 'Évolution horaire',
+  'timeline.range': 'Plage du graphique',
+  'timeline.scroll': 'Faire défiler le graphique',
+  'timeline.hours': '{count} h',
+  'timeline.days': '{count} j',
+  'timeline.temperature': 'Température',
+  'timeline.precipitation': 'Précipitations',
+
+  'conditions.title': 'Conditions',
+  'conditions.feelsLike': 'Ressenti',
+  'conditions.gusts': 'Rafales',
+  'conditions.sustained': 'Vent moyen {value}',
+  'conditions.humidity': 'Humidité',
+  'conditions.dewPoint': 'Point de rosée {value}',
+  'conditions.pressure': 'Pression',
+  'conditions.visibility': 'Visibilité',
+  'conditions.cloudCover': 'Couverture nuageuse',
+  'conditions.precipitation': 'Précipitations',
+  'conditions.snowHour': '{value} de neige cette heure',
+  'conditions.chanceHour': '{value} % de probabilité cette heure',
+  'conditions.uvIndex': 'Indice UV',
+  'conditions.uvPeak': 'Pic à {value} aujourd’hui',
+  'conditions.sunrise': 'Lever du soleil',
+  'conditions.sunset': 'Coucher {time}',
+
+  'insight.title': 'Analyse atmosphérique neuronale',
+  'insight.error': 'Le spécialiste météo IA fait une pause café. Habillez-vous confortablement !',
+  'insight.clothing': 'Que porter',
+  'insight.bestWindow': 'Meilleur moment dehors',
+  'insight.noWindow': 'Mieux vaut rester à l’intérieur',
+  'insight.umbrella': 'Prenez un parapluie',
+  'insight.noUmbrella': 'Pas besoin de parapluie',
+  'insight.sunscreen': 'Mettez de la crème solaire',
+  'insight.noSunscreen': 'UV faible',
+  'insight.risks': 'Points de vigilance',
+
+  'chat.title': 'Interroger la prévision',
+  'chat.clear': 'Effacer la discussion',
+  'chat.intro': 'Posez vos questions sur la météo à {location}, ou comparez avec un autre lieu.',
+  'chat.suggestRun': 'Va-t-il pleuvoir pendant mon footing de 17 h ?',
+  'chat.suggestPicnic': 'Quel est le meilleur jour de la semaine pour un pique-nique ?',
+  'chat.suggestCompare': 'Fait-il plus chaud à Lisbonne ce week-end ?',
+  'chat.searching': 'Recherche de {place}…',
+  'chat.checking': 'Consultation de la météo à {place}…',
+  'chat.thinking': 'Réflexion…',
+  'chat.placeholder': 'Posez une question sur la prévision…',
+  'chat.send': 'Envoyer',
+  'chat.error': 'L’assistant est indisponible pour le moment. Réessayez bientôt.',
+  'chat.empty': 'Aucune réponse reçue. Essayez de reformuler la question.',
+
+  'explorer.title': 'Explorateur d’activités locales',
+  'explorer.subtitle': 'Télémétrie régionale en direct et génération visuelle (10 résultats max. par secteur)',
+  'explorer.malls': 'Centres commerciaux',
+  'explorer.parks': 'Parcs et nature',
+  'explorer.movies': 'Cinémas',
+  'explorer.restaurants': 'Restaurants',
+  'explorer.stable': 'Liaison secteur stable',
+  'explorer.generating': 'Génération de l’image...',
+  'explorer.venue': 'Voir le lieu',
+  'explorer.empty': 'Aucun résultat ({category}) à proximité.',
+
+  'cinema.title': 'À l’affiche près de vous',
+  'cinema.badWeather': 'Un temps à aller au cinéma',
+  'cinema.showingAt': 'À l’affiche dans',
+  'cinema.showVenue': 'Voir ce cinéma dans l’explorateur',
+  'cinema.empty': 'Aucune séance trouvée à proximité.',
+
+  'places.venue': 'Lieu local',
+  'places.suggestion': 'Bons endroits à visiter par ce temps :',
+  'places.exploring': 'Exploration des lieux à découvrir...',
+
+  'news.title': 'Actualités de {location}',
+  'news.filter': 'Filtrer les articles',
+  'news.all': 'Tout',
+  'news.weatherOnly': 'Météo ({count})',
+  'news.weatherTag': 'Météo',
+  'news.empty': 'Aucun article récent pour ce lieu.',
+
+  'history.title': 'Ce jour-là',
+  'history.aboveNormal': '{value} au-dessus de la normale',
+  'history.belowNormal': '{value} en dessous de la normale',
+  'history.nearNormal': 'Proche de la normale pour la date',
+  'history.normal': 'Max. / min. normales',
+  'history.recordHigh': 'Record de chaleur',
+  'history.recordLow': 'Record de froid',
+  'history.inYear': 'en {year}',
+  'history.since': 'Relevés depuis {year}',
+  'history.unavailable': 'Aucun relevé climatique pour ce lieu.',
+  'history.events': 'Événements météo à cette date',
+  'history.searching': 'Recherche dans les archives...',
+  'history.noEvents': 'Aucun événement météo notable trouvé pour cette date.',
+
+  'archive.title': 'Météo historique',
+  'archive.close': 'Fermer',
+  'archive.location': 'Lieu',
+  'archive.from': 'Du',
+  'archive.to': 'Au',
+  'archive.load': 'Afficher',
+  'archive.loading': 'Consultation des archives...',
+  'archive.empty': 'Choisissez un lieu et des dates pour voir le temps qu’il a fait.',
+  'archive.invalidRange': 'Choisissez un début au plus tard à la date de fin, sur {days} jours maximum et sans date future.',
+  'archive.error': 'Aucune donnée archivée pour cette période.',
+  'archive.days': '{count} jours',
+  'archive.mean': 'Température moyenne',
+  'archive.high': 'Maximum',
+  'archive.low': 'Minimum',
+  'archive.precip': 'Précipitations totales',
+  'archive.gust': 'Rafale la plus forte',
+  'archive.heating': 'Degrés-jours de chauffage',
+  'archive.cooling': 'Degrés-jours de climatisation',
+  'archive.daily': 'Quotidien',
+  'archive.band': 'Max. / min.',
+  'archive.wind': 'Vent max.',
+
+  'outlook.title': 'Prévisions sur {count} jours',
+  'outlook.today': 'Aujourd’hui',
+  'outlook.uv': 'UV {value}',
+
+  'dashboard.label': 'Lieux enregistrés',
+  'dashboard.title': 'Suivi',
+  'dashboard.sites': '{count} lieux',
+  'dashboard.show': 'Afficher la météo de {name}',
+  'dashboard.asOf': 'Au {time}',
+  'dashboard.moveEarlier': 'Déplacer {name} avant',
+  'dashboard.moveLater': 'Déplacer {name} après',
+  'dashboard.remove': 'Retirer {name}',
+
+  'rules.title': 'Règles d’alerte',
+  'rules.close': 'Fermer les règles d’alerte',
+  'rules.empty': 'Aucune règle configurée.',
+  'rules.enable': 'Activer {name}',
+  'rules.disable': 'Désactiver {name}',
+  'rules.edit': 'Modifier {name}',
+  'rules.delete': 'Supprimer {name}',
+  'rules.name': 'Nom de la règle',
+  'rules.namePlaceholder': 'ex. Vent sur le chantier',
+  'rules.metric': 'Mesure',
+  'rules.condition': 'Condition',
+  'rules.threshold': 'Seuil en {unit}',
+  'rules.indexPoints': 'points d’indice',
+  'rules.window': 'Période',
+  'rules.severity': 'Gravité',
+  'rules.warning': 'Avertissement',
+  'rules.danger': 'Danger',
+  'rules.message': 'Message',
+  'rules.messagePlaceholder': 'Affiché au déclenchement de la règle',
+  'rules.save': 'Enregistrer',
+  'rules.cancel': 'Annuler',
+  'rules.new': 'Nouvelle règle',
+  'rules.metric.temp': 'Température',
+  'rules.metric.apparentTemp': 'Ressenti',
+  'rules.metric.windSpeed': 'Vitesse du vent',
+  'rules.metric.precipProbability': 'Probabilité de précipitations',
+  'rules.metric.uvIndex': 'Indice UV',
+  'rules.metric.aqi': 'Qualité de l’air (AQI US)',
+  'rules.metric.humidity': 'Humidité',
+  'rules.window.now': 'Maintenant',
+  'rules.window.next6h': '6 prochaines heures',
+  'rules.window.next12h': '12 prochaines heures',
+  'rules.window.next24h': '24 prochaines heures',
+  'rules.window.today': 'Aujourd’hui',
+  'rules.window.overnight': 'Cette nuit (20 h – 8 h)',
+  'rules.window.week': 'Cette semaine',
+
+  'planner.title': 'Planificateur d’activités',
+  'planner.edit': 'Modifier les activités',
+  'planner.activity': 'Activité',
+  'planner.noProfiles': 'Aucune activité. Ajoutez-en une pour planifier selon la prévision.',
+  'planner.best': 'Meilleur créneau',
+  'planner.alternative': 'Aussi favorable',
+  'planner.score': 'Score {score}',
+  'planner.noWindows': 'Aucun bon créneau pour {activity} dans les 3 prochains jours.',
+  'planner.placesOutdoor': 'Lieux en plein air pour votre créneau',
+  'planner.placesIndoor': 'Alternatives en intérieur',
+  'planner.noPlaces': 'Aucun lieu trouvé à proximité.',
+  'planner.editorTitle': 'Profils d’activité',
+  'planner.close': 'Fermer les profils d’activité',
+  'planner.describeWind': 'vent ≤ {value}',
+  'planner.describePrecip': 'risque de pluie ≤ {value} %',
+  'planner.describeUv': 'UV ≤ {value}',
+  'planner.daylightOnly': 'De jour uniquement',
+  'planner.editProfile': 'Modifier {name}',
+  'planner.deleteProfile': 'Supprimer {name}',
+  'planner.name': 'Nom de l’activité',
+  'planner.namePlaceholder': 'ex. Promenade du chien',
+  'planner.icon': 'Icône',
+  'planner.minTemp': 'Temp. min. ({unit})',
+  'planner.maxTemp': 'Temp. max. ({unit})',
+  'planner.maxWind': 'Vent max. ({unit})',
+  'planner.maxPrecip': 'Risque de pluie max. (%)',
+  'planner.maxUv': 'Indice UV max.',
+  'planner.maxAqi': 'AQI max.',
+  'planner.save': 'Enregistrer l’activité',
+  'planner.new': 'Nouvelle activité',
+  'planner.reset': 'Rétablir les valeurs par défaut',
+
+  'footer.core': 'RZeal Neural Core',
+  'footer.dataBy': 'Données atmosphériques par',
+  'footer.serviceBy': 'Service proposé par',
+  'footer.layers': 'Couches d’intelligence',
+  'footer.layersText': 'Lieux issus de Google Maps. Logique générée par les moteurs multimodaux Gemini 2.5.',
+  'footer.legal': 'Mentions légales',
+  'footer.tagline': 'L’ingénierie de la certitude atmosphérique',
+
+  'legal.hub': 'Centre de conformité',
+  'legal.privacy': 'Politique de confidentialité',
+  'legal.terms': 'Conditions d’utilisation',
+  'legal.disclaimer': 'Avertissement',
+  'legal.security': 'Sécurité',
+  'legal.ip': 'Propriété intellectuelle',
+  'legal.data': 'Données',
+  'legal.englishOnly': 'Les documents juridiques sont disponibles uniquement en anglais.',
+  'legal.dataTitle': 'Souveraineté des données',
+  'legal.dataText': 'Gérez votre empreinte locale. La suppression des données réinitialise votre pays préféré, votre lieu par défaut, la langue et les unités.',
+  'legal.purge': 'Effacer le profil de l’appareil et les données locales',
+  'legal.return': 'Retour aux prévisions',
+
+  'consent.title': 'Consentement',
+  'consent.intro': 'RZeal Solutions LLC utilise le stockage local pour synchroniser vos préférences. En continuant, vous acceptez notre',
+  'consent.and': 'et',
+  'consent.usaOnly': 'Destiné à un usage aux États-Unis uniquement.',
+  'consent.accept': 'J’accepte',
+  'consent.later': 'Plus tard',
+
+  'geo.title': 'Télémétrie de précision',
+  'geo.text': 'L’accès à votre GPS nous permet de fournir des données de microclimat. Vos coordonnées sont transmises de façon sécurisée et jamais conservées. Service exploité par RZeal Solutions LLC et limité au territoire des États-Unis.',
+  'geo.allow': 'Autoriser la localisation précise',
+  'geo.manual': 'Recherche manuelle',
+  'geo.unknown': 'Lieu inconnu',
+  'geo.current': 'Position actuelle',
+};
@@ -1,37 +1,95 @@
-import { NewsItem } from '../types';
+import { NewsItem, NewsLocation, NewsPage, NewsProvider } from '../types';
 import { getAIIntelligence } from './geminiService';
+import { parseNewsFeed } from './feedParser';
+import { loadLanguage } from './i18n';
+
+/** NewsAPI.org through the server proxy, which holds the key. */
+export const newsApiProvider: NewsProvider = {
+  id: 'newsapi',
+  label: 'NewsAPI',
+  fetchNews: async ({ name, country, admin }, language, signal) => {
+    const params = new URLSearchParams({ location: name, country, lang: language, ...(admin ? { admin } : {}) });
+    const response = await fetch(`/api/news?${params}`, { signal });
+    // Without the routes (e.g. under the `vite` dev server) the app shell comes back instead.
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) {
+      throw new Error(`NewsAPI proxy unavailable: ${response.status}`);
+    }
+    const { items } = await response.json() as NewsPage;
+    return Array.isArray(items) ? items : [];
+  },
+};
+
+export interface FeedProviderConfig {
+  id: string;
+  label: string;
+  /** URL of an RSS or Atom feed about the location. */
+  feedUrl: (location: NewsLocation, language: string) => string;
+}
+
+/**
+ * Adapter for any RSS or Atom feed, e.g. a regional paper's or a search feed relayed by the server.
+ */
+export const createFeedProvider = (config: FeedProviderConfig): NewsProvider => ({
+  id: config.id,
+  label: config.label,
+  fetchNews: async (location, language, signal) => {
+    const response = await fetch(config.feedUrl(location, language), { signal });
+    if (!response.ok) throw new Error(`${config.label} error: ${response.status}`);
+    return parseNewsFeed(await response.text());
+  },
+});
+
+export const googleNewsProvider = createFeedProvider({
+  id: 'google-news',
+  label: 'Google News',
+  feedUrl: ({ name, country }, language) => `/api/news-feed?location=${encodeURIComponent(`${name} ${country}`.trim())}&language=${language}`,
+});
+
+/** Search-grounded stories from Gemini, with a summary and date per article. */
+export const geminiNewsProvider: NewsProvider = {
+  id: 'gemini',
+  label: 'Gemini Search',
+  fetchNews: ({ name, country, admin }) => getAIIntelligence([name, admin, country].filter(Boolean).join(', ')),
+};
+
+// Priority order; the first provider with stories wins.
+let newsProviders: NewsProvider[] = [newsApiProvider, googleNewsProvider, geminiNewsProvider];
+
+export const getNewsProviders = (): NewsProvider[] => [...newsProviders];
+
+export const setNewsProviders = (providers: NewsProvider[]) => {
+  newsProviders = [...providers];
+};
+
+// Whole words in the app's Latin-script languages. Arabic attaches prefixes (ال, و, ب) to words, so it is matched as substrings.
+const WEATHER_WORDS = /(?<!\p{L})(weather|storms?|hurricanes?|typhoons?|cyclones?|tornado(es)?|floods?|flooding|rain(fall|storm)?|snow(storm|fall)?|blizzards?|heat ?waves?|droughts?|wildfires?|bushfires?|forecasts?|temperatures?|climate|gales?|hail|frost|tormentas?|huracán|inundaci(ón|ones)|lluvias?|nevadas?|sequía|incendio forestal|ola de calor|clima|tempêtes?|orages?|inondations?|pluies?|neige|canicule|sécheresse|météo|unwetter|sturm|gewitter|hochwasser|überschwemmung(en)?|schnee|hitzewelle|dürre|waldbrand|wetter)(?!\p{L})/iu;
+const ARABIC_WEATHER_WORDS = /(الطقس|عاصفة|أمطار|فيضان|سيول|ثلوج|موجة حر|جفاف|حرائق الغابات|الأرصاد|المناخ)/;
+
+/** True when a headline or summary is about weather, climate or a natural hazard. */
+export const isWeatherStory = (item: NewsItem): boolean => {
+  const text = `${item.title} ${item.snippet}`;
+  return WEATHER_WORDS.test(text) || ARABIC_WEATHER_WORDS.test(text);
+};
 
 /**
- * Hybrid Intelligence Fetcher
- * Attempts to use NewsAPI.org via a secure backend proxy.
- * Falls back to Gemini Google Search Grounding if the backend is inactive or fails.
+ * Stories about a place from the first provider that has any, tagged for weather.
+ * A provider that errors or comes back empty hands over to the next; when none has
+ * stories the result is empty.
  */
-export const fetchLocationNews = async (locationName: string): Promise<NewsItem[]> => {
-  if (!locationName) return [];
-
-  try {
-    // Step 1: Attempt to fetch from our internal NewsAPI proxy
-    const response = await fetch(`/api/news?location=${encodeURIComponent(locationName)}`);
-    
-    // Step 2: Safety check for the "Unexpected token 'e'" error
-    // If the server returns plain text (the source code) instead of JSON,
-    // the contentType header will likely not be 'application/json'.
-    const contentType = response.headers.get('content-type');
-    
-    if (response.ok && contentType && contentType.includes('application/json')) {
-      const data = await response.json();
-      if (Array.isArray(data) && data.length > 0) {
-        return data as NewsItem[];
+export const fetchLocationNews = async (location: NewsLocation, signal?: AbortSignal): Promise<NewsItem[]> => {
+  if (!location.name) return [];
+  const language = loadLanguage();
+
+  for (const provider of newsProviders) {
+    try {
+      const items = await provider.fetchNews(location, language, signal);
+      if (items.length > 0) {
+        return items.map(item => ({ ...item, weatherRelated: isWeatherStory(item) }));
       }
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.warn(`News provider ${provider.id} failed (${error?.message || 'unknown error'}), trying next.`);
     }
-    
-    // Step 3: Fallback to AI Search Grounding
-    // This happens if the backend is misconfigured or returning the .ts source code
-    console.warn("Backend NewsAPI unavailable or misconfigured. Falling back to AI Intelligence.");
-    return await getAIIntelligence(locationName);
-    
-  } catch (error) {
-    console.error("Intelligence link error, triggering AI fallback:", error);
-    return await getAIIntelligence(locationName);
   }
-};
\ No newline at end of file
+  return [];
+};
@@ -0,0 +1,201 @@
+import { WeatherAlert } from '../types';
+import { alertKey } from './alertDismissals';
+
+const NOTIFIED_KEY = 'skycast_notified_alerts';
+const SETTINGS_KEY = 'skycast_notification_settings';
+const STUB_CLIENT_KEY = 'skycast_push_stub_client';
+// How long a delivered alert is remembered; long enough to outlast any alert window.
+const NOTIFIED_RETENTION = 3 * 24 * 60 * 60 * 1000;
+// A briefing missed while the app was closed is still sent if it opens within this span.
+const BRIEFING_GRACE = 3 * 60 * 60 * 1000;
+
+export interface NotificationSettings {
+  alertsEnabled: boolean;
+  briefingEnabled: boolean;
+  /** Local time of day for the briefing, "HH:MM". */
+  briefingTime: string;
+  /** Date ("YYYY-MM-DD") the last briefing went out. */
+  lastBriefingDate?: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+}
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  alertsEnabled: false,
+  briefingEnabled: false,
+  briefingTime: '07:00',
+};
+
+export const loadNotificationSettings = (): NotificationSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const persistNotificationSettings = (settings: NotificationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Shows a notification through the service worker when one is active (required on mobile
+ * and keeps click handling in one place), otherwise through the page.
+ */
+export const showNotification = async (payload: PushPayload) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = {
+    body: payload.body,
+    tag: payload.tag,
+    icon: '/icon.svg',
+    badge: '/icon.svg',
+    data: { url: payload.url || '/' },
+  };
+
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    await registration.showNotification(payload.title, options);
+  } else {
+    new Notification(payload.title, options);
+  }
+};
+
+const readNotified = (): Record<string, number> => {
+  try {
+    const parsed: Record<string, number> = JSON.parse(localStorage.getItem(NOTIFIED_KEY) || '{}');
+    const cutoff = Date.now() - NOTIFIED_RETENTION;
+    return Object.fromEntries(Object.entries(parsed).filter(([, at]) => at > cutoff));
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Notifies about alerts not seen before for this location. An alert counts as new per
+ * condition window, so a recurrence of the same rule or event notifies again.
+ */
+export const notifyNewAlerts = async (locationName: string, location: string, alerts: WeatherAlert[]) => {
+  const notified = readNotified();
+  const occurrence = (alert: WeatherAlert) => `${location}|${alertKey(alert)}|${alert.windowStart ?? alert.onset ?? ''}`;
+  const fresh = alerts.filter(alert => !notified[occurrence(alert)]);
+  if (fresh.length === 0) return;
+
+  fresh.forEach(alert => { notified[occurrence(alert)] = Date.now(); });
+  localStorage.setItem(NOTIFIED_KEY, JSON.stringify(notified));
+
+  for (const alert of fresh) {
+    await showNotification({
+      title: `${alert.type === 'danger' ? '⚠️ ' : ''}${alert.title} · ${locationName}`,
+      body: alert.message,
+      tag: `${location}|${alertKey(alert)}`,
+    });
+  }
+};
+
+const todayStamp = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const briefingTimeToday = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date();
+  at.setHours(hours || 0, minutes || 0, 0, 0);
+  return at.getTime();
+};
+
+/** Whether today's briefing is due now: past its time, within the grace span, and not yet sent. */
+export const isBriefingDue = (settings: NotificationSettings): boolean => {
+  if (!settings.briefingEnabled || settings.lastBriefingDate === todayStamp()) return false;
+  const elapsed = Date.now() - briefingTimeToday(settings.briefingTime);
+  return elapsed >= 0 && elapsed < BRIEFING_GRACE;
+};
+
+export const msUntilNextBriefing = (time: string): number => {
+  const today = briefingTimeToday(time);
+  return today > Date.now() ? today - Date.now() : today + 24 * 60 * 60 * 1000 - Date.now();
+};
+
+export const markBriefingSent = (settings: NotificationSettings): NotificationSettings => {
+  const next = { ...settings, lastBriefingDate: todayStamp() };
+  persistNotificationSettings(next);
+  return next;
+};
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+/**
+ * Subscribes to Web Push and registers the subscription with the push server.
+ * Requires VITE_VAPID_PUBLIC_KEY and VITE_PUSH_SERVER_URL, and an active service worker.
+ */
+export const subscribeToPush = async (locations: string[]): Promise<boolean> => {
+  const vapidKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  const serverUrl = import.meta.env.VITE_PUSH_SERVER_URL;
+  if (!vapidKey || !serverUrl || !('PushManager' in window)) return false;
+
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (!registration) return false;
+
+  try {
+    const subscription = await registration.pushManager.getSubscription() ||
+      await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(vapidKey) });
+    await fetch(`${serverUrl}/subscribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subscription, locations }),
+    });
+    return true;
+  } catch (error) {
+    console.warn('Push subscription failed:', error);
+    return false;
+  }
+};
+
+/**
+ * Connects to the local push stub (scripts/push-stub.mjs) instead of a real push service.
+ * The stub streams payloads over server-sent events; each one is handed to the service worker
+ * as a simulated push, so it travels the same path as a real `push` event.
+ * Returns a disconnect function.
+ */
+export const connectPushStub = (baseUrl: string, locations: string[]): (() => void) => {
+  let clientId = localStorage.getItem(STUB_CLIENT_KEY);
+  if (!clientId) {
+    clientId = Math.random().toString(36).slice(2, 10);
+    localStorage.setItem(STUB_CLIENT_KEY, clientId);
+  }
+
+  fetch(`${baseUrl}/subscribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: { endpoint: `${baseUrl}/push/${clientId}` }, locations }),
+  }).catch(error => console.warn('Push stub unreachable:', error));
+
+  const source = new EventSource(`${baseUrl}/stream/${clientId}`);
+  source.onmessage = async (event) => {
+    const payload: PushPayload = JSON.parse(event.data);
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration?.active) {
+      registration.active.postMessage({ type: 'simulated-push', payload });
+    } else {
+      showNotification(payload);
+    }
+  };
+  return () => source.close();
+};
@@ -0,0 +1,71 @@
+import { SavedLocation } from '../types';
+import { locationKey } from './savedLocations';
+
+const QUEUE_KEY = 'skycast_refresh_queue';
+// Must match the tag handled in public/sw.js.
+const REFRESH_SYNC_TAG = 'skycast-refresh-weather';
+
+/** Chromium's install prompt event, not yet part of the DOM typings. */
+export interface InstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('Service worker registration failed:', error);
+  }
+};
+
+const readQueue = (): SavedLocation[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Remembers a location whose refresh failed so it is retried once connectivity returns.
+ */
+export const enqueueRefresh = async (loc: SavedLocation) => {
+  const queue = readQueue();
+  if (!queue.some(l => locationKey(l) === locationKey(loc))) {
+    queue.push({ name: loc.name, country: loc.country, latitude: loc.latitude, longitude: loc.longitude });
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+
+  // Background Sync is Chromium-only; elsewhere the 'online' listener covers it. `ready` never
+  // settles without a registered worker (always so in dev), so look the registration up instead.
+  try {
+    const registration: any = await navigator.serviceWorker?.getRegistration();
+    await registration?.sync?.register(REFRESH_SYNC_TAG);
+  } catch {
+    // Not supported or denied; nothing else to do.
+  }
+};
+
+export const drainRefreshQueue = (): SavedLocation[] => {
+  const queue = readQueue();
+  localStorage.removeItem(QUEUE_KEY);
+  return queue;
+};
+
+/**
+ * Calls `handler` whenever queued refreshes should be flushed: when the browser comes back online
+ * or the service worker relays a background sync. Returns an unsubscribe function.
+ */
+export const onConnectivityRestored = (handler: () => void) => {
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'flush-refresh-queue') handler();
+  };
+  window.addEventListener('online', handler);
+  navigator.serviceWorker?.addEventListener('message', onMessage);
+  return () => {
+    window.removeEventListener('online', handler);
+    navigator.serviceWorker?.removeEventListener('message', onMessage);
+  };
+};
@@ -0,0 +1,56 @@
+import { WeatherProvider, ProviderForecast } from '../../types';
+
+export interface WeatherFixture {
+  latitude: number;
+  longitude: number;
+  forecast: ProviderForecast;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const shiftInstant = (iso: string, days: number) => iso ? new Date(Date.parse(iso) + days * DAY).toISOString() : '';
+const shiftDay = (day: string, days: number) => new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10);
+
+/**
+ * Moves a recording forward by whole days so its first hour falls within the last day.
+ * Whole days keep the recorded hours of daylight and the day/night cycle where they were.
+ */
+const replayFromToday = (forecast: ProviderForecast, now = Date.now()): ProviderForecast => {
+  const first = Date.parse(forecast.hourly.time[0]);
+  const days = isNaN(first) ? 0 : Math.floor((now - first) / DAY);
+  return {
+    ...forecast,
+    hourly: { ...forecast.hourly, time: forecast.hourly.time.map(t => shiftInstant(t, days)) },
+    daily: {
+      ...forecast.daily,
+      time: forecast.daily.time.map(d => shiftDay(d, days)),
+      sunrise: forecast.daily.sunrise.map(t => shiftInstant(t, days)),
+      sunset: forecast.daily.sunset.map(t => shiftInstant(t, days)),
+    },
+  };
+};
+
+/**
+ * Replays recorded forecasts without touching the network, for offline development and tests.
+ * Returns the recording nearest to the requested coordinates, or throws when none is within `maxDistance` degrees.
+ * Recordings are moved to start today, so the app's "now" lands inside them.
+ */
+export const createFixtureProvider = (fixtures: WeatherFixture[], maxDistance = 1): WeatherProvider => ({
+  id: 'fixture',
+  label: 'Recorded Fixture',
+  fetchForecast: async (lat, lon) => {
+    let best: WeatherFixture | null = null;
+    let bestDistance = Infinity;
+    for (const fixture of fixtures) {
+      const distance = Math.hypot(fixture.latitude - lat, fixture.longitude - lon);
+      if (distance < bestDistance) {
+        best = fixture;
+        bestDistance = distance;
+      }
+    }
+
+    if (!best || bestDistance > maxDistance) throw new Error(`No recorded fixture near ${lat}, ${lon}`);
+    // Hand out a copy so callers can't mutate the recording.
+    return replayFromToday(structuredClone(best.forecast));
+  },
+});
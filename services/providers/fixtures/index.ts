@@ -0,0 +1,5 @@
+import { WeatherFixture } from '../fixtureProvider';
+import { london } from './london';
+
+/** Recordings shipped with the app, replayed when `VITE_WEATHER_FIXTURES` is set. */
+export const RECORDED_FIXTURES: WeatherFixture[] = [london];
@@ -0,0 +1,39 @@
+import { WeatherFixture } from '../fixtureProvider';
+
+/** Seven days of hourly and daily data for central London from 2 June 2025, in the shape the Open-Meteo provider returns. */
+export const london: WeatherFixture = {
+  latitude: 51.51,
+  longitude: -0.13,
+  forecast: {
+    current: { temp: 14.2, weatherCode: 2, isDay: true, windSpeed: 11.5, windDirection: 240, humidity: 72, uvIndex: 0.4, apparentTemp: 13.1, aqi: 31 },
+    hourly: {
+      time: ['2025-06-01T23:00:00.000Z', '2025-06-02T00:00:00.000Z', '2025-06-02T01:00:00.000Z', '2025-06-02T02:00:00.000Z', '2025-06-02T03:00:00.000Z', '2025-06-02T04:00:00.000Z', '2025-06-02T05:00:00.000Z', '2025-06-02T06:00:00.000Z', '2025-06-02T07:00:00.000Z', '2025-06-02T08:00:00.000Z', '2025-06-02T09:00:00.000Z', '2025-06-02T10:00:00.000Z', '2025-06-02T11:00:00.000Z', '2025-06-02T12:00:00.000Z', '2025-06-02T13:00:00.000Z', '2025-06-02T14:00:00.000Z', '2025-06-02T15:00:00.000Z', '2025-06-02T16:00:00.000Z', '2025-06-02T17:00:00.000Z', '2025-06-02T18:00:00.000Z', '2025-06-02T19:00:00.000Z', '2025-06-02T20:00:00.000Z', '2025-06-02T21:00:00.000Z', '2025-06-02T22:00:00.000Z', '2025-06-02T23:00:00.000Z', '2025-06-03T00:00:00.000Z', '2025-06-03T01:00:00.000Z', '2025-06-03T02:00:00.000Z', '2025-06-03T03:00:00.000Z', '2025-06-03T04:00:00.000Z', '2025-06-03T05:00:00.000Z', '2025-06-03T06:00:00.000Z', '2025-06-03T07:00:00.000Z', '2025-06-03T08:00:00.000Z', '2025-06-03T09:00:00.000Z', '2025-06-03T10:00:00.000Z', '2025-06-03T11:00:00.000Z', '2025-06-03T12:00:00.000Z', '2025-06-03T13:00:00.000Z', '2025-06-03T14:00:00.000Z', '2025-06-03T15:00:00.000Z', '2025-06-03T16:00:00.000Z', '2025-06-03T17:00:00.000Z', '2025-06-03T18:00:00.000Z', '2025-06-03T19:00:00.000Z', '2025-06-03T20:00:00.000Z', '2025-06-03T21:00:00.000Z', '2025-06-03T22:00:00.000Z', '2025-06-03T23:00:00.000Z', '2025-06-04T00:00:00.000Z', '2025-06-04T01:00:00.000Z', '2025-06-04T02:00:00.000Z', '2025-06-04T03:00:00.000Z', '2025-06-04T04:00:00.000Z', '2025-06-04T05:00:00.000Z', '2025-06-04T06:00:00.000Z', '2025-06-04T07:00:00.000Z', '2025-06-04T08:00:00.000Z', '2025-06-04T09:00:00.000Z', '2025-06-04T10:00:00.000Z', '2025-06-04T11:00:00.000Z', '2025-06-04T12:00:00.000Z', '2025-06-04T13:00:00.000Z', '2025-06-04T14:00:00.000Z', '2025-06-04T15:00:00.000Z', '2025-06-04T16:00:00.000Z', '2025-06-04T17:00:00.000Z', '2025-06-04T18:00:00.000Z', '2025-06-04T19:00:00.000Z', '2025-06-04T20:00:00.000Z', '2025-06-04T21:00:00.000Z', '2025-06-04T22:00:00.000Z', '2025-06-04T23:00:00.000Z', '2025-06-05T00:00:00.000Z', '2025-06-05T01:00:00.000Z', '2025-06-05T02:00:00.000Z', '2025-06-05T03:00:00.000Z', '2025-06-05T04:00:00.000Z', '2025-06-05T05:00:00.000Z', '2025-06-05T06:00:00.000Z', '2025-06-05T07:00:00.000Z', '2025-06-05T08:00:00.000Z', '2025-06-05T09:00:00.000Z', '2025-06-05T10:00:00.000Z', '2025-06-05T11:00:00.000Z', '2025-06-05T12:00:00.000Z', '2025-06-05T13:00:00.000Z', '2025-06-05T14:00:00.000Z', '2025-06-05T15:00:00.000Z', '2025-06-05T16:00:00.000Z', '2025-06-05T17:00:00.000Z', '2025-06-05T18:00:00.000Z', '2025-06-05T19:00:00.000Z', '2025-06-05T20:00:00.000Z', '2025-06-05T21:00:00.000Z', '2025-06-05T22:00:00.000Z', '2025-06-05T23:00:00.000Z', '2025-06-06T00:00:00.000Z', '2025-06-06T01:00:00.000Z', '2025-06-06T02:00:00.000Z', '2025-06-06T03:00:00.000Z', '2025-06-06T04:00:00.000Z', '2025-06-06T05:00:00.000Z', '2025-06-06T06:00:00.000Z', '2025-06-06T07:00:00.000Z', '2025-06-06T08:00:00.000Z', '2025-06-06T09:00:00.000Z', '2025-06-06T10:00:00.000Z', '2025-06-06T11:00:00.000Z', '2025-06-06T12:00:00.000Z', '2025-06-06T13:00:00.000Z', '2025-06-06T14:00:00.000Z', '2025-06-06T15:00:00.000Z', '2025-06-06T16:00:00.000Z', '2025-06-06T17:00:00.000Z', '2025-06-06T18:00:00.000Z', '2025-06-06T19:00:00.000Z', '2025-06-06T20:00:00.000Z', '2025-06-06T21:00:00.000Z', '2025-06-06T22:00:00.000Z', '2025-06-06T23:00:00.000Z', '2025-06-07T00:00:00.000Z', '2025-06-07T01:00:00.000Z', '2025-06-07T02:00:00.000Z', '2025-06-07T03:00:00.000Z', '2025-06-07T04:00:00.000Z', '2025-06-07T05:00:00.000Z', '2025-06-07T06:00:00.000Z', '2025-06-07T07:00:00.000Z', '2025-06-07T08:00:00.000Z', '2025-06-07T09:00:00.000Z', '2025-06-07T10:00:00.000Z', '2025-06-07T11:00:00.000Z', '2025-06-07T12:00:00.000Z', '2025-06-07T13:00:00.000Z', '2025-06-07T14:00:00.000Z', '2025-06-07T15:00:00.000Z', '2025-06-07T16:00:00.000Z', '2025-06-07T17:00:00.000Z', '2025-06-07T18:00:00.000Z', '2025-06-07T19:00:00.000Z', '2025-06-07T20:00:00.000Z', '2025-06-07T21:00:00.000Z', '2025-06-07T22:00:00.000Z', '2025-06-07T23:00:00.000Z', '2025-06-08T00:00:00.000Z', '2025-06-08T01:00:00.000Z', '2025-06-08T02:00:00.000Z', '2025-06-08T03:00:00.000Z', '2025-06-08T04:00:00.000Z', '2025-06-08T05:00:00.000Z', '2025-06-08T06:00:00.000Z', '2025-06-08T07:00:00.000Z', '2025-06-08T08:00:00.000Z', '2025-06-08T09:00:00.000Z', '2025-06-08T10:00:00.000Z', '2025-06-08T11:00:00.000Z', '2025-06-08T12:00:00.000Z', '2025-06-08T13:00:00.000Z', '2025-06-08T14:00:00.000Z', '2025-06-08T15:00:00.000Z', '2025-06-08T16:00:00.000Z', '2025-06-08T17:00:00.000Z', '2025-06-08T18:00:00.000Z', '2025-06-08T19:00:00.000Z', '2025-06-08T20:00:00.000Z', '2025-06-08T21:00:00.000Z', '2025-06-08T22:00:00.000Z'],
+      temperature: [13.5, 12.7, 12.3, 12.1, 12.3, 12.7, 13.5, 14.4, 15.5, 16.8, 18.0, 19.1, 20.0, 20.8, 21.2, 21.4, 21.2, 20.8, 20.0, 19.1, 18.0, 16.8, 15.5, 14.4, 12.5, 12.0, 11.7, 11.6, 11.7, 12.0, 12.5, 13.1, 13.9, 14.7, 15.5, 16.2, 16.9, 17.4, 17.7, 17.8, 17.7, 17.4, 16.9, 16.2, 15.5, 14.7, 13.9, 13.1, 11.4, 10.8, 10.5, 10.4, 10.5, 10.8, 11.4, 12.0, 12.8, 13.6, 14.5, 15.3, 15.9, 16.5, 16.8, 16.9, 16.8, 16.5, 15.9, 15.3, 14.5, 13.6, 12.8, 12.0, 12.1, 11.5, 11.0, 10.9, 11.0, 11.5, 12.1, 13.0, 14.0, 15.1, 16.1, 17.1, 18.0, 18.6, 19.1, 19.2, 19.1, 18.6, 18.0, 17.1, 16.1, 15.1, 14.0, 13.0, 14.2, 13.5, 13.0, 12.8, 13.0, 13.5, 14.2, 15.3, 16.4, 17.7, 19.0, 20.2, 21.2, 21.9, 22.4, 22.6, 22.4, 21.9, 21.2, 20.2, 19.0, 17.7, 16.4, 15.3, 15.6, 14.9, 14.4, 14.2, 14.4, 14.9, 15.6, 16.7, 17.9, 19.1, 20.4, 21.6, 22.7, 23.4, 23.9, 24.1, 23.9, 23.4, 22.7, 21.6, 20.4, 19.1, 17.9, 16.7, 16.1, 15.4, 15.0, 14.9, 15.0, 15.4, 16.1, 16.9, 17.9, 18.9, 20.0, 21.0, 21.8, 22.5, 22.9, 23.0, 22.9, 22.5, 21.8, 21.0, 20.0, 18.9, 17.9, 16.9],
+      precipitation: [10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 30, 30, 30, 30, 30, 30, 30, 30, 85, 85, 85, 85, 85, 85, 85, 85, 85, 85, 85, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 85, 85, 85, 85, 85, 85, 85, 85, 85, 85, 85, 30, 30, 30, 30, 30, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10],
+      weatherCode: [2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 61, 61, 61, 61, 61, 61, 61, 61, 61, 61, 61, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 80, 80, 80, 80, 80, 80, 80, 80, 80, 80, 80, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2],
+      windSpeed: [12.0, 13.6, 15.0, 16.2, 17.2, 17.8, 18.0, 17.8, 17.2, 16.2, 15.0, 13.6, 12.0, 10.4, 9.0, 7.8, 6.8, 6.2, 6.0, 6.2, 6.8, 7.8, 9.0, 10.4, 20.0, 21.6, 23.0, 24.2, 25.2, 25.8, 26.0, 25.8, 25.2, 24.2, 23.0, 21.6, 20.0, 18.4, 17.0, 15.8, 14.8, 14.2, 14.0, 14.2, 14.8, 15.8, 17.0, 18.4, 20.0, 21.6, 23.0, 24.2, 25.2, 25.8, 26.0, 25.8, 25.2, 24.2, 23.0, 21.6, 20.0, 18.4, 17.0, 15.8, 14.8, 14.2, 14.0, 14.2, 14.8, 15.8, 17.0, 18.4, 12.0, 13.6, 15.0, 16.2, 17.2, 17.8, 18.0, 17.8, 17.2, 16.2, 15.0, 13.6, 12.0, 10.4, 9.0, 7.8, 6.8, 6.2, 6.0, 6.2, 6.8, 7.8, 9.0, 10.4, 12.0, 13.6, 15.0, 16.2, 17.2, 17.8, 18.0, 17.8, 17.2, 16.2, 15.0, 13.6, 12.0, 10.4, 9.0, 7.8, 6.8, 6.2, 6.0, 6.2, 6.8, 7.8, 9.0, 10.4, 12.0, 13.6, 15.0, 16.2, 17.2, 17.8, 18.0, 17.8, 17.2, 16.2, 15.0, 13.6, 12.0, 10.4, 9.0, 7.8, 6.8, 6.2, 6.0, 6.2, 6.8, 7.8, 9.0, 10.4, 12.0, 13.6, 15.0, 16.2, 17.2, 17.8, 18.0, 17.8, 17.2, 16.2, 15.0, 13.6, 12.0, 10.4, 9.0, 7.8, 6.8, 6.2, 6.0, 6.2, 6.8, 7.8, 9.0, 10.4],
+      uvIndex: [0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 1.3, 2.5, 3.6, 4.6, 5.4, 6.0, 6.4, 6.5, 6.4, 6.0, 5.4, 4.6, 3.6, 2.5, 1.3, 0.0, 0.0, 0.0, 0, 0, 0, 0, 0, 0, 0.6, 1.1, 1.7, 2.1, 2.5, 2.8, 2.9, 3.0, 2.9, 2.8, 2.5, 2.1, 1.7, 1.1, 0.6, 0.0, 0, 0, 0, 0, 0, 0, 0, 0, 0.6, 1.1, 1.7, 2.1, 2.5, 2.8, 2.9, 3.0, 2.9, 2.8, 2.5, 2.1, 1.7, 1.1, 0.6, 0.0, 0, 0, 0, 0, 0, 0, 0, 0, 0.6, 1.1, 1.7, 2.1, 2.5, 2.8, 2.9, 3.0, 2.9, 2.8, 2.5, 2.1, 1.7, 1.1, 0.6, 0.0, 0, 0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 1.3, 2.5, 3.6, 4.6, 5.4, 6.0, 6.4, 6.5, 6.4, 6.0, 5.4, 4.6, 3.6, 2.5, 1.3, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 1.3, 2.5, 3.6, 4.6, 5.4, 6.0, 6.4, 6.5, 6.4, 6.0, 5.4, 4.6, 3.6, 2.5, 1.3, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 1.3, 2.5, 3.6, 4.6, 5.4, 6.0, 6.4, 6.5, 6.4, 6.0, 5.4, 4.6, 3.6, 2.5, 1.3, 0.0, 0.0, 0.0],
+      precipitationAmount: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1.0, 0.6, 1.7, 0.5, 1.4, 1.1, 0.4, 1.4, 0.4, 1.2, 0.4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.5, 1.2, 2.0, 0.6, 0.8, 1.6, 2.3, 1.5, 1.1, 2.4, 0.4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      snowfall: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      windGusts: [20.4, 23.0, 25.5, 27.6, 29.2, 30.3, 30.6, 30.3, 29.2, 27.6, 25.5, 23.0, 20.4, 17.8, 15.3, 13.2, 11.6, 10.5, 10.2, 10.5, 11.6, 13.2, 15.3, 17.8, 34.0, 36.6, 39.1, 41.2, 42.8, 43.9, 44.2, 43.9, 42.8, 41.2, 39.1, 36.6, 34.0, 31.4, 28.9, 26.8, 25.2, 24.1, 23.8, 24.1, 25.2, 26.8, 28.9, 31.4, 34.0, 36.6, 39.1, 41.2, 42.8, 43.9, 44.2, 43.9, 42.8, 41.2, 39.1, 36.6, 34.0, 31.4, 28.9, 26.8, 25.2, 24.1, 23.8, 24.1, 25.2, 26.8, 28.9, 31.4, 20.4, 23.0, 25.5, 27.6, 29.2, 30.3, 30.6, 30.3, 29.2, 27.6, 25.5, 23.0, 20.4, 17.8, 15.3, 13.2, 11.6, 10.5, 10.2, 10.5, 11.6, 13.2, 15.3, 17.8, 20.4, 23.0, 25.5, 27.6, 29.2, 30.3, 30.6, 30.3, 29.2, 27.6, 25.5, 23.0, 20.4, 17.8, 15.3, 13.2, 11.6, 10.5, 10.2, 10.5, 11.6, 13.2, 15.3, 17.8, 20.4, 23.0, 25.5, 27.6, 29.2, 30.3, 30.6, 30.3, 29.2, 27.6, 25.5, 23.0, 20.4, 17.8, 15.3, 13.2, 11.6, 10.5, 10.2, 10.5, 11.6, 13.2, 15.3, 17.8, 20.4, 23.0, 25.5, 27.6, 29.2, 30.3, 30.6, 30.3, 29.2, 27.6, 25.5, 23.0, 20.4, 17.8, 15.3, 13.2, 11.6, 10.5, 10.2, 10.5, 11.6, 13.2, 15.3, 17.8],
+      pressure: [1016.0, 1016.0, 1016.1, 1016.1, 1016.2, 1016.2, 1016.3, 1016.3, 1016.4, 1016.4, 1016.5, 1016.5, 1016.6, 1016.6, 1016.7, 1016.7, 1016.8, 1016.8, 1016.9, 1016.9, 1017.0, 1017.0, 1017.0, 1017.1, 1011.1, 1011.2, 1011.2, 1011.2, 1011.3, 1011.3, 1011.4, 1011.4, 1011.4, 1011.5, 1011.5, 1011.5, 1011.6, 1011.6, 1011.6, 1011.7, 1011.7, 1011.7, 1011.7, 1011.8, 1011.8, 1011.8, 1011.8, 1011.8, 1011.9, 1011.9, 1011.9, 1011.9, 1011.9, 1011.9, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1012.0, 1017.9, 1017.9, 1017.9, 1017.9, 1017.9, 1017.9, 1017.9, 1017.8, 1017.8, 1017.8, 1017.8, 1017.8, 1017.7, 1017.7, 1017.7, 1017.6, 1017.6, 1017.6, 1017.6, 1017.5, 1017.5, 1017.5, 1017.4, 1017.4, 1017.4, 1017.3, 1017.3, 1017.2, 1017.2, 1017.2, 1017.1, 1017.1, 1017.0, 1017.0, 1016.9, 1016.9, 1016.9, 1016.8, 1016.8, 1016.7, 1016.7, 1016.6, 1016.6, 1016.5, 1016.5, 1016.4, 1016.4, 1016.3, 1016.3, 1016.2, 1016.2, 1016.1, 1016.1, 1016.0, 1016.0, 1015.9, 1015.9, 1015.8, 1015.8, 1015.7, 1015.7, 1015.6, 1015.6, 1015.5, 1015.5, 1015.4, 1015.4, 1015.3, 1015.3, 1015.3, 1015.2, 1015.2, 1015.1, 1015.1, 1015.0, 1015.0, 1014.9, 1014.9, 1014.9, 1014.8, 1014.8, 1014.7, 1014.7, 1014.7, 1014.6, 1014.6, 1014.6, 1014.5, 1014.5, 1014.5, 1014.4, 1014.4, 1014.4, 1014.3, 1014.3, 1014.3],
+      visibility: [24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 12000, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140, 24140],
+      dewPoint: [7.5, 6.7, 6.3, 6.1, 6.3, 6.7, 7.5, 8.4, 9.5, 10.8, 12.0, 13.1, 14.0, 14.8, 15.2, 15.4, 15.2, 14.8, 14.0, 13.1, 12.0, 10.8, 9.5, 8.4, 6.5, 6.0, 5.7, 5.6, 5.7, 6.0, 6.5, 7.1, 11.9, 12.7, 13.5, 14.2, 14.9, 15.4, 15.7, 15.8, 15.7, 15.4, 14.9, 10.2, 9.5, 8.7, 7.9, 7.1, 5.4, 4.8, 4.5, 4.4, 4.5, 4.8, 5.4, 6.0, 10.8, 11.6, 12.5, 13.3, 13.9, 14.5, 14.8, 14.9, 14.8, 14.5, 13.9, 9.3, 8.5, 7.6, 6.8, 6.0, 6.1, 5.5, 5.0, 4.9, 5.0, 5.5, 6.1, 7.0, 8.0, 9.1, 10.1, 11.1, 12.0, 12.6, 13.1, 13.2, 13.1, 12.6, 12.0, 11.1, 10.1, 9.1, 8.0, 7.0, 8.2, 7.5, 7.0, 6.8, 7.0, 7.5, 8.2, 9.3, 10.4, 11.7, 13.0, 14.2, 15.2, 15.9, 16.4, 16.6, 16.4, 15.9, 15.2, 14.2, 13.0, 11.7, 10.4, 9.3, 9.6, 8.9, 8.4, 8.2, 8.4, 8.9, 9.6, 10.7, 11.9, 13.1, 14.4, 15.6, 16.7, 17.4, 17.9, 18.1, 17.9, 17.4, 16.7, 15.6, 14.4, 13.1, 11.9, 10.7, 10.1, 9.4, 9.0, 8.9, 9.0, 9.4, 10.1, 10.9, 11.9, 12.9, 14.0, 15.0, 15.8, 16.5, 16.9, 17.0, 16.9, 16.5, 15.8, 15.0, 14.0, 12.9, 11.9, 10.9],
+      cloudCover: [40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 95, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40, 40],
+    },
+    daily: {
+      time: ['2025-06-02', '2025-06-03', '2025-06-04', '2025-06-05', '2025-06-06', '2025-06-07', '2025-06-08'],
+      tempMax: [21.4, 17.8, 16.9, 19.2, 22.6, 24.1, 23.0],
+      tempMin: [12.1, 11.6, 10.4, 10.9, 12.8, 14.2, 14.9],
+      weatherCode: [2, 61, 80, 3, 1, 0, 2],
+      sunrise: ['2025-06-02T03:44:00.000Z', '2025-06-03T03:44:00.000Z', '2025-06-04T03:44:00.000Z', '2025-06-05T03:43:00.000Z', '2025-06-06T03:43:00.000Z', '2025-06-07T03:43:00.000Z', '2025-06-08T03:42:00.000Z'],
+      sunset: ['2025-06-02T20:10:00.000Z', '2025-06-03T20:10:00.000Z', '2025-06-04T20:11:00.000Z', '2025-06-05T20:11:00.000Z', '2025-06-06T20:12:00.000Z', '2025-06-07T20:12:00.000Z', '2025-06-08T20:13:00.000Z'],
+      precipitationSum: [0, 10.1, 14.4, 0, 0, 0, 0],
+      uvIndexMax: [6.5, 3.0, 3.0, 3.0, 6.5, 6.5, 6.5],
+      windSpeedMax: [18.0, 26.0, 26.0, 18.0, 18.0, 18.0, 18.0],
+    },
+    timezone: 'Europe/London',
+    utcOffsetSeconds: 3600,
+    source: 'open-meteo',
+  },
+};
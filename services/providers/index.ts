@@ -0,0 +1,44 @@
+import { WeatherProvider, ProviderForecast } from '../../types';
+
+export { skycastApiProvider } from './skycastApi';
+export { openMeteoProvider } from './openMeteo';
+export { metNorwayProvider, createMetNorwayProvider } from './metNorway';
+export { createJsonProvider } from './jsonProvider';
+export type { JsonProviderConfig } from './jsonProvider';
+export { createFixtureProvider } from './fixtureProvider';
+export type { WeatherFixture } from './fixtureProvider';
+
+const PROVIDER_TIMEOUT = 8000;
+
+/**
+ * Tries each provider in priority order and returns the first successful forecast.
+ * A provider that errors or exceeds the timeout hands over to the next one;
+ * only when all of them fail is an error thrown, listing every failure.
+ */
+export const fetchWithFailover = async (
+  providers: WeatherProvider[],
+  lat: number,
+  lon: number,
+  days?: number,
+  timeout = PROVIDER_TIMEOUT
+): Promise<{ forecast: ProviderForecast; provider: WeatherProvider }> => {
+  if (providers.length === 0) throw new Error('No weather providers configured');
+
+  const failures: string[] = [];
+  for (const provider of providers) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    try {
+      const forecast = await provider.fetchForecast(lat, lon, controller.signal, days);
+      return { forecast, provider };
+    } catch (error: any) {
+      const reason = controller.signal.aborted ? 'timed out' : (error?.message || 'unknown error');
+      console.warn(`Weather provider ${provider.id} failed (${reason}), trying next.`);
+      failures.push(`${provider.label}: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new Error(`All weather providers failed. ${failures.join('; ')}`);
+};
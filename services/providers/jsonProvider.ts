@@ -0,0 +1,32 @@
+import { WeatherData, WeatherProvider, ProviderForecast } from '../../types';
+
+export interface JsonProviderConfig {
+  id: string;
+  label: string;
+  /** Builds the request URL for a coordinate pair and requested forecast length. */
+  buildUrl: (lat: number, lon: number, days?: number) => string;
+  /** Maps the raw JSON body onto the normalized forecast. Defaults to reading `current`/`hourly`/`daily` as-is. */
+  normalize?: (json: any) => ProviderForecast;
+  headers?: Record<string, string>;
+}
+
+const passthrough = (json: any): ProviderForecast => {
+  const { current, hourly, daily } = json as WeatherData;
+  if (!current || !hourly || !daily) throw new Error('JSON payload is missing current, hourly or daily');
+  return { current, hourly, daily };
+};
+
+/**
+ * Generic adapter for any JSON endpoint, e.g. an internal mirror that already serves
+ * `WeatherData`-shaped payloads, or a third party paired with a custom `normalize`.
+ */
+export const createJsonProvider = (config: JsonProviderConfig): WeatherProvider => ({
+  id: config.id,
+  label: config.label,
+  fetchForecast: async (lat, lon, signal, days) => {
+    const response = await fetch(config.buildUrl(lat, lon, days), { headers: config.headers, signal });
+    if (!response.ok) throw new Error(`${config.label} error: ${response.status}`);
+    const json = await response.json();
+    return (config.normalize || passthrough)(json);
+  },
+});
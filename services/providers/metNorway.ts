@@ -0,0 +1,154 @@
+import { WeatherProvider } from '../../types';
+import { sunTimes } from '../solar';
+import { approximateTimeZone, localDateKey } from '../timeZones';
+
+const MET_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/complete';
+
+// MET Norway symbol codes (without the _day/_night/_polartwilight suffix) mapped onto WMO weather codes.
+const SYMBOL_TO_WMO: Record<string, number> = {
+  clearsky: 0,
+  fair: 1,
+  partlycloudy: 2,
+  cloudy: 3,
+  fog: 45,
+  lightrain: 61,
+  rain: 63,
+  heavyrain: 65,
+  lightrainshowers: 80,
+  rainshowers: 81,
+  heavyrainshowers: 82,
+  lightsleet: 66,
+  sleet: 67,
+  heavysleet: 67,
+  lightsleetshowers: 85,
+  sleetshowers: 85,
+  heavysleetshowers: 86,
+  lightsnow: 71,
+  snow: 73,
+  heavysnow: 75,
+  lightsnowshowers: 85,
+  snowshowers: 85,
+  heavysnowshowers: 86,
+};
+
+const symbolToWmo = (symbol?: string): number => {
+  if (!symbol) return 0;
+  const base = symbol.split('_')[0];
+  if (base.includes('thunder')) return 95;
+  return SYMBOL_TO_WMO[base] ?? 3;
+};
+
+// MET reports wind in m/s; the rest of the app works in km/h.
+const msToKmh = (ms: number) => Math.round(ms * 3.6 * 10) / 10;
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Adapter for MET Norway's Locationforecast 2.0 (and mirrors serving the same GeoJSON shape).
+ * The feed is a single UTC timeseries, so daily values are aggregated from it here, bucketed by
+ * days in a longitude-derived zone since MET reports no timezone.
+ */
+export const createMetNorwayProvider = (baseUrl = MET_URL): WeatherProvider => ({
+  id: 'met-norway',
+  label: 'MET Norway',
+  fetchForecast: async (lat, lon, signal, days = 7) => {
+    // MET asks for coordinates truncated to 4 decimals to keep its cache effective.
+    const params = new URLSearchParams({
+      lat: lat.toFixed(4),
+      lon: lon.toFixed(4),
+    });
+
+    const response = await fetch(`${baseUrl}?${params.toString()}`, { signal });
+    if (!response.ok) throw new Error(`MET Norway error: ${response.status}`);
+    const data = await response.json();
+
+    const series: any[] = data.properties?.timeseries || [];
+    if (series.length === 0) throw new Error('MET Norway returned an empty timeseries');
+
+    const symbolOf = (entry: any): string | undefined =>
+      entry.data.next_1_hours?.summary?.symbol_code || entry.data.next_6_hours?.summary?.symbol_code;
+
+    const now = series[0];
+    const details = now.data.instant.details;
+    const currentSymbol = symbolOf(now);
+
+    // The feed is hourly for roughly the first 2–3 days and 6-hourly after; only the hourly part feeds the timeline.
+    const hourlySeries = series.filter(entry => entry.data.next_1_hours && Date.parse(entry.time) + HOUR > Date.now());
+
+    // Hourly amounts in the app cover the hour before each time, as Open-Meteo's do; MET forecasts
+    // the hour after, so each hour takes the amount from the entry an hour earlier. The feed starts
+    // at the current hour, which has no earlier entry and counts as dry.
+    const amountsAhead = new Map<number, number | undefined>(
+      series.map(entry => [Date.parse(entry.time), entry.data.next_1_hours?.details?.precipitation_amount])
+    );
+    const precedingHourOf = (entry: any): number => amountsAhead.get(Date.parse(entry.time) - HOUR) ?? 0;
+
+    // Precipitation for the period following an entry; the far end of the series is 6-hourly.
+    const precipOf = (entry: any): number =>
+      entry.data.next_1_hours?.details?.precipitation_amount ?? entry.data.next_6_hours?.details?.precipitation_amount ?? 0;
+
+    const zone = approximateTimeZone(lon);
+    const dailyMap = new Map<string, { max: number; min: number; codes: number[]; precip: number; uv: number; wind: number }>();
+    series.forEach(entry => {
+      const day = localDateKey(entry.time, zone.timezone);
+      const instant = entry.data.instant.details;
+      const bucket = dailyMap.get(day) || { max: -Infinity, min: Infinity, codes: [], precip: 0, uv: 0, wind: 0 };
+      bucket.max = Math.max(bucket.max, instant.air_temperature);
+      bucket.min = Math.min(bucket.min, instant.air_temperature);
+      bucket.precip += precipOf(entry);
+      bucket.uv = Math.max(bucket.uv, instant.ultraviolet_index_clear_sky ?? 0);
+      bucket.wind = Math.max(bucket.wind, msToKmh(instant.wind_speed ?? 0));
+      const symbol = symbolOf(entry);
+      if (symbol) bucket.codes.push(symbolToWmo(symbol));
+      dailyMap.set(day, bucket);
+    });
+    const dailyBuckets = Array.from(dailyMap.entries()).slice(0, days);
+
+    return {
+      current: {
+        temp: details.air_temperature,
+        weatherCode: symbolToWmo(currentSymbol),
+        isDay: !currentSymbol?.endsWith('_night'),
+        windSpeed: msToKmh(details.wind_speed ?? 0),
+        windDirection: details.wind_from_direction ?? 0,
+        humidity: details.relative_humidity ?? 0,
+        uvIndex: details.ultraviolet_index_clear_sky ?? 0,
+        apparentTemp: details.air_temperature,
+        aqi: 0,
+      },
+      hourly: {
+        time: hourlySeries.map(entry => entry.time),
+        temperature: hourlySeries.map(entry => entry.data.instant.details.air_temperature),
+        precipitation: hourlySeries.map(entry => entry.data.next_1_hours?.details?.probability_of_precipitation ?? 0),
+        weatherCode: hourlySeries.map(entry => symbolToWmo(symbolOf(entry))),
+        windSpeed: hourlySeries.map(entry => msToKmh(entry.data.instant.details.wind_speed ?? 0)),
+        uvIndex: hourlySeries.map(entry => entry.data.instant.details.ultraviolet_index_clear_sky ?? 0),
+        precipitationAmount: hourlySeries.map(precedingHourOf),
+        // MET has no snowfall field; frozen precipitation is converted at the usual 10:1 snow ratio (mm water to cm snow).
+        snowfall: hourlySeries.map(entry => entry.data.instant.details.air_temperature <= 0
+          ? Math.round(precedingHourOf(entry) * 10) / 10
+          : 0),
+        windGusts: hourlySeries.map(entry => msToKmh(entry.data.instant.details.wind_speed_of_gust ?? entry.data.instant.details.wind_speed ?? 0)),
+        pressure: hourlySeries.map(entry => entry.data.instant.details.air_pressure_at_sea_level ?? NaN),
+        visibility: hourlySeries.map(() => NaN),
+        dewPoint: hourlySeries.map(entry => entry.data.instant.details.dew_point_temperature ?? NaN),
+        cloudCover: hourlySeries.map(entry => entry.data.instant.details.cloud_area_fraction ?? NaN),
+      },
+      daily: {
+        time: dailyBuckets.map(([day]) => day),
+        tempMax: dailyBuckets.map(([, bucket]) => bucket.max),
+        tempMin: dailyBuckets.map(([, bucket]) => bucket.min),
+        // The most severe code of the day stands in for Open-Meteo's daily weather_code.
+        weatherCode: dailyBuckets.map(([, bucket]) => bucket.codes.length ? Math.max(...bucket.codes) : 0),
+        sunrise: dailyBuckets.map(([day]) => sunTimes(day, lat, lon).sunrise),
+        sunset: dailyBuckets.map(([day]) => sunTimes(day, lat, lon).sunset),
+        precipitationSum: dailyBuckets.map(([, bucket]) => Math.round(bucket.precip * 10) / 10),
+        uvIndexMax: dailyBuckets.map(([, bucket]) => bucket.uv),
+        windSpeedMax: dailyBuckets.map(([, bucket]) => bucket.wind),
+      },
+      ...zone,
+    };
+  },
+});
+
+export const metNorwayProvider = createMetNorwayProvider();
@@ -0,0 +1,96 @@
+import { WeatherProvider } from '../../types';
+import { localDateKey } from '../timeZones';
+
+const BASE_URL = 'https://api.open-meteo.com/v1/forecast';
+const AQI_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+const MAX_FORECAST_DAYS = 16;
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Default provider. Forecast and air quality come from two separate Open-Meteo endpoints;
+ * a failed AQI call is tolerated and reported as 0.
+ */
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  label: 'Open-Meteo',
+  fetchForecast: async (lat, lon, signal, days = 7) => {
+    const weatherParams = new URLSearchParams({
+      latitude: lat.toString(),
+      longitude: lon.toString(),
+      current: 'temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,wind_speed_10m,wind_direction_10m,uv_index',
+      hourly: 'temperature_2m,precipitation_probability,weather_code,wind_speed_10m,uv_index,precipitation,snowfall,wind_gusts_10m,pressure_msl,visibility,dew_point_2m,cloud_cover',
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,uv_index_max,wind_speed_10m_max',
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      forecast_days: String(Math.min(Math.max(Math.round(days), 1), MAX_FORECAST_DAYS))
+    });
+
+    const aqiParams = new URLSearchParams({
+      latitude: lat.toString(),
+      longitude: lon.toString(),
+      current: 'us_aqi',
+    });
+
+    const [weatherRes, aqiRes] = await Promise.all([
+      fetch(`${BASE_URL}?${weatherParams.toString()}`, { signal }),
+      fetch(`${AQI_URL}?${aqiParams.toString()}`, { signal }).catch(() => null)
+    ]);
+
+    if (!weatherRes.ok) throw new Error(`Open-Meteo error: ${weatherRes.status}`);
+    const weatherData = await weatherRes.json();
+
+    let aqiValue = 0;
+    if (aqiRes?.ok) {
+      const aqiData = await aqiRes.json();
+      aqiValue = aqiData.current?.us_aqi || 0;
+    }
+
+    // Times come back as unix seconds. Hourly data starts at local midnight; drop the hours already past.
+    const timezone: string = weatherData.timezone;
+    const toIso = (seconds: number) => seconds ? new Date(seconds * 1000).toISOString() : '';
+    const firstHour = Math.max(0, (weatherData.hourly.time as number[]).findIndex(t => t * 1000 + HOUR > Date.now()));
+    const fromNow = (values: any[]) => values.slice(firstHour);
+
+    return {
+      current: {
+        temp: weatherData.current.temperature_2m,
+        weatherCode: weatherData.current.weather_code,
+        isDay: weatherData.current.is_day === 1,
+        windSpeed: weatherData.current.wind_speed_10m,
+        windDirection: weatherData.current.wind_direction_10m,
+        humidity: weatherData.current.relative_humidity_2m,
+        uvIndex: weatherData.current.uv_index,
+        apparentTemp: weatherData.current.apparent_temperature,
+        aqi: aqiValue,
+      },
+      hourly: {
+        time: fromNow(weatherData.hourly.time).map(toIso),
+        temperature: fromNow(weatherData.hourly.temperature_2m),
+        precipitation: fromNow(weatherData.hourly.precipitation_probability),
+        weatherCode: fromNow(weatherData.hourly.weather_code),
+        windSpeed: fromNow(weatherData.hourly.wind_speed_10m),
+        uvIndex: fromNow(weatherData.hourly.uv_index),
+        precipitationAmount: fromNow(weatherData.hourly.precipitation),
+        snowfall: fromNow(weatherData.hourly.snowfall),
+        windGusts: fromNow(weatherData.hourly.wind_gusts_10m),
+        pressure: fromNow(weatherData.hourly.pressure_msl),
+        visibility: fromNow(weatherData.hourly.visibility),
+        dewPoint: fromNow(weatherData.hourly.dew_point_2m),
+        cloudCover: fromNow(weatherData.hourly.cloud_cover),
+      },
+      daily: {
+        time: weatherData.daily.time.map((t: number) => localDateKey(t * 1000, timezone)),
+        tempMax: weatherData.daily.temperature_2m_max,
+        tempMin: weatherData.daily.temperature_2m_min,
+        weatherCode: weatherData.daily.weather_code,
+        sunrise: weatherData.daily.sunrise.map(toIso),
+        sunset: weatherData.daily.sunset.map(toIso),
+        precipitationSum: weatherData.daily.precipitation_sum,
+        uvIndexMax: weatherData.daily.uv_index_max,
+        windSpeedMax: weatherData.daily.wind_speed_10m_max,
+      },
+      timezone,
+      utcOffsetSeconds: weatherData.utc_offset_seconds,
+    };
+  },
+};
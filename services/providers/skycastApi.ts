@@ -0,0 +1,24 @@
+import { WeatherProvider } from '../../types';
+
+/**
+ * The app's own `/api/weather` route, which runs the upstream failover on the server and
+ * caches the result for every client. Coordinates are rounded to ~1 km, as the route does,
+ * so nearby requests share HTTP cache entries too.
+ */
+export const skycastApiProvider: WeatherProvider = {
+  id: 'skycast-api',
+  label: 'SkyCast API',
+  fetchForecast: async (lat, lon, signal, days) => {
+    const params = new URLSearchParams({ lat: lat.toFixed(2), lon: lon.toFixed(2) });
+    if (days) params.set('days', String(days));
+
+    const response = await fetch(`/api/weather?${params.toString()}`, { signal });
+    // Without the route (e.g. under the `vite` dev server) the app shell comes back instead.
+    if (!response.headers.get('content-type')?.includes('application/json')) {
+      throw new Error('SkyCast API unavailable');
+    }
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.error?.message || `SkyCast API error: ${response.status}`);
+    return body.forecast;
+  },
+};
@@ -0,0 +1,26 @@
+import { GeocodingResult } from '../types';
+import { locationKey } from './savedLocations';
+
+const STORAGE_KEY = 'skycast_recent_searches';
+const MAX_RECENT = 6;
+
+export const loadRecentSearches = (): GeocodingResult[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistRecentSearches = (recent: GeocodingResult[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+};
+
+/** Moves a picked place to the front of the history, dropping the oldest past the limit. */
+export const addRecentSearch = (recent: GeocodingResult[], loc: GeocodingResult): GeocodingResult[] => {
+  const key = locationKey(loc);
+  return [loc, ...recent.filter(r => locationKey(r) !== key)].slice(0, MAX_RECENT);
+};
@@ -0,0 +1,42 @@
+import { SavedLocation } from '../types';
+
+const STORAGE_KEY = 'savedLocations';
+
+/**
+ * Stable identity for a place, rounded to ~1 km so the same city picked from
+ * search or geolocation maps onto the same saved entry and cache slot.
+ */
+export const locationKey = (loc: { latitude: number; longitude: number }) =>
+  `${loc.latitude.toFixed(2)},${loc.longitude.toFixed(2)}`;
+
+export const loadSavedLocations = (): SavedLocation[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistSavedLocations = (locations: SavedLocation[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(locations));
+};
+
+export const addSavedLocation = (locations: SavedLocation[], loc: SavedLocation): SavedLocation[] => {
+  const key = locationKey(loc);
+  if (locations.some(l => locationKey(l) === key)) return locations;
+  return [...locations, { name: loc.name, country: loc.country, latitude: loc.latitude, longitude: loc.longitude }];
+};
+
+export const removeSavedLocation = (locations: SavedLocation[], key: string): SavedLocation[] =>
+  locations.filter(l => locationKey(l) !== key);
+
+export const moveSavedLocation = (locations: SavedLocation[], from: number, to: number): SavedLocation[] => {
+  if (to < 0 || to >= locations.length || from === to) return locations;
+  const next = [...locations];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,35 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440587.5;
+const J2000 = 2451545;
+const rad = Math.PI / 180;
+
+const toJulian = (ms: number) => ms / DAY_MS + J1970;
+const fromJulian = (julian: number) => (julian - J1970) * DAY_MS;
+
+/**
+ * Sunrise and sunset for a UTC calendar day ("YYYY-MM-DD"), using the standard sunrise
+ * equation (accurate to a minute or two). Returns ISO timestamps, or empty strings when the
+ * sun doesn't cross the horizon that day (polar day or night). For providers that don't
+ * report the sun's times themselves.
+ */
+export const sunTimes = (day: string, lat: number, lon: number): { sunrise: string; sunset: string } => {
+  const noon = Date.parse(`${day}T12:00:00Z`);
+  const n = Math.round(toJulian(noon) - J2000 + 0.0008);
+  const meanNoon = n - lon / 360;
+
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center = 1.9148 * Math.sin(anomaly * rad) + 0.02 * Math.sin(2 * anomaly * rad) + 0.0003 * Math.sin(3 * anomaly * rad);
+  const longitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanNoon + 0.0053 * Math.sin(anomaly * rad) - 0.0069 * Math.sin(2 * longitude * rad);
+
+  const declination = Math.asin(Math.sin(longitude * rad) * Math.sin(23.4397 * rad));
+  const cosHourAngle = (Math.sin(-0.833 * rad) - Math.sin(lat * rad) * Math.sin(declination)) /
+    (Math.cos(lat * rad) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return { sunrise: '', sunset: '' };
+
+  const hourAngle = Math.acos(cosHourAngle) / rad;
+  return {
+    sunrise: new Date(fromJulian(transit - hourAngle / 360)).toISOString(),
+    sunset: new Date(fromJulian(transit + hourAngle / 360)).toISOString(),
+  };
+};
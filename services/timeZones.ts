@@ -0,0 +1,74 @@
+import { WeatherData } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+
+// Intl formatters are expensive to build and the timeline formats hundreds of points per render.
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsFormatter = (timeZone?: string): Intl.DateTimeFormat => {
+  const id = timeZone || '';
+  let formatter = partsFormatters.get(id);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    partsFormatters.set(id, formatter);
+  }
+  return formatter;
+};
+
+const zonedParts = (time: number | string, timeZone?: string) => {
+  const parts: Record<string, string> = {};
+  partsFormatter(timeZone).formatToParts(new Date(time)).forEach(p => { parts[p.type] = p.value; });
+  return parts;
+};
+
+/** Calendar date ("YYYY-MM-DD") of an instant in a timezone; the viewer's when none is given. */
+export const localDateKey = (time: number | string, timeZone?: string): string => {
+  const parts = zonedParts(time, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+/** Hour of day (0–23) of an instant in a timezone; the viewer's when none is given. */
+export const localHour = (time: number | string, timeZone?: string): number => Number(zonedParts(time, timeZone).hour) % 24;
+
+/** Wall-clock date and time ("YYYY-MM-DDTHH:mm") of an instant in a timezone; the viewer's when none is given. */
+export const localDateTime = (time: number | string, timeZone?: string): string => {
+  const parts = zonedParts(time, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}T${String(Number(parts.hour) % 24).padStart(2, '0')}:${parts.minute}`;
+};
+
+/**
+ * Start of a location-local calendar day as an instant. Uses the forecast's UTC offset,
+ * which can be an hour out across a DST change; fine for bucketing daily values.
+ */
+export const dayStart = (day: string, location: WeatherData['location']): number =>
+  Date.parse(`${day}T00:00:00Z`) - location.utcOffsetSeconds * 1000;
+
+/** Formats an instant in the given timezone (the viewer's when undefined). */
+export const formatInZone = (time: number | string, options: Intl.DateTimeFormatOptions, timeZone?: string, locale = 'en-US'): string =>
+  new Date(time).toLocaleString(locale, { ...options, timeZone });
+
+/**
+ * Formats a calendar date ("YYYY-MM-DD"). Daily forecast dates are already local to the
+ * location, so they are formatted as-is rather than shifted through any timezone.
+ */
+export const formatDay = (day: string, options: Intl.DateTimeFormatOptions, locale = 'en-US'): string =>
+  new Date(`${day}T12:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+/**
+ * Nearest whole-hour zone for a longitude, for providers that report no timezone.
+ * Ignores political boundaries and DST but keeps day and night in the right place.
+ */
+export const approximateTimeZone = (lon: number): { timezone: string; utcOffsetSeconds: number } => {
+  const hours = Math.max(-12, Math.min(14, Math.round(lon / 15)));
+  // Etc/GMT zones use POSIX signs: Etc/GMT-9 is nine hours ahead of UTC.
+  const timezone = hours === 0 ? 'Etc/GMT' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+  return { timezone, utcOffsetSeconds: hours * HOUR / 1000 };
+};
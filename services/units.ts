@@ -0,0 +1,185 @@
+import { UnitPreferences, TemperatureUnit, WindUnit, PrecipitationUnit, PressureUnit, DistanceUnit, Language } from '../types';
+import { formatInZone, formatDay } from './timeZones';
+
+const STORAGE_KEY = 'skycast_units';
+// Temperature-only preference written before the full unit model existed.
+const LEGACY_TEMP_KEY = 'tempUnit';
+
+export const METRIC_UNITS: UnitPreferences = { temperature: 'C', wind: 'kmh', precipitation: 'mm', pressure: 'hPa', distance: 'km' };
+const US_UNITS: UnitPreferences = { temperature: 'F', wind: 'mph', precipitation: 'in', pressure: 'inHg', distance: 'mi' };
+const UK_UNITS: UnitPreferences = { temperature: 'C', wind: 'mph', precipitation: 'mm', pressure: 'hPa', distance: 'mi' };
+
+interface CountryProfile {
+  /** Lower-case names and abbreviations users type into the region preference. */
+  names: string[];
+  locale: string;
+  units: UnitPreferences;
+}
+
+const COUNTRY_PROFILES: CountryProfile[] = [
+  { names: ['usa', 'us', 'united states', 'united states of america', 'america'], locale: 'en-US', units: US_UNITS },
+  { names: ['uk', 'united kingdom', 'great britain', 'britain', 'england', 'scotland', 'wales', 'northern ireland'], locale: 'en-GB', units: UK_UNITS },
+  { names: ['canada'], locale: 'en-CA', units: METRIC_UNITS },
+  { names: ['australia'], locale: 'en-AU', units: METRIC_UNITS },
+  { names: ['new zealand', 'nz'], locale: 'en-NZ', units: METRIC_UNITS },
+  { names: ['ireland'], locale: 'en-IE', units: METRIC_UNITS },
+  { names: ['india'], locale: 'en-IN', units: METRIC_UNITS },
+  { names: ['france'], locale: 'fr-FR', units: METRIC_UNITS },
+  { names: ['germany', 'deutschland'], locale: 'de-DE', units: METRIC_UNITS },
+  { names: ['austria'], locale: 'de-AT', units: METRIC_UNITS },
+  { names: ['switzerland'], locale: 'de-CH', units: METRIC_UNITS },
+  { names: ['spain', 'españa'], locale: 'es-ES', units: METRIC_UNITS },
+  { names: ['mexico', 'méxico'], locale: 'es-MX', units: METRIC_UNITS },
+  { names: ['italy', 'italia'], locale: 'it-IT', units: METRIC_UNITS },
+  { names: ['portugal'], locale: 'pt-PT', units: METRIC_UNITS },
+  { names: ['brazil', 'brasil'], locale: 'pt-BR', units: METRIC_UNITS },
+  { names: ['netherlands', 'holland'], locale: 'nl-NL', units: METRIC_UNITS },
+  { names: ['sweden'], locale: 'sv-SE', units: METRIC_UNITS },
+  { names: ['norway'], locale: 'nb-NO', units: METRIC_UNITS },
+  { names: ['denmark'], locale: 'da-DK', units: METRIC_UNITS },
+  { names: ['japan'], locale: 'ja-JP', units: METRIC_UNITS },
+  { names: ['south korea', 'korea'], locale: 'ko-KR', units: METRIC_UNITS },
+  { names: ['china'], locale: 'zh-CN', units: METRIC_UNITS },
+];
+
+const profileFor = (country: string): CountryProfile | undefined => {
+  const name = country.trim().toLowerCase();
+  return name ? COUNTRY_PROFILES.find(p => p.names.includes(name)) : undefined;
+};
+
+/** ISO 3166 code ("US", "GB") for a region preference, when it's recognised. */
+export const countryCodeFor = (country: string): string | undefined => profileFor(country)?.locale.split('-')[1];
+
+/** Unit preset for a region preference; metric where the region isn't recognised. */
+export const unitPresetFor = (country: string): UnitPreferences => ({ ...(profileFor(country)?.units || METRIC_UNITS) });
+
+/**
+ * Formatting locale for a region preference, falling back to the browser's. With a UI language,
+ * the region's conventions are kept but text follows the language: Spanish in the USA is "es-US".
+ */
+export const localeFor = (country: string, language?: Language): string => {
+  const browser = (typeof navigator !== 'undefined' && navigator.language) || 'en-US';
+  const locale = profileFor(country)?.locale || browser;
+  if (!language || locale.split('-')[0] === language) return locale;
+  const region = locale.split('-')[1];
+  return region ? `${language}-${region}` : language;
+};
+
+export const loadUnitPreferences = (country = localStorage.getItem('preferredCountry') || ''): UnitPreferences => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...unitPresetFor(country), ...JSON.parse(saved) };
+  } catch {
+    // Fall through to the preset.
+  }
+  const preset = unitPresetFor(country);
+  const legacy = localStorage.getItem(LEGACY_TEMP_KEY);
+  return legacy === 'C' || legacy === 'F' ? { ...preset, temperature: legacy } : preset;
+};
+
+export const persistUnitPreferences = (units: UnitPreferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(units));
+  localStorage.removeItem(LEGACY_TEMP_KEY);
+};
+
+/** Stable string form, for cache keys of content that embeds converted values. */
+export const unitsKey = (units: UnitPreferences) =>
+  [units.temperature, units.wind, units.precipitation, units.pressure, units.distance].join('-');
+
+export const UNIT_LABELS = {
+  temperature: { C: '°C', F: '°F', K: 'K' } as Record<TemperatureUnit, string>,
+  wind: { kmh: 'km/h', mph: 'mph', ms: 'm/s', kn: 'kn', bft: 'Bft' } as Record<WindUnit, string>,
+  precipitation: { mm: 'mm', in: 'in' } as Record<PrecipitationUnit, string>,
+  pressure: { hPa: 'hPa', inHg: 'inHg', mmHg: 'mmHg' } as Record<PressureUnit, string>,
+  distance: { km: 'km', mi: 'mi' } as Record<DistanceUnit, string>,
+};
+
+// Lower bounds (km/h) of Beaufort forces 1–12.
+const BEAUFORT_KMH = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'F' ? (celsius * 9) / 5 + 32 : unit === 'K' ? celsius + 273.15 : celsius;
+
+export const temperatureToCelsius = (value: number, unit: TemperatureUnit): number =>
+  unit === 'F' ? ((value - 32) * 5) / 9 : unit === 'K' ? value - 273.15 : value;
+
+export const convertWind = (kmh: number, unit: WindUnit): number => {
+  switch (unit) {
+    case 'mph': return kmh / 1.609344;
+    case 'ms': return kmh / 3.6;
+    case 'kn': return kmh / 1.852;
+    case 'bft': return BEAUFORT_KMH.filter(bound => kmh >= bound).length;
+    default: return kmh;
+  }
+};
+
+/** Inverse of convertWind; a Beaufort force maps to the lowest speed in its band. */
+export const windToKmh = (value: number, unit: WindUnit): number => {
+  switch (unit) {
+    case 'mph': return value * 1.609344;
+    case 'ms': return value * 3.6;
+    case 'kn': return value * 1.852;
+    case 'bft': return value <= 0 ? 0 : BEAUFORT_KMH[Math.min(Math.round(value), 12) - 1];
+    default: return value;
+  }
+};
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit): number => unit === 'in' ? mm / 25.4 : mm;
+
+export const convertPressure = (hPa: number, unit: PressureUnit): number =>
+  unit === 'inHg' ? hPa * 0.02953 : unit === 'mmHg' ? hPa * 0.750062 : hPa;
+
+export const convertDistance = (metres: number, unit: DistanceUnit): number => unit === 'mi' ? metres / 1609.344 : metres / 1000;
+
+export interface UnitFormatter {
+  units: UnitPreferences;
+  locale: string;
+  /** Converted and rounded, for charts and comparisons. */
+  temp: (celsius: number) => number;
+  /** Short display form: "21°", or "294 K" for Kelvin. */
+  degrees: (celsius: number) => string;
+  /** Full form with the unit: "21°C". */
+  temperature: (celsius: number) => string;
+  wind: (kmh: number) => string;
+  precipitation: (mm: number) => string;
+  pressure: (hPa: number) => string;
+  distance: (metres: number) => string;
+  number: (value: number, fractionDigits?: number) => string;
+  dateTime: (time: number | string, options: Intl.DateTimeFormatOptions, timeZone?: string) => string;
+  /** Formats a calendar date ("YYYY-MM-DD") without shifting it through a timezone. */
+  day: (day: string, options: Intl.DateTimeFormatOptions) => string;
+}
+
+/** Binds unit preferences and a locale into the formatting helpers the UI renders with. */
+export const createUnitFormatter = (units: UnitPreferences, locale: string): UnitFormatter => {
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+  const number = (value: number, fractionDigits = 0) => {
+    let format = numberFormats.get(fractionDigits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+      numberFormats.set(fractionDigits, format);
+    }
+    return format.format(value);
+  };
+  const temp = (celsius: number) => Math.round(convertTemperature(celsius, units.temperature));
+
+  return {
+    units,
+    locale,
+    temp,
+    degrees: celsius => units.temperature === 'K' ? `${number(temp(celsius))} K` : `${number(temp(celsius))}°`,
+    temperature: celsius => `${number(temp(celsius))}${units.temperature === 'K' ? ' ' : ''}${UNIT_LABELS.temperature[units.temperature]}`,
+    wind: kmh => units.wind === 'bft'
+      ? `${UNIT_LABELS.wind.bft} ${convertWind(kmh, 'bft')}`
+      : `${number(convertWind(kmh, units.wind), units.wind === 'ms' ? 1 : 0)} ${UNIT_LABELS.wind[units.wind]}`,
+    precipitation: mm => `${number(convertPrecipitation(mm, units.precipitation), units.precipitation === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[units.precipitation]}`,
+    pressure: hPa => `${number(convertPressure(hPa, units.pressure), units.pressure === 'inHg' ? 2 : 0)} ${UNIT_LABELS.pressure[units.pressure]}`,
+    distance: metres => {
+      const value = convertDistance(metres, units.distance);
+      return `${number(value, value < 10 ? 1 : 0)} ${UNIT_LABELS.distance[units.distance]}`;
+    },
+    number,
+    dateTime: (time, options, timeZone) => formatInZone(time, options, timeZone, locale),
+    day: (day, options) => formatDay(day, options, locale),
+  };
+};
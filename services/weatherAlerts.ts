@@ -0,0 +1,60 @@
+import { WeatherData, WeatherAlert } from '../types';
+import { Translator } from './i18n';
+import { en } from './locales/en';
+
+const HEURISTIC_PREFIX = 'heuristic:';
+// Days the escalation check looks ahead, today included; the forecast itself may run to 16.
+const OUTLOOK_DAYS = 7;
+
+/**
+ * Heuristic alerts derived from WMO weather codes in the forecast.
+ * These are estimates, not issued warnings; they back up official alerts when none are available.
+ */
+export const deriveWeatherAlerts = (weather: WeatherData): WeatherAlert[] => {
+  const alerts: WeatherAlert[] = [];
+
+  const immediateCodes = [weather.current.weatherCode, ...weather.hourly.weatherCode.slice(0, 12)];
+  if (immediateCodes.some(c => c >= 95)) {
+    alerts.push({
+      type: 'danger',
+      title: en['alerts.storm.title'],
+      message: en['alerts.storm.message'],
+      id: `${HEURISTIC_PREFIX}storm`,
+      icon: 'fa-bolt-lightning',
+      source: 'heuristic'
+    });
+  } else if (immediateCodes.some(c => c === 82 || c === 86)) {
+    alerts.push({
+      type: 'danger',
+      title: en['alerts.downpour.title'],
+      message: en['alerts.downpour.message'],
+      id: `${HEURISTIC_PREFIX}downpour`,
+      icon: 'fa-cloud-showers-heavy',
+      source: 'heuristic'
+    });
+  }
+
+  if (weather.daily.weatherCode.slice(1, OUTLOOK_DAYS).some(c => c === 65 || c === 75)) {
+    alerts.push({
+      type: 'warning',
+      title: en['alerts.escalation.title'],
+      message: en['alerts.escalation.message'],
+      id: `${HEURISTIC_PREFIX}escalation`,
+      icon: 'fa-triangle-exclamation',
+      source: 'heuristic'
+    });
+  }
+
+  return alerts;
+};
+
+/**
+ * Heuristic alerts are built (and cached) with the English catalog's copy; this swaps in the
+ * UI language's text for their id. Other alerts carry their issuer's or user's text.
+ */
+export const localizeAlert = (alert: WeatherAlert, t: Translator): WeatherAlert => {
+  if (alert.source !== 'heuristic' || !alert.id?.startsWith(HEURISTIC_PREFIX)) return alert;
+  const name = alert.id.slice(HEURISTIC_PREFIX.length);
+  if (name !== 'storm' && name !== 'downpour' && name !== 'escalation') return alert;
+  return { ...alert, title: t(`alerts.${name}.title`), message: t(`alerts.${name}.message`) };
+};
@@ -1,124 +1,277 @@
 
-import { WeatherData, GeocodingResult } from '../types';
+import { WeatherData, GeocodingResult, WeatherProvider, Language } from '../types';
+import { fetchWithFailover, createFixtureProvider, skycastApiProvider, openMeteoProvider, metNorwayProvider } from './providers';
+import { approximateTimeZone } from './timeZones';
+import { createTranslator } from './i18n';
+import { countryCodeFor } from './units';
+import { locationKey } from './savedLocations';
+import { slugify } from './linkState';
 
-const BASE_URL = 'https://api.open-meteo.com/v1/forecast';
-const AQI_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
 const GEO_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const FORECAST_DAYS_KEY = 'skycast_forecast_days';
 
-export const fetchWeather = async (lat: number, lon: number, locationName: string, country: string): Promise<WeatherData> => {
-  const weatherParams = new URLSearchParams({
-    latitude: lat.toString(),
-    longitude: lon.toString(),
-    current: 'temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,wind_speed_10m,wind_direction_10m,uv_index',
-    hourly: 'temperature_2m,precipitation_probability,weather_code',
-    daily: 'weather_code,temperature_2m_max,temperature_2m_min',
-    timezone: 'auto',
-    forecast_days: '7'
-  });
+export const FORECAST_DAY_OPTIONS = [3, 7, 10, 14, 16];
+export const DEFAULT_FORECAST_DAYS = 7;
 
-  const aqiParams = new URLSearchParams({
-    latitude: lat.toString(),
-    longitude: lon.toString(),
-    current: 'us_aqi',
-  });
+/**
+ * Replays the recordings in `providers/fixtures` for any location, nearest first. Loaded on first
+ * use so they stay out of the main bundle.
+ */
+const recordedFixtureProvider: WeatherProvider = {
+  id: 'fixture',
+  label: 'Recorded Fixture',
+  fetchForecast: async (lat, lon, signal, days) => {
+    const { RECORDED_FIXTURES } = await import('./providers/fixtures');
+    return createFixtureProvider(RECORDED_FIXTURES, Infinity).fetchForecast(lat, lon, signal, days);
+  },
+};
 
-  const [weatherRes, aqiRes] = await Promise.all([
-    fetch(`${BASE_URL}?${weatherParams.toString()}`),
-    fetch(`${AQI_URL}?${aqiParams.toString()}`)
-  ]);
-
-  if (!weatherRes.ok) throw new Error('Failed to fetch weather data');
-  const weatherData = await weatherRes.json();
-  
-  let aqiValue = 0;
-  if (aqiRes.ok) {
-    const aqiData = await aqiRes.json();
-    aqiValue = aqiData.current?.us_aqi || 0;
-  }
+// Priority order used by fetchWeather; the first provider that answers wins. The app's own API
+// comes first so clients share its cache; the upstreams are called directly if it's unavailable.
+// `VITE_WEATHER_FIXTURES=true` swaps them all for the recordings, for working offline.
+// (`env` is undefined when the API routes import this module on the server.)
+let weatherProviders: WeatherProvider[] = import.meta.env?.VITE_WEATHER_FIXTURES === 'true'
+  ? [recordedFixtureProvider]
+  : [skycastApiProvider, openMeteoProvider, metNorwayProvider];
+
+export const getWeatherProviders = (): WeatherProvider[] => [...weatherProviders];
+
+export const setWeatherProviders = (providers: WeatherProvider[]) => {
+  weatherProviders = [...providers];
+};
+
+/** Requested forecast length in days (1–16). Providers with a shorter horizon return what they have. */
+export const loadForecastDays = (): number => {
+  const saved = Number(localStorage.getItem(FORECAST_DAYS_KEY));
+  return saved >= 1 && saved <= 16 ? saved : DEFAULT_FORECAST_DAYS;
+};
+
+export const persistForecastDays = (days: number) => {
+  localStorage.setItem(FORECAST_DAYS_KEY, String(days));
+};
+
+/** Cache key for a location's forecast; includes the forecast length, so changing it fetches anew. */
+export const weatherCacheKey = (loc: { latitude: number; longitude: number }) => `${locationKey(loc)}|${loadForecastDays()}d`;
+
+export const fetchWeather = async (lat: number, lon: number, locationName: string, country: string): Promise<WeatherData> => {
+  const { forecast, provider } = await fetchWithFailover(weatherProviders, lat, lon, loadForecastDays());
+  const { timezone, utcOffsetSeconds, source, ...data } = forecast;
+  const zone = timezone && utcOffsetSeconds !== undefined ? { timezone, utcOffsetSeconds } : approximateTimeZone(lon);
 
   return {
-    current: {
-      temp: weatherData.current.temperature_2m,
-      weatherCode: weatherData.current.weather_code,
-      isDay: weatherData.current.is_day === 1,
-      windSpeed: weatherData.current.wind_speed_10m,
-      windDirection: weatherData.current.wind_direction_10m,
-      humidity: weatherData.current.relative_humidity_2m,
-      uvIndex: weatherData.current.uv_index,
-      apparentTemp: weatherData.current.apparent_temperature,
-      aqi: aqiValue,
-    },
-    hourly: {
-      time: weatherData.hourly.time.slice(0, 24),
-      temperature: weatherData.hourly.temperature_2m.slice(0, 24),
-      precipitation: weatherData.hourly.precipitation_probability.slice(0, 24),
-      weatherCode: weatherData.hourly.weather_code.slice(0, 24),
-    },
-    daily: {
-      time: weatherData.daily.time,
-      tempMax: weatherData.daily.temperature_2m_max,
-      tempMin: weatherData.daily.temperature_2m_min,
-      weatherCode: weatherData.daily.weather_code,
-    },
+    ...data,
     location: {
       name: locationName,
       country: country,
       latitude: lat,
       longitude: lon,
-    }
+      ...zone,
+    },
+    source: source || provider.id,
   };
 };
 
-export const searchLocation = async (query: string): Promise<GeocodingResult[]> => {
-  if (query.length < 2) return [];
-  const response = await fetch(`${GEO_URL}?name=${encodeURIComponent(query)}&count=10&language=en&format=json`);
+// "40.71, -74.01", "40.71 -74.01" or "40.71N 74.01W".
+const COORDINATES_PATTERN = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])?\s*[,;\s]\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?\s*$/i;
+// A digit within the first three characters, then letters, digits, spaces or a dash:
+// "10001", "75008", "SW1A 1AA", "K1A 0B1" — but not "Paris 75".
+const POSTCODE_PATTERN = /^(?=[a-z]{0,2}\d)[a-z0-9][a-z0-9 -]{1,9}$/i;
+const MAX_SEARCH_RESULTS = 8;
+
+/** Reads "lat, lon" (signed decimals or with N/S/E/W) from a query; null if it isn't a valid pair. */
+export const parseCoordinates = (query: string): { latitude: number; longitude: number } | null => {
+  const match = query.match(COORDINATES_PATTERN);
+  if (!match) return null;
+  const latitude = Number(match[1]) * (match[2]?.toUpperCase() === 'S' ? -1 : 1);
+  const longitude = Number(match[3]) * (match[4]?.toUpperCase() === 'W' ? -1 : 1);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+const normalizePostcode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+const isPostcodeQuery = (query: string) => POSTCODE_PATTERN.test(query) && !/^\d{1,3}$/.test(query);
+
+/**
+ * Name or postal code lookup against the Open-Meteo geocoder, de-duplicated and capped.
+ * Runs behind `/api/geocode`, and in the browser where that route isn't deployed.
+ */
+export const geocodePlaces = async (
+  query: string,
+  language: Language = 'en',
+  countryCode?: string,
+  signal?: AbortSignal
+): Promise<GeocodingResult[]> => {
+  const params = new URLSearchParams({ name: query, count: '20', language, format: 'json' });
+  if (countryCode) params.set('countryCode', countryCode);
+
+  const response = await fetch(`${GEO_URL}?${params}`, { signal });
+  if (!response.ok) throw new Error(`Geocoding error: ${response.status}`);
   const data = await response.json();
   if (!data.results) return [];
-  
+
+  const isPostcode = isPostcodeQuery(query);
+  const postcode = normalizePostcode(query);
   const mappedResults: GeocodingResult[] = data.results.map((item: any) => ({
     name: item.name,
-    country: item.country,
+    country: item.country || '',
     latitude: item.latitude,
     longitude: item.longitude,
+    admin1: item.admin1,
+    admin2: item.admin2,
+    population: item.population,
+    timezone: item.timezone,
+    countryCode: item.country_code,
+    postcode: isPostcode ? item.postcodes?.find((code: string) => normalizePostcode(code).startsWith(postcode)) : undefined,
   }));
 
-  // Deduplicate by name and country to avoid visual duplicates in search dropdown
+  // Same-named places (there are dozens of Springfields) stay distinct; only entries at the same spot merge.
   const uniqueResultsMap = new Map<string, GeocodingResult>();
   mappedResults.forEach(res => {
-    const key = `${res.name}|${res.country}`.toLowerCase();
+    const key = locationKey(res);
     if (!uniqueResultsMap.has(key)) {
       uniqueResultsMap.set(key, res);
     }
   });
 
-  return Array.from(uniqueResultsMap.values()).slice(0, 5);
+  return Array.from(uniqueResultsMap.values()).slice(0, MAX_SEARCH_RESULTS);
+};
+
+/** The named place at a coordinate, from BigDataCloud. `name` is empty where it has none. Runs behind `/api/reverse-geocode`. */
+export const lookupPlace = async (
+  lat: number,
+  lon: number,
+  language: Language = 'en',
+  signal?: AbortSignal
+): Promise<{ name: string; country: string; admin1?: string }> => {
+  const response = await fetch(`https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lon}&localityLanguage=${language}`, { signal });
+  if (!response.ok) throw new Error(`Reverse geocoding error: ${response.status}`);
+  const data = await response.json();
+  return {
+    name: data.city || data.locality || '',
+    country: data.countryName || '',
+    admin1: data.principalSubdivision || undefined,
+  };
+};
+
+/**
+ * Reads a same-origin API route. Where the route isn't deployed (the `vite` dev server answers
+ * with the app shell) or can't be reached, `direct` calls the upstream service instead.
+ */
+export const viaApi = async <T>(path: string, direct: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(path, { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return direct();
+  }
+  if (!response.headers.get('content-type')?.includes('application/json')) return direct();
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error?.message || `API error: ${response.status}`);
+  return body;
+};
+
+/**
+ * Place search for the search boxes. Coordinates resolve to the named place at that point; postal
+ * codes are searched within the preferred region when it's known. Names come back in `language`
+ * where the geocoder has them. Pass `signal` to cancel a superseded search.
+ */
+export const searchLocation = async (query: string, language: Language = 'en', signal?: AbortSignal): Promise<GeocodingResult[]> => {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+
+  const coordinates = parseCoordinates(trimmed);
+  if (coordinates) {
+    const place = await reverseGeocode(coordinates.latitude, coordinates.longitude, language, signal);
+    return [{ ...place, ...coordinates }];
+  }
+
+  const countryCode = isPostcodeQuery(trimmed) ? countryCodeFor(localStorage.getItem('preferredCountry') || '') : undefined;
+  const params = new URLSearchParams({ q: trimmed, language });
+  if (countryCode) params.set('countryCode', countryCode);
+  const { results } = await viaApi<{ results: GeocodingResult[] }>(
+    `/api/geocode?${params}`,
+    async () => ({ results: await geocodePlaces(trimmed, language, countryCode, signal) }),
+    signal
+  );
+  return results;
+};
+
+/**
+ * Resolves a link slug such as "denver-us" or "paris-texas" to a place. Leading words are the
+ * name; the trailing ones, if any, must match the country, its code or the region.
+ */
+export const findPlaceBySlug = async (slug: string, language: Language = 'en'): Promise<GeocodingResult | null> => {
+  const words = slugify(slug).split('-').filter(Boolean);
+  for (let n = words.length; n > 0; n--) {
+    const results = await searchLocation(words.slice(0, n).join(' '), language);
+    const qualifier = words.slice(n).join('-');
+    const match = qualifier
+      ? results.find(r => [r.country, r.countryCode, r.admin1].some(part => part && slugify(part) === qualifier))
+      : results[0];
+    if (match) return match;
+  }
+  return null;
 };
 
-export const reverseGeocode = async (lat: number, lon: number): Promise<{ name: string; country: string }> => {
+export const reverseGeocode = async (
+  lat: number,
+  lon: number,
+  language: Language = 'en',
+  signal?: AbortSignal
+): Promise<{ name: string; country: string; admin1?: string }> => {
+  const t = createTranslator(language);
   try {
-    const response = await fetch(`https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lon}&localityLanguage=en`);
-    const data = await response.json();
-    return {
-      name: data.city || data.locality || 'Unknown Location',
-      country: data.countryName || ''
-    };
-  } catch {
-    return { name: 'Current Location', country: '' };
+    // Rounded to ~100 m so nearby lookups share the route's cache.
+    const params = new URLSearchParams({ lat: lat.toFixed(3), lon: lon.toFixed(3), language });
+    const { place } = await viaApi<{ place: { name: string; country: string; admin1?: string } }>(
+      `/api/reverse-geocode?${params}`,
+      async () => ({ place: await lookupPlace(lat, lon, language, signal) }),
+      signal
+    );
+    return { ...place, name: place.name || t('geo.unknown') };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return { name: t('geo.current'), country: '' };
   }
 };
 
-export const getWeatherDescription = (code: number): { text: string; icon: string; bg: string; image: string; animate: string } => {
-  const codes: Record<number, { text: string; icon: string; bg: string; image: string; animate: string }> = {
-    0: { text: 'Clear Sky', icon: 'fa-sun', bg: 'from-cyan-400 via-blue-500 to-indigo-600', image: 'sunny', animate: 'animate-slow-spin' },
-    1: { text: 'Mainly Clear', icon: 'fa-cloud-sun', bg: 'from-sky-400 via-blue-500 to-blue-700', image: 'clear-sky', animate: 'animate-pulse' },
-    2: { text: 'Partly Cloudy', icon: 'fa-cloud-sun', bg: 'from-blue-300 via-sky-400 to-indigo-500', image: 'partly-cloudy', animate: 'animate-float' },
-    3: { text: 'Overcast', icon: 'fa-cloud', bg: 'from-slate-400 via-gray-500 to-slate-600', image: 'overcast', animate: 'opacity-70' },
-    45: { text: 'Fog', icon: 'fa-smog', bg: 'from-slate-500 via-zinc-600 to-slate-700', image: 'foggy', animate: 'animate-pulse' },
-    48: { text: 'Depositing Rime Fog', icon: 'fa-smog', bg: 'from-zinc-500 via-gray-600 to-zinc-700', image: 'foggy', animate: 'animate-pulse' },
-    51: { text: 'Light Drizzle', icon: 'fa-cloud-rain', bg: 'from-blue-500 via-indigo-600 to-violet-700', image: 'drizzle', animate: 'animate-bounce' },
-    61: { text: 'Slight Rain', icon: 'fa-cloud-showers-heavy', bg: 'from-blue-700 via-indigo-800 to-slate-900', image: 'rainy', animate: 'animate-bounce' },
-    71: { text: 'Slight Snow', icon: 'fa-snowflake', bg: 'from-blue-50 via-sky-100 to-indigo-200', image: 'snowy', animate: 'animate-spin-slow' },
-    95: { text: 'Thunderstorm', icon: 'fa-bolt-lightning', bg: 'from-gray-800 via-slate-900 to-black', image: 'thunderstorm', animate: 'animate-bolt' },
+/** Index of the hourly entry covering the current hour, or the first future one. */
+export const currentHourIndex = (times: string[]): number => {
+  const idx = times.findIndex(t => new Date(t).getTime() + 60 * 60 * 1000 > Date.now());
+  return idx === -1 ? times.length : idx;
+};
+
+/** Drizzle, rain, snow, showers or thunderstorms: weather that sends plans indoors. */
+export const isBadWeatherCode = (code: number) =>
+  (code >= 51 && code <= 67) || (code >= 71 && code <= 86) || code >= 95;
+
+/** Catalog id of a condition; the UI renders it as `condition.<key>`. */
+export type ConditionKey =
+  'clear' | 'mainlyClear' | 'partlyCloudy' | 'overcast' | 'fog' | 'rimeFog' | 'drizzle' | 'rain' | 'snow' | 'thunderstorm' | 'unknown';
+
+interface WeatherDescription {
+  key: ConditionKey;
+  /** English name, for prompts and anywhere without a translator. */
+  text: string;
+  icon: string;
+  bg: string;
+  image: string;
+  animate: string;
+}
+
+export const getWeatherDescription = (code: number): WeatherDescription => {
+  const codes: Record<number, WeatherDescription> = {
+    0: { key: 'clear', text: 'Clear Sky', icon: 'fa-sun', bg: 'from-cyan-400 via-blue-500 to-indigo-600', image: 'sunny', animate: 'animate-slow-spin' },
+    1: { key: 'mainlyClear', text: 'Mainly Clear', icon: 'fa-cloud-sun', bg: 'from-sky-400 via-blue-500 to-blue-700', image: 'clear-sky', animate: 'animate-pulse' },
+    2: { key: 'partlyCloudy', text: 'Partly Cloudy', icon: 'fa-cloud-sun', bg: 'from-blue-300 via-sky-400 to-indigo-500', image: 'partly-cloudy', animate: 'animate-float' },
+    3: { key: 'overcast', text: 'Overcast', icon: 'fa-cloud', bg: 'from-slate-400 via-gray-500 to-slate-600', image: 'overcast', animate: 'opacity-70' },
+    45: { key: 'fog', text: 'Fog', icon: 'fa-smog', bg: 'from-slate-500 via-zinc-600 to-slate-700', image: 'foggy', animate: 'animate-pulse' },
+    48: { key: 'rimeFog', text: 'Depositing Rime Fog', icon: 'fa-smog', bg: 'from-zinc-500 via-gray-600 to-zinc-700', image: 'foggy', animate: 'animate-pulse' },
+    51: { key: 'drizzle', text: 'Light Drizzle', icon: 'fa-cloud-rain', bg: 'from-blue-500 via-indigo-600 to-violet-700', image: 'drizzle', animate: 'animate-bounce' },
+    61: { key: 'rain', text: 'Slight Rain', icon: 'fa-cloud-showers-heavy', bg: 'from-blue-700 via-indigo-800 to-slate-900', image: 'rainy', animate: 'animate-bounce' },
+    71: { key: 'snow', text: 'Slight Snow', icon: 'fa-snowflake', bg: 'from-blue-50 via-sky-100 to-indigo-200', image: 'snowy', animate: 'animate-spin-slow' },
+    95: { key: 'thunderstorm', text: 'Thunderstorm', icon: 'fa-bolt-lightning', bg: 'from-gray-800 via-slate-900 to-black', image: 'thunderstorm', animate: 'animate-bolt' },
   };
 
   let result;
@@ -129,5 +282,5 @@ export const getWeatherDescription = (code: number): { text: string; icon: strin
   else if (code >= 95) result = codes[95];
   else result = codes[code];
 
-  return result || { text: 'Unknown', icon: 'fa-question', bg: 'from-slate-600 via-gray-700 to-slate-800', image: 'weather', animate: '' };
+  return result || { key: 'unknown', text: 'Unknown', icon: 'fa-question', bg: 'from-slate-600 via-gray-700 to-slate-800', image: 'weather', animate: '' };
 };
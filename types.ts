@@ -12,23 +12,71 @@ export interface WeatherData {
     aqi: number;
   };
   hourly: {
+    /** ISO instants (UTC). */
     time: string[];
     temperature: number[];
     precipitation: number[];
     weatherCode: number[];
+    windSpeed: number[];
+    uvIndex: number[];
+    /** Precipitation in mm over the preceding hour. */
+    precipitationAmount: number[];
+    /** Snowfall in cm over the preceding hour. */
+    snowfall: number[];
+    /** km/h */
+    windGusts: number[];
+    /** Sea-level pressure in hPa. */
+    pressure: number[];
+    /** Metres; NaN where the provider doesn't report it. */
+    visibility: number[];
+    /** °C */
+    dewPoint: number[];
+    /** % */
+    cloudCover: number[];
   };
   daily: {
+    /** Calendar dates ("YYYY-MM-DD") local to the location. */
     time: string[];
     tempMax: number[];
     tempMin: number[];
     weatherCode: number[];
+    /** ISO instants (UTC); empty strings during polar day or night. */
+    sunrise: string[];
+    sunset: string[];
+    /** mm */
+    precipitationSum: number[];
+    uvIndexMax: number[];
+    /** km/h */
+    windSpeedMax: number[];
   };
   location: {
     name: string;
     country: string;
     latitude: number;
     longitude: number;
+    /** IANA timezone of the location, e.g. "Asia/Tokyo". */
+    timezone: string;
+    /** UTC offset in seconds at the time of the forecast. */
+    utcOffsetSeconds: number;
   };
+  /** Id of the provider that served this forecast. */
+  source?: string;
+}
+
+/** A forecast as returned by a provider, before the location is attached. */
+export type ProviderForecast = Omit<WeatherData, 'location' | 'source'> & {
+  /** The location's timezone, when the provider knows it. */
+  timezone?: string;
+  utcOffsetSeconds?: number;
+  /** Id of the upstream provider, for providers that relay another one. */
+  source?: string;
+};
+
+export interface WeatherProvider {
+  id: string;
+  label: string;
+  /** `days` is the requested forecast length; providers return what they have up to it. */
+  fetchForecast: (lat: number, lon: number, signal?: AbortSignal, days?: number) => Promise<ProviderForecast>;
 }
 
 export interface GeocodingResult {
@@ -36,14 +84,54 @@ export interface GeocodingResult {
   country: string;
   latitude: number;
   longitude: number;
+  /** First-level region (state, province). */
+  admin1?: string;
+  /** Second-level region (county, district). */
+  admin2?: string;
+  population?: number;
+  timezone?: string;
+  /** Postal code the query matched, for postal code searches. */
+  postcode?: string;
+  /** ISO 3166-1 alpha-2 code, e.g. "US". */
+  countryCode?: string;
 }
 
 export interface NewsItem {
   title: string;
+  /** Summary of the article; empty when the provider gave none. */
   snippet: string;
   url: string;
+  /** Publisher name. */
   source: string;
+  /** ISO publish date; empty when unknown. */
   date: string;
+  /** Set on the client for stories about weather, climate or natural hazards. */
+  weatherRelated?: boolean;
+}
+
+/** One page of `/api/news` results. */
+export interface NewsPage {
+  items: NewsItem[];
+  page: number;
+  /** Matching articles upstream, before duplicates are dropped. */
+  total: number;
+  /** Id of the upstream that served the page. */
+  source: string;
+}
+
+/** The place stories are wanted for; the country tells apart towns that share a name. */
+export interface NewsLocation {
+  name: string;
+  country: string;
+  /** First-level region (state, province), when known. */
+  admin?: string;
+}
+
+export interface NewsProvider {
+  id: string;
+  label: string;
+  /** Recent stories about a place, newest first; empty when the provider has none. */
+  fetchNews: (location: NewsLocation, language: Language, signal?: AbortSignal) => Promise<NewsItem[]>;
 }
 
 export interface Place {
@@ -52,6 +140,31 @@ export interface Place {
   imageUrl?: string;
 }
 
+/** Structured AI briefing for a location. Hours are 0–23 in the location's local time. */
+export interface AIInsight {
+  summary: string;
+  clothing: string;
+  /** Best stretch of the next 24 hours for outdoor plans; null when there is none. */
+  bestWindow: { startHour: number; endHour: number } | null;
+  umbrella: boolean;
+  sunscreen: boolean;
+  /** Short notes on hazards worth planning around; empty when there are none. */
+  risks: string[];
+}
+
+/** One turn of the weather assistant chat. */
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Streamed from `/api/chat` as newline-delimited JSON while a reply is generated. */
+export type ChatEvent =
+  | { type: 'text'; text: string }
+  /** A lookup the assistant is running: `search_location` or `get_weather`, for a place. */
+  | { type: 'tool'; name: string; query: string }
+  | { type: 'error'; message: string };
+
 export interface Movie {
   title: string;
   theaters: string[];
@@ -64,6 +177,38 @@ export interface HistoryEvent {
   description: string;
 }
 
+export interface ClimateRecord {
+  /** °C. */
+  value: number;
+  year: number;
+}
+
+/** How a calendar day has gone at a location over the archive. */
+export interface ClimateDay {
+  /** The day described, "YYYY-MM-DD"; only its month and day matter. */
+  date: string;
+  recordHigh: ClimateRecord | null;
+  recordLow: ClimateRecord | null;
+  /** 1991–2020 mean daily high and low around the date, in °C. */
+  normalHigh: number | null;
+  normalLow: number | null;
+  /** First year the records were searched from. */
+  since: number;
+}
+
+/** Statistics over a stretch of archived weather; temperatures in °C, precipitation in mm, wind in km/h. */
+export interface HistorySummary {
+  days: number;
+  meanTemp: number;
+  maxTemp: { value: number; time: string };
+  minTemp: { value: number; time: string };
+  totalPrecipitation: number;
+  maxGust: number;
+  /** Sums of each day's mean below and above the 18.3 °C (65 °F) base. */
+  heatingDegreeDays: number;
+  coolingDegreeDays: number;
+}
+
 export interface SavedLocation {
   name: string;
   country: string;
@@ -71,6 +216,127 @@ export interface SavedLocation {
   longitude: number;
 }
 
+/** View state carried in a shareable link. */
+export interface LinkState {
+  location?: SavedLocation;
+  /** Place named by a `/w/<slug>` path without coordinates, e.g. "denver-us". */
+  slug?: string;
+  /** Hourly chart window, in hours. */
+  range?: number;
+  unit?: TemperatureUnit;
+}
+
+export type TemperatureUnit = 'C' | 'F' | 'K';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn' | 'bft';
+export type PrecipitationUnit = 'mm' | 'in';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type DistanceUnit = 'km' | 'mi';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  precipitation: PrecipitationUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+}
+
+export type Language = 'en' | 'es' | 'fr' | 'de' | 'ar';
+
+export type AlertSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown';
+export type AlertUrgency = 'Immediate' | 'Expected' | 'Future' | 'Past' | 'Unknown';
+
+export interface WeatherAlert {
+  type: 'danger' | 'warning';
+  title: string;
+  message: string;
+  icon: string;
+  /**
+   * 'official' for issued warnings, 'heuristic' for alerts inferred from forecast codes,
+   * 'rule' for user-defined threshold rules.
+   */
+  source: 'official' | 'heuristic' | 'rule';
+  id?: string;
+  ruleId?: string;
+  /** Epoch ms span of the condition that raised the alert; dismissals last until its end. */
+  windowStart?: number;
+  windowEnd?: number;
+  severity?: AlertSeverity;
+  urgency?: AlertUrgency;
+  onset?: string;
+  expires?: string;
+  issuer?: string;
+  areaDesc?: string;
+  url?: string;
+}
+
+export type RuleMetric = 'temp' | 'apparentTemp' | 'windSpeed' | 'precipProbability' | 'uvIndex' | 'aqi' | 'humidity';
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+export type RuleWindow = 'now' | 'next6h' | 'next12h' | 'next24h' | 'today' | 'overnight' | 'week';
+
+/** A user-defined threshold alert. Thresholds are stored in base units (°C, km/h, %). */
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  threshold: number;
+  window: RuleWindow;
+  severity: WeatherAlert['type'];
+  message: string;
+  enabled: boolean;
+}
+
+/** A user-editable activity for the planner. Limits are stored in base units (°C, km/h, %). */
+export interface ActivityProfile {
+  id: string;
+  name: string;
+  icon: string;
+  minTemp: number;
+  maxTemp: number;
+  maxWind: number;
+  maxPrecipProbability: number;
+  maxUv: number;
+  /** US AQI; only current air quality is known, so it applies to the next few hours. */
+  maxAqi: number;
+  daylightOnly: boolean;
+}
+
+/** A run of consecutive hours that suit an activity, as indices into `hourly`. */
+export interface ActivityWindow {
+  startIndex: number;
+  /** Exclusive. */
+  endIndex: number;
+  /** ISO instant of the first hour. */
+  start: string;
+  /** ISO instant the window ends, one hour after its last hour starts. */
+  end: string;
+  /** Mean hour score, 0–100. */
+  score: number;
+}
+
+export interface CapArea {
+  areaDesc: string;
+  polygons: [number, number][][];
+  geocodes: { valueName: string; value: string }[];
+}
+
+/** A single alert parsed from a CAP 1.2 document or CAP-flavoured Atom entry. */
+export interface CapAlert {
+  id: string;
+  sender: string;
+  event: string;
+  headline: string;
+  description: string;
+  instruction: string;
+  severity: AlertSeverity;
+  urgency: AlertUrgency;
+  certainty: string;
+  onset: string;
+  expires: string;
+  web: string;
+  areas: CapArea[];
+}
+
 export type ImageSize = "1K" | "2K" | "4K";
 
 export interface ImageGenerationConfig {
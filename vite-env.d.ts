@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the local push stub (scripts/push-stub.mjs); enables simulated pushes. */
+  readonly VITE_PUSH_STUB_URL?: string;
+  /** Web Push application server key and the server that stores subscriptions. */
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+  readonly VITE_PUSH_SERVER_URL?: string;
+  /** "true" to serve recorded forecasts (services/providers/fixtures) instead of calling providers. */
+  readonly VITE_WEATHER_FIXTURES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
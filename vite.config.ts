@@ -1,19 +1,44 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+/**
+ * Fills `BUILD_ASSETS` in the built service worker with the hashed files under /assets,
+ * so they are precached on install rather than only once the page first requests them.
+ */
+const precacheAssets = (): Plugin => {
+  let outDir = '';
+  let assets: string[] = [];
+  return {
+    name: 'skycast-precache-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_, bundle) {
+      assets = Object.keys(bundle).filter(file => file.startsWith('assets/')).map(file => `/${file}`).sort();
+    },
+    // Public files (sw.js among them) are copied by the time the bundle is closed.
+    closeBundle() {
+      const worker = path.join(outDir, 'sw.js');
+      if (!fs.existsSync(worker)) return;
+      const source = fs.readFileSync(worker, 'utf8');
+      if (!source.includes('const BUILD_ASSETS = [];')) {
+        throw new Error('sw.js no longer declares `const BUILD_ASSETS = [];` for the precache list');
+      }
+      fs.writeFileSync(worker, source.replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+  };
+};
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), precacheAssets()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),